@@ -0,0 +1,100 @@
+// scripts/fetch-vision-models.js
+/**
+ * Download the on-device MediaPipe models into public/models so they ship with the app bundle.
+ * Runs before `dev` and `build`. Versions and checksums are pinned in vision-models.json: a model
+ * already present with the pinned checksum is kept without any network access, a corrupt or
+ * outdated one is downloaded again, and a download not matching its checksum is rejected.
+ *
+ *   node scripts/fetch-vision-models.js             # fails when a model cannot be fetched (build)
+ *   node scripts/fetch-vision-models.js --optional  # warns only (dev, offline work)
+ *   node scripts/fetch-vision-models.js --pin       # records the checksums of the pinned versions
+ */
+
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, unlinkSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const SCRIPTS_DIR = dirname(fileURLToPath(import.meta.url));
+const MODELS_DIR = join(SCRIPTS_DIR, '..', 'public', 'models');
+const MANIFEST_PATH = join(SCRIPTS_DIR, 'vision-models.json');
+
+/**
+ * Versioned files of the official MediaPipe model storage, keyed by the app default file names
+ * (VITE_*_MODEL_URL override them). Bump the version in the URL and run --pin to upgrade a model.
+ */
+const manifest = JSON.parse(readFileSync(MANIFEST_PATH, 'utf8'));
+
+const optional = process.argv.includes('--optional');
+const pin = process.argv.includes('--pin');
+
+function sha256(data) {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+async function download(url) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+async function fetchModel(file, { url, sha256: expected }) {
+  const target = join(MODELS_DIR, file);
+
+  if (existsSync(target) && !pin) {
+    const actual = sha256(readFileSync(target));
+    if (!expected) {
+      console.warn(`[models] ${file} has no pinned checksum, keeping the local file (run with --pin to record ${actual})`);
+      return;
+    }
+    if (actual === expected) return;
+    console.warn(`[models] ${file} does not match its pinned checksum, downloading it again`);
+  }
+
+  const data = await download(url);
+  const actual = sha256(data);
+  if (pin) {
+    manifest[file].sha256 = actual;
+  } else if (!expected) {
+    console.warn(`[models] ${file} has no pinned checksum (run with --pin to record ${actual})`);
+  } else if (actual !== expected) {
+    throw new Error(`checksum mismatch (expected ${expected}, got ${actual})`);
+  }
+
+  // Written under a temporary name so an interrupted download never looks complete
+  writeFileSync(`${target}.part`, data);
+  renameSync(`${target}.part`, target);
+  console.log(`[models] ${file} downloaded (${Math.round(data.length / 1024)} KB)`);
+}
+
+mkdirSync(MODELS_DIR, { recursive: true });
+
+let failed = 0;
+for (const [file, model] of Object.entries(manifest)) {
+  try {
+    await fetchModel(file, model);
+  } catch (error) {
+    failed++;
+    const target = join(MODELS_DIR, file);
+    // A file failing its checksum must not be picked up by the next run or the bundle
+    if (existsSync(target) && model.sha256 && sha256(readFileSync(target)) !== model.sha256) {
+      unlinkSync(target);
+    }
+    console.error(`[models] ${file} could not be downloaded from ${model.url}: ${error.message}`);
+  }
+}
+
+if (pin && failed === 0) {
+  writeFileSync(MANIFEST_PATH, `${JSON.stringify(manifest, null, 2)}\n`);
+  console.log(`[models] Checksums recorded in ${MANIFEST_PATH}`);
+}
+
+if (failed > 0) {
+  if (optional) {
+    console.warn('[models] Continuing without the missing models: the features using them report themselves unavailable');
+  } else {
+    process.exit(1);
+  }
+}
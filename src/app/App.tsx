@@ -18,6 +18,7 @@ import Sidebar from './shell/Sidebar';
 import NewMobileBottomBar from './shell/NewMobileBottomBar';
 
 import logger from '../lib/utils/logger';
+import { useScanQueueSync } from './pages/BodyScan/BodyScanCapture/hooks/usePendingScans';
 
 /* Pages (functional file) */
 import Home from './pages/Home';
@@ -36,7 +37,10 @@ import FaceScanReviewPage from './pages/FaceScan/FaceScanReviewPage';
 function AppContent() {
   const location = useLocation();
   const navigate = useNavigate();
-  const { authReady } = useUserStore();
+  const { authReady, profile, sessionInfo } = useUserStore();
+
+  /* Scans capturés hors ligne : renvoi automatique au retour du réseau */
+  useScanQueueSync(sessionInfo?.userId || profile?.userId);
 
   /* Design-file: overlay -> lock/unlock body scroll */
   const { isAnyOpen } = useOverlayStore();
@@ -12,8 +12,8 @@ import { useProgressStore } from '../../system/store/progressStore';
 import DynamicProgressHeader from '../shell/Header/DynamicProgressHeader';
 import ImmersivePhotoAnalysis from '../pages/BodyScan/BodyScanCapture/components/ImmersivePhotoAnalysis';
 import BodyScanPhotoCaptureStep from '../pages/BodyScan/BodyScanCapture/BodyScanPhotoCaptureStep';
-import { bodyScanRepo } from '../../system/data/repositories/bodyScanRepo';
-import type { PhotoCaptureReport, CapturedPhotoEnhanced } from '../../domain/types';
+import { api } from '../../system/data/dataSource';
+import type { PhotoCaptureReport, CapturedPhotoEnhanced, CaptureView } from '../../domain/types';
 import logger from '../../lib/utils/logger';
 
 type FaceScanStep = 'capture' | 'processing' | 'results';
@@ -63,7 +63,7 @@ const FaceScanFlow: React.FC<FaceScanFlowProps> = ({ onClose, onScanComplete })
   // Handle photo capture (reusing BodyScanPhotoCaptureStep's logic)
   const handlePhotoCapture = useCallback(async (
     file: File,
-    type: 'front' | 'profile', // Assuming only front and profile for face
+    type: CaptureView, // Face scans only capture front and profile
     captureReport: PhotoCaptureReport
   ) => {
     const photo: CapturedPhotoEnhanced = {
@@ -94,7 +94,7 @@ const FaceScanFlow: React.FC<FaceScanFlowProps> = ({ onClose, onScanComplete })
     }
   }, [setOverallProgress]);
 
-  const handleRetake = useCallback((type: 'front' | 'profile') => {
+  const handleRetake = useCallback((type: CaptureView) => {
     setCapturedPhotos(prev => prev.filter(p => p.type !== type));
     logger.info('FACE_SCAN_FLOW', 'Photo retake', { type });
   }, []);
@@ -124,7 +124,7 @@ const FaceScanFlow: React.FC<FaceScanFlowProps> = ({ onClose, onScanComplete })
     try {
       // 1. Appel face-semantic
       setOverallProgress(75, 'Analyse IA Faciale', 'Analyse sémantique du visage...');
-      const semanticResult = await bodyScanRepo.semantic({
+      const semanticResult = await api().bodyScan.semantic({
         user_id: userId,
         photos: capturedPhotos.map(p => ({ url: p.url, view: p.type, report: p.captureReport })),
         extracted_data: {}, // Face semantic doesn't use body extracted_data directly
@@ -135,7 +135,7 @@ const FaceScanFlow: React.FC<FaceScanFlowProps> = ({ onClose, onScanComplete })
 
       // 2. Appel face-match
       setOverallProgress(80, 'Analyse IA Faciale', 'Recherche d\'archétypes faciaux...');
-      const matchResult = await bodyScanRepo.match({
+      const matchResult = await api().bodyScan.match({
         user_id: userId,
         extracted_data: {}, // Face match doesn't use body extracted_data directly
         semantic_profile: semanticResult.semantic_profile, // Use semantic result for matching
@@ -150,7 +150,7 @@ const FaceScanFlow: React.FC<FaceScanFlowProps> = ({ onClose, onScanComplete })
 
       // 3. Appel face-refine-morphs
       setOverallProgress(85, 'Analyse IA Faciale', 'Raffinement IA des paramètres faciaux...');
-      const refineResult = await bodyScanRepo.refine({
+      const refineResult = await api().bodyScan.refine({
         scan_id: clientScanId,
         user_id: userId,
         resolvedGender: userGender === 'male' ? 'masculine' : 'feminine',
@@ -166,7 +166,7 @@ const FaceScanFlow: React.FC<FaceScanFlowProps> = ({ onClose, onScanComplete })
 
       // 4. Appel face-commit
       setOverallProgress(95, 'Sauvegarde des Données', 'Finalisation de votre avatar facial...');
-      const commitResult = await bodyScanRepo.commit({
+      const commitResult = await api().bodyScan.commit({
         user_id: userId,
         resolvedGender: userGender,
         estimate_result: {}, // Not directly used for face commit, but required by type
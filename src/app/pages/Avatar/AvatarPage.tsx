@@ -8,9 +8,10 @@ import PageHeader from '../../../ui/page/PageHeader';
 import AvatarTab from './tabs/AvatarTab';
 import InsightsTab from './tabs/InsightsTab';
 import HistoryTab from './tabs/HistoryTab';
+import TrendsTab from './tabs/TrendsTab';
 import logger from '../../../lib/utils/logger';
 
-type TabKey = 'avatar' | 'insights' | 'history';
+type TabKey = 'avatar' | 'insights' | 'history' | 'trends';
 
 /**
  * Get dynamic header content based on active tab
@@ -42,6 +43,14 @@ function getTabHeaderContent(activeTab: TabKey) {
         circuit: 'avatar' as const,
         color: '#06B6D4',
       };
+    case 'trends':
+      return {
+        icon: 'TrendingUp' as const,
+        title: 'Tendances',
+        subtitle: "Suivez l'évolution de vos mesures scan après scan",
+        circuit: 'avatar' as const,
+        color: '#10B981',
+      };
     default:
       return {
         icon: 'Eye' as const,
@@ -55,8 +64,8 @@ function getTabHeaderContent(activeTab: TabKey) {
 
 /**
  * Avatar Page
- * - 3 onglets : Avatar / Insights / Historique
- * - Tabs non contrôlé avec defaultValue="avatar" -> Avatar sélectionné par défaut
+ * - 4 onglets : Avatar / Insights / Historique / Tendances
+ * - Tabs non contrôlé, initialisé depuis le hash (#history...) -> Avatar par défaut
  * - On met à jour le hash quand l’utilisateur change d’onglet pour URL partageable
  */
 const AvatarPage: React.FC = () => {
@@ -67,7 +76,7 @@ const AvatarPage: React.FC = () => {
   // Onglet actif *pour l'entête uniquement* (si pas de hash -> 'avatar')
   const activeTab = React.useMemo<TabKey>(() => {
     const hash = location.hash.replace('#', '');
-    return (['avatar', 'insights', 'history'] as TabKey[]).includes(hash as TabKey)
+    return (['avatar', 'insights', 'history', 'trends'] as TabKey[]).includes(hash as TabKey)
       ? (hash as TabKey)
       : 'avatar';
   }, [location.hash]);
@@ -108,7 +117,7 @@ const AvatarPage: React.FC = () => {
 
       <Tabs
         // ⚠️ Non contrôlé : on laisse Tabs gérer l’état interne
-        defaultValue="avatar" // --> Avatar sélectionné par défaut à l’arrivée
+        defaultValue={activeTab} // --> onglet du hash à l’arrivée (Avatar sinon)
         className="w-full min-w-0 avatar-tabs"
         onValueChange={handleTabChange}
       >
@@ -128,6 +137,10 @@ const AvatarPage: React.FC = () => {
           <Tabs.Trigger value="history" icon="History" aria-controls="panel-history">
             <span className="tab-text">Historique</span>
           </Tabs.Trigger>
+
+          <Tabs.Trigger value="trends" icon="TrendingUp" aria-controls="panel-trends">
+            <span className="tab-text">Tendances</span>
+          </Tabs.Trigger>
         </Tabs.List>
 
         <Tabs.Panel id="panel-avatar" value="avatar">
@@ -141,6 +154,10 @@ const AvatarPage: React.FC = () => {
         <Tabs.Panel id="panel-history" value="history">
           <HistoryTab />
         </Tabs.Panel>
+
+        <Tabs.Panel id="panel-trends" value="trends">
+          <TrendsTab />
+        </Tabs.Panel>
       </Tabs>
     </div>
   );
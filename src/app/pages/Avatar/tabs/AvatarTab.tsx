@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import { useNavigate } from 'react-router-dom';
 import Avatar3DViewer from '../../../../components/3d/Avatar3DViewer';
@@ -8,6 +8,9 @@ import { ICONS } from '../../../../ui/icons/registry';
 import { useProfileAvatarData } from '../../Profile/hooks/useProfileAvatarData';
 import { isSkinToneV2, type SkinToneV2 } from '../../../../lib/scan/normalizeSkinTone';
 import MorphologyInsightsCard from './components/MorphologyInsightsCard';
+import AvatarExportButton from './components/AvatarExportButton';
+import MeshMeasurementsCard from './components/MeshMeasurementsCard';
+import type { Avatar3DViewerRef } from '../../../../components/3d/Avatar3DViewer/utils/viewerTypes';
 import logger from '../../../../lib/utils/logger';
 
 /**
@@ -16,6 +19,7 @@ import logger from '../../../../lib/utils/logger';
  */
 const AvatarTab: React.FC = () => {
   const navigate = useNavigate();
+  const avatar3DRef = useRef<Avatar3DViewerRef>(null);
   
   // Use existing avatar data hook
   const { latestScanData, isLoading, error, profile } = useProfileAvatarData(); // Ajout de 'profile'
@@ -217,17 +221,21 @@ const AvatarTab: React.FC = () => {
             Votre Avatar 3D
           </h3>
           
-          {avatarVersion && (
-            <div className="text-right">
-              <div className="text-white/40 text-xs">
-                Version {avatarVersion}
+          <div className="flex items-center gap-3">
+            {avatarVersion && (
+              <div className="text-right">
+                <div className="text-white/40 text-xs">
+                  Version {avatarVersion}
+                </div>
               </div>
-            </div>
-          )}
+            )}
+            <AvatarExportButton viewerRef={avatar3DRef} heightCm={userProfile?.height_cm} />
+          </div>
         </div>
         
         <div className="h-[400px] sm:h-[500px] lg:h-[600px] rounded-xl bg-gradient-to-br from-purple-500/10 to-blue-500/10 border border-purple-400/20 relative overflow-hidden">
           <Avatar3DViewer
+            ref={avatar3DRef}
             userProfile={userProfile}
             morphData={displayMorphData}
             limbMasses={latestScanData.finalLimbMasses || latestScanData.morphData}
@@ -242,6 +250,13 @@ const AvatarTab: React.FC = () => {
         </div>
       </GlassCard>
       
+      {/* Mesures extraites du maillage */}
+      <MeshMeasurementsCard
+        viewerRef={avatar3DRef}
+        heightCm={userProfile?.height_cm}
+        scanId={latestScanData.scanId}
+      />
+
       {/* Morphology Insights */}
       {latestScanData.finalShapeParams && (
         <MorphologyInsightsCard
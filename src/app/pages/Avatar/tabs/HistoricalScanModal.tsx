@@ -6,7 +6,7 @@ import GlassCard from '../../../../ui/cards/GlassCard';
 import SpatialIcon from '../../../../ui/icons/SpatialIcon';
 import { ICONS } from '../../../../ui/icons/registry';
 import Avatar3DViewer from '../../../../components/3d/Avatar3DViewer';
-import { bodyScanRepo } from '../../../../system/data/repositories/bodyScanRepo';
+import { api } from '../../../../system/data/dataSource';
 import { useUserStore } from '../../../../system/store/userStore';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
@@ -25,7 +25,7 @@ const HistoricalScanModal: React.FC<HistoricalScanModalProps> = ({ scanId, onClo
 
   const { data: scan, isLoading, error } = useQuery({
     queryKey: ['historical-scan', scanId],
-    queryFn: () => bodyScanRepo.getById(scanId),
+    queryFn: () => api().bodyScan.getById(scanId),
     enabled: !!scanId,
     staleTime: Infinity,
     gcTime: 24 * 60 * 60 * 1000,
@@ -6,10 +6,12 @@ import GlassCard from '../../../../ui/cards/GlassCard';
 import SpatialIcon from '../../../../ui/icons/SpatialIcon';
 import { ICONS } from '../../../../ui/icons/registry';
 import { useUserStore } from '../../../../system/store/userStore';
-import { bodyScanRepo } from '../../../../system/data/repositories/bodyScanRepo';
+import { api } from '../../../../system/data/dataSource';
 import { format } from 'date-fns';
 import { fr } from 'date-fns/locale';
 import HistoricalScanModal from './HistoricalScanModal';
+import ScanComparisonModal from './ScanComparisonModal';
+import PendingScansSection from './components/PendingScansSection';
 
 const isValidNumber = (n: unknown): n is number =>
   typeof n === 'number' && Number.isFinite(n);
@@ -63,10 +65,13 @@ const HistoryTab: React.FC = () => {
 
   const [selectedScanId, setSelectedScanId] = useState<string | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  const [compareScanIds, setCompareScanIds] = useState<string[]>([]);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
 
   const { data: scans, isLoading, error } = useQuery({
     queryKey: ['body-scan-history', userId],
-    queryFn: () => bodyScanRepo.getHistory(userId!),
+    queryFn: () => api().bodyScan.getHistory(userId!),
     enabled: !!userId,
     staleTime: 5 * 60 * 1000,
     gcTime: 10 * 60 * 1000,
@@ -82,6 +87,19 @@ const HistoryTab: React.FC = () => {
     setIsModalOpen(false);
   };
 
+  // En mode comparaison, un clic sélectionne le scan (2 max, le plus ancien sélectionné est remplacé)
+  const handleToggleCompareScan = (scanId: string) => {
+    setCompareScanIds((prev) => {
+      if (prev.includes(scanId)) return prev.filter((id) => id !== scanId);
+      return [...prev, scanId].slice(-2);
+    });
+  };
+
+  const handleToggleCompareMode = () => {
+    setIsCompareMode((prev) => !prev);
+    setCompareScanIds([]);
+  };
+
   if (isLoading) {
     return (
       <GlassCard className="text-center p-8">
@@ -107,16 +125,19 @@ const HistoryTab: React.FC = () => {
 
   if (!scans || scans.length === 0) {
     return (
-      <GlassCard className="text-center p-8">
-        <SpatialIcon Icon={ICONS.Info} size={48} className="text-blue-400 mx-auto mb-4" />
-        <h3 className="text-xl font-bold text-white mb-3">Aucun scan trouvé</h3>
-        <p className="text-white/70 text-sm mb-6">
-          Vous n'avez pas encore d'historique de scans corporels. Effectuez votre premier scan !
-        </p>
-        <button onClick={() => (window.location.href = '/body-scan')} className="btn-glass--primary">
-          Commencer un scan
-        </button>
-      </GlassCard>
+      <div className="space-y-6 profile-section-container">
+        {userId && <PendingScansSection userId={userId} />}
+        <GlassCard className="text-center p-8">
+          <SpatialIcon Icon={ICONS.Info} size={48} className="text-blue-400 mx-auto mb-4" />
+          <h3 className="text-xl font-bold text-white mb-3">Aucun scan trouvé</h3>
+          <p className="text-white/70 text-sm mb-6">
+            Vous n'avez pas encore d'historique de scans corporels. Effectuez votre premier scan !
+          </p>
+          <button onClick={() => (window.location.href = '/body-scan')} className="btn-glass--primary">
+            Commencer un scan
+          </button>
+        </GlassCard>
+      </div>
     );
   }
 
@@ -124,6 +145,31 @@ const HistoryTab: React.FC = () => {
 
   return (
     <div className="space-y-6 profile-section-container">
+      {userId && <PendingScansSection userId={userId} />}
+
+      {scans.length >= 2 && (
+        <div className="flex flex-wrap items-center justify-end gap-3">
+          {isCompareMode && (
+            <span className="text-white/60 text-sm">
+              {compareScanIds.length}/2 scans sélectionnés
+            </span>
+          )}
+          {isCompareMode && (
+            <button
+              onClick={() => setIsCompareOpen(true)}
+              disabled={compareScanIds.length !== 2}
+              className="btn-glass--primary px-4 py-2 text-sm disabled:opacity-50"
+            >
+              Comparer
+            </button>
+          )}
+          <button onClick={handleToggleCompareMode} className="btn-glass--secondary-nav px-4 py-2 text-sm flex items-center gap-2">
+            <SpatialIcon Icon={isCompareMode ? ICONS.X : ICONS.GitCompare} size={16} />
+            {isCompareMode ? 'Annuler' : 'Comparer deux scans'}
+          </button>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         <AnimatePresence>
           {scans.map((scan: any) => {
@@ -168,6 +214,8 @@ const HistoryTab: React.FC = () => {
               metrics?.estimate_result?.extracted_data?.processing_confidence
             );
 
+            const isSelectedForCompare = compareScanIds.includes(scan.id);
+
             return (
               <motion.div
                 key={scan.id}
@@ -178,8 +226,8 @@ const HistoryTab: React.FC = () => {
               >
                 <GlassCard
                   interactive
-                  className="p-6 space-y-4"
-                  onClick={() => handleViewScan(scan.id)}
+                  className={`p-6 space-y-4 ${isSelectedForCompare ? 'ring-2 ring-blue-400/60' : ''}`}
+                  onClick={() => (isCompareMode ? handleToggleCompareScan(scan.id) : handleViewScan(scan.id))}
                 >
                   {/* En-tête */}
                   <div className="flex items-center justify-between">
@@ -189,8 +237,11 @@ const HistoryTab: React.FC = () => {
                         Scan du {format(scanDate, 'dd MMMM yyyy', { locale: fr })}
                       </h4>
                     </div>
-                    <div className="text-xs text-white/50">
+                    <div className="flex items-center gap-2 text-xs text-white/50">
                       {format(scanDate, 'HH:mm', { locale: fr })}
+                      {isSelectedForCompare && (
+                        <SpatialIcon Icon={ICONS.Check} size={16} className="text-blue-300" />
+                      )}
                     </div>
                   </div>
 
@@ -216,7 +267,7 @@ const HistoryTab: React.FC = () => {
                   {/* Séparateur + bouton (espacé) */}
                   <div className="pt-4 mt-2 border-t border-white/10">
                     <button className="btn-glass--secondary-nav w-full py-2 text-sm">
-                      Voir le scan
+                      {isCompareMode ? (isSelectedForCompare ? 'Sélectionné' : 'Sélectionner') : 'Voir le scan'}
                     </button>
                   </div>
                 </GlassCard>
@@ -231,6 +282,15 @@ const HistoryTab: React.FC = () => {
           <HistoricalScanModal scanId={selectedScanId} onClose={handleCloseModal} />
         )}
       </AnimatePresence>
+
+      <AnimatePresence>
+        {isCompareOpen && compareScanIds.length === 2 && (
+          <ScanComparisonModal
+            scanIds={[compareScanIds[0], compareScanIds[1]]}
+            onClose={() => setIsCompareOpen(false)}
+          />
+        )}
+      </AnimatePresence>
     </div>
   );
 };
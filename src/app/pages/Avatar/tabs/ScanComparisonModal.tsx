@@ -0,0 +1,269 @@
+// src/app/pages/Avatar/tabs/ScanComparisonModal.tsx
+import React, { useRef, useEffect, useState, useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { useQuery } from '@tanstack/react-query';
+import GlassCard from '../../../../ui/cards/GlassCard';
+import SpatialIcon from '../../../../ui/icons/SpatialIcon';
+import { ICONS } from '../../../../ui/icons/registry';
+import Avatar3DViewer from '../../../../components/3d/Avatar3DViewer';
+import type { Avatar3DViewerProps, Avatar3DViewerRef } from '../../../../components/3d/Avatar3DViewer/utils/viewerTypes';
+import { api } from '../../../../system/data/dataSource';
+import { useUserStore } from '../../../../system/store/userStore';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import ComparisonDeltaTable from './compare/ComparisonDeltaTable';
+import { computeScanComparison, orderScanPair } from './compare/scanComparison';
+import type { UserProfile } from '../../../../domain/profile';
+import type { BodyScan } from '../../../../domain/types';
+
+interface ScanComparisonModalProps {
+  scanIds: [string, string];
+  onClose: () => void;
+}
+
+type CompareLayout = 'side-by-side' | 'ghost';
+type CameraView = 'front' | 'profile' | 'threequarter';
+
+const CAMERA_VIEWS: Array<{ view: CameraView; label: string }> = [
+  { view: 'front', label: 'Face' },
+  { view: 'threequarter', label: '3/4' },
+  { view: 'profile', label: 'Profil' },
+];
+
+const useHistoricalScan = (scanId: string) =>
+  useQuery({
+    queryKey: ['historical-scan', scanId],
+    queryFn: (): Promise<BodyScan> => api().bodyScan.getById(scanId),
+    enabled: !!scanId,
+    staleTime: Infinity,
+    gcTime: 24 * 60 * 60 * 1000,
+  });
+
+/**
+ * Profil attendu par le viewer : le genre du scan prime, la taille et le poids viennent du profil
+ */
+const toViewerProfile = (scan: BodyScan, profile: UserProfile | null): Avatar3DViewerProps['userProfile'] => ({
+  sex: scan.metrics?.resolved_gender || (profile?.sex === 'female' ? 'female' : 'male'),
+  height_cm: profile?.height_cm ?? 175,
+  weight_kg: profile?.weight_kg ?? 70,
+});
+
+const ScanComparisonModal: React.FC<ScanComparisonModalProps> = ({ scanIds, onClose }) => {
+  const { profile } = useUserStore();
+
+  const baselineViewerRef = useRef<Avatar3DViewerRef>(null);
+  const currentViewerRef = useRef<Avatar3DViewerRef>(null);
+  const [layout, setLayout] = useState<CompareLayout>('side-by-side');
+  const [activeView, setActiveView] = useState<CameraView>('front');
+  const [ghostOpacity, setGhostOpacity] = useState(0.5);
+  // Viewers ayant signalé être prêts, par clé disposition + scan : un viewer recréé repart de zéro
+  const [readyViewers, setReadyViewers] = useState<string[]>([]);
+
+  const first = useHistoricalScan(scanIds[0]);
+  const second = useHistoricalScan(scanIds[1]);
+  const isLoading = first.isLoading || second.isLoading;
+  const error = first.error || second.error;
+
+  const pair = useMemo(
+    () => (first.data && second.data ? orderScanPair(first.data, second.data) : null),
+    [first.data, second.data]
+  );
+  const comparison = useMemo(() => (pair ? computeScanComparison(pair[0], pair[1]) : null), [pair]);
+
+  const viewerKey = (scan: BodyScan) => `${layout}:${scan.id}`;
+  const viewersReady = !!pair && pair.every((scan) => readyViewers.includes(viewerKey(scan)));
+
+  const formatScanDate = (scan: BodyScan) => format(new Date(scan.created_at), 'dd MMM yyyy', { locale: fr });
+
+  // Les deux avatars doivent être vus sous le même angle pour être comparables
+  useEffect(() => {
+    if (!viewersReady) return;
+    baselineViewerRef.current?.setCameraView(activeView);
+    currentViewerRef.current?.setCameraView(activeView);
+  }, [viewersReady, activeView]);
+
+  // Fermer la modale avec Escape
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const renderViewer = (scan: BodyScan, ref: React.RefObject<Avatar3DViewerRef>) => (
+    <Avatar3DViewer
+      ref={ref}
+      scanResult={scan}
+      userProfile={toViewerProfile(scan, profile)}
+      morphData={scan.metrics?.final_shape_params || scan.metrics?.morph_values}
+      limbMasses={scan.metrics?.final_limb_masses || scan.metrics?.limb_masses}
+      skinTone={scan.metrics?.skin_tone}
+      resolvedGender={scan.metrics?.resolved_gender || (profile?.sex === 'female' ? 'female' : 'male')}
+      className="w-full h-full"
+      autoRotate={false}
+      showControls={false}
+      onViewerReady={() => {
+        const key = viewerKey(scan);
+        setReadyViewers((ready) => (ready.includes(key) ? ready : [...ready, key]));
+      }}
+    />
+  );
+
+  return (
+    <motion.div
+      className="fixed inset-0 z-[1000] bg-black/80 backdrop-blur-lg flex items-start justify-center p-2 sm:p-4 overflow-y-auto"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) {
+          onClose();
+        }
+      }}
+    >
+      <motion.div
+        className="relative w-full max-w-6xl my-4 sm:my-8 rounded-xl overflow-hidden flex flex-col"
+        initial={{ scale: 0.9, y: 50 }}
+        animate={{ scale: 1, y: 0 }}
+        exit={{ scale: 0.9, y: 50 }}
+        transition={{ type: 'spring', stiffness: 300, damping: 30 }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <GlassCard className="p-4 sm:p-6 flex flex-col">
+          {/* Header */}
+          <div className="flex items-center justify-between mb-4 flex-shrink-0">
+            <h3 className="text-white font-semibold text-lg sm:text-xl flex items-center gap-2">
+              <SpatialIcon Icon={ICONS.GitCompare} size={24} className="text-blue-400" />
+              <span className="truncate">
+                {pair ? `${formatScanDate(pair[0])} → ${formatScanDate(pair[1])}` : 'Comparaison de scans'}
+              </span>
+              {comparison && (
+                <span className="text-white/50 text-sm font-normal hidden sm:inline">
+                  ({comparison.daysBetween} j)
+                </span>
+              )}
+            </h3>
+            <button
+              onClick={onClose}
+              className="p-2 rounded-full bg-white/10 hover:bg-white/20 transition-colors flex-shrink-0"
+              aria-label="Fermer"
+            >
+              <SpatialIcon Icon={ICONS.X} size={20} className="text-white" />
+            </button>
+          </div>
+
+          {isLoading && (
+            <div className="flex items-center justify-center py-24">
+              <div className="text-center">
+                <SpatialIcon Icon={ICONS.Loader2} size={48} className="text-purple-400 animate-spin mx-auto mb-4" />
+                <p className="text-white/70">Chargement des scans...</p>
+              </div>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center justify-center py-24">
+              <div className="text-center text-red-400">
+                <SpatialIcon Icon={ICONS.AlertCircle} size={48} className="mx-auto mb-4" />
+                <p>Erreur de chargement des scans</p>
+                <p className="text-sm mt-2 text-red-300">{(error as Error).message}</p>
+              </div>
+            </div>
+          )}
+
+          {pair && comparison && !isLoading && (
+            <>
+              {/* Toolbar */}
+              <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => setLayout('side-by-side')}
+                    className={`px-3 py-1.5 rounded-lg text-xs border transition-colors ${
+                      layout === 'side-by-side' ? 'bg-blue-500/20 border-blue-400/40 text-white' : 'bg-white/5 border-white/10 text-white/60'
+                    }`}
+                  >
+                    Côte à côte
+                  </button>
+                  <button
+                    onClick={() => setLayout('ghost')}
+                    className={`px-3 py-1.5 rounded-lg text-xs border transition-colors ${
+                      layout === 'ghost' ? 'bg-blue-500/20 border-blue-400/40 text-white' : 'bg-white/5 border-white/10 text-white/60'
+                    }`}
+                  >
+                    Superposition
+                  </button>
+                </div>
+
+                {layout === 'ghost' && (
+                  <label className="flex items-center gap-2 text-xs text-white/60">
+                    {formatScanDate(pair[0])}
+                    <input
+                      type="range"
+                      min={0}
+                      max={1}
+                      step={0.05}
+                      value={ghostOpacity}
+                      onChange={(e) => setGhostOpacity(parseFloat(e.target.value))}
+                      aria-label="Opacité du scan récent"
+                    />
+                    {formatScanDate(pair[1])}
+                  </label>
+                )}
+
+                <div className="flex gap-2">
+                  {CAMERA_VIEWS.map(({ view, label }) => (
+                    <button
+                      key={view}
+                      onClick={() => setActiveView(view)}
+                      className={`px-3 py-1.5 rounded-lg text-xs border transition-colors ${
+                        activeView === view ? 'bg-purple-500/20 border-purple-400/40 text-white' : 'bg-white/5 border-white/10 text-white/60'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Viewers */}
+              {layout === 'side-by-side' ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3 h-[420px] sm:h-[480px]">
+                  {[pair[0], pair[1]].map((scan, index) => (
+                    <div key={scan.id} className="relative h-full min-h-[300px]">
+                      {renderViewer(scan, index === 0 ? baselineViewerRef : currentViewerRef)}
+                      <span className="absolute top-3 left-3 px-2 py-1 rounded-md bg-black/40 text-white/80 text-xs">
+                        {formatScanDate(scan)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                // Orbite désactivée en superposition : les deux caméras ne bougent qu'ensemble, via les boutons de vue
+                <div className="relative h-[420px] sm:h-[480px] pointer-events-none">
+                  <div className="absolute inset-0">{renderViewer(pair[0], baselineViewerRef)}</div>
+                  <div className="absolute inset-0" style={{ opacity: ghostOpacity }}>
+                    {renderViewer(pair[1], currentViewerRef)}
+                  </div>
+                </div>
+              )}
+
+              {/* Deltas */}
+              <div className="mt-6 pt-4 border-t border-white/10">
+                <ComparisonDeltaTable
+                  comparison={comparison}
+                  baselineLabel={formatScanDate(pair[0])}
+                  currentLabel={formatScanDate(pair[1])}
+                />
+              </div>
+            </>
+          )}
+        </GlassCard>
+      </motion.div>
+    </motion.div>
+  );
+};
+
+export default ScanComparisonModal;
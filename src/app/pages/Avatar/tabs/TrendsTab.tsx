@@ -0,0 +1,176 @@
+// src/app/pages/Avatar/tabs/TrendsTab.tsx
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { motion } from 'framer-motion';
+import GlassCard from '../../../../ui/cards/GlassCard';
+import SpatialIcon from '../../../../ui/icons/SpatialIcon';
+import { ICONS } from '../../../../ui/icons/registry';
+import { useUserStore } from '../../../../system/store/userStore';
+import { api } from '../../../../system/data/dataSource';
+import TrendChart from './trends/TrendChart';
+import { ROLLING_WINDOW, TREND_METRICS, buildTrendSeries, type TrendMetricKey } from './trends/trendSeries';
+
+const DEFAULT_METRICS: TrendMetricKey[] = ['weight_kg', 'waist_cm', 'body_fat_perc'];
+
+const LegendItem: React.FC<{ color: string; label: string; dashed?: boolean; band?: boolean }> = ({
+  color,
+  label,
+  dashed,
+  band,
+}) => (
+  <span className="flex items-center gap-1.5">
+    {band ? (
+      <span className="inline-block w-4 h-2.5 rounded-sm" style={{ background: color, opacity: 0.3 }} />
+    ) : (
+      <span
+        className="inline-block w-4 h-0"
+        style={{ borderTop: `2px ${dashed ? 'dashed' : 'solid'} ${color}` }}
+      />
+    )}
+    {label}
+  </span>
+);
+
+const TrendsTab: React.FC = () => {
+  const { profile } = useUserStore();
+  const userId = profile?.userId;
+  const [selectedMetrics, setSelectedMetrics] = useState<TrendMetricKey[]>(DEFAULT_METRICS);
+
+  // Même requête que l'historique : le cache react-query est partagé
+  const { data: scans, isLoading, error } = useQuery({
+    queryKey: ['body-scan-history', userId],
+    queryFn: () => api().bodyScan.getHistory(userId!),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  });
+
+  const series = useMemo(
+    () =>
+      TREND_METRICS.map((metric) => ({
+        metric,
+        points: buildTrendSeries(scans ?? [], metric),
+      })),
+    [scans]
+  );
+
+  const targetWeight =
+    typeof profile?.target_weight_kg === 'number' && profile.target_weight_kg > 0 ? profile.target_weight_kg : undefined;
+
+  const toggleMetric = (key: TrendMetricKey) => {
+    setSelectedMetrics((prev) => (prev.includes(key) ? prev.filter((k) => k !== key) : [...prev, key]));
+  };
+
+  if (isLoading) {
+    return (
+      <GlassCard className="text-center p-8">
+        <SpatialIcon Icon={ICONS.Loader2} size={48} className="text-purple-400 animate-spin mx-auto mb-4" />
+        <h3 className="text-xl font-bold text-white mb-3">Chargement des tendances...</h3>
+        <p className="text-white/70 text-sm">Récupération de vos scans passés.</p>
+      </GlassCard>
+    );
+  }
+
+  if (error) {
+    return (
+      <GlassCard className="text-center p-8">
+        <SpatialIcon Icon={ICONS.AlertCircle} size={48} className="text-red-400 mx-auto mb-4" />
+        <h3 className="text-xl font-bold text-white mb-3">Erreur de chargement</h3>
+        <p className="text-red-300 text-sm mb-6">{error instanceof Error ? error.message : null}</p>
+        <button onClick={() => window.location.reload()} className="btn-glass--primary">
+          Réessayer
+        </button>
+      </GlassCard>
+    );
+  }
+
+  if (!scans || scans.length < 2) {
+    return (
+      <GlassCard className="text-center p-8">
+        <SpatialIcon Icon={ICONS.TrendingUp} size={48} className="text-blue-400 mx-auto mb-4" />
+        <h3 className="text-xl font-bold text-white mb-3">Pas encore de tendance</h3>
+        <p className="text-white/70 text-sm mb-6">
+          Il faut au moins deux scans corporels pour suivre l'évolution de vos mesures.
+        </p>
+        <button onClick={() => (window.location.href = '/body-scan')} className="btn-glass--primary">
+          Nouveau scan
+        </button>
+      </GlassCard>
+    );
+  }
+
+  return (
+    <div className="space-y-6 profile-section-container">
+      <GlassCard className="p-4">
+        <div className="flex flex-wrap gap-2">
+          {series.map(({ metric, points }) => {
+            const isSelected = selectedMetrics.includes(metric.key);
+            return (
+              <button
+                key={metric.key}
+                onClick={() => toggleMetric(metric.key)}
+                disabled={points.length === 0}
+                className={`px-3 py-1.5 rounded-full text-xs border transition-colors disabled:opacity-40 ${
+                  isSelected ? 'text-white border-white/30' : 'text-white/60 border-white/10 bg-white/5'
+                }`}
+                style={isSelected ? { background: `${metric.color}33` } : undefined}
+              >
+                {metric.label}
+              </button>
+            );
+          })}
+        </div>
+      </GlassCard>
+
+      {series
+        .filter(({ metric, points }) => selectedMetrics.includes(metric.key) && points.length > 0)
+        .map(({ metric, points }, index) => {
+          const first = points[0];
+          const last = points[points.length - 1];
+          const change = last.value - first.value;
+          const goal = metric.key === 'weight_kg' ? targetWeight : undefined;
+
+          return (
+            <motion.div
+              key={metric.key}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.3, delay: index * 0.05 }}
+            >
+              <GlassCard className="p-6 space-y-4">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <h4 className="text-white font-semibold text-lg">{metric.label}</h4>
+                    <p className="text-white/50 text-xs">
+                      {points.length} scan{points.length > 1 ? 's' : ''}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-white font-semibold text-lg">
+                      {last.value.toFixed(1)} {metric.unit}
+                    </p>
+                    {points.length > 1 && (
+                      <p className="text-white/60 text-xs">
+                        {change > 0 ? '+' : ''}
+                        {change.toFixed(1)} {metric.unit} depuis le premier scan
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <TrendChart metric={metric} points={points} goal={goal} />
+
+                <div className="flex flex-wrap gap-4 text-xs text-white/60">
+                  <LegendItem color={metric.color} label={`Moyenne glissante (${ROLLING_WINDOW} scans)`} />
+                  {metric.estimated && <LegendItem color={metric.color} label="Bande de confiance" band />}
+                  {goal !== undefined && <LegendItem color="#22C55E" label="Poids cible" dashed />}
+                </div>
+              </GlassCard>
+            </motion.div>
+          );
+        })}
+    </div>
+  );
+};
+
+export default TrendsTab;
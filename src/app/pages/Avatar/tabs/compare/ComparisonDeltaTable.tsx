@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import SpatialIcon from '../../../../../ui/icons/SpatialIcon';
+import { ICONS } from '../../../../../ui/icons/registry';
+import type { MeasurementDelta, MorphDelta, ScanComparison } from './types';
+
+interface ComparisonDeltaTableProps {
+  comparison: ScanComparison;
+  baselineLabel: string;
+  currentLabel: string;
+}
+
+// Morph lists can hold dozens of keys; show the largest changes first
+const COLLAPSED_MORPH_ROWS = 8;
+
+const formatValue = (value: number | undefined, unit: string) =>
+  value === undefined ? '-' : `${value.toFixed(1)}${unit ? ` ${unit}` : ''}`;
+
+const formatSigned = (value: number, digits: number) =>
+  `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+/**
+ * Favourable changes in green, unfavourable in orange, neutral in white
+ */
+const deltaColor = (delta: number | undefined, lowerIsBetter: boolean | null) => {
+  if (delta === undefined || Math.abs(delta) < 0.05 || lowerIsBetter === null) {
+    return 'text-white/80';
+  }
+  const improved = lowerIsBetter ? delta < 0 : delta > 0;
+  return improved ? 'text-green-400' : 'text-orange-400';
+};
+
+const MeasurementRow: React.FC<{ row: MeasurementDelta }> = ({ row }) => (
+  <tr className="border-t border-white/5">
+    <td className="py-2 pr-3 text-white/60">{row.label}</td>
+    <td className="py-2 px-3 text-right text-white/80">{formatValue(row.baseline, row.unit)}</td>
+    <td className="py-2 px-3 text-right text-white">{formatValue(row.current, row.unit)}</td>
+    <td className={`py-2 pl-3 text-right font-medium ${deltaColor(row.delta, row.lowerIsBetter)}`}>
+      {row.delta === undefined ? '-' : `${formatSigned(row.delta, 1)}${row.unit ? ` ${row.unit}` : ''}`}
+    </td>
+  </tr>
+);
+
+const MorphDeltaList: React.FC<{ title: string; deltas: MorphDelta[] }> = ({ title, deltas }) => {
+  const [expanded, setExpanded] = useState(false);
+  const visible = expanded ? deltas : deltas.slice(0, COLLAPSED_MORPH_ROWS);
+  const maxAbsDelta = Math.max(...deltas.map((d) => Math.abs(d.delta)), 0.001);
+
+  return (
+    <div>
+      <h5 className="text-white/80 text-sm font-medium mb-2">{title}</h5>
+      {deltas.length === 0 ? (
+        <p className="text-white/50 text-xs">Aucune variation significative</p>
+      ) : (
+        <div className="space-y-1.5">
+          {visible.map((d) => (
+            <div key={d.key} className="flex items-center gap-3 text-xs">
+              <span className="w-36 truncate text-white/60" title={d.key}>{d.key}</span>
+              <div className="flex-1 h-1.5 rounded-full bg-white/5 overflow-hidden">
+                <div
+                  className={`h-full rounded-full ${d.delta > 0 ? 'bg-blue-400/70' : 'bg-purple-400/70'}`}
+                  style={{ width: `${(Math.abs(d.delta) / maxAbsDelta) * 100}%` }}
+                />
+              </div>
+              <span className="w-28 text-right text-white/70">
+                {d.baseline.toFixed(2)} → {d.current.toFixed(2)}
+              </span>
+              <span className="w-14 text-right text-white font-medium">{formatSigned(d.delta, 2)}</span>
+            </div>
+          ))}
+          {deltas.length > COLLAPSED_MORPH_ROWS && (
+            <button
+              onClick={() => setExpanded((v) => !v)}
+              className="text-xs text-blue-300 hover:text-blue-200 flex items-center gap-1 pt-1"
+            >
+              <SpatialIcon Icon={expanded ? ICONS.ChevronUp : ICONS.ChevronDown} size={12} />
+              {expanded ? 'Réduire' : `Afficher les ${deltas.length} variations`}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Delta table between two scans: measurements then per-morph changes
+ */
+const ComparisonDeltaTable: React.FC<ComparisonDeltaTableProps> = ({ comparison, baselineLabel, currentLabel }) => (
+  <div className="space-y-6">
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-white/50 text-xs uppercase tracking-wide">
+          <th className="pb-2 pr-3 text-left font-normal">Mesure</th>
+          <th className="pb-2 px-3 text-right font-normal">{baselineLabel}</th>
+          <th className="pb-2 px-3 text-right font-normal">{currentLabel}</th>
+          <th className="pb-2 pl-3 text-right font-normal">Écart</th>
+        </tr>
+      </thead>
+      <tbody>
+        {comparison.measurements.map((row) => (
+          <MeasurementRow key={row.key} row={row} />
+        ))}
+      </tbody>
+    </table>
+
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <MorphDeltaList title="Morphologie (final_shape_params)" deltas={comparison.shapeParams} />
+      <MorphDeltaList title="Masses des membres (final_limb_masses)" deltas={comparison.limbMasses} />
+    </div>
+  </div>
+);
+
+export default ComparisonDeltaTable;
@@ -0,0 +1,127 @@
+/**
+ * Scan Comparison
+ * Measurement and per-morph deltas between two persisted body scans
+ */
+
+import type { BodyScan } from '../../../../../domain/types';
+import type { MeasurementDelta, MeasurementKey, MorphDelta, ScanComparison } from './types';
+
+// Deltas smaller than this are rendering noise, not body change
+const MORPH_DELTA_THRESHOLD = 0.01;
+
+const MEASUREMENT_DEFINITIONS: Array<{
+  key: MeasurementKey;
+  label: string;
+  unit: string;
+  lowerIsBetter: boolean | null;
+}> = [
+  { key: 'weight_kg', label: 'Poids', unit: 'kg', lowerIsBetter: null },
+  { key: 'bmi', label: 'IMC', unit: '', lowerIsBetter: null },
+  { key: 'waist_cm', label: 'Tour de taille', unit: 'cm', lowerIsBetter: true },
+  { key: 'hips_cm', label: 'Tour de hanches', unit: 'cm', lowerIsBetter: null },
+  { key: 'chest_cm', label: 'Tour de poitrine', unit: 'cm', lowerIsBetter: null },
+  { key: 'body_fat_perc', label: 'Masse grasse', unit: '%', lowerIsBetter: true },
+  { key: 'muscle_mass_kg', label: 'Masse musculaire', unit: 'kg', lowerIsBetter: false },
+];
+
+const toNumber = (v: unknown): number | undefined => {
+  if (typeof v === 'number') return Number.isFinite(v) ? v : undefined;
+  if (typeof v === 'string') {
+    const parsed = parseFloat(v);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Read the comparable measurements of a body_scans row.
+ * Circumferences prefer the tape-calibrated values when the scan has them.
+ */
+export function extractScanMeasurements(scan: BodyScan | null | undefined): Partial<Record<MeasurementKey, number>> {
+  const metrics = scan?.metrics;
+  const extracted = metrics?.estimate_result?.extracted_data;
+  const raw = extracted?.raw_measurements ?? metrics?.raw_measurements;
+  const calibrated = extracted?.calibrated_measurements;
+
+  const weight = toNumber(raw?.weight_kg) ?? toNumber(metrics?.weight_kg);
+  const height = toNumber(raw?.height_cm) ?? toNumber(metrics?.height_cm);
+  let bmi =
+    toNumber(extracted?.estimated_bmi) ??
+    toNumber(metrics?.estimate_result?.estimated_bmi) ??
+    toNumber(metrics?.estimated_bmi);
+  if (bmi === undefined && weight !== undefined && height !== undefined && height > 0) {
+    bmi = weight / Math.pow(height / 100, 2);
+  }
+
+  return {
+    weight_kg: weight,
+    bmi,
+    waist_cm: toNumber(calibrated?.waist_cm) ?? toNumber(raw?.waist_cm),
+    hips_cm: toNumber(calibrated?.hips_cm) ?? toNumber(raw?.hips_cm),
+    chest_cm: toNumber(calibrated?.chest_cm) ?? toNumber(raw?.chest_cm),
+    body_fat_perc: toNumber(raw?.estimated_body_fat_perc) ?? toNumber(extracted?.estimated_body_fat_perc),
+    muscle_mass_kg: toNumber(raw?.estimated_muscle_mass_kg) ?? toNumber(extracted?.estimated_muscle_mass_kg),
+  };
+}
+
+/**
+ * Per-key deltas, largest change first; missing keys take the neutral value
+ */
+function computeMorphDeltas(
+  baseline: Record<string, unknown> | undefined,
+  current: Record<string, unknown> | undefined,
+  neutralValue: number
+): MorphDelta[] {
+  const keys = new Set([...Object.keys(baseline || {}), ...Object.keys(current || {})]);
+  const deltas: MorphDelta[] = [];
+
+  keys.forEach((key) => {
+    const baselineValue = toNumber(baseline?.[key]) ?? neutralValue;
+    const currentValue = toNumber(current?.[key]) ?? neutralValue;
+    const delta = currentValue - baselineValue;
+    if (Math.abs(delta) >= MORPH_DELTA_THRESHOLD) {
+      deltas.push({ key, baseline: baselineValue, current: currentValue, delta });
+    }
+  });
+
+  return deltas.sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+}
+
+const scanTime = (scan: Pick<BodyScan, 'created_at' | 'timestamp'>) => new Date(scan.created_at ?? scan.timestamp).getTime();
+
+/**
+ * Order the pair chronologically (older scan is the baseline)
+ */
+export function orderScanPair<T extends Pick<BodyScan, 'created_at' | 'timestamp'>>(first: T, second: T): [T, T] {
+  return scanTime(first) <= scanTime(second) ? [first, second] : [second, first];
+}
+
+/**
+ * Compare two scans; arguments may be passed in any order
+ */
+export function computeScanComparison(scanA: BodyScan, scanB: BodyScan): ScanComparison {
+  const [baseline, current] = orderScanPair(scanA, scanB);
+  const baselineMeasurements = extractScanMeasurements(baseline);
+  const currentMeasurements = extractScanMeasurements(current);
+
+  const measurements: MeasurementDelta[] = MEASUREMENT_DEFINITIONS.map((definition) => {
+    const baselineValue = baselineMeasurements[definition.key];
+    const currentValue = currentMeasurements[definition.key];
+    return {
+      ...definition,
+      baseline: baselineValue,
+      current: currentValue,
+      delta: baselineValue !== undefined && currentValue !== undefined ? currentValue - baselineValue : undefined,
+    };
+  });
+
+  return {
+    baselineScanId: baseline.id,
+    currentScanId: current.id,
+    daysBetween: Math.round((scanTime(current) - scanTime(baseline)) / (24 * 60 * 60 * 1000)),
+    measurements,
+    shapeParams: computeMorphDeltas(baseline.metrics?.final_shape_params, current.metrics?.final_shape_params, 0),
+    // Limb masses are multipliers: 1.0 is the neutral mass
+    limbMasses: computeMorphDeltas(baseline.metrics?.final_limb_masses, current.metrics?.final_limb_masses, 1),
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * Comparison Types
+ * Type definitions for scan-to-scan comparison
+ */
+
+export type MeasurementKey =
+  | 'weight_kg'
+  | 'bmi'
+  | 'waist_cm'
+  | 'hips_cm'
+  | 'chest_cm'
+  | 'body_fat_perc'
+  | 'muscle_mass_kg';
+
+export interface MeasurementDelta {
+  key: MeasurementKey;
+  label: string;
+  unit: string;
+  baseline?: number;
+  current?: number;
+  delta?: number;
+  /** Whether a decrease is the favourable direction (colors the delta) */
+  lowerIsBetter: boolean | null;
+}
+
+export interface MorphDelta {
+  key: string;
+  baseline: number;
+  current: number;
+  delta: number;
+}
+
+export interface ScanComparison {
+  /** Older scan of the pair */
+  baselineScanId: string;
+  /** Newer scan of the pair */
+  currentScanId: string;
+  daysBetween: number;
+  measurements: MeasurementDelta[];
+  shapeParams: MorphDelta[];
+  limbMasses: MorphDelta[];
+}
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import SpatialIcon from '../../../../../ui/icons/SpatialIcon';
+import { ICONS } from '../../../../../ui/icons/registry';
+import { useToast } from '../../../../../ui/components/ToastProvider';
+import { downloadExport, type AvatarExportFormat } from '../../../../../lib/3d/export/avatarExport';
+import type { Avatar3DViewerRef } from '../../../../../components/3d/Avatar3DViewer/utils/viewerTypes';
+import logger from '../../../../../lib/utils/logger';
+
+interface AvatarExportButtonProps {
+  viewerRef: React.RefObject<Avatar3DViewerRef>;
+  /** Taille de l'utilisateur, requise pour les exports à l'échelle (OBJ/STL) */
+  heightCm?: number;
+}
+
+const FORMAT_OPTIONS: { format: AvatarExportFormat; label: string; description: string }[] = [
+  { format: 'glb', label: 'GLB', description: 'Avatar texturé (visionneuses 3D, jeux)' },
+  { format: 'obj', label: 'OBJ', description: 'Corps seul, à taille réelle (mm)' },
+  { format: 'stl', label: 'STL', description: 'Corps seul pour impression 3D (mm)' },
+];
+
+// Proportion de sommets conservée quand la simplification est activée
+const DECIMATE_RATIO = 0.5;
+
+/**
+ * Télécharge l'avatar affiché (morphs + masses des membres figés) en GLB, OBJ ou STL
+ */
+const AvatarExportButton: React.FC<AvatarExportButtonProps> = ({ viewerRef, heightCm }) => {
+  const { showToast } = useToast();
+  const [isExporting, setIsExporting] = useState(false);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [watertight, setWatertight] = useState(true);
+  const [decimate, setDecimate] = useState(false);
+
+  const canScale = typeof heightCm === 'number' && heightCm > 0;
+
+  const handleExport = async (format: AvatarExportFormat) => {
+    if (!viewerRef.current || isExporting) return;
+
+    setIsMenuOpen(false);
+    setIsExporting(true);
+    try {
+      const result = await viewerRef.current.exportAvatar(
+        format === 'glb'
+          ? { format }
+          : { format, heightCm, watertight, decimateRatio: decimate ? DECIMATE_RATIO : 1 }
+      );
+      downloadExport(result);
+      showToast({ type: 'success', title: 'Avatar exporté', message: `${result.fileName} téléchargé.` });
+    } catch (error) {
+      logger.error('[AVATAR_EXPORT] Export failed', {
+        format,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      showToast({
+        type: 'error',
+        title: "Échec de l'export",
+        message: "L'avatar doit être entièrement chargé avant l'export.",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsMenuOpen((open) => !open)}
+        disabled={isExporting}
+        className="btn-glass px-3 py-1.5 text-xs flex items-center gap-2 disabled:opacity-50"
+      >
+        <SpatialIcon Icon={isExporting ? ICONS.Loader2 : ICONS.Download} size={14} className={isExporting ? 'animate-spin' : ''} />
+        <span>{isExporting ? 'Export...' : 'Exporter'}</span>
+        {!isExporting && <SpatialIcon Icon={isMenuOpen ? ICONS.ChevronUp : ICONS.ChevronDown} size={12} />}
+      </button>
+
+      {isMenuOpen && (
+        <div
+          className="absolute right-0 mt-2 w-64 z-20 rounded-xl p-2 space-y-1"
+          style={{ background: 'rgba(11, 15, 26, 0.95)', border: '1px solid rgba(255,255,255,0.12)' }}
+        >
+          {FORMAT_OPTIONS.map(({ format, label, description }) => {
+            const disabled = format !== 'glb' && !canScale;
+            return (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={disabled}
+                className="w-full text-left px-3 py-2 rounded-lg hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                <p className="text-white text-sm font-medium">{label}</p>
+                <p className="text-white/50 text-xs">
+                  {disabled ? 'Renseignez votre taille dans le profil' : description}
+                </p>
+              </button>
+            );
+          })}
+
+          {/* Options d'impression (OBJ/STL uniquement) */}
+          <div className="border-t border-white/10 pt-2 px-3 space-y-2">
+            <label className="flex items-center gap-2 text-xs text-white/70">
+              <input type="checkbox" checked={watertight} onChange={(e) => setWatertight(e.target.checked)} />
+              Maillage fermé (impression 3D)
+            </label>
+            <label className="flex items-center gap-2 text-xs text-white/70">
+              <input type="checkbox" checked={decimate} onChange={(e) => setDecimate(e.target.checked)} />
+              Simplifier le maillage (fichier plus léger)
+            </label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AvatarExportButton;
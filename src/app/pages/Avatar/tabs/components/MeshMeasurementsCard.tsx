@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import GlassCard from '../../../../../ui/cards/GlassCard';
+import SpatialIcon from '../../../../../ui/icons/SpatialIcon';
+import { ICONS } from '../../../../../ui/icons/registry';
+import { useToast } from '../../../../../ui/components/ToastProvider';
+import { useUserStore } from '../../../../../system/store/userStore';
+import { api } from '../../../../../system/data/dataSource';
+import {
+  compareWithEstimates,
+  type CircumferenceSite,
+  type MeshMeasurementResult,
+} from '../../../../../lib/3d/measurements/meshCircumference';
+import type { Avatar3DViewerRef } from '../../../../../components/3d/Avatar3DViewer/utils/viewerTypes';
+import logger from '../../../../../lib/utils/logger';
+
+interface MeshMeasurementsCardProps {
+  viewerRef: React.RefObject<Avatar3DViewerRef>;
+  heightCm?: number;
+  /** Scan dont l'avatar est affiché ; à défaut, le scan le plus récent */
+  scanId?: string;
+}
+
+const SITE_LABELS: Record<CircumferenceSite, string> = {
+  chest: 'Tour de poitrine',
+  waist: 'Tour de taille',
+  hips: 'Tour de hanches',
+  thigh: 'Tour de cuisse',
+  arm: 'Tour de bras',
+};
+
+const SITES: CircumferenceSite[] = ['chest', 'waist', 'hips', 'thigh', 'arm'];
+
+/**
+ * Tours mesurés directement sur le maillage 3D, comparés aux estimations de l'IA
+ */
+const MeshMeasurementsCard: React.FC<MeshMeasurementsCardProps> = ({ viewerRef, heightCm, scanId }) => {
+  const { profile } = useUserStore();
+  const userId = profile?.userId;
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [freshResult, setFreshResult] = useState<MeshMeasurementResult | null>(null);
+
+  // Même requête que l'historique : le cache react-query est partagé
+  const { data: scans } = useQuery({
+    queryKey: ['body-scan-history', userId],
+    queryFn: () => api().bodyScan.getHistory(userId!),
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000,
+    gcTime: 10 * 60 * 1000,
+  });
+
+  const scan = useMemo(() => {
+    const list = scans ?? [];
+    return (scanId && list.find((s) => s.id === scanId)) || list[0] || null;
+  }, [scans, scanId]);
+
+  const result: MeshMeasurementResult | null = freshResult || scan?.metrics?.mesh_measurements || null;
+  const estimates = scan?.metrics?.estimate_result?.extracted_data?.raw_measurements;
+  const comparisons = useMemo(
+    () => (result ? compareWithEstimates(result.circumferences, estimates) : []),
+    [result, estimates]
+  );
+
+  const canMeasure = typeof heightCm === 'number' && heightCm > 0;
+
+  const handleMeasure = async () => {
+    if (!viewerRef.current || !canMeasure || isMeasuring) return;
+
+    setIsMeasuring(true);
+    try {
+      const measurement = viewerRef.current.measureAvatar(heightCm!);
+      setFreshResult(measurement);
+
+      // Conserver les mesures sur le scan pour une série temporelle stable ; seule la clé
+      // mesh_measurements est écrite, l'historique en cache peut dater de plusieurs minutes
+      if (scan?.id) {
+        await api().bodyScan.mergeMetrics(scan.id, { mesh_measurements: measurement });
+        queryClient.invalidateQueries({ queryKey: ['body-scan-history', userId] });
+      }
+    } catch (error) {
+      logger.error('[MESH_CIRCUMFERENCE] Measurement failed', {
+        scanId: scan?.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      showToast({
+        type: 'error',
+        title: 'Mesure impossible',
+        message: "L'avatar doit être entièrement chargé avant la mesure.",
+      });
+    } finally {
+      setIsMeasuring(false);
+    }
+  };
+
+  return (
+    <GlassCard className="p-6 space-y-4">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-white font-semibold flex items-center gap-2">
+            <SpatialIcon Icon={ICONS.Ruler} size={16} className="text-cyan-400" />
+            Mesures de l'avatar
+          </h3>
+          <p className="text-white/50 text-xs mt-1">
+            Tours calculés sur le modèle 3D, à l'échelle de votre taille{canMeasure ? ` (${heightCm} cm)` : ''}.
+          </p>
+        </div>
+        <button
+          onClick={handleMeasure}
+          disabled={!canMeasure || isMeasuring}
+          className="btn-glass px-3 py-1.5 text-xs flex items-center gap-2 disabled:opacity-50"
+        >
+          <SpatialIcon Icon={isMeasuring ? ICONS.Loader2 : ICONS.Ruler} size={14} className={isMeasuring ? 'animate-spin' : ''} />
+          <span>{isMeasuring ? 'Mesure...' : result ? 'Remesurer' : 'Mesurer'}</span>
+        </button>
+      </div>
+
+      {!canMeasure && (
+        <p className="text-white/60 text-sm">Renseignez votre taille dans le profil pour mesurer l'avatar.</p>
+      )}
+
+      {result && (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-white/40 text-xs">
+              <th className="pb-2 pr-3 text-left font-normal">Mesure</th>
+              <th className="pb-2 px-3 text-right font-normal">Avatar 3D</th>
+              <th className="pb-2 px-3 text-right font-normal">Estimation IA</th>
+              <th className="pb-2 pl-3 text-right font-normal">Écart</th>
+            </tr>
+          </thead>
+          <tbody>
+            {SITES.map((site) => {
+              const meshValue = result.circumferences[`${site}_cm`];
+              const comparison = comparisons.find((c) => c.site === site);
+              return (
+                <tr key={site} className="border-t border-white/5">
+                  <td className="py-2 pr-3 text-white/60">{SITE_LABELS[site]}</td>
+                  <td className="py-2 px-3 text-right text-white">
+                    {meshValue === undefined ? '-' : `${meshValue.toFixed(1)} cm`}
+                  </td>
+                  <td className="py-2 px-3 text-right text-white/80">
+                    {comparison ? `${comparison.estimate_cm.toFixed(1)} cm` : '-'}
+                  </td>
+                  <td
+                    className={`py-2 pl-3 text-right font-medium ${
+                      !comparison ? 'text-white/40' : comparison.consistent ? 'text-green-400' : 'text-orange-400'
+                    }`}
+                  >
+                    {comparison ? `${comparison.delta_perc > 0 ? '+' : ''}${comparison.delta_perc.toFixed(1)} %` : '-'}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {comparisons.some((c) => !c.consistent) && (
+        <p className="text-orange-300/80 text-xs flex items-center gap-2">
+          <SpatialIcon Icon={ICONS.AlertCircle} size={12} />
+          Écart important entre l'avatar et l'estimation IA : un nouveau scan peut améliorer la précision.
+        </p>
+      )}
+    </GlassCard>
+  );
+};
+
+export default MeshMeasurementsCard;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import GlassCard from '../../../../../ui/cards/GlassCard';
+import SpatialIcon from '../../../../../ui/icons/SpatialIcon';
+import { ICONS } from '../../../../../ui/icons/registry';
+import {
+  pendingScansQueryKey,
+  usePendingScans,
+} from '../../../BodyScan/BodyScanCapture/hooks/usePendingScans';
+import {
+  MAX_QUEUE_ATTEMPTS,
+  discardPendingScan,
+  retryPendingScan,
+} from '../../../BodyScan/BodyScanCapture/services/offlineScanQueue';
+import type { PendingScanRecord } from '../../../../../system/data/offline/pendingScanStore';
+
+interface PendingScansSectionProps {
+  userId: string;
+}
+
+const statusLabel = (scan: PendingScanRecord) => {
+  if (scan.status === 'processing') return 'Envoi en cours...';
+  if (scan.status === 'failed') return `Échec après ${MAX_QUEUE_ATTEMPTS} tentatives`;
+  return scan.attempts > 0 ? `En attente (tentative ${scan.attempts + 1})` : 'En attente de connexion';
+};
+
+/**
+ * Scans capturés hors ligne, en attente d'envoi
+ */
+const PendingScansSection: React.FC<PendingScansSectionProps> = ({ userId }) => {
+  const queryClient = useQueryClient();
+  const { data: pendingScans } = usePendingScans(userId);
+  const [busyScanId, setBusyScanId] = useState<string | null>(null);
+
+  if (!pendingScans || pendingScans.length === 0) return null;
+
+  const handleRetry = async (clientScanId: string) => {
+    setBusyScanId(clientScanId);
+    try {
+      await retryPendingScan(userId, clientScanId);
+    } finally {
+      setBusyScanId(null);
+    }
+  };
+
+  const handleDiscard = async (clientScanId: string) => {
+    if (!window.confirm('Supprimer définitivement ce scan non envoyé ?')) return;
+    await discardPendingScan(clientScanId);
+    queryClient.invalidateQueries({ queryKey: pendingScansQueryKey(userId) });
+  };
+
+  return (
+    <GlassCard className="p-6 space-y-4">
+      <div className="flex items-center gap-2">
+        <SpatialIcon Icon={ICONS.Loader2} size={18} className="text-amber-300" />
+        <h4 className="text-white font-semibold">
+          {pendingScans.length} scan{pendingScans.length > 1 ? 's' : ''} en attente d'envoi
+        </h4>
+      </div>
+      <p className="text-white/60 text-xs">
+        Ces scans ont été capturés sans connexion. Ils sont envoyés automatiquement dès que le réseau revient.
+      </p>
+
+      <div className="space-y-2">
+        {pendingScans.map((scan) => {
+          const isBusy = busyScanId === scan.clientScanId || scan.status === 'processing';
+          return (
+            <div
+              key={scan.clientScanId}
+              className="flex items-center justify-between gap-3 rounded-xl bg-white/5 border border-white/10 px-4 py-3"
+            >
+              <div className="min-w-0">
+                <p className="text-white text-sm">
+                  Capturé le {format(new Date(scan.createdAt), 'dd MMMM yyyy à HH:mm', { locale: fr })}
+                </p>
+                <p className={`text-xs ${scan.status === 'failed' ? 'text-red-300' : 'text-white/50'}`}>
+                  {statusLabel(scan)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={() => handleRetry(scan.clientScanId)}
+                  disabled={isBusy}
+                  className="btn-glass px-3 py-1.5 text-xs flex items-center gap-1.5 disabled:opacity-50"
+                >
+                  <SpatialIcon
+                    Icon={isBusy ? ICONS.Loader2 : ICONS.RotateCcw}
+                    size={12}
+                    className={isBusy ? 'animate-spin' : ''}
+                  />
+                  Réessayer
+                </button>
+                <button
+                  onClick={() => handleDiscard(scan.clientScanId)}
+                  disabled={isBusy}
+                  className="btn-glass px-2 py-1.5 text-xs disabled:opacity-50"
+                  aria-label="Supprimer le scan en attente"
+                >
+                  <SpatialIcon Icon={ICONS.X} size={12} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </GlassCard>
+  );
+};
+
+export default PendingScansSection;
@@ -3,7 +3,7 @@
  * Handles AI-powered morphology insights generation
  */
 
-import { supabase } from '../../../../../system/supabase/client';
+import { api } from '../../../../../system/data/dataSource';
 import logger from '../../../../../lib/utils/logger';
 import type { MorphInsight, InsightsResponse } from './types';
 
@@ -54,58 +54,41 @@ export async function generateMorphologyInsights(
   });
 
   try {
-    logger.info('INSIGHTS_GENERATION', '📡 Invoking Supabase function...');
+    logger.info('INSIGHTS_GENERATION', '📡 Requesting insights from the data source...');
     
-    const { data, error } = await supabase.functions.invoke('generate-morph-insights', {
-      body: {
-        scan_data: {
-          final_shape_params: scanData?.finalShapeParams || {},
-          final_limb_masses: scanData?.finalLimbMasses || {},
-          skin_tone: scanData?.skinTone,
-          resolved_gender: scanData?.resolvedGender,
-          avatar_version: scanData?.avatarVersion,
-          scan_id: scanData?.scanId
-        },
-        user_profile: {
-          user_id: userProfile?.userId,
-          age: calculateAge(userProfile?.birthdate),
-          sex: userProfile?.sex,
-          height_cm: userProfile?.height_cm,
-          weight_kg: userProfile?.weight_kg,
-          target_weight_kg: userProfile?.target_weight_kg,
-          activity_level: userProfile?.activity_level,
-          objective: userProfile?.objective,
-          bmi: userProfile?.height_cm && userProfile?.weight_kg ? 
-            calculateBMI(userProfile.height_cm, userProfile.weight_kg) : null,
-          goals: userProfile?.goals || {},
-          health: userProfile?.health || {},
-          emotions: userProfile?.emotions || {},
-          nutrition: userProfile?.nutrition || {}
-        },
-        analysis_config: {
-          include_recommendations: true,
-          include_comparisons: true,
-          include_goal_tracking: true,
-          detail_level: 'comprehensive'
-        }
+    const data: InsightsResponse = await api().bodyScan.generateInsights({
+      scan_data: {
+        final_shape_params: scanData?.finalShapeParams || {},
+        final_limb_masses: scanData?.finalLimbMasses || {},
+        skin_tone: scanData?.skinTone,
+        resolved_gender: scanData?.resolvedGender,
+        avatar_version: scanData?.avatarVersion,
+        scan_id: scanData?.scanId
+      },
+      user_profile: {
+        user_id: userProfile?.userId,
+        age: calculateAge(userProfile?.birthdate),
+        sex: userProfile?.sex,
+        height_cm: userProfile?.height_cm,
+        weight_kg: userProfile?.weight_kg,
+        target_weight_kg: userProfile?.target_weight_kg,
+        activity_level: userProfile?.activity_level,
+        objective: userProfile?.objective,
+        bmi: userProfile?.height_cm && userProfile?.weight_kg ? 
+          calculateBMI(userProfile.height_cm, userProfile.weight_kg) : null,
+        goals: userProfile?.goals || {},
+        health: userProfile?.health || {},
+        emotions: userProfile?.emotions || {},
+        nutrition: userProfile?.nutrition || {}
+      },
+      analysis_config: {
+        include_recommendations: true,
+        include_comparisons: true,
+        include_goal_tracking: true,
+        detail_level: 'comprehensive'
       }
     });
 
-    logger.info('INSIGHTS_GENERATION', '📥 Function response received', {
-      hasData: !!data,
-      hasError: !!error,
-      errorMessage: error?.message
-    });
-
-    if (error) {
-      logger.error('INSIGHTS_GENERATION', '❌ Failed to generate insights', {
-        error: error.message,
-        userId: userProfile?.userId,
-        errorDetails: error
-      });
-      throw new Error(`Failed to generate insights: ${error.message}`);
-    }
-
     logger.info('INSIGHTS_GENERATION', '✅ Insights generated successfully', {
       userId: userProfile?.userId,
       insightsCount: data?.insights?.length || 0
@@ -0,0 +1,147 @@
+import React, { useMemo } from 'react';
+import { format } from 'date-fns';
+import { fr } from 'date-fns/locale';
+import type { TrendMetric, TrendPoint } from './trendSeries';
+
+interface TrendChartProps {
+  metric: TrendMetric;
+  points: TrendPoint[];
+  /** Horizontal goal line (e.g. target weight) */
+  goal?: number;
+  goalLabel?: string;
+}
+
+// viewBox units; the SVG scales to its container width
+const WIDTH = 640;
+const HEIGHT = 240;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 44 };
+const Y_TICKS = 4;
+
+/**
+ * SVG trend chart: confidence band, raw values, rolling average and optional goal line
+ */
+const TrendChart: React.FC<TrendChartProps> = ({ metric, points, goal, goalLabel = 'Objectif' }) => {
+  const geometry = useMemo(() => {
+    const values = points.flatMap((p) => [p.bandLow, p.bandHigh]);
+    if (goal !== undefined) values.push(goal);
+    let yMin = Math.min(...values);
+    let yMax = Math.max(...values);
+    const span = yMax - yMin || Math.max(Math.abs(yMax) * 0.1, 1);
+    yMin -= span * 0.1;
+    yMax += span * 0.1;
+
+    const tMin = points[0].date.getTime();
+    const tMax = points[points.length - 1].date.getTime();
+    const plotWidth = WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+
+    const x = (date: Date) =>
+      tMax === tMin ? PADDING.left + plotWidth / 2 : PADDING.left + ((date.getTime() - tMin) / (tMax - tMin)) * plotWidth;
+    const y = (value: number) => PADDING.top + (1 - (value - yMin) / (yMax - yMin)) * plotHeight;
+
+    const linePath = (accessor: (p: TrendPoint) => number) =>
+      points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.date).toFixed(1)},${y(accessor(p)).toFixed(1)}`).join(' ');
+
+    const bandPath =
+      points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.date).toFixed(1)},${y(p.bandHigh).toFixed(1)}`).join(' ') +
+      ' ' +
+      [...points]
+        .reverse()
+        .map((p) => `L${x(p.date).toFixed(1)},${y(p.bandLow).toFixed(1)}`)
+        .join(' ') +
+      ' Z';
+
+    const yTicks = Array.from({ length: Y_TICKS + 1 }, (_, i) => yMin + ((yMax - yMin) * i) / Y_TICKS);
+    const xTickPoints =
+      points.length <= 3 ? points : [points[0], points[Math.floor(points.length / 2)], points[points.length - 1]];
+
+    return { x, y, linePath, bandPath, yTicks, xTickPoints };
+  }, [points, goal]);
+
+  const { x, y, linePath, bandPath, yTicks, xTickPoints } = geometry;
+  const gradientId = `trend-band-${metric.key}`;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`Évolution : ${metric.label}`}>
+      <defs>
+        <linearGradient id={gradientId} x1="0" y1="0" x2="0" y2="1">
+          <stop offset="0%" stopColor={metric.color} stopOpacity={0.25} />
+          <stop offset="100%" stopColor={metric.color} stopOpacity={0.08} />
+        </linearGradient>
+      </defs>
+
+      {/* Grille + axe Y */}
+      {yTicks.map((tick) => (
+        <g key={tick}>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(tick)}
+            y2={y(tick)}
+            stroke="rgba(255,255,255,0.08)"
+            strokeWidth={1}
+          />
+          <text x={PADDING.left - 8} y={y(tick) + 4} textAnchor="end" fontSize={11} fill="rgba(255,255,255,0.5)">
+            {tick.toFixed(1)}
+          </text>
+        </g>
+      ))}
+
+      {/* Axe X */}
+      {xTickPoints.map((p) => (
+        <text
+          key={p.scanId}
+          x={x(p.date)}
+          y={HEIGHT - 8}
+          textAnchor="middle"
+          fontSize={11}
+          fill="rgba(255,255,255,0.5)"
+        >
+          {format(p.date, 'dd MMM', { locale: fr })}
+        </text>
+      ))}
+
+      {/* Bande de confiance */}
+      <path d={bandPath} fill={`url(#${gradientId})`} stroke="none" />
+
+      {/* Ligne objectif */}
+      {goal !== undefined && (
+        <g>
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(goal)}
+            y2={y(goal)}
+            stroke="#22C55E"
+            strokeWidth={1.5}
+            strokeDasharray="6 4"
+          />
+          <text x={WIDTH - PADDING.right} y={y(goal) - 6} textAnchor="end" fontSize={11} fill="#22C55E">
+            {goalLabel} {goal.toFixed(1)} {metric.unit}
+          </text>
+        </g>
+      )}
+
+      {/* Valeurs brutes */}
+      <path d={linePath((p) => p.value)} fill="none" stroke={metric.color} strokeOpacity={0.45} strokeWidth={1.5} />
+
+      {/* Moyenne glissante */}
+      {points.length > 1 && (
+        <path d={linePath((p) => p.rollingAverage)} fill="none" stroke={metric.color} strokeWidth={2.5} strokeLinejoin="round" />
+      )}
+
+      {points.map((p) => (
+        <circle key={p.scanId} cx={x(p.date)} cy={y(p.value)} r={4} fill="#0B0F1A" stroke={metric.color} strokeWidth={2}>
+          <title>
+            {`${format(p.date, 'dd MMM yyyy', { locale: fr })} : ${p.value.toFixed(1)} ${metric.unit}` +
+              (p.bandHigh > p.bandLow && p.confidence !== null
+                ? ` (±${((p.bandHigh - p.bandLow) / 2).toFixed(1)}, confiance ${Math.round(p.confidence * 100)}%)`
+                : '')}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+export default TrendChart;
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import type { BodyScan } from '../../../../../domain/types';
+import { TREND_METRICS, buildTrendSeries } from './trendSeries';
+
+const metric = (key: string) => TREND_METRICS.find((m) => m.key === key)!;
+
+function scan(id: string, createdAt: string, waist: number, weight: number, confidence?: number): BodyScan {
+  return {
+    id,
+    user_id: 'user-1',
+    created_at: createdAt,
+    metrics: {
+      estimate_result: {
+        extracted_data: { raw_measurements: { waist_cm: waist, weight_kg: weight }, processing_confidence: confidence },
+      },
+    },
+  };
+}
+
+describe('buildTrendSeries', () => {
+  const scans = [
+    scan('b', '2026-02-01T00:00:00Z', 84, 72, 0.9),
+    scan('a', '2026-01-01T00:00:00Z', 86, 73, 0.8),
+    scan('c', '2026-03-01T00:00:00Z', 82, 71),
+  ];
+
+  it('orders the scans and averages over a trailing window', () => {
+    const points = buildTrendSeries(scans, metric('waist_cm'), 2);
+
+    expect(points.map((p) => p.scanId)).toEqual(['a', 'b', 'c']);
+    expect(points.map((p) => p.rollingAverage)).toEqual([86, 85, 83]);
+  });
+
+  it('derives the band from the scan confidence', () => {
+    const [first, second, third] = buildTrendSeries(scans, metric('waist_cm'));
+
+    expect(first.bandHigh - first.value).toBeCloseTo(86 * 0.2);
+    expect(second.bandHigh - second.value).toBeCloseTo(84 * 0.1);
+    // Stored without a confidence: nothing to derive a band from
+    expect(third.confidence).toBeNull();
+    expect(third.bandLow).toBe(third.bandHigh);
+  });
+
+  it('draws no band around the declared weight', () => {
+    expect(buildTrendSeries(scans, metric('weight_kg')).every((p) => p.bandLow === p.bandHigh)).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Trend Series
+ * Time series of scan measurements with rolling average and confidence bands
+ */
+
+import type { BodyScan } from '../../../../../domain/types';
+import { extractScanMeasurements } from '../compare/scanComparison';
+import type { MeasurementKey } from '../compare/types';
+
+export type TrendMetricKey = Exclude<MeasurementKey, 'bmi'>;
+
+export interface TrendMetric {
+  key: TrendMetricKey;
+  label: string;
+  unit: string;
+  color: string;
+  /** Estimated from the photos, so it gets a confidence band; declared values (weight) do not */
+  estimated: boolean;
+}
+
+export interface TrendPoint {
+  scanId: string;
+  date: Date;
+  value: number;
+  rollingAverage: number;
+  bandLow: number;
+  bandHigh: number;
+  /** processing_confidence of the scan, null when it was not stored */
+  confidence: number | null;
+}
+
+export const TREND_METRICS: TrendMetric[] = [
+  // The scan weight is the weight the user declared, not an estimate
+  { key: 'weight_kg', label: 'Poids', unit: 'kg', color: '#06B6D4', estimated: false },
+  { key: 'waist_cm', label: 'Tour de taille', unit: 'cm', color: '#8B5CF6', estimated: true },
+  { key: 'hips_cm', label: 'Tour de hanches', unit: 'cm', color: '#EC4899', estimated: true },
+  { key: 'chest_cm', label: 'Tour de poitrine', unit: 'cm', color: '#3B82F6', estimated: true },
+  { key: 'body_fat_perc', label: 'Masse grasse', unit: '%', color: '#F59E0B', estimated: true },
+  { key: 'muscle_mass_kg', label: 'Masse musculaire', unit: 'kg', color: '#10B981', estimated: true },
+];
+
+export const ROLLING_WINDOW = 3;
+
+const clamp01 = (n: number) => Math.max(0, Math.min(1, n));
+
+/**
+ * Half-width of the confidence band, derived from the scan's own processing_confidence
+ * (scan-estimate's confidence in [0, 1]) read as a relative error bound: ±(1 − confidence)
+ * of the value. No band for declared values or scans stored without a confidence.
+ */
+export function confidenceHalfWidth(value: number, confidence: number | null, metric: TrendMetric): number {
+  if (!metric.estimated || confidence === null) return 0;
+  return Math.abs(value) * (1 - confidence);
+}
+
+/**
+ * Chronological points for one metric; scans missing the value are skipped
+ */
+export function buildTrendSeries(scans: BodyScan[], metric: TrendMetric, window = ROLLING_WINDOW): TrendPoint[] {
+  const samples = scans
+    .map((scan) => {
+      const value = extractScanMeasurements(scan)[metric.key];
+      const rawConfidence = scan.metrics?.estimate_result?.extracted_data?.processing_confidence;
+      const confidence = typeof rawConfidence === 'number' && Number.isFinite(rawConfidence) ? clamp01(rawConfidence) : null;
+      return { scanId: scan.id, date: new Date(scan.created_at), value, confidence };
+    })
+    .filter((s): s is { scanId: string; date: Date; value: number; confidence: number | null } =>
+      s.value !== undefined && !Number.isNaN(s.date.getTime())
+    )
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  return samples.map((sample, index) => {
+    // Trailing window so the average never looks ahead of the scan it describes
+    const windowSamples = samples.slice(Math.max(0, index - window + 1), index + 1);
+    const rollingAverage = windowSamples.reduce((sum, s) => sum + s.value, 0) / windowSamples.length;
+    const halfWidth = confidenceHalfWidth(sample.value, sample.confidence, metric);
+    return {
+      ...sample,
+      rollingAverage,
+      bandLow: sample.value - halfWidth,
+      bandHigh: sample.value + halfWidth,
+    };
+  });
+}
@@ -12,7 +12,7 @@ import ImmersivePhotoAnalysis from './components/ImmersivePhotoAnalysis';
 import { useNavigate } from 'react-router-dom';
 import { useProgressStore } from '../../../../system/store/progressStore';
 import logger from '../../../../lib/utils/logger';
-import type { PhotoCaptureReport } from '../../../../domain/types';
+import type { CaptureView, PhotoCaptureReport } from '../../../../domain/types';
 import PageHeader from '../../../../ui/page/PageHeader';
 
 const BodyScanCapture: React.FC = () => {
@@ -120,7 +120,7 @@ const BodyScanCapture: React.FC = () => {
   // Handle photo capture with proper logging
   const handlePhotoCapture = React.useCallback(async (
     file: File, 
-    type: 'front' | 'profile',
+    type: CaptureView,
     captureReport: PhotoCaptureReport
   ) => {
     try {
@@ -166,9 +166,12 @@ const BodyScanCapture: React.FC = () => {
     }
   }, [setCapturedPhotos, setCurrentStep]);
 
-  const handleRetake = (type: 'front' | 'profile') => {
+  const handleRetake = (type: CaptureView) => {
     setCapturedPhotos(prev => prev.filter(p => p.type !== type));
-    setCurrentStep(type === 'front' ? 'front-photo' : 'profile-photo');
+    // Optional views are retaken in place, without leaving the current step
+    if (type === 'front' || type === 'profile') {
+      setCurrentStep(type === 'front' ? 'front-photo' : 'profile-photo');
+    }
     
     logger.info('BODY_SCAN_CAPTURE', 'Photo retake requested', {
       clientScanId: scanIdRef.current,
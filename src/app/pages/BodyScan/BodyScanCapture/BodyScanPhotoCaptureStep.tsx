@@ -8,6 +8,11 @@ import { useToast } from '../../../../ui/components/ToastProvider';
 import { usePreferredMotion } from '../../../../system/device/DeviceProvider';
 import { getAnimationConfig } from '../../../../lib/utils/animationUtils';
 import { validateImageFormat, validateImageQuality, processPhotoForUpload, createPhotoCaptureReport } from '../../../../lib/utils/photoUtils';
+import { analyzePhotoPose } from '../../../../lib/pose/poseValidation';
+import { preloadPoseDetector } from '../../../../lib/pose/poseDetector';
+import { detectA4SheetInFile } from '../../../../lib/image/a4SheetDetector';
+import { selectBestFrame, type BurstSelection } from '../../../../lib/image/burstCapture';
+import { maskPhotoForPrivacy, preloadPrivacyMask, PrivacyMaskUnavailableError, type PrivacyMaskResult } from '../../../../lib/image/privacyMask';
 import { useBodyScanCaptureFlow } from './hooks/useBodyScanCaptureFlow';
 import { ErrorBoundary } from '../../../../providers/ErrorBoundary';
 import LoadingFallback from '../../../../components/LoadingFallback';
@@ -18,15 +23,16 @@ import CapturedPhotoDisplay from './components/CapturedPhotoDisplay';
 import CameraInterface from '../components/CameraInterface/CameraInterface';
 import { useNavigate } from 'react-router-dom';
 import { useProgressStore } from '../../../../system/store/progressStore';
+import { usePrivacyStore } from '../../../../system/store/privacyStore';
 import logger from '../../../../lib/utils/logger';
-import type { PhotoCaptureReport } from '../../../../domain/types';
+import type { CaptureView, OptionalCaptureView, PhotoCaptureReport } from '../../../../domain/types';
 import PageHeader from '../../../../ui/page/PageHeader';
 
 interface BodyScanPhotoCaptureStepProps {
   step: CaptureStep;
   capturedPhotos: CapturedPhotoEnhanced[];
-  onPhotoCapture: (file: File, type: 'front' | 'profile', report: PhotoCaptureReport) => void;
-  onRetake: (type: 'front' | 'profile') => void;
+  onPhotoCapture: (file: File, type: CaptureView, report: PhotoCaptureReport) => void;
+  onRetake: (type: CaptureView) => void;
   onBack: () => void;
   onProceedToProcessing: () => void;
   isProcessingInProgress?: boolean;
@@ -34,6 +40,14 @@ interface BodyScanPhotoCaptureStepProps {
   isProgressInitialized: boolean; // NEW PROP
 }
 
+/** Frames per camera shot; the sharpest one is kept */
+const BURST_FRAME_COUNT = 4;
+
+const OPTIONAL_VIEWS: { view: OptionalCaptureView; title: string }[] = [
+  { view: 'back', title: 'Photo de dos' },
+  { view: 'threequarter', title: 'Photo trois-quarts' },
+];
+
 /**
  * Body Scan Photo Capture Step - VisionOS 26 Optimized
  * Modular, fluid, and performance-optimized photo capture experience
@@ -53,7 +67,12 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
   const [showCamera, setShowCamera] = React.useState(false);
   const [isValidating, setIsValidating] = React.useState(false);
   const [isAnyPhotoValidating, setIsAnyPhotoValidating] = React.useState(false);
-  const [showSuccessAnimation, setShowSuccessAnimation] = React.useState<'front' | 'profile' | null>(null);
+  const [showSuccessAnimation, setShowSuccessAnimation] = React.useState<CaptureView | null>(null);
+  // Optional view targeted by the camera/gallery; null targets the current step's view
+  const [optionalView, setOptionalView] = React.useState<OptionalCaptureView | null>(null);
+  // Optional A4 sheet held in frame for absolute scale
+  const [scaleCalibration, setScaleCalibration] = React.useState(false);
+  const { photoMasking, maskMode, setPhotoMasking, setMaskMode } = usePrivacyStore();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { click, success, error: errorSound, glassClick } = useFeedback();
   const { showToast } = useToast();
@@ -61,19 +80,70 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
   const animConfig = getAnimationConfig('medium');
 
   const photoType = step === 'front-photo' ? 'front' : 'profile';
+  const activeView: CaptureView = optionalView ?? photoType;
   const existingPhoto = capturedPhotos.find(p => p.type === photoType);
   const frontPhoto = capturedPhotos.find(p => p.type === 'front');
   const profilePhoto = capturedPhotos.find(p => p.type === 'profile');
 
-  const processPhotoCapture = useCallback(async (file: File) => {
+  // Fetch the pose model while the user reads the instructions
+  const poseModelMissingRef = React.useRef(false);
+  React.useEffect(() => {
+    if (isFaceScan || poseModelMissingRef.current) return;
+    let cancelled = false;
+    preloadPoseDetector().then((available) => {
+      if (available || cancelled) return;
+      poseModelMissingRef.current = true;
+      if (import.meta.env.DEV) {
+        showToast({
+          type: 'warning',
+          title: 'Modèle de pose manquant (dev)',
+          message: 'Validation de pose et guidage désactivés : lancez `npm run models` puis rechargez.',
+          duration: 8000,
+        });
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isFaceScan, showToast]);
+
+  // Without the segmentation model privacy mode is unavailable: capture stays blocked until the user
+  // turns the mode off, so no unmasked photo leaves the device while it is on
+  const [privacyMaskStatus, setPrivacyMaskStatus] = React.useState<'loading' | 'ready' | 'unavailable'>('loading');
+  const [privacyMaskAttempt, setPrivacyMaskAttempt] = React.useState(0);
+  React.useEffect(() => {
+    if (isFaceScan || !photoMasking) return;
+    let cancelled = false;
+    setPrivacyMaskStatus('loading');
+    preloadPrivacyMask().then((available) => {
+      if (!cancelled) setPrivacyMaskStatus(available ? 'ready' : 'unavailable');
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isFaceScan, photoMasking, privacyMaskAttempt]);
+  const privacyMaskUnavailable = photoMasking && privacyMaskStatus === 'unavailable';
+
+  const processPhotoCapture = useCallback(async (file: File, burstFrames?: File[]) => {
+    if (privacyMaskUnavailable && !isFaceScan) {
+      showToast({
+        type: 'warning',
+        title: 'Mode confidentialité indisponible',
+        message: 'Désactivez le mode confidentialité pour envoyer des photos non masquées, ou réessayez le chargement du masquage.',
+        duration: 5000,
+      });
+      return;
+    }
+
     setIsValidating(true);
     setIsAnyPhotoValidating(true);
     
     logger.info('🔍 [PhotoCapture] Starting photo processing', {
-      photoType,
+      photoType: activeView,
       fileSize: Math.round(file.size / 1024),
       fileType: file.type,
       fileName: file.name,
+      burstFrameCount: burstFrames?.length ?? 1,
       timestamp: Date.now()
     });
     
@@ -106,12 +176,16 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
         }
       }
       
-      // Step 2: Enhanced photo processing with compression
-      const { processedFile, validationReport } = await processPhotoForUpload(file);
+      // Step 2: Enhanced photo processing with compression - bursts keep their sharpest frame
+      const burst: BurstSelection | null = burstFrames && burstFrames.length > 1
+        ? await selectBestFrame(burstFrames, { averageSkinTone: true })
+        : null;
+      const { processedFile, validationReport } = burst ?? await processPhotoForUpload(file);
       
       logger.info('🔍 [PhotoCapture] Photo processing completed', {
-        photoType,
+        photoType: activeView,
         validationReport,
+        burstBestIndex: burst?.bestIndex ?? null,
         processingSuccess: true
       });
       
@@ -126,64 +200,54 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
         });
       }
       
-      // Step 3: Validate photo content (simplified for development)
-      let validationResult;
-      try {
-        // Simplified validation for development
-        validationResult = {
-          isValid: true,
-          issues: [],
-          retakeReasons: [],
-          confidence: 0.8,
-          qualityMetrics: {
-            blur_score: 0.7,
-            brightness: 0.6,
-            exposure_ok: true,
-            noise_score: 0.3,
-          },
-          contentMetrics: {
-            single_person: true,
-            pose_ok: true,
-            face_detected: true,
-            face_bbox_norm: [0.3, 0.1, 0.7, 0.4],
-          },
-          scaleMetrics: {
-            pixel_per_cm_estimate: 3.5,
-            method: 'face-heuristic',
-          },
-        };
-      } catch (workerError) {
-        logger.warn('Worker validation failed, using permissive fallback:', workerError);
-        validationResult = {
-          isValid: true,
-          issues: ['Validation simplifiée - Photo acceptée'],
-          retakeReasons: [],
-          confidence: 0.8,
-          qualityMetrics: {
-            blur_score: 0.7,
-            brightness: 0.6,
-            exposure_ok: true,
-            noise_score: 0.3,
-          },
-          contentMetrics: {
-            single_person: true,
-            pose_ok: true,
-            face_detected: true,
-            face_bbox_norm: [0.3, 0.1, 0.7, 0.4],
-          },
-          scaleMetrics: {
-            pixel_per_cm_estimate: 3.5,
-            method: 'face-heuristic',
-          },
-        };
+      // Step 3: Validate photo content - on-device pose estimation (body scans only, skipped if the model is unavailable)
+      const poseResult = isFaceScan ? null : await analyzePhotoPose(processedFile, activeView);
+      const sheet = scaleCalibration && !isFaceScan ? await detectA4SheetInFile(processedFile) : null;
+      if (scaleCalibration && !isFaceScan && !sheet) {
+        showToast({
+          type: 'warning',
+          title: 'Feuille A4 non détectée',
+          message: 'Mesures estimées à partir de votre taille. Tenez la feuille à plat, entièrement visible, face à l\'objectif.',
+          duration: 4000,
+        });
       }
+      const validationResult = {
+        isValid: poseResult ? poseResult.poseOk : true,
+        issues: poseResult ? poseResult.issues : [],
+        retakeReasons: poseResult ? poseResult.retakeReasons : [],
+        confidence: 0.8,
+        qualityMetrics: {
+          blur_score: burst ? Math.round(burst.sharpness * 100) / 100 : 0.7,
+          brightness: 0.6,
+          exposure_ok: true,
+          noise_score: 0.3,
+        },
+        contentMetrics: {
+          single_person: poseResult ? poseResult.singlePerson : true,
+          pose_ok: poseResult ? poseResult.poseOk : true,
+          skeleton_keypoints: poseResult ? poseResult.keypoints : null,
+          face_detected: true,
+          face_bbox_norm: [0.3, 0.1, 0.7, 0.4],
+        },
+        scaleMetrics: sheet
+          ? {
+              pixel_per_cm_estimate: Math.round(sheet.pixelPerCm * 100) / 100,
+              method: 'sheet-A4',
+              confidence: Math.round(sheet.confidence * 100) / 100,
+            }
+          : {
+              pixel_per_cm_estimate: 3.5,
+              method: 'face-heuristic',
+            },
+      };
       
       // Step 4: Create capture report
       const captureReport = await createPhotoCaptureReport(
         processedFile,
-        photoType,
+        activeView,
         validationResult,
-        undefined
+        undefined,
+        burst?.skinTone
       );
       
       // Step 5: Check for critical issues
@@ -191,10 +255,8 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
       const hasCriticalIssues = validationResult.retakeReasons.some(reason => criticalReasons.includes(reason));
       
       if (hasCriticalIssues) {
-        const criticalReason = validationResult.retakeReasons.find(reason => criticalReasons.includes(reason));
-        const criticalMessage = criticalReason === 'multiple_people' 
-          ? 'Une seule personne doit être visible sur la photo'
-          : 'Aucune personne détectée - Assurez-vous d\'être visible dans le cadre';
+        const criticalIndex = validationResult.retakeReasons.findIndex(reason => criticalReasons.includes(reason));
+        const criticalMessage = validationResult.issues[criticalIndex];
           
         showToast({
           type: 'error',
@@ -205,9 +267,58 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
         errorSound();
         return;
       }
+
+      // Step 5b: Privacy mode - only the masked image is kept; the original stays in memory on the device
+      let uploadFile = processedFile;
+      let finalReport = captureReport;
+      if (photoMasking && !isFaceScan) {
+        let masked: PrivacyMaskResult;
+        try {
+          masked = await maskPhotoForPrivacy(processedFile, maskMode);
+        } catch (maskError) {
+          // Capture is blocked from here on until the user turns privacy mode off or the model loads
+          if (maskError instanceof PrivacyMaskUnavailableError) {
+            setPrivacyMaskStatus('unavailable');
+            logger.warn('[PhotoCapture] Privacy mode unavailable, photo discarded', {
+              photoType: activeView,
+              error: maskError.message,
+            });
+            showToast({
+              type: 'warning',
+              title: 'Mode confidentialité indisponible',
+              message: 'Le masquage n\'a pas pu être chargé sur cet appareil : la photo n\'a pas été conservée. Désactivez le mode confidentialité pour continuer sans masquage, ou réessayez.',
+              duration: 6000,
+            });
+            errorSound();
+            return;
+          }
+
+          logger.warn('[PhotoCapture] Privacy masking failed, photo discarded', {
+            photoType: activeView,
+            error: maskError instanceof Error ? maskError.message : 'Unknown error',
+          });
+          showToast({
+            type: 'error',
+            title: 'Masquage impossible',
+            message: 'La photo n\'a pas été conservée. Reprenez-la en restant entièrement visible, ou désactivez le mode confidentialité.',
+            duration: 5000,
+          });
+          errorSound();
+          return;
+        }
+
+        // Skin tone was measured on the original: the pipeline must not re-estimate it from the masked image
+        const { skinTone } = captureReport as PhotoCaptureReport & { skinTone?: { r: number; g: number; b: number; confidence?: number } };
+        uploadFile = masked.file;
+        finalReport = {
+          ...captureReport,
+          skin_tone: captureReport.skin_tone ?? (skinTone && { r: skinTone.r, g: skinTone.g, b: skinTone.b, confidence: skinTone.confidence }),
+          privacy: { masked: true, mode: masked.mode, face_source: masked.faceSource },
+        };
+      }
       
       // Step 6: Show success animation
-      setShowSuccessAnimation(photoType);
+      setShowSuccessAnimation(activeView);
       
       // Step 7: Separate capture success from validation status
       const isCaptured = true; // Photo is always captured if we reach this point
@@ -215,9 +326,9 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
       
       // Mise à jour immédiate de la progression lors de la capture
       const { setCaptureProgress } = useProgressStore.getState();
-      if (photoType === 'front') {
+      if (activeView === 'front') {
         setCaptureProgress('front_taken');
-      } else if (photoType === 'profile') {
+      } else if (activeView === 'profile') {
         setCaptureProgress('done');
       }
       
@@ -229,11 +340,11 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
       
       // Brief delay for success animation
       setTimeout(async () => {
-        await onPhotoCapture(processedFile, photoType, captureReport);
+        await onPhotoCapture(uploadFile, activeView, finalReport);
         setShowSuccessAnimation(null);
         
         // Auto-scroll to next photo section after front photo capture
-        if (photoType === 'front') {
+        if (activeView === 'front') {
           setTimeout(() => {
             const profileSection = document.querySelector('[data-photo-type="profile"]');
             profileSection?.scrollIntoView({ behavior: 'smooth', block: 'center' });
@@ -241,7 +352,7 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
         }
         
         // Auto-scroll to launch button after profile photo capture (if both photos are ready)
-        if (photoType === 'profile') {
+        if (activeView === 'profile') {
           setTimeout(() => {
             // Check if both photos are captured
             const frontPhotoExists = capturedPhotos.some(p => p.type === 'front');
@@ -262,8 +373,8 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
           title: captureMessage,
           message: isValidated 
             ? 'Excellente qualité détectée'
-            : `${validationResult.issues.length} point(s) d'amélioration détecté(s). Vous pouvez continuer ou reprendre la photo.`,
-          duration: 2000,
+            : `${validationResult.issues[0]}. Vous pouvez continuer ou reprendre la photo.`,
+          duration: isValidated ? 2000 : 4000,
         });
         
         if (isValidated) {
@@ -286,7 +397,7 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
         fileInputRef.current.value = '';
       }
     }
-  }, [photoType, onPhotoCapture, showToast, success, errorSound, capturedPhotos]);
+  }, [activeView, isFaceScan, scaleCalibration, photoMasking, privacyMaskUnavailable, maskMode, onPhotoCapture, showToast, success, errorSound, capturedPhotos]);
 
   const handleFileSelect = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -360,9 +471,9 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
     await processPhotoCapture(file);
   }, [processPhotoCapture, showToast]);
 
-  const handleCameraCapture = useCallback(async (file: File) => {
+  const handleCameraCapture = useCallback(async (file: File, burstFrames?: File[]) => {
     setShowCamera(false);
-    await processPhotoCapture(file);
+    await processPhotoCapture(file, burstFrames);
   }, [processPhotoCapture]);
 
   return (
@@ -408,13 +519,109 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
               <div className="space-y-6">
                 <PhotoGuideOverlay type="front" isFaceScan={isFaceScan} /> {/* NOUVEAU: Passer isFaceScan */}
                 
+                {!isFaceScan && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      glassClick();
+                      setScaleCalibration((value) => !value);
+                    }}
+                    className="w-full flex items-start gap-3 p-4 rounded-xl bg-white/5 border border-white/10 text-left"
+                    aria-pressed={scaleCalibration}
+                  >
+                    <div className={`mt-0.5 w-5 h-5 rounded-md border flex items-center justify-center ${scaleCalibration ? 'bg-blue-500/60 border-blue-400' : 'border-white/30'}`}>
+                      {scaleCalibration && <SpatialIcon Icon={ICONS.Check} size={12} className="text-white" />}
+                    </div>
+                    <div>
+                      <p className="text-white text-sm font-medium">Calibration avec une feuille A4 (optionnel)</p>
+                      <p className="text-white/60 text-xs mt-1">
+                        Collez une feuille A4 blanche au mur juste à côté de vous (ou tenez-la à plat contre votre corps), entièrement visible et face à l'objectif, pour des mesures en cm comparables à un mètre ruban.
+                      </p>
+                    </div>
+                  </button>
+                )}
+
+                {!isFaceScan && (
+                  <div className="rounded-xl bg-white/5 border border-white/10">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        glassClick();
+                        setPhotoMasking(!photoMasking);
+                      }}
+                      className="w-full flex items-start gap-3 p-4 text-left"
+                      aria-pressed={photoMasking}
+                    >
+                      <div className={`mt-0.5 w-5 h-5 rounded-md border flex items-center justify-center ${photoMasking ? 'bg-blue-500/60 border-blue-400' : 'border-white/30'}`}>
+                        {photoMasking && <SpatialIcon Icon={ICONS.Check} size={12} className="text-white" />}
+                      </div>
+                      <div>
+                        <p className="text-white text-sm font-medium">Mode confidentialité</p>
+                        <p className="text-white/60 text-xs mt-1">
+                          Votre visage et l'arrière-plan sont masqués sur votre appareil avant l'envoi : seule votre silhouette masquée est stockée et analysée. La photo originale ne quitte pas votre téléphone.
+                        </p>
+                      </div>
+                    </button>
+
+                    {privacyMaskUnavailable && (
+                      <div className="px-4 pb-4 pl-12" role="status">
+                        <p className="text-amber-300 text-xs font-medium">Mode confidentialité indisponible</p>
+                        <p className="text-white/60 text-xs mt-1">
+                          Le masquage n'a pas pu être chargé sur cet appareil. La capture est bloquée tant que le mode est activé : désactivez-le pour envoyer vos photos sans masquage, ou réessayez.
+                        </p>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            glassClick();
+                            setPrivacyMaskAttempt((attempt) => attempt + 1);
+                          }}
+                          className="mt-2 px-3 py-1.5 rounded-full text-xs border border-white/20 text-white/70"
+                        >
+                          Réessayer
+                        </button>
+                      </div>
+                    )}
+
+                    {photoMasking && !privacyMaskUnavailable && (
+                      <div className="flex gap-2 px-4 pb-4 pl-12">
+                        {([
+                          { mode: 'blur', label: 'Flouter' },
+                          { mode: 'replace', label: 'Remplacer par un fond gris' },
+                        ] as const).map(({ mode, label }) => (
+                          <button
+                            key={mode}
+                            type="button"
+                            onClick={() => {
+                              glassClick();
+                              setMaskMode(mode);
+                            }}
+                            className={`px-3 py-1.5 rounded-full text-xs border ${
+                              maskMode === mode ? 'bg-blue-500/40 border-blue-400/60 text-white' : 'border-white/20 text-white/70'
+                            }`}
+                            aria-pressed={maskMode === mode}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+                
                 {step === 'front-photo' && (
                   <PhotoCaptureControls
                     photoType="front"
                     isValidating={isValidating}
-                    onCameraCapture={() => setShowCamera(true)}
-                    onGallerySelect={() => fileInputRef.current?.click()}
+                    onCameraCapture={() => {
+                      setOptionalView(null);
+                      setShowCamera(true);
+                    }}
+                    onGallerySelect={() => {
+                      setOptionalView(null);
+                      fileInputRef.current?.click();
+                    }}
                     isProgressInitialized={isProgressInitialized} // Pass the prop
+                    disabled={privacyMaskUnavailable}
                   />
                 )}
               </div>
@@ -465,9 +672,16 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
                   <PhotoCaptureControls
                     photoType="profile"
                     isValidating={isValidating}
-                    onCameraCapture={() => setShowCamera(true)}
-                    onGallerySelect={() => fileInputRef.current?.click()}
+                    onCameraCapture={() => {
+                      setOptionalView(null);
+                      setShowCamera(true);
+                    }}
+                    onGallerySelect={() => {
+                      setOptionalView(null);
+                      fileInputRef.current?.click();
+                    }}
                     isProgressInitialized={isProgressInitialized} // Pass the prop
+                    disabled={privacyMaskUnavailable}
                   />
                 )}
                 
@@ -484,6 +698,64 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
           </GlassCard>
         </motion.div>
       </div >
+
+      {/* Optional Views - back and three-quarter refine back width, glutes and posture */}
+      {!isFaceScan && frontPhoto && profilePhoto && (
+        <motion.div
+          data-photo-type="optional"
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: animConfig.duration, ease: animConfig.ease }}
+        >
+          <GlassCard className="p-6 relative overflow-visible">
+            <div className="mb-4">
+              <h4 className="text-white font-semibold flex items-center gap-2">
+                <SpatialIcon Icon={ICONS.Plus} size={16} className="text-cyan-400" />
+                Vues complémentaires (optionnel)
+              </h4>
+              <p className="text-white/60 text-xs mt-1">
+                Une photo de dos et de trois-quarts affinent la largeur du dos, les fessiers et la posture.
+              </p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {OPTIONAL_VIEWS.map(({ view, title }) => {
+                const photo = capturedPhotos.find(p => p.type === view);
+                return (
+                  <div key={view} data-photo-type={view} className="space-y-4">
+                    <p className="text-white/80 text-sm font-medium">{title}</p>
+                    {photo ? (
+                      <CapturedPhotoDisplay
+                        photo={photo}
+                        showSuccessAnimation={showSuccessAnimation === view}
+                        onRetake={() => onRetake(view)}
+                      />
+                    ) : (
+                      <>
+                        <PhotoGuideOverlay type={view} />
+                        <PhotoCaptureControls
+                          photoType={view}
+                          isValidating={isValidating && activeView === view}
+                          onCameraCapture={() => {
+                            setOptionalView(view);
+                            setShowCamera(true);
+                          }}
+                          onGallerySelect={() => {
+                            setOptionalView(view);
+                            fileInputRef.current?.click();
+                          }}
+                          isProgressInitialized={isProgressInitialized}
+                          disabled={privacyMaskUnavailable}
+                        />
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </GlassCard>
+        </motion.div>
+      )}
       
       {/* Enhanced Validation Status */}
       <AnimatePresence>
@@ -511,7 +783,7 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
       
       {/* Enhanced Ready for Processing */}
       <AnimatePresence>
-        {capturedPhotos.length === 2 && !isAnyPhotoValidating && (
+        {frontPhoto && profilePhoto && !isAnyPhotoValidating && (
           <motion.div 
             className="ready-for-processing-entrance"
             initial={{ opacity: 0, y: 30, scale: 0.95 }}
@@ -619,9 +891,11 @@ const BodyScanPhotoCaptureStep: React.FC<BodyScanPhotoCaptureStepProps> = ({
       {/* Camera Interface */}
       {showCamera && (
         <CameraInterface
-          photoType={photoType}
+          photoType={activeView}
           onCapture={handleCameraCapture}
           onClose={() => setShowCamera(false)}
+          framingGuidance={!isFaceScan}
+          burstCount={BURST_FRAME_COUNT}
         />
       )}
       
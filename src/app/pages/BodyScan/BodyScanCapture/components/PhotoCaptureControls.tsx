@@ -4,13 +4,16 @@ import SpatialIcon from '../../../../../ui/icons/SpatialIcon';
 import { ICONS } from '../../../../../ui/icons/registry';
 import { useFeedback } from '../../../../../hooks/useFeedback';
 import logger from '../../../../../lib/utils/logger';
+import type { CaptureView } from '../../../../../domain/types';
 
 interface PhotoCaptureControlsProps {
-  photoType: 'front' | 'profile';
+  photoType: CaptureView;
   isValidating: boolean;
   onCameraCapture: () => void;
   onGallerySelect: () => void;
   isProgressInitialized: boolean; // NEW PROP
+  /** Capture blocked by the parent, e.g. privacy mode on but unavailable */
+  disabled?: boolean;
 }
 
 /**
@@ -23,6 +26,7 @@ const PhotoCaptureControls: React.FC<PhotoCaptureControlsProps> = ({
   onCameraCapture,
   onGallerySelect,
   isProgressInitialized, // NEW PROP
+  disabled = false,
 }) => {
   const { glassClick, click } = useFeedback();
 
@@ -39,7 +43,7 @@ const PhotoCaptureControls: React.FC<PhotoCaptureControlsProps> = ({
           onCameraCapture();
         }}
         className="w-full btn-glass--primary relative overflow-hidden"
-        disabled={isValidating || !isProgressInitialized} // Disable if not initialized
+        disabled={disabled || isValidating || !isProgressInitialized} // Disable if not initialized
         whileHover={{ scale: 1.02 }}
         whileTap={{ scale: 0.98 }}
         style={{
@@ -82,7 +86,7 @@ const PhotoCaptureControls: React.FC<PhotoCaptureControlsProps> = ({
           onGallerySelect();
         }}
         className="w-full btn-glass"
-        disabled={isValidating || !isProgressInitialized} // Disable if not initialized
+        disabled={disabled || isValidating || !isProgressInitialized} // Disable if not initialized
         whileHover={{ scale: 1.02 }}
         whileTap={{ scale: 0.98 }}
         style={{
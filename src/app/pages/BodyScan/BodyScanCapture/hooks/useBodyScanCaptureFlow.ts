@@ -10,11 +10,14 @@ import { useUserStore } from '../../../../../system/store/userStore';
 import { useToast } from '../../../../../ui/components/ToastProvider';
 import { useFeedback } from '../../../../../hooks/useFeedback';
 import { scanAnalytics } from '../../../../../lib/utils/analytics';
-import { processBodyScanPipeline } from '../services/scanProcessingService';
+import { getResumableStage, processBodyScanPipeline, type ScanProcessingConfig } from '../services/scanProcessingService';
+import { canQueueScans, enqueueScan, isConnectivityError } from '../services/offlineScanQueue';
+import { QuotaExceededError } from '../../../../../system/data/repositories/bodyScanRepo';
 import { generateInsightsFromScanResults } from '../utils/insightGenerator';
 import { extractUserProfileFromSources, resolveGenderFromSources } from '../utils/dataExtractors';
 import type { CapturedPhotoEnhanced } from '../../../../../domain/types';
 import logger from '../../../../../lib/utils/logger';
+import { clearScanTraceId } from '../../../../../lib/utils/trace';
 
 type CaptureStep = 'front-photo' | 'profile-photo' | 'processing' | 'results';
 
@@ -135,7 +138,9 @@ export function useBodyScanCaptureFlow(config: BodyScanCaptureFlowConfig = {}):
       return;
     }
     
-    if (capturedPhotos.length !== 2) {
+    // Back and three-quarter photos are optional extras
+    const hasRequiredViews = ['front', 'profile'].every((view) => capturedPhotos.some((photo) => photo.type === view));
+    if (!hasRequiredViews) {
       showToast({
         type: 'error',
         title: 'Photos manquantes',
@@ -171,6 +176,49 @@ export function useBodyScanCaptureFlow(config: BodyScanCaptureFlowConfig = {}):
     setCurrentStep('processing');
 
     const clientScanId = config.scanId;
+    const pipelineConfig: ScanProcessingConfig = {
+      userId,
+      clientScanId,
+      capturedPhotos,
+      stableScanParams,
+      resolvedGender
+    };
+
+    // Sans réseau : conserver la capture et la traiter au retour de la connexion
+    const queueForLater = async (reason: string) => {
+      await enqueueScan(pipelineConfig, reason);
+      showToast({
+        type: 'info',
+        title: 'Scan enregistré hors ligne',
+        message: 'Il sera envoyé automatiquement dès le retour de la connexion.',
+        duration: 5000,
+      });
+      navigate('/avatar#history');
+    };
+
+    if (!navigator.onLine && canQueueScans()) {
+      try {
+        await queueForLater('offline_at_capture');
+      } catch (queueError) {
+        logger.error('[BODY_SCAN_CAPTURE_FLOW] Failed to queue offline scan', {
+          clientScanId,
+          error: queueError instanceof Error ? queueError.message : 'Unknown error'
+        });
+        showToast({
+          type: 'error',
+          title: 'Hors ligne',
+          message: 'Impossible de sauvegarder le scan sur cet appareil. Réessayez une fois connecté.',
+          duration: 4000,
+        });
+        setCurrentStep('profile-photo');
+      } finally {
+        // The queued capture carries its trace id
+        clearScanTraceId(clientScanId);
+        processingGuardRef.current = false;
+        setIsProcessing(false);
+      }
+      return;
+    }
 
     try {
       scanAnalytics.processingStarted({ 
@@ -179,13 +227,7 @@ export function useBodyScanCaptureFlow(config: BodyScanCaptureFlowConfig = {}):
       });
 
       // Process complete pipeline using service
-      const { completeResults } = await processBodyScanPipeline({
-        userId,
-        clientScanId,
-        capturedPhotos,
-        stableScanParams,
-        resolvedGender
-      });
+      const { completeResults } = await processBodyScanPipeline(pipelineConfig);
 
       setScanResults(completeResults);
       setCurrentStep('results');
@@ -218,16 +260,47 @@ export function useBodyScanCaptureFlow(config: BodyScanCaptureFlowConfig = {}):
         step: 'pipeline_processing',
         timestamp: new Date().toISOString()
       });
+
+      // Quota du forfait atteint : relancer tout de suite échouerait de la même façon
+      if (error instanceof QuotaExceededError) {
+        showToast({
+          type: 'warning',
+          title: 'Limite de scans atteinte',
+          message: error.message,
+          duration: 6000,
+        });
+        setCurrentStep('profile-photo');
+        return;
+      }
+
+      // La connexion a lâché en cours de route : la capture n'est pas perdue
+      if (isConnectivityError(error) && canQueueScans()) {
+        try {
+          await queueForLater(errorMessage);
+          return;
+        } catch (queueError) {
+          logger.error('[BODY_SCAN_CAPTURE_FLOW] Failed to queue scan after network error', {
+            clientScanId,
+            error: queueError instanceof Error ? queueError.message : 'Unknown error'
+          });
+        }
+      }
       
+      // Les étapes réussies sont conservées : relancer le scan reprend à l'étape en échec
+      const resumableStage = await getResumableStage(clientScanId);
       showToast({
         type: 'error',
         title: 'Erreur de traitement',
-        message: errorMessage,
+        message: resumableStage && resumableStage !== 'upload'
+          ? `${errorMessage} — Relancez l'analyse : les étapes déjà réussies ne seront pas refaites.`
+          : errorMessage,
         duration: 4000,
       });
       
       setCurrentStep('profile-photo');
     } finally {
+      // Results and queued captures carry the trace id: the pipeline is over either way
+      clearScanTraceId(clientScanId);
       processingGuardRef.current = false;
       setIsProcessing(false);
     }
@@ -0,0 +1,65 @@
+// src/app/pages/BodyScan/BodyScanCapture/hooks/usePendingScans.ts
+/**
+ * Pending Scans Hooks
+ * React bindings for the offline scan queue: background sync and the pending list
+ */
+
+import { useEffect, useRef } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { listPendingScans, isOfflineStorageAvailable } from '../../../../../system/data/offline/pendingScanStore';
+import { startScanQueueSync, subscribeToScanQueue } from '../services/offlineScanQueue';
+import { useToast } from '../../../../../ui/components/ToastProvider';
+
+export const pendingScansQueryKey = (userId: string | null | undefined) => ['pending-body-scans', userId];
+
+/**
+ * Mount once at app level: replays queued scans and refreshes history when they land
+ */
+export function useScanQueueSync(userId: string | null | undefined) {
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  // The toast callback changes identity on every provider render; don't restart the sync for it
+  const showToastRef = useRef(showToast);
+  showToastRef.current = showToast;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const unsubscribe = subscribeToScanQueue((event) => {
+      queryClient.invalidateQueries({ queryKey: pendingScansQueryKey(userId) });
+
+      if (event.type === 'completed') {
+        queryClient.invalidateQueries({ queryKey: ['body-scan-history', userId] });
+        showToastRef.current({
+          type: 'success',
+          title: 'Scan envoyé',
+          message: 'Votre scan hors ligne a été traité et ajouté à votre historique.',
+        });
+      } else if (event.type === 'failed') {
+        showToastRef.current({
+          type: 'error',
+          title: 'Scan en échec',
+          message: "Un scan en attente n'a pas pu être traité. Réessayez depuis l'historique.",
+        });
+      }
+    });
+    const stopSync = startScanQueueSync(userId);
+
+    return () => {
+      unsubscribe();
+      stopSync();
+    };
+  }, [userId, queryClient]);
+}
+
+/**
+ * Scans captured offline and not yet committed, oldest first
+ */
+export function usePendingScans(userId: string | null | undefined) {
+  return useQuery({
+    queryKey: pendingScansQueryKey(userId),
+    queryFn: () => listPendingScans(userId!),
+    enabled: !!userId && isOfflineStorageAvailable(),
+    staleTime: 30 * 1000,
+  });
+}
@@ -0,0 +1,54 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../../../../system/supabase/client', () => ({ supabase: {} }));
+vi.mock('./scanProcessingService', () => ({ processBodyScanPipeline: vi.fn() }));
+
+const { isConnectivityError, quotaRetryAt } = await import('./offlineScanQueue');
+const { QuotaExceededError } = await import('../../../../../system/data/repositories/bodyScanRepo');
+
+function quotaError(details: Partial<{ reset_at: string; retry_after_seconds: number }>) {
+  return new QuotaExceededError({
+    error: 'quota_exceeded',
+    feature: 'scan',
+    plan: 'free',
+    period: 'day',
+    limit: 3,
+    used: 3,
+    reset_at: '',
+    retry_after_seconds: 0,
+    ...details,
+  });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('isConnectivityError', () => {
+  it('recognizes fetch failures', () => {
+    expect(isConnectivityError(new TypeError('Failed to fetch'))).toBe(true);
+    expect(isConnectivityError(new Error('FunctionsFetchError: Failed to send a request to the Edge Function'))).toBe(true);
+    expect(isConnectivityError(new TypeError('Load failed'))).toBe(true);
+  });
+
+  it('does not treat programming errors as connectivity', () => {
+    expect(isConnectivityError(new TypeError("Cannot read properties of undefined (reading 'url')"))).toBe(false);
+    expect(isConnectivityError(new Error('Edge Function returned a non-2xx status code'))).toBe(false);
+  });
+});
+
+describe('quotaRetryAt', () => {
+  it('waits for the quota reset', () => {
+    expect(quotaRetryAt(quotaError({ reset_at: '2026-01-02T00:00:00.000Z' }))).toBe(Date.parse('2026-01-02T00:00:00.000Z'));
+  });
+
+  it('falls back to retry_after_seconds without a valid reset time', () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    expect(quotaRetryAt(quotaError({ reset_at: 'not a date', retry_after_seconds: 120 }))).toBe(1_000_000 + 120_000);
+  });
+
+  it('never retries immediately when the server sent no timing', () => {
+    vi.useFakeTimers({ now: 1_000_000 });
+    expect(quotaRetryAt(quotaError({}))).toBe(1_000_000 + 30 * 60 * 1000);
+  });
+});
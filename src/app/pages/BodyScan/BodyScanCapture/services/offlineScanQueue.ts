@@ -0,0 +1,243 @@
+// src/app/pages/BodyScan/BodyScanCapture/services/offlineScanQueue.ts
+/**
+ * Offline Scan Queue
+ * Keeps captures made without connectivity in IndexedDB and replays the full
+ * upload → estimate → semantic → match → commit pipeline once the device is back online
+ */
+
+import {
+  deletePendingScan,
+  isOfflineStorageAvailable,
+  listPendingScans,
+  savePendingScan,
+  updatePendingScan,
+  type PendingScanRecord,
+} from '../../../../../system/data/offline/pendingScanStore';
+import { processBodyScanPipeline, type ScanProcessingConfig } from './scanProcessingService';
+import { QuotaExceededError } from '../../../../../system/data/repositories/bodyScanRepo';
+import logger from '../../../../../lib/utils/logger';
+import { clearScanTraceId, getScanTraceId, setScanTraceId } from '../../../../../lib/utils/trace';
+import type { CapturedPhotoEnhanced } from '../../../../../domain/types';
+
+export const MAX_QUEUE_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 30 * 60 * 1000;
+const QUEUE_POLL_INTERVAL_MS = 60 * 1000;
+
+export type ScanQueueEvent =
+  | { type: 'enqueued' | 'updated'; clientScanId: string }
+  | { type: 'completed'; clientScanId: string; serverScanId?: string }
+  | { type: 'failed'; clientScanId: string; error: string };
+
+const listeners = new Set<(event: ScanQueueEvent) => void>();
+let isProcessing = false;
+
+function emit(event: ScanQueueEvent) {
+  listeners.forEach((listener) => listener(event));
+}
+
+export function subscribeToScanQueue(listener: (event: ScanQueueEvent) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' || navigator.onLine !== false;
+}
+
+/**
+ * Network-level failures (as opposed to server/validation errors) are worth queuing.
+ * Matched on the fetch failure messages only: any TypeError would also catch programming
+ * errors, which would then be replayed forever without using up their attempts.
+ */
+export function isConnectivityError(error: unknown): boolean {
+  if (!isOnline()) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /failed to fetch|networkerror|network request failed|load failed|failed to send a request/i.test(message);
+}
+
+export function canQueueScans(): boolean {
+  return isOfflineStorageAvailable();
+}
+
+/**
+ * Persist a capture so it survives reloads until the pipeline completes
+ */
+export async function enqueueScan(config: ScanProcessingConfig, reason: string): Promise<void> {
+  const now = new Date().toISOString();
+  await savePendingScan({
+    clientScanId: config.clientScanId,
+    userId: config.userId,
+    photos: config.capturedPhotos.map((photo) => ({
+      type: photo.type,
+      blob: photo.file,
+      fileName: photo.file.name || `${photo.type}.jpg`,
+      captureReport: photo.captureReport,
+    })),
+    stableScanParams: config.stableScanParams,
+    resolvedGender: config.resolvedGender,
+    traceId: getScanTraceId(config.clientScanId),
+    status: 'pending',
+    attempts: 0,
+    lastError: reason,
+    createdAt: now,
+    updatedAt: now,
+    nextAttemptAt: 0,
+  });
+
+  emit({ type: 'enqueued', clientScanId: config.clientScanId });
+}
+
+function toCapturedPhotos(record: PendingScanRecord): CapturedPhotoEnhanced[] {
+  return record.photos.map((photo) => ({
+    type: photo.type,
+    file: new File([photo.blob], photo.fileName, { type: photo.blob.type }),
+    url: URL.createObjectURL(photo.blob),
+    captureReport: photo.captureReport,
+  }));
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)));
+}
+
+/**
+ * Quota reset time, else `retry_after_seconds`, else the longest backoff: a missing reset time
+ * must not turn into an immediate retry loop
+ */
+export function quotaRetryAt(error: QuotaExceededError): number {
+  const resetAt = Date.parse(error.details.reset_at);
+  if (Number.isFinite(resetAt)) return resetAt;
+  const retryAfterSeconds = Number(error.details.retry_after_seconds);
+  return Date.now() + (retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Replay due pending scans, oldest first. `force` ignores backoff and the failed state.
+ */
+export async function processPendingScans(
+  userId: string,
+  options: { force?: boolean } = {}
+): Promise<{ processed: number; failed: number }> {
+  const summary = { processed: 0, failed: 0 };
+  if (isProcessing || !isOnline() || !isOfflineStorageAvailable()) return summary;
+
+  isProcessing = true;
+  try {
+    const records = await listPendingScans(userId);
+    const now = Date.now();
+
+    for (const record of records) {
+      // 'processing' left over from a closed tab is replayed like 'pending'
+      if (!options.force && (record.status === 'failed' || record.nextAttemptAt > now)) continue;
+
+      await updatePendingScan(record.clientScanId, { status: 'processing' });
+      emit({ type: 'updated', clientScanId: record.clientScanId });
+
+      if (record.traceId) setScanTraceId(record.clientScanId, record.traceId);
+      const capturedPhotos = toCapturedPhotos(record);
+      try {
+        const { commit } = await processBodyScanPipeline({
+          userId: record.userId,
+          clientScanId: record.clientScanId,
+          capturedPhotos,
+          stableScanParams: record.stableScanParams,
+          resolvedGender: record.resolvedGender,
+          background: true,
+        });
+
+        await deletePendingScan(record.clientScanId);
+        summary.processed++;
+        emit({ type: 'completed', clientScanId: record.clientScanId, serverScanId: commit?.scan_id });
+
+        logger.info('[OfflineScanQueue] Pending scan processed', {
+          clientScanId: record.clientScanId,
+          serverScanId: commit?.scan_id,
+          attempts: record.attempts + 1,
+        });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        const offline = isConnectivityError(error);
+        // Plan quota reached: the scan is fine, it waits for the quota reset
+        const quotaExceeded = error instanceof QuotaExceededError;
+        // Losing the network again is not the scan's fault: keep the attempt budget for real failures
+        const attempts = offline || quotaExceeded ? record.attempts : record.attempts + 1;
+        const exhausted = attempts >= MAX_QUEUE_ATTEMPTS;
+
+        await updatePendingScan(record.clientScanId, {
+          status: exhausted ? 'failed' : 'pending',
+          attempts,
+          lastError: message,
+          nextAttemptAt: quotaExceeded ? quotaRetryAt(error) : Date.now() + retryDelay(attempts),
+        });
+        summary.failed++;
+        emit(
+          exhausted
+            ? { type: 'failed', clientScanId: record.clientScanId, error: message }
+            : { type: 'updated', clientScanId: record.clientScanId }
+        );
+
+        logger.warn('[OfflineScanQueue] Pending scan replay failed', {
+          clientScanId: record.clientScanId,
+          attempts,
+          exhausted,
+          offline,
+          quotaExceeded,
+          error: message,
+        });
+
+        // Later scans would hit the same wall
+        if (offline || quotaExceeded) break;
+      } finally {
+        capturedPhotos.forEach((photo) => URL.revokeObjectURL(photo.url));
+        // Re-attached from the record on the next attempt
+        clearScanTraceId(record.clientScanId);
+      }
+    }
+  } catch (error) {
+    logger.error('[OfflineScanQueue] Queue processing failed', {
+      userId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  } finally {
+    isProcessing = false;
+  }
+
+  return summary;
+}
+
+/**
+ * Manual retry from the history tab, bypassing backoff and the attempt limit
+ */
+export async function retryPendingScan(userId: string, clientScanId: string): Promise<void> {
+  await updatePendingScan(clientScanId, { status: 'pending', attempts: 0, nextAttemptAt: 0 });
+  emit({ type: 'updated', clientScanId });
+  await processPendingScans(userId);
+}
+
+export async function discardPendingScan(clientScanId: string): Promise<void> {
+  await deletePendingScan(clientScanId);
+  emit({ type: 'updated', clientScanId });
+}
+
+/**
+ * Replay the queue now, whenever connectivity returns, and on a slow poll for backoff expiry
+ */
+export function startScanQueueSync(userId: string): () => void {
+  if (!isOfflineStorageAvailable()) return () => {};
+
+  const run = () => {
+    processPendingScans(userId);
+  };
+
+  window.addEventListener('online', run);
+  const intervalId = setInterval(run, QUEUE_POLL_INTERVAL_MS);
+  run();
+
+  return () => {
+    window.removeEventListener('online', run);
+    clearInterval(intervalId);
+  };
+}
@@ -4,14 +4,22 @@
  * Handles the complete body scan processing pipeline
  */
 
-import { bodyScanRepo } from '../../../../../system/data/repositories/bodyScanRepo';
-import { supabase } from '../../../../../system/supabase/client';
+import { api } from '../../../../../system/data/dataSource';
 import { scanAnalytics } from '../../../../../lib/utils/analytics';
 import { useProgressStore } from '../../../../../system/store/progressStore';
 import logger from '../../../../../lib/utils/logger';
+import { getScanTraceId } from '../../../../../lib/utils/trace';
+import {
+  clearScanCheckpoint,
+  firstMissingStage,
+  getScanCheckpoint,
+  saveStageCheckpoint,
+  type ScanCheckpointRecord,
+  type ScanPipelineStage,
+} from '../../../../../system/data/offline/scanCheckpointStore';
 import type { CapturedPhotoEnhanced } from '../../../../../domain/types';
 
-interface ScanProcessingConfig {
+export interface ScanProcessingConfig {
   userId: string;
   clientScanId: string;
   capturedPhotos: CapturedPhotoEnhanced[];
@@ -21,6 +29,8 @@ interface ScanProcessingConfig {
     weight_kg: number;
   };
   resolvedGender: 'masculine' | 'feminine'; // MODIFIED: Type updated
+  /** Replay from the offline queue: run without driving the capture screen progress */
+  background?: boolean;
 }
 
 interface ScanProcessingResult {
@@ -31,13 +41,94 @@ interface ScanProcessingResult {
   completeResults: any;
 }
 
+type PipelineProgress = Pick<
+  ReturnType<typeof useProgressStore.getState>,
+  | 'setProcessingStep'
+  | 'setServerScanId'
+  | 'setComplete'
+  | 'setOverallProgress'
+  | 'incrementProgress'
+  | 'startDynamicProcessing'
+  | 'stopDynamicProcessing'
+>;
+
+const noop = () => {};
+
+/**
+ * Optional client override of the scan-match ranking (VITE_SCAN_MATCH_RANKING_STRATEGY)
+ */
+const rankingStrategyOverride = (['semantic_score', 'morph_distance'] as const).find(
+  (strategy) => strategy === import.meta.env.VITE_SCAN_MATCH_RANKING_STRATEGY
+);
+
+const SILENT_PROGRESS: PipelineProgress = {
+  setProcessingStep: noop,
+  setServerScanId: noop,
+  setComplete: noop,
+  setOverallProgress: noop,
+  incrementProgress: noop,
+  startDynamicProcessing: noop,
+  stopDynamicProcessing: noop,
+};
+
 /**
- * Process complete body scan pipeline
+ * Identifies a capture independently of the File instance (offline replays rebuild it)
+ */
+function fingerprintCapture(capturedPhotos: CapturedPhotoEnhanced[]): string {
+  const source = capturedPhotos
+    .map((photo) => `${photo.type}:${photo.file?.size ?? 0}:${JSON.stringify(photo.captureReport ?? null)}`)
+    .join('|');
+  let hash = 5381;
+  for (let i = 0; i < source.length; i++) {
+    hash = ((hash << 5) + hash + source.charCodeAt(i)) | 0;
+  }
+  return `${capturedPhotos.length}-${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * Stage checkpoint for this capture, ignoring one left by a previous set of photos
+ */
+async function loadPipelineCheckpoint(
+  clientScanId: string,
+  fingerprint: string
+): Promise<ScanCheckpointRecord | undefined> {
+  try {
+    const checkpoint = await getScanCheckpoint(clientScanId);
+    if (checkpoint && checkpoint.fingerprint !== fingerprint) {
+      await clearScanCheckpoint(clientScanId);
+      return undefined;
+    }
+    return checkpoint;
+  } catch (error) {
+    logger.warn('[ScanCheckpoint] Checkpoint unavailable, running full pipeline', {
+      clientScanId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return undefined;
+  }
+}
+
+/**
+ * First stage a retry of this capture would run, or null when nothing is checkpointed
+ */
+export async function getResumableStage(clientScanId: string): Promise<ScanPipelineStage | null> {
+  try {
+    const checkpoint = await getScanCheckpoint(clientScanId);
+    return checkpoint ? firstMissingStage(checkpoint) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Process complete body scan pipeline.
+ * Each stage result is checkpointed under clientScanId: calling again with the same
+ * capture resumes from the first stage that did not complete.
  */
 export async function processBodyScanPipeline(
   config: ScanProcessingConfig
 ): Promise<ScanProcessingResult> {
-  const { userId, clientScanId, capturedPhotos, stableScanParams, resolvedGender } = config;
+  const { userId, clientScanId, capturedPhotos, stableScanParams, resolvedGender, background = false } = config;
   const { 
     setProcessingStep, 
     setServerScanId, 
@@ -46,7 +137,7 @@ export async function processBodyScanPipeline(
     incrementProgress,
     startDynamicProcessing,
     stopDynamicProcessing
-  } = useProgressStore.getState();
+  }: PipelineProgress = background ? SILENT_PROGRESS : useProgressStore.getState();
 
   logger.info('SCAN_PROCESSING_SERVICE', 'Starting complete pipeline processing', {
     clientScanId,
@@ -57,6 +148,40 @@ export async function processBodyScanPipeline(
     timestamp: new Date().toISOString()
   });
 
+  const fingerprint = fingerprintCapture(capturedPhotos);
+  const checkpoint = await loadPipelineCheckpoint(clientScanId, fingerprint);
+  if (checkpoint) {
+    logger.info('[ScanCheckpoint] Resuming pipeline', {
+      clientScanId,
+      completedStages: Object.keys(checkpoint.stages),
+      resumeFrom: firstMissingStage(checkpoint),
+    });
+  }
+
+  const runStage = async <T>(
+    stage: ScanPipelineStage,
+    run: () => Promise<T>,
+    shouldCheckpoint: (result: T) => boolean = () => true
+  ): Promise<T> => {
+    if (checkpoint && stage in checkpoint.stages) {
+      return checkpoint.stages[stage] as T;
+    }
+    const result = await run();
+    if (shouldCheckpoint(result)) {
+      try {
+        await saveStageCheckpoint({ clientScanId, userId, fingerprint }, stage, result);
+      } catch (error) {
+        // A lost checkpoint only costs a recomputation on retry
+        logger.warn('[ScanCheckpoint] Failed to save stage checkpoint', {
+          clientScanId,
+          stage,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+    }
+    return result;
+  };
+
   // STEP 0: Upload photos to Supabase Storage
   setOverallProgress(52, 'Préparation des données', 'Téléchargement sécurisé de vos photos...');
   
@@ -65,8 +190,16 @@ export async function processBodyScanPipeline(
     incrementProgress(1, 'Préparation des données', 'Téléchargement sécurisé de vos photos...');
   }, 200);
   
-  const uploadedPhotos = await uploadPhotosToStorage(userId, clientScanId, capturedPhotos);
-  clearInterval(uploadProgressInterval);
+  let uploadedPhotos: Array<{ view: string; url: string; path?: string; report?: any }>;
+  try {
+    uploadedPhotos = await runStage('upload', () => uploadPhotosToStorage(userId, clientScanId, capturedPhotos));
+    // Checkpointed signed URLs may have expired since the first attempt
+    if (checkpoint && 'upload' in checkpoint.stages) {
+      uploadedPhotos = await refreshPhotoUrls(clientScanId, uploadedPhotos);
+    }
+  } finally {
+    clearInterval(uploadProgressInterval);
+  }
 
   // START DYNAMIC PROCESSING: Begin detailed step-by-step progression
   logger.info('SCAN_PROCESSING_SERVICE', 'Starting dynamic processing progression', {
@@ -81,34 +214,40 @@ export async function processBodyScanPipeline(
   startDynamicProcessing(52, 92);
   
   // STEP 1: scan-estimate (AI photo analysis)
-  const estimateResult = await callScanEstimate(
+  // A BMI fallback estimate is not checkpointed: the vision analysis is retried on resume
+  const estimateResult = await runStage('estimate', () => callScanEstimate(
     userId, 
     uploadedPhotos, 
     stableScanParams, 
     resolvedGender, 
     clientScanId
-  );
+  ), (result) => !result.extracted_data?.fallback_used);
 
   // STEP 2: scan-semantic (semantic classification)  
-  const semanticResult = await callScanSemantic(
+  // A failed semantic analysis is not checkpointed either
+  const semanticResult = await runStage('semantic', () => callScanSemantic(
     userId, 
     uploadedPhotos, 
     estimateResult, 
     resolvedGender, 
     clientScanId
-  );
+  ), (result) => result.ai_analysis_success !== false);
+
+  // Later stages built on a fallback input are recomputed with the retried input on resume
+  const builtOnFallback = Boolean(estimateResult.extracted_data?.fallback_used) || semanticResult.ai_analysis_success === false;
 
   // STEP 3: scan-match (archetype matching)  
-  const matchResult = await callScanMatch(
+  const matchResult = await runStage('match', () => callScanMatch(
     userId, 
     estimateResult, 
     semanticResult, 
     resolvedGender, 
     clientScanId
-  );
+  ), () => !builtOnFallback);
 
   // STEP 3.5: AI Morphological Refinement  
-  const enhancedMatchResult = await performAIRefinement(
+  // Only a successful refinement is checkpointed: a blend fallback is retried on resume
+  const enhancedMatchResult = await runStage('refine', () => performAIRefinement(
     matchResult,
     uploadedPhotos,
     estimateResult,
@@ -117,7 +256,7 @@ export async function processBodyScanPipeline(
     resolvedGender,
     clientScanId,
     userId // CRITICAL FIX: Pass userId to performAIRefinement
-  );
+  ), (result) => !builtOnFallback && !result.ai_refinement?.fallback_used);
 
   // STOP DYNAMIC PROCESSING: Before final commit
   logger.info('SCAN_PROCESSING_SERVICE', 'Stopping dynamic processing before commit', {
@@ -140,6 +279,16 @@ export async function processBodyScanPipeline(
     clientScanId
   );
 
+  // Scan persisted: nothing left to resume
+  try {
+    await clearScanCheckpoint(clientScanId);
+  } catch (error) {
+    logger.warn('[ScanCheckpoint] Failed to clear checkpoint', {
+      clientScanId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
   // Store server scan ID
   if (commitResult.scan_id) {
     setServerScanId(commitResult.scan_id);
@@ -185,13 +334,13 @@ export async function processBodyScanPipeline(
 }
 
 /**
- * Upload photos to Supabase Storage
+ * Upload photos to the private scan bucket; each photo gets a short-lived signed URL for the Edge Functions
  */
 async function uploadPhotosToStorage(
   userId: string,
   clientScanId: string,
   capturedPhotos: CapturedPhotoEnhanced[]
-): Promise<Array<{ view: string; url: string; report?: any }>> {
+): Promise<Array<{ view: string; url: string; path: string; report?: any }>> {
   logger.info('SCAN_PROCESSING_SERVICE', 'Step 0: Starting photo upload', { 
     clientScanId,
     photosCount: capturedPhotos.length 
@@ -202,27 +351,13 @@ async function uploadPhotosToStorage(
       try {
         const response = await fetch(photo.url);
         const blob = await response.blob();
-        const file = new File([blob], `scan-${clientScanId}-${photo.type}.jpg`, { type: 'image/jpeg' });
-        
-        const filePath = `scans/${userId}/${clientScanId}/${photo.type}.jpg`;
-        const { data, error } = await supabase.storage
-          .from('body-scans')
-          .upload(filePath, file, {
-            cacheControl: '3600',
-            upsert: false
-          });
-        
-        if (error) {
-          throw new Error(`Upload failed for ${photo.type}: ${error.message}`);
-        }
-        
-        const { data: { publicUrl } } = supabase.storage
-          .from('body-scans')
-          .getPublicUrl(filePath);
+        const path = await api().bodyScan.uploadPhoto(userId, clientScanId, photo.type, blob);
+        const signedUrl = await api().bodyScan.createPhotoUrl(path);
         
         return {
           view: photo.type,
-          url: publicUrl,
+          url: signedUrl,
+          path,
           report: photo.captureReport
         };
       } catch (error) {
@@ -244,6 +379,27 @@ async function uploadPhotosToStorage(
   return uploadedPhotos;
 }
 
+/**
+ * Sign the stored paths again; uploads checkpointed before paths were kept are returned as is
+ */
+async function refreshPhotoUrls(
+  clientScanId: string,
+  uploadedPhotos: Array<{ view: string; url: string; path?: string; report?: any }>
+): Promise<Array<{ view: string; url: string; path?: string; report?: any }>> {
+  const refreshed = await Promise.all(
+    uploadedPhotos.map(async (photo) =>
+      photo.path ? { ...photo, url: await api().bodyScan.createPhotoUrl(photo.path) } : photo
+    )
+  );
+
+  logger.info('[ScanCheckpoint] Photo URLs signed again for resumed pipeline', {
+    clientScanId,
+    refreshedCount: uploadedPhotos.filter((photo) => photo.path).length,
+  });
+
+  return refreshed;
+}
+
 /**
  * Call scan-estimate Edge Function
  */
@@ -273,7 +429,7 @@ async function callScanEstimate(
     resolvedGender
   };
 
-  const estimateResult = await bodyScanRepo.estimate(estimateRequest);
+  const estimateResult = await api().bodyScan.estimate(estimateRequest);
 
   logger.info('SCAN_PROCESSING_SERVICE', 'Step 1: scan-estimate completed', {
     clientScanId,
@@ -315,7 +471,7 @@ async function callScanSemantic(
     resolvedGender
   };
 
-  const semanticResult = await bodyScanRepo.semantic(semanticRequest);
+  const semanticResult = await api().bodyScan.semantic(semanticRequest);
 
   logger.info('SCAN_PROCESSING_SERVICE', 'Step 2: scan-semantic completed', {
     clientScanId,
@@ -364,13 +520,15 @@ async function callScanMatch(
     },
     matching_config: {
       gender: resolvedGender, // MODIFIED: Directly use resolvedGender
-      limit: 5
+      limit: 5,
+      // Unset by default: scan-match applies SCAN_MATCH_RANKING_STRATEGY (semantic_score)
+      ...(rankingStrategyOverride && { ranking_strategy: rankingStrategyOverride })
     },
     clientScanId,
     resolvedGender
   };
 
-  const matchResult = await bodyScanRepo.match(matchRequest);
+  const matchResult = await api().bodyScan.match(matchRequest);
 
   logger.info('SCAN_PROCESSING_SERVICE', 'Step 3: scan-match completed', {
     clientScanId,
@@ -428,7 +586,7 @@ async function performAIRefinement(
 
   let aiRefinementResult = null;
   try {
-    aiRefinementResult = await bodyScanRepo.refine({
+    aiRefinementResult = await api().bodyScan.refine({
       scan_id: clientScanId,
       user_id: userId, // CRITICAL FIX: Use passed userId parameter
       resolvedGender: resolvedGender, // MODIFIED: Directly use resolvedGender
@@ -549,7 +707,7 @@ async function callScanCommit(
     philosophy: 'complete_avatar_data_for_server_persistence'
   });
 
-  const commitResult = await bodyScanRepo.commit(commitRequest);
+  const commitResult = await api().bodyScan.commit(commitRequest);
 
   logger.info('SCAN_PROCESSING_SERVICE', 'Step 4: scan-commit completed', {
     clientScanId,
@@ -589,6 +747,7 @@ function buildCompleteResults(
     },
     insights: generateInsights(estimateResult, semanticResult, matchResult),
     clientScanId,
+    traceId: getScanTraceId(clientScanId),
     skin_tone: extractSkinToneFromScanData(uploadedPhotos, estimateResult, clientScanId),
     limb_masses: extractLimbMassesFromScanData(matchResult, estimateResult, clientScanId),
   };
@@ -291,6 +291,7 @@ const BodyScanReview: React.FC = () => {
       <MeasurementsCard
         extractedData={scanResults?.estimate?.extracted_data}
         userProfile={stableUserProfile}
+        scanId={scanResults?.serverScanId || scanResults?.commit?.scan_id}
       />
       </div>
 
@@ -1,12 +1,24 @@
-import React from 'react';
-import { motion } from 'framer-motion';
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import GlassCard from '../../../../../ui/cards/GlassCard';
 import SpatialIcon from '../../../../../ui/icons/SpatialIcon';
 import { ICONS } from '../../../../../ui/icons/registry';
+import { useToast } from '../../../../../ui/components/ToastProvider';
+import { useUserStore } from '../../../../../system/store/userStore';
+import { api } from '../../../../../system/data/dataSource';
+import type { ReferenceMeasurementKey } from '../../../../../system/data/repositories/bodyScanRepo';
+import logger from '../../../../../lib/utils/logger';
 
 interface MeasurementsCardProps {
   extractedData: {
     raw_measurements?: Record<string, number>;
+    /** raw_measurements corrected by the user's tape measurements of previous scans */
+    calibrated_measurements?: Record<string, number> | null;
+    measurement_calibration?: {
+      factors: Record<string, { factor: number; samples: number }>;
+      sample_count: number;
+    } | null;
     estimated_bmi?: number;
     estimated_body_fat_perc?: number;
     processing_confidence?: number;
@@ -16,8 +28,14 @@ interface MeasurementsCardProps {
     height_cm: number;
     weight_kg: number;
   };
+  /** Committed scan id; the calibration form needs it to store tape measurements */
+  scanId?: string;
 }
 
+const REFERENCE_KEYS: ReferenceMeasurementKey[] = ['waist_cm', 'hips_cm', 'chest_cm'];
+const MIN_TAPE_CM = 30;
+const MAX_TAPE_CM = 250;
+
 // Traductions françaises pour les mesures
 const MEASUREMENT_TRANSLATIONS: Record<string, string> = {
   waist_cm: 'Tour de taille',
@@ -106,16 +124,110 @@ function getBMIInfo(bmi: number): { category: string; color: string; description
 /**
  * Measurements display card
  */
-const MeasurementsCard: React.FC<MeasurementsCardProps> = ({ extractedData, userProfile }) => {
+const MeasurementsCard: React.FC<MeasurementsCardProps> = ({ extractedData, userProfile, scanId }) => {
   const measurements = extractedData?.raw_measurements || {};
+  const calibratedMeasurements = extractedData?.calibrated_measurements || null;
   const estimatedBMI = extractedData?.estimated_bmi;
   const bodyFatPerc = extractedData?.estimated_body_fat_perc;
   const confidence = extractedData?.processing_confidence;
 
+  const { profile } = useUserStore();
+  const userId = profile?.userId;
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [tapeInputs, setTapeInputs] = useState<Record<ReferenceMeasurementKey, string>>({
+    waist_cm: '',
+    hips_cm: '',
+    chest_cm: '',
+  });
+
+  const { data: reference } = useQuery({
+    queryKey: ['body-scan-reference', scanId],
+    queryFn: () => api().bodyScan.getReferenceMeasurements(scanId!),
+    enabled: !!scanId,
+    staleTime: 5 * 60 * 1000,
+  });
+
   if (!extractedData || Object.keys(measurements).length === 0) {
     return null;
   }
 
+  const canCalibrate = !!scanId && !!userId;
+
+  const openCalibration = () => {
+    setTapeInputs({
+      waist_cm: reference?.waist_cm?.toString() ?? '',
+      hips_cm: reference?.hips_cm?.toString() ?? '',
+      chest_cm: reference?.chest_cm?.toString() ?? '',
+    });
+    setIsCalibrating(true);
+  };
+
+  const handleSaveCalibration = async () => {
+    if (!canCalibrate || isSaving) return;
+
+    const tape = {} as Record<ReferenceMeasurementKey, number | null>;
+    for (const key of REFERENCE_KEYS) {
+      const raw = tapeInputs[key].trim().replace(',', '.');
+      const value = raw === '' ? null : Number(raw);
+      if (value !== null && (!isFinite(value) || value < MIN_TAPE_CM || value > MAX_TAPE_CM)) {
+        showToast({
+          type: 'error',
+          title: 'Mesure invalide',
+          message: `${MEASUREMENT_TRANSLATIONS[key]} : entre ${MIN_TAPE_CM} et ${MAX_TAPE_CM} cm`,
+          duration: 3000,
+        });
+        return;
+      }
+      tape[key] = value;
+    }
+    if (REFERENCE_KEYS.every((key) => tape[key] === null)) {
+      showToast({
+        type: 'warning',
+        title: 'Aucune mesure',
+        message: 'Renseignez au moins un tour mesuré au mètre ruban',
+        duration: 3000,
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await api().bodyScan.saveReferenceMeasurements({
+        scan_id: scanId!,
+        user_id: userId!,
+        ...tape,
+        // Snapshot of the uncalibrated estimates: the bias model learns tape vs raw
+        raw_estimates: Object.fromEntries(
+          REFERENCE_KEYS.filter((key) => typeof measurements[key] === 'number').map((key) => [key, measurements[key]])
+        ),
+      });
+      queryClient.invalidateQueries({ queryKey: ['body-scan-reference', scanId] });
+      setIsCalibrating(false);
+      showToast({
+        type: 'success',
+        title: 'Mesures enregistrées',
+        message: 'Vos prochains scans seront corrigés à partir de ces mesures',
+        duration: 3000,
+      });
+    } catch (error) {
+      logger.error('[MeasurementsCard] Failed to save reference measurements', {
+        scanId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      showToast({
+        type: 'error',
+        title: 'Enregistrement impossible',
+        message: 'Les mesures n\'ont pas pu être enregistrées, réessayez',
+        duration: 4000,
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   // Calculate BMI from user profile if not provided
   const calculatedBMI = estimatedBMI || (userProfile.weight_kg / Math.pow(userProfile.height_cm / 100, 2));
   const bmiInfo = estimatedBMI ? getBMIInfo(estimatedBMI) : null;
@@ -139,16 +251,87 @@ const MeasurementsCard: React.FC<MeasurementsCardProps> = ({ extractedData, user
             Mesures extraites
           </h4>
           
-          {confidence && (
-            <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-blue-500/20 border border-blue-400/30">
-              <div className="w-2 h-2 rounded-full bg-blue-400" />
-              <span className="text-blue-300 text-xs font-medium">
-                {Math.round(confidence * 100)}% confiance
-              </span>
-            </div>
-          )}
+          <div className="flex items-center gap-2">
+            {confidence && (
+              <div className="flex items-center gap-2 px-3 py-1 rounded-full bg-blue-500/20 border border-blue-400/30">
+                <div className="w-2 h-2 rounded-full bg-blue-400" />
+                <span className="text-blue-300 text-xs font-medium">
+                  {Math.round(confidence * 100)}% confiance
+                </span>
+              </div>
+            )}
+            {canCalibrate && !isCalibrating && (
+              <button
+                type="button"
+                onClick={openCalibration}
+                className="flex items-center gap-1.5 px-3 py-1 rounded-full bg-white/10 border border-white/20 text-white/80 text-xs font-medium hover:bg-white/15 transition-colors"
+              >
+                <SpatialIcon Icon={ICONS.Edit} size={12} />
+                Calibrer
+              </button>
+            )}
+          </div>
         </div>
 
+        {calibratedMeasurements && (
+          <p className="text-white/60 text-xs mb-4">
+            Valeurs corrigées à partir de vos mesures au mètre ruban
+            ({extractedData.measurement_calibration?.sample_count ?? 0} scan(s) de référence). Estimation brute de l'IA indiquée en dessous.
+            La correction ne concerne que ces mesures : l'avatar 3D reste construit à partir de l'estimation brute.
+          </p>
+        )}
+
+        {/* Tape measurement calibration form */}
+        <AnimatePresence>
+          {isCalibrating && (
+            <motion.div
+              className="mb-6 p-4 rounded-xl bg-white/5 border border-white/10"
+              initial={{ opacity: 0, height: 0 }}
+              animate={{ opacity: 1, height: 'auto' }}
+              exit={{ opacity: 0, height: 0 }}
+            >
+              <p className="text-white/70 text-sm mb-4">
+                Mesurez-vous au mètre ruban, le jour du scan si possible. Ces mesures corrigent les mesures affichées de vos prochains scans, sans modifier l'avatar.
+              </p>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-4">
+                {REFERENCE_KEYS.map((key) => (
+                  <label key={key} className="block">
+                    <span className="text-white/70 text-xs font-medium">{MEASUREMENT_TRANSLATIONS[key]} (cm)</span>
+                    <input
+                      type="number"
+                      inputMode="decimal"
+                      min={MIN_TAPE_CM}
+                      max={MAX_TAPE_CM}
+                      step="0.5"
+                      value={tapeInputs[key]}
+                      onChange={(event) => setTapeInputs((inputs) => ({ ...inputs, [key]: event.target.value }))}
+                      placeholder={typeof measurements[key] === 'number' ? measurements[key].toFixed(1) : ''}
+                      className="mt-1 w-full px-3 py-2 rounded-lg bg-black/30 border border-white/15 text-white text-sm focus:outline-none focus:border-blue-400/60"
+                    />
+                  </label>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2">
+                <button
+                  type="button"
+                  onClick={() => setIsCalibrating(false)}
+                  className="px-4 py-2 rounded-full text-white/70 text-sm hover:text-white transition-colors"
+                >
+                  Annuler
+                </button>
+                <button
+                  type="button"
+                  onClick={handleSaveCalibration}
+                  disabled={isSaving}
+                  className="px-4 py-2 rounded-full bg-blue-500/30 border border-blue-400/40 text-white text-sm font-medium disabled:opacity-50"
+                >
+                  {isSaving ? 'Enregistrement...' : 'Enregistrer'}
+                </button>
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Measurements grid with summary cards */}
         <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
             {/* IMC - Résumé clé */}
@@ -210,7 +393,11 @@ const MeasurementsCard: React.FC<MeasurementsCardProps> = ({ extractedData, user
             {Object.entries(measurements).map(([key, value], index) => {
               const translatedName = MEASUREMENT_TRANSLATIONS[key] || key.replace(/_/g, ' ');
               const unit = key.includes('_cm') ? 'cm' : key.includes('_kg') ? 'kg' : key.includes('_perc') ? '%' : '';
-              const displayValue = typeof value === 'number' ? value.toFixed(1) : value;
+              const calibratedValue = calibratedMeasurements?.[key];
+              const isCalibrated = typeof calibratedValue === 'number' && typeof value === 'number' && calibratedValue !== value;
+              const shownValue = isCalibrated ? calibratedValue : value;
+              const displayValue = typeof shownValue === 'number' ? shownValue.toFixed(1) : shownValue;
+              const tapeValue = reference?.[key as ReferenceMeasurementKey];
               
               return (
                 <motion.div 
@@ -227,6 +414,16 @@ const MeasurementsCard: React.FC<MeasurementsCardProps> = ({ extractedData, user
                   <div className="text-white/70 text-xs font-medium capitalize leading-tight">
                     {translatedName}
                   </div>
+                  {isCalibrated && (
+                    <div className="text-white/40 text-[11px] mt-1">
+                      IA brute : {(value as number).toFixed(1)}{unit}
+                    </div>
+                  )}
+                  {tapeValue != null && (
+                    <div className="text-green-300/80 text-[11px] mt-1">
+                      Ruban : {Number(tapeValue).toFixed(1)}{unit}
+                    </div>
+                  )}
                 </motion.div>
               );
             })}
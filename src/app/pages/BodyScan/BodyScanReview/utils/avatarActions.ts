@@ -3,7 +3,7 @@
  * Handles saving and navigation actions for avatar review
  */
 
-import { supabase } from '../../../../../system/supabase/client';
+import { api } from '../../../../../system/data/dataSource';
 import logger from '../../../../../lib/utils/logger';
 
 /**
@@ -411,25 +411,25 @@ export async function saveCurrentAvatar(
         philosophy: 'body_scans_update_pre_call_audit'
       });
       
-      const { error } = await supabase
-        .from('body_scans')
-        .update({
-          metrics: {
-            ...scanResults.estimate?.extracted_data,
-            // Store complete final payload in body_scans
-            final_shape_params: finalShapeParams,
-            final_limb_masses: finalLimbMasses,
-            skin_tone: skinTonePayload,
-            resolved_gender: resolvedGender,
-            mapping_version: mappingVersion,
-            gltf_model_id: gltfModelId,
-            material_config_version: materialConfigVersion,
-            avatar_version: 'v2.0',
-            user_adjusted_morph: finalShapeParams, // Legacy field
-            morph_saved_at: new Date().toISOString(),
-          }
-        })
-        .eq('id', serverScanId);
+      let error: Error | null = null;
+      try {
+        await api().bodyScan.updateMetrics(serverScanId, {
+          ...scanResults.estimate?.extracted_data,
+          // Store complete final payload in body_scans
+          final_shape_params: finalShapeParams,
+          final_limb_masses: finalLimbMasses,
+          skin_tone: skinTonePayload,
+          resolved_gender: resolvedGender,
+          mapping_version: mappingVersion,
+          gltf_model_id: gltfModelId,
+          material_config_version: materialConfigVersion,
+          avatar_version: 'v2.0',
+          user_adjusted_morph: finalShapeParams, // Legacy field
+          morph_saved_at: new Date().toISOString(),
+        });
+      } catch (metricsError) {
+        error = metricsError instanceof Error ? metricsError : new Error(String(metricsError));
+      }
       
       updateError = error;
       
@@ -2,9 +2,10 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import SpatialIcon from '../../../ui/icons/SpatialIcon';
 import { ICONS } from '../../../ui/icons/registry';
+import type { CaptureView, OptionalCaptureView } from '../../../domain/types';
 
 interface PhotoGuideOverlayProps {
-  type: 'front' | 'profile';
+  type: CaptureView;
   isFaceScan?: boolean; // NOUVEAU: Prop pour indiquer si c'est un scan facial
 }
 
@@ -120,9 +121,44 @@ const PhotoGuideOverlay: React.FC<PhotoGuideOverlayProps> = ({ type, isFaceScan
     </div>
   );
 
+  // Optional body views; face scans only use front and profile
+  const renderOptionalGuide = (view: OptionalCaptureView) => (
+    <div className="text-center space-y-3">
+      <div className="relative w-24 h-32 mx-auto">
+        <div className="absolute inset-0 rounded-2xl border-2 border-dashed border-cyan-400/30 bg-cyan-500/5">
+          <div className={`absolute top-3 w-4 h-4 rounded-full border-2 border-cyan-400/50 ${view === 'back' ? 'left-1/2 -translate-x-1/2' : 'left-9'}`} />
+          <div className={`absolute top-8 h-10 rounded-lg border-2 border-cyan-400/50 ${view === 'back' ? 'left-1/2 w-8 -translate-x-1/2' : 'left-7 w-7'}`} />
+          <div className={`absolute top-[4.5rem] h-12 rounded-lg border-2 border-cyan-400/50 ${view === 'back' ? 'left-1/2 w-6 -translate-x-1/2' : 'left-8 w-5'}`} />
+
+          <div className="absolute top-2 left-2 text-cyan-400 text-xs font-bold bg-cyan-500/20 px-2 py-1 rounded">
+            {view === 'back' ? '180°' : '45°'}
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-1 text-xs text-white/60">
+        {view === 'back' ? (
+          <>
+            <p>• Dos à l'objectif</p>
+            <p>• Bras légèrement décollés</p>
+          </>
+        ) : (
+          <>
+            <p>• Tournez-vous d'environ 45°</p>
+            <p>• Même distance que face</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
   return (
     <div className="space-y-3">
-      {type === 'front' ? renderFrontGuide() : renderProfileGuide()}
+      {type === 'front'
+        ? renderFrontGuide()
+        : type === 'profile'
+          ? renderProfileGuide()
+          : renderOptionalGuide(type)}
     </div>
   );
 };
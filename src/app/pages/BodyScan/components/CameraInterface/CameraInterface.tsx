@@ -1,109 +1,211 @@
-import React from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { motion } from 'framer-motion';
 import SpatialIcon from '../../../../../ui/icons/SpatialIcon';
 import { ICONS } from '../../../../../ui/icons/registry';
+import logger from '../../../../../lib/utils/logger';
+import CameraControls from './CameraControls';
+import CameraOverlayGuides from './CameraOverlayGuides';
+import { useDeviceTilt } from './hooks/useDeviceTilt';
+import { useFramingGuidance } from './hooks/useFramingGuidance';
+import type { CaptureView } from '../../../../../domain/types';
 
-interface CameraControlsProps {
-  isCapturing: boolean;
-  onCapture: () => void;
+interface CameraInterfaceProps {
+  photoType: CaptureView;
+  /** `burstFrames` holds every frame when `burstCount` > 1; `file` is the first one */
+  onCapture: (file: File, burstFrames?: File[]) => void;
   onClose: () => void;
-  onSwitchCamera: () => void;
+  /** Live pose/tilt checks and auto-capture; disabled for face close-ups */
+  framingGuidance?: boolean;
+  /** Frames grabbed per shutter press */
+  burstCount?: number;
 }
 
-const CameraControls: React.FC<CameraControlsProps> = ({
-  isCapturing,
+const CAPTURE_JPEG_QUALITY = 0.92;
+/** Spacing between burst frames: long enough for hand shake to change, short enough to keep the pose */
+const BURST_INTERVAL_MS = 150;
+
+/**
+ * Grab the current video frame at full sensor resolution, unmirrored: the preview mirroring is display-only
+ */
+async function grabFrame(video: HTMLVideoElement): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = video.videoWidth;
+  canvas.height = video.videoHeight;
+  canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, 'image/jpeg', CAPTURE_JPEG_QUALITY)
+  );
+  if (!blob) throw new Error('Canvas capture returned no data');
+  return blob;
+}
+
+/**
+ * Camera Interface - Full-screen preview with live framing guidance
+ * Runs pose and tilt checks on the preview and can capture automatically once the framing holds
+ */
+const CameraInterface: React.FC<CameraInterfaceProps> = ({
+  photoType,
   onCapture,
   onClose,
-  onSwitchCamera,
+  framingGuidance = true,
+  burstCount = 1,
 }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const autoCapturedRef = useRef(false);
+  const [facingMode, setFacingMode] = useState<'user' | 'environment'>('environment');
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [autoCapture, setAutoCapture] = useState(false);
+
+  const { tilt, requestPermission: requestTiltPermission } = useDeviceTilt();
+  const { guidance, available: guidanceAvailable, stable } = useFramingGuidance(videoRef, {
+    enabled: framingGuidance && isStreaming && !isCapturing,
+    tilt,
+    view: photoType,
+  });
+
+  // Start (or restart after a camera switch) the preview stream
+  useEffect(() => {
+    let cancelled = false;
+
+    const startStream = async () => {
+      setIsStreaming(false);
+      setCameraError(null);
+      try {
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode, width: { ideal: 1920 }, height: { ideal: 1080 } },
+          audio: false,
+        });
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          await videoRef.current.play();
+        }
+        setIsStreaming(true);
+      } catch (error) {
+        if (cancelled) return;
+        logger.error('[CameraInterface] Unable to start camera', {
+          facingMode,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+        setCameraError("Impossible d'accéder à la caméra. Vérifiez les autorisations ou importez une photo.");
+      }
+    };
+
+    startStream();
+    return () => {
+      cancelled = true;
+      streamRef.current?.getTracks().forEach((track) => track.stop());
+      streamRef.current = null;
+    };
+  }, [facingMode]);
+
+  const handleCapture = useCallback(async () => {
+    const video = videoRef.current;
+    if (!video || !isStreaming || isCapturing) return;
+
+    setIsCapturing(true);
+    try {
+      const frames: File[] = [];
+      for (let index = 0; index < burstCount; index++) {
+        if (index > 0) await new Promise((resolve) => setTimeout(resolve, BURST_INTERVAL_MS));
+        const blob = await grabFrame(video);
+        frames.push(new File([blob], `${photoType}-${Date.now()}-${index}.jpg`, { type: 'image/jpeg' }));
+      }
+
+      logger.info('[CameraInterface] Photo captured', {
+        photoType,
+        width: video.videoWidth,
+        height: video.videoHeight,
+        frameCount: frames.length,
+        sizeKB: frames.map((frame) => Math.round(frame.size / 1024)),
+        autoCaptured: autoCapturedRef.current,
+        framingOk: guidance?.allOk ?? null,
+      });
+      onCapture(frames[0], frames.length > 1 ? frames : undefined);
+    } catch (error) {
+      logger.error('[CameraInterface] Capture failed', {
+        photoType,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      setCameraError('La capture a échoué. Réessayez.');
+    } finally {
+      setIsCapturing(false);
+    }
+  }, [isStreaming, isCapturing, burstCount, photoType, onCapture, guidance?.allOk]);
+
+  // Auto-capture once every check held for the stability window
+  useEffect(() => {
+    if (autoCapture && stable && !autoCapturedRef.current) {
+      autoCapturedRef.current = true;
+      handleCapture();
+    }
+  }, [autoCapture, stable, handleCapture]);
+
+  const toggleAutoCapture = () => {
+    // Tapping the toggle is the user gesture iOS needs to grant orientation access
+    requestTiltPermission();
+    autoCapturedRef.current = false;
+    setAutoCapture((value) => !value);
+  };
+
+  const showGuidance = framingGuidance && guidanceAvailable && isStreaming;
+
   return (
-    <div className="absolute bottom-0 left-0 right-0 p-8 sm:p-12 bg-gradient-to-t from-black/95 via-black/70 to-transparent">
-      <div className="flex items-center justify-between max-w-lg mx-auto">
-        {/* Close button */}
-        <motion.button
-          onClick={onClose}
-          className="w-16 h-16 sm:w-18 sm:h-18 rounded-full bg-white/10 backdrop-blur-sm border border-white/20 flex items-center justify-center shadow-lg"
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.2, duration: 0.5 }}
-        >
-          <SpatialIcon Icon={ICONS.X} size={26} className="text-white" />
-        </motion.button>
-
-        {/* Capture button */}
-        <motion.button
-          onClick={onCapture}
-          disabled={isCapturing}
-          className="w-24 h-24 sm:w-28 sm:h-28 rounded-full border-4 border-white/30 flex items-center justify-center relative shadow-2xl"
-          style={{
-            background: isCapturing 
-              ? 'linear-gradient(135deg, var(--brand-warning), var(--brand-warning-dark))' /* ACIER SUR VERRE - Avertissement */
-              : 'linear-gradient(135deg, var(--brand-primary), var(--brand-accent))', /* ACIER SUR VERRE - TwinForge */
-            boxShadow: isCapturing
-              ? '0 0 30px color-mix(in srgb, var(--brand-warning) 60%, transparent), 0 8px 32px rgba(0,0,0,0.4)'
-              : '0 0 30px color-mix(in srgb, var(--brand-primary) 60%, transparent), 0 8px 32px rgba(0,0,0,0.4)'
-          }}
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.92 }}
-          initial={{ opacity: 0, scale: 0.8 }}
-          animate={{ opacity: 1, scale: 1 }}
-          transition={{ delay: 0.1, duration: 0.6, type: "spring", stiffness: 300 }}
-        >
-          {isCapturing ? (
-            <>
-              <motion.div
-                className="w-14 h-14 sm:w-16 sm:h-16 rounded-full bg-white"
-                animate={{ scale: [1, 0.7, 1] }}
-                transition={{ duration: 0.6, repeat: Infinity, ease: "easeInOut" }}
-              />
-              <motion.div
-                className="absolute inset-0 rounded-full border-4 border-brand-warning/60" /* ACIER SUR VERRE */
-                animate={{ scale: [1, 1.3, 1], opacity: [0.8, 0.2, 0.8] }}
-                transition={{ duration: 0.8, repeat: Infinity }}
-              />
-            </>
-          ) : (
-            <div className="w-18 h-18 sm:w-20 sm:h-20 rounded-full shadow-inner bg-white" />
-          )}
-          
-          {!isCapturing && (
-            <motion.div
-              className="absolute inset-0 rounded-full border-2 border-brand-accent/40" /* ACIER SUR VERRE - Plasma Cyan */
-              animate={{ scale: [1, 1.1, 1], opacity: [0.5, 0.8, 0.5] }}
-              transition={{ duration: 2, repeat: Infinity, ease: "easeInOut" }}
-            />
-          )}
-        </motion.button>
-
-        {/* Switch camera button */}
-        <motion.button
-          onClick={onSwitchCamera}
-          className="w-16 h-16 sm:w-18 sm:h-18 rounded-full bg-white/10 backdrop-blur-sm border border-white/20 flex items-center justify-center shadow-lg"
-          whileHover={{ scale: 1.05 }}
-          whileTap={{ scale: 0.95 }}
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.3, duration: 0.5 }}
-        >
-          <SpatialIcon Icon={ICONS.RotateCcw} size={26} className="text-white" />
-        </motion.button>
-      </div>
-      
-      {/* Capture instruction */}
-      <motion.div
-        className="text-center mt-8"
-        initial={{ opacity: 0 }}
-        animate={{ opacity: 1 }}
-        transition={{ delay: 0.8, duration: 0.6 }}
-      >
-        <p className="text-white/80 text-lg font-medium">
-          {isCapturing ? 'Capture en cours...' : 'Appuyez pour capturer'}
-        </p>
-      </motion.div>
-    </div>
+    <motion.div
+      className="fixed inset-0 z-50 bg-black"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <video
+        ref={videoRef}
+        className="absolute inset-0 w-full h-full object-cover"
+        style={{ transform: facingMode === 'user' ? 'scaleX(-1)' : undefined }}
+        playsInline
+        muted
+      />
+
+      {cameraError ? (
+        <div className="absolute inset-0 flex items-center justify-center px-8">
+          <div className="bg-black/60 backdrop-blur-sm px-6 py-4 rounded-xl border border-white/10 text-center">
+            <SpatialIcon Icon={ICONS.AlertCircle} size={28} className="text-white/80 mx-auto mb-3" />
+            <p className="text-white/90 text-sm font-medium">{cameraError}</p>
+          </div>
+        </div>
+      ) : (
+        <CameraOverlayGuides photoType={photoType} guidance={showGuidance ? guidance : null} />
+      )}
+
+      {showGuidance && (
+        <div className="absolute top-6 right-6">
+          <motion.button
+            onClick={toggleAutoCapture}
+            className={`px-4 py-2 rounded-full backdrop-blur-sm border text-sm font-medium ${
+              autoCapture ? 'bg-brand-primary/40 border-brand-primary/60 text-white' : 'bg-black/40 border-white/20 text-white/80'
+            }`}
+            whileTap={{ scale: 0.95 }}
+          >
+            {autoCapture ? 'Capture auto activée' : 'Capture auto'}
+          </motion.button>
+        </div>
+      )}
+
+      <CameraControls
+        isCapturing={isCapturing}
+        onCapture={handleCapture}
+        onClose={onClose}
+        onSwitchCamera={() => setFacingMode((mode) => (mode === 'user' ? 'environment' : 'user'))}
+      />
+    </motion.div>
   );
 };
 
-export default CameraControls;
+export default CameraInterface;
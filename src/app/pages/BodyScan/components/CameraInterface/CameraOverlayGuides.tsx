@@ -1,24 +1,51 @@
 import React from 'react';
 import { motion } from 'framer-motion';
+import type { FramingGuidance } from '../../../../../lib/pose/framingGuidance';
+import type { CaptureView } from '../../../../../domain/types';
 
 interface CameraOverlayGuidesProps {
-  photoType: 'front' | 'profile';
+  photoType: CaptureView;
+  /** Live framing checks; null shows the static instructions */
+  guidance?: FramingGuidance | null;
 }
 
-const CameraOverlayGuides: React.FC<CameraOverlayGuidesProps> = ({ photoType }) => {
+const VIEW_LABELS: Record<CaptureView, string> = {
+  front: 'Face',
+  profile: 'Profil',
+  back: 'Dos',
+  threequarter: 'Trois-quarts',
+};
+
+const VIEW_INSTRUCTIONS: Record<CaptureView, string> = {
+  front: 'Alignez-vous au centre',
+  profile: 'Tournez-vous de 90°',
+  back: "Tournez le dos à l'objectif",
+  threequarter: 'Tournez-vous de 45°',
+};
+
+const CameraOverlayGuides: React.FC<CameraOverlayGuidesProps> = ({ photoType, guidance = null }) => {
+  const frameBorderClass = !guidance
+    ? 'border-white/30'
+    : guidance.allOk
+      ? 'border-green-400/80'
+      : 'border-amber-400/70';
+  const instruction = guidance
+    ? guidance.hints[0] ?? 'Parfait, ne bougez plus'
+    : VIEW_INSTRUCTIONS[photoType];
+
   return (
     <div className="absolute inset-0 flex items-center justify-center pointer-events-none px-6 py-20 sm:py-24 md:py-32">
       <div className="relative">
         {/* Simplified Guide Frame - VisionOS 26 Minimal */}
-        <div className="
+        <div className={`
           w-[min(300px,65vw)] h-[min(400px,60vh)] 
           sm:w-[min(340px,55vw)] sm:h-[min(450px,55vh)]
           md:w-[min(380px,45vw)] md:h-[min(500px,50vh)]
-          border border-dashed border-white/30 rounded-3xl 
+          border border-dashed ${frameBorderClass} rounded-3xl transition-colors duration-300
           bg-white/3 backdrop-blur-sm
           shadow-[0_0_20px_rgba(255,255,255,0.05)]
           relative overflow-hidden
-        ">
+        `}>
           {/* Minimal Inner Frame */}
           <div className="absolute inset-6 border border-white/15 rounded-2xl" />
           
@@ -30,7 +57,7 @@ const CameraOverlayGuides: React.FC<CameraOverlayGuidesProps> = ({ photoType })
           
           {/* Minimal Position Indicator */}
           <div className="absolute top-6 left-1/2 transform -translate-x-1/2 text-white/80 text-sm font-medium bg-black/40 backdrop-blur-sm px-3 py-1.5 rounded-lg border border-white/10">
-            {photoType === 'front' ? 'Face' : 'Profil'}
+            {VIEW_LABELS[photoType]}
           </div>
           
           {/* Subtle Alignment Guides - No Labels */}
@@ -63,10 +90,7 @@ const CameraOverlayGuides: React.FC<CameraOverlayGuidesProps> = ({ photoType })
             className="bg-black/50 backdrop-blur-sm px-4 py-3 rounded-xl border border-white/10 shadow-lg"
           >
             <p className="text-white/90 text-sm font-medium">
-              {photoType === 'front' 
-                ? 'Alignez-vous au centre'
-                : 'Tournez-vous de 90°'
-              }
+              {instruction}
             </p>
           </motion.div>
         </div>
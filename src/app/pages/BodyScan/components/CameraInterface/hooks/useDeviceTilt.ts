@@ -0,0 +1,52 @@
+import { useCallback, useEffect, useState } from 'react';
+import logger from '../../../../../../lib/utils/logger';
+import type { DeviceTilt } from '../../../../../../lib/pose/framingGuidance';
+
+type OrientationPermissionState = 'granted' | 'denied' | 'prompt' | 'unsupported';
+
+/** iOS Safari gates orientation events behind a permission requested from a user gesture */
+type DeviceOrientationEventWithPermission = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<'granted' | 'denied'>;
+};
+
+/**
+ * Device tilt from DeviceOrientationEvent, null until the first reading
+ * (desktop browsers and denied permission never produce one)
+ */
+export function useDeviceTilt() {
+  const [tilt, setTilt] = useState<DeviceTilt | null>(null);
+  const [permission, setPermission] = useState<OrientationPermissionState>(() => {
+    if (typeof window === 'undefined' || !('DeviceOrientationEvent' in window)) return 'unsupported';
+    const OrientationEvent = DeviceOrientationEvent as DeviceOrientationEventWithPermission;
+    return typeof OrientationEvent.requestPermission === 'function' ? 'prompt' : 'granted';
+  });
+
+  /** Must be called from a click/tap handler on iOS */
+  const requestPermission = useCallback(async () => {
+    const OrientationEvent = DeviceOrientationEvent as DeviceOrientationEventWithPermission;
+    if (permission !== 'prompt' || typeof OrientationEvent.requestPermission !== 'function') return;
+
+    try {
+      setPermission(await OrientationEvent.requestPermission());
+    } catch (error) {
+      logger.warn('[DeviceTilt] Orientation permission request failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      setPermission('denied');
+    }
+  }, [permission]);
+
+  useEffect(() => {
+    if (permission !== 'granted') return;
+
+    const handleOrientation = (event: DeviceOrientationEvent) => {
+      if (event.beta === null || event.gamma === null) return;
+      setTilt({ beta: Math.round(event.beta), gamma: Math.round(event.gamma) });
+    };
+
+    window.addEventListener('deviceorientation', handleOrientation);
+    return () => window.removeEventListener('deviceorientation', handleOrientation);
+  }, [permission]);
+
+  return { tilt, permission, requestPermission };
+}
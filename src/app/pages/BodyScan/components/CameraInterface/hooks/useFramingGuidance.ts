@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import logger from '../../../../../../lib/utils/logger';
+import { detectPose } from '../../../../../../lib/pose/poseDetector';
+import { evaluateFraming, type DeviceTilt, type FramingGuidance } from '../../../../../../lib/pose/framingGuidance';
+import type { CaptureView, PoseKeypoint } from '../../../../../../domain/types';
+
+interface UseFramingGuidanceOptions {
+  enabled: boolean;
+  tilt: DeviceTilt | null;
+  /** View being captured, for the side the hints are given from */
+  view: CaptureView;
+  /** Pose detection rate; the CPU model cannot keep up with every preview frame on mobile */
+  intervalMs?: number;
+  /** How long every check must hold before `stable` turns true */
+  stableMs?: number;
+}
+
+/**
+ * Live framing checks on a playing <video>.
+ * `available` is false when the pose model cannot load: no guidance is shown and auto-capture stays off.
+ */
+export function useFramingGuidance(
+  videoRef: React.RefObject<HTMLVideoElement>,
+  { enabled, tilt, view, intervalMs = 250, stableMs = 1000 }: UseFramingGuidanceOptions
+) {
+  const [keypoints, setKeypoints] = useState<PoseKeypoint[] | null>(null);
+  const [available, setAvailable] = useState(true);
+  const [stable, setStable] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || !available) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const tick = async () => {
+      const video = videoRef.current;
+      if (video && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+        try {
+          const detection = await detectPose(video);
+          if (cancelled) return;
+          setKeypoints(detection.poses[0] ?? null);
+        } catch (error) {
+          if (cancelled) return;
+          logger.warn('[FramingGuidance] Pose detector unavailable, live guidance disabled', {
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+          setAvailable(false);
+          return;
+        }
+      }
+      if (!cancelled) timer = setTimeout(tick, intervalMs);
+    };
+
+    tick();
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [enabled, available, intervalMs, videoRef]);
+
+  const guidance: FramingGuidance | null = enabled && available ? evaluateFraming(keypoints, tilt, view) : null;
+  const allOk = guidance?.allOk ?? false;
+
+  useEffect(() => {
+    if (!allOk) {
+      setStable(false);
+      return;
+    }
+
+    const timer = setTimeout(() => setStable(true), stableMs);
+    return () => clearTimeout(timer);
+  }, [allOk, stableMs]);
+
+  return { guidance, available, stable };
+}
@@ -591,6 +591,7 @@ const FaceScanPhotoCaptureStep: React.FC<FaceScanPhotoCaptureStepProps> = ({
           photoType={photoType}
           onCapture={handleCameraCapture}
           onClose={() => setShowCamera(false)}
+          framingGuidance={false}
         />
       )}
       
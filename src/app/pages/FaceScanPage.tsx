@@ -10,12 +10,11 @@ import { useFeedback } from '@/hooks/useFeedback';
 import { useProgressStore } from '@/system/store/progressStore';
 import DynamicProgressHeader from '@/app/shell/Header/DynamicProgressHeader';
 import FaceScanPhotoCaptureStep from './FaceScan/FaceScanPhotoCaptureStep';
-import { faceScanRepo } from '@/system/data/repositories/faceScanRepo';
-import type { PhotoCaptureReport, CapturedPhotoEnhanced } from '@/domain/types';
+import { api } from '@/system/data/dataSource';
+import type { PhotoCaptureReport, CapturedPhotoEnhanced, CaptureView } from '@/domain/types';
 import logger from '@/lib/utils/logger';
 import { useNavigate } from 'react-router-dom';
 import { toDbGender } from '@/lib/morph/keys/keyNormalizers';
-import { supabase } from '@/system/supabase/client';
 import ImmersiveFaceAnalysis from './FaceScan/components/ImmersiveFaceAnalysis';
 import FaceScanCelebrationStep from './FaceScan/FaceScanCelebrationStep';
 import FaceScanReviewPage from './FaceScan/FaceScanReviewPage';
@@ -76,7 +75,7 @@ const FaceScanPage: React.FC = () => {
 
   const handlePhotoCapture = useCallback(async (
     file: File,
-    type: 'front' | 'profile',
+    type: CaptureView,
     captureReport: PhotoCaptureReport
   ) => {
     const photo: CapturedPhotoEnhanced = {
@@ -110,7 +109,7 @@ const FaceScanPage: React.FC = () => {
     }
   }, [setOverallProgress]);
 
-  const handleRetake = useCallback((type: 'front' | 'profile') => {
+  const handleRetake = useCallback((type: CaptureView) => {
     setCapturedPhotos(prev => prev.filter(p => p.type !== type));
     logger.info('FACE_SCAN_FLOW', 'Photo retake', { type });
   }, []);
@@ -146,46 +145,19 @@ const FaceScanPage: React.FC = () => {
 
     try {
       const uploadedPhotos = await Promise.all(capturedPhotos.map(async (photo) => {
-        const filePath = `face-scans/${userId}/${clientScanId}/${photo.type}.jpg`;
-        const { data, error: uploadError } = await supabase.storage
-          .from('body-scans') // CHANGEMENT ICI : 'avatars' -> 'body-scans'
-          .upload(filePath, photo.file, {
-            cacheControl: '3600',
-            upsert: true,
-          });
-
-        if (uploadError) {
-          logger.error('FACE_SCAN_FLOW', `Failed to upload ${photo.type} photo to Supabase Storage`, { uploadError });
-          throw new Error(`Failed to upload photo: ${uploadError.message}`);
-        }
-
-        const { data: signedUrlData, error: signedUrlError } = await supabase.storage
-          .from('body-scans') // CHANGEMENT ICI : 'avatars' -> 'body-scans'
-          .createSignedUrl(filePath, 300);
-
-        if (signedUrlError) {
-          logger.error('FACE_SCAN_FLOW', `Failed to create signed URL for ${photo.type} photo`, { signedUrlError });
-          throw new Error(`Failed to create signed URL: ${signedUrlError.message}`);
-        }
-
-        if (!signedUrlData || !signedUrlData.signedUrl) {
-            logger.error('FACE_SCAN_FLOW', `Signed URL data is invalid or empty for ${photo.type} photo`, { signedUrlData, filePath });
-            throw new Error(`Invalid or empty signed URL for ${photo.type} photo`);
-        }
-
-        logger.debug('FACE_SCAN_FLOW', `Signed URL obtained for ${photo.type}`, {
-            signedUrl: signedUrlData.signedUrl,
-            filePath
-        });
+        const filePath = await api().faceScan.uploadPhoto(userId, clientScanId, photo.type, photo.file);
+        const url = await api().faceScan.createPhotoUrl(filePath);
+
+        logger.debug('FACE_SCAN_FLOW', `Signed URL obtained for ${photo.type}`, { filePath });
 
         return {
-          url: signedUrlData.signedUrl,
-          view: photo.type,
+          url,
+          view: photo.type as 'front' | 'profile',
           report: photo.captureReport
         };
       }));
 
-      const semanticResult = await faceScanRepo.semantic({
+      const semanticResult = await api().faceScan.semantic({
         user_id: userId,
         photos: uploadedPhotos,
         user_declared_gender: userGender,
@@ -193,7 +165,7 @@ const FaceScanPage: React.FC = () => {
       });
       logger.info('FACE_SCAN_FLOW', 'face-semantic completed', { semanticResult });
 
-      const matchResult = await faceScanRepo.match({
+      const matchResult = await api().faceScan.match({
         user_id: userId,
         face_semantic_profile: {
           face_shape: semanticResult.semantic_profile.face_shape,
@@ -206,7 +178,7 @@ const FaceScanPage: React.FC = () => {
       });
       logger.info('FACE_SCAN_FLOW', 'face-match completed', { matchResult });
 
-      const refineResult = await faceScanRepo.refine({
+      const refineResult = await api().faceScan.refine({
         scan_id: clientScanId,
         user_id: userId,
         resolvedGender: userGender,
@@ -218,7 +190,7 @@ const FaceScanPage: React.FC = () => {
       });
       logger.info('FACE_SCAN_FLOW', 'face-refine-morphs completed', { refineResult });
 
-      const commitResult = await faceScanRepo.commit({
+      const commitResult = await api().faceScan.commit({
         user_id: userId,
         resolvedGender: userGender,
         estimate_result: {},
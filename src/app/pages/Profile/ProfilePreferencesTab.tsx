@@ -7,6 +7,9 @@ import GlassCard from '../../../ui/cards/GlassCard';
 import SpatialIcon from '../../../ui/icons/SpatialIcon';
 import { ICONS } from '../../../ui/icons/registry';
 import { useUserStore } from '../../../system/store/userStore';
+import { api } from '../../../system/data/dataSource';
+import { AccountPartiallyDeletedError } from '../../../system/data/repositories/accountRepo';
+import { supabase } from '../../../system/supabase/client';
 import { useToast } from '../../../ui/components/ToastProvider';
 import { useFeedback } from '../../../hooks/useFeedback';
 import logger from '../../../lib/utils/logger';
@@ -148,6 +151,20 @@ const preferencesSchema = z.object({
 
 type PreferencesForm = z.infer<typeof preferencesSchema>;
 
+/** Must match the default of scan_photos_due_for_deletion() */
+const DEFAULT_SCAN_PHOTO_RETENTION_DAYS = 30;
+
+const SCAN_PHOTO_RETENTION_OPTIONS = [
+  { days: 1, label: '24 heures' },
+  { days: 7, label: '7 jours' },
+  { days: 30, label: '30 jours' },
+  { days: 90, label: '90 jours' },
+  { days: 365, label: '1 an' },
+];
+
+/** Typed by the user before the account deletion button unlocks */
+const ACCOUNT_DELETION_PHRASE = 'SUPPRIMER';
+
 /**
  * Profile Preferences Tab - Préférences Générales TwinForge
  * Gestion complète des préférences d'entraînement avec design VisionOS 26
@@ -158,6 +175,17 @@ const ProfilePreferencesTab: React.FC = () => {
   const { success, formSubmit } = useFeedback();
   const [sectionSaving, setSectionSaving] = React.useState<string | null>(null);
   const [newEquipment, setNewEquipment] = React.useState('');
+  const savedRetentionDays: number =
+    profile?.preferences?.privacy?.scan_photo_retention_days ?? DEFAULT_SCAN_PHOTO_RETENTION_DAYS;
+  const [retentionDays, setRetentionDays] = React.useState(savedRetentionDays);
+
+  const [exportingData, setExportingData] = React.useState(false);
+  const [deletionPhrase, setDeletionPhrase] = React.useState('');
+  const [deletingAccount, setDeletingAccount] = React.useState(false);
+
+  React.useEffect(() => {
+    setRetentionDays(savedRetentionDays);
+  }, [savedRetentionDays]);
 
   // Initialize form with current preferences data
   const {
@@ -310,6 +338,113 @@ const ProfilePreferencesTab: React.FC = () => {
     }
   };
 
+  const saveScanPhotoRetention = async () => {
+    setSectionSaving('retention');
+    try {
+      await updateProfile({
+        preferences: {
+          ...profile?.preferences,
+          privacy: {
+            ...profile?.preferences?.privacy,
+            scan_photo_retention_days: retentionDays,
+          },
+        },
+        updated_at: new Date().toISOString(),
+      });
+
+      success();
+      showToast({
+        type: 'success',
+        title: 'Conservation des photos mise à jour',
+        message: 'Vos photos de scan seront supprimées après la durée choisie',
+        duration: 3000,
+      });
+    } catch (error) {
+      showToast({
+        type: 'error',
+        title: 'Erreur de sauvegarde',
+        message: 'Impossible de sauvegarder la durée de conservation',
+        duration: 4000,
+      });
+    } finally {
+      setSectionSaving(null);
+    }
+  };
+
+  const downloadUserData = async () => {
+    setExportingData(true);
+    try {
+      const archive = await api().account.exportData();
+      const url = URL.createObjectURL(archive);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `mes-donnees-${new Date().toISOString().slice(0, 10)}.zip`;
+      link.click();
+      URL.revokeObjectURL(url);
+
+      success();
+      showToast({
+        type: 'success',
+        title: 'Export prêt',
+        message: 'L\'archive de vos données a été téléchargée',
+        duration: 3000,
+      });
+    } catch (error) {
+      logger.error('[ProfilePreferences] User data export failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        userId: profile?.userId,
+      });
+      showToast({
+        type: 'error',
+        title: 'Export impossible',
+        message: 'Impossible de préparer l\'archive de vos données',
+        duration: 4000,
+      });
+    } finally {
+      setExportingData(false);
+    }
+  };
+
+  const deleteAccount = async () => {
+    if (deletionPhrase !== ACCOUNT_DELETION_PHRASE) return;
+
+    setDeletingAccount(true);
+    try {
+      await api().account.deleteAccount();
+
+      showToast({
+        type: 'success',
+        title: 'Compte supprimé',
+        message: 'Votre compte et toutes vos données ont été effacés',
+        duration: 4000,
+      });
+
+      // The account no longer exists server-side: only the local session is left to clear
+      await supabase.auth.signOut({ scope: 'local' });
+      useUserStore.getState().setProfile(null);
+      useUserStore.getState().setSession(null);
+    } catch (error) {
+      const partiallyDeleted = error instanceof AccountPartiallyDeletedError;
+      logger.error('[ProfilePreferences] Account deletion failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        dataErased: partiallyDeleted,
+        userId: profile?.userId,
+      });
+      showToast(partiallyDeleted ? {
+        type: 'error',
+        title: 'Données effacées, compte non supprimé',
+        message: 'Toutes vos données ont été effacées mais le compte existe encore, réessayez pour terminer la suppression',
+        duration: 6000,
+      } : {
+        type: 'error',
+        title: 'Suppression incomplète',
+        message: 'Votre compte a été conservé, réessayez dans quelques instants',
+        duration: 5000,
+      });
+      setDeletingAccount(false);
+    }
+  };
+
   const onSubmit = async (data: PreferencesForm) => {
     try {
       formSubmit();
@@ -696,6 +831,130 @@ const ProfilePreferencesTab: React.FC = () => {
           </GlassCard>
         )}
       </form>
+
+      {/* Scan Photo Retention Card - saved on its own, outside the workout form */}
+      <GlassCard className="p-6" style={{
+        background: `
+          radial-gradient(circle at 30% 20%, rgba(139, 92, 246, 0.08) 0%, transparent 60%),
+          var(--glass-opacity)
+        `,
+        borderColor: 'rgba(139, 92, 246, 0.2)'
+      }}>
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-white font-semibold text-xl flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-purple-500/20 flex items-center justify-center">
+              <SpatialIcon Icon={ICONS.Shield} size={20} className="text-purple-400" />
+            </div>
+            Photos de scan
+          </h3>
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 rounded-full bg-purple-400" />
+            <span className="text-purple-300 text-sm font-medium">Confidentialité</span>
+          </div>
+        </div>
+
+        <label htmlFor="privacy.scanPhotoRetention" className="block text-white/90 text-sm font-medium mb-3">
+          Durée de conservation des photos
+        </label>
+        <select
+          id="privacy.scanPhotoRetention"
+          value={retentionDays}
+          onChange={(e) => setRetentionDays(Number(e.target.value))}
+          className="glass-input"
+        >
+          {SCAN_PHOTO_RETENTION_OPTIONS.map(({ days, label }) => (
+            <option key={days} value={days}>{label}</option>
+          ))}
+        </select>
+        <p className="text-white/60 text-xs mt-2">
+          Vos photos sont stockées dans un espace privé et ne sont transmises à l'analyse que par des liens temporaires.
+          Passé ce délai, elles sont supprimées automatiquement ; vos mesures et votre avatar sont conservés.
+        </p>
+
+        <SectionSaveButton
+          isDirty={retentionDays !== savedRetentionDays}
+          isSaving={sectionSaving === 'retention'}
+          onSave={saveScanPhotoRetention}
+          sectionName="Conservation"
+        />
+      </GlassCard>
+
+      {/* My Data Card - GDPR export and account deletion */}
+      <GlassCard className="p-6" style={{
+        background: `
+          radial-gradient(circle at 30% 20%, rgba(239, 68, 68, 0.08) 0%, transparent 60%),
+          var(--glass-opacity)
+        `,
+        borderColor: 'rgba(239, 68, 68, 0.2)'
+      }}>
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-white font-semibold text-xl flex items-center gap-3">
+            <div className="w-10 h-10 rounded-full bg-red-500/20 flex items-center justify-center">
+              <SpatialIcon Icon={ICONS.Download} size={20} className="text-red-400" />
+            </div>
+            Mes données
+          </h3>
+          <div className="flex items-center gap-2">
+            <div className="w-2 h-2 rounded-full bg-red-400" />
+            <span className="text-red-300 text-sm font-medium">RGPD</span>
+          </div>
+        </div>
+
+        <p className="text-white/70 text-sm mb-3">
+          Téléchargez une archive contenant votre profil, vos scans, vos mesures, votre avatar et vos photos.
+        </p>
+        <button
+          type="button"
+          onClick={downloadUserData}
+          disabled={exportingData || deletingAccount}
+          className="btn-glass px-4 py-2 text-sm"
+        >
+          <div className="flex items-center gap-2">
+            {exportingData ? (
+              <SpatialIcon Icon={ICONS.Loader2} size={14} className="animate-spin" />
+            ) : (
+              <SpatialIcon Icon={ICONS.Download} size={14} />
+            )}
+            <span>{exportingData ? 'Préparation...' : 'Télécharger mes données'}</span>
+          </div>
+        </button>
+
+        <div className="mt-6 pt-6 border-t border-white/10">
+          <label htmlFor="account.deletionPhrase" className="block text-white/90 text-sm font-medium mb-3">
+            Supprimer mon compte
+          </label>
+          <p className="text-white/60 text-xs mb-3">
+            Toutes vos données et photos sont effacées définitivement, puis votre compte est supprimé.
+            Tapez <span className="text-red-300 font-semibold">{ACCOUNT_DELETION_PHRASE}</span> pour confirmer.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-3">
+            <input
+              id="account.deletionPhrase"
+              type="text"
+              value={deletionPhrase}
+              onChange={(e) => setDeletionPhrase(e.target.value)}
+              placeholder={ACCOUNT_DELETION_PHRASE}
+              autoComplete="off"
+              className="glass-input flex-1"
+            />
+            <button
+              type="button"
+              onClick={deleteAccount}
+              disabled={deletionPhrase !== ACCOUNT_DELETION_PHRASE || deletingAccount}
+              className="btn-glass px-4 py-2 text-sm text-red-300 disabled:opacity-50"
+            >
+              <div className="flex items-center gap-2">
+                {deletingAccount ? (
+                  <SpatialIcon Icon={ICONS.Loader2} size={14} className="animate-spin" />
+                ) : (
+                  <SpatialIcon Icon={ICONS.Trash2} size={14} />
+                )}
+                <span>{deletingAccount ? 'Suppression...' : 'Supprimer définitivement'}</span>
+              </div>
+            </button>
+          </div>
+        </div>
+      </GlassCard>
     </div>
   );
 };
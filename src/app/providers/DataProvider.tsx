@@ -6,9 +6,20 @@
 import React, { ReactNode } from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
-import { setDataSource, isMock } from '../../system/data/dataSource';
+import { setDataSource, isMock, isFixtureRecording, type IDataSource } from '../../system/data/dataSource';
 
 import { morphologyMappingRepo } from '../../system/data/repositories/morphologyMappingRepo';
+import { bodyScanRepo } from '../../system/data/repositories/bodyScanRepo';
+import { faceScanRepo } from '../../system/data/repositories/faceScanRepo';
+import { getModelUrlForGender } from '../../system/data/repositories/assetsRepo';
+import { accountRepo } from '../../system/data/repositories/accountRepo';
+import { createFixtureDataSource } from '../../system/data/fixtures/fixtureReplay';
+import {
+  withFixtureRecording,
+  exportFixtureSession,
+  downloadFixtureSession,
+  clearFixtureSession,
+} from '../../system/data/fixtures/fixtureRecorder';
 
 // Create optimized QueryClient
 const queryClient = new QueryClient({
@@ -29,19 +40,44 @@ interface DataProviderProps {
   children: ReactNode;
 }
 
+/**
+ * Build the data source for the current environment:
+ * fixture replay (VITE_MOCK_DATA=1), live with recording (VITE_FIXTURE_RECORD=1) or live
+ */
+function createDataSource(): IDataSource {
+  if (isMock()) {
+    return createFixtureDataSource();
+  }
+
+  const live: IDataSource = {
+    morphologyMapping: morphologyMappingRepo,
+    bodyScan: bodyScanRepo,
+    faceScan: faceScanRepo,
+    assets: { getModelUrlForGender },
+    account: accountRepo,
+  };
+
+  if (isFixtureRecording()) {
+    // Dev console access: __fixtures.download() saves the session for replay
+    window.__fixtures = {
+      export: exportFixtureSession,
+      download: downloadFixtureSession,
+      clear: clearFixtureSession,
+    };
+    return withFixtureRecording(live);
+  }
+
+  return live;
+}
+
+// Configured at module load, before any child renders: their queries hit api() on mount
+setDataSource(createDataSource());
+
 /**
  * Data Provider Component
  * Sets up React Query and data source implementations
  */
 export const DataProvider: React.FC<DataProviderProps> = ({ children }) => {
-  React.useEffect(() => {
-    // Configure data source based on environment
-    
-    setDataSource({
-      morphologyMapping: morphologyMappingRepo,
-    });
-  }, []);
-  
   return (
     <QueryClientProvider client={queryClient}>
       {children}
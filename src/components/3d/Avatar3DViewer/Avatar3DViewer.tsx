@@ -50,6 +50,8 @@ const Avatar3DViewer = forwardRef<Avatar3DViewerRef, Avatar3DViewerProps>((props
     setCameraView: orchestrator.setCameraView,
     toggleAutoRotate: orchestrator.toggleAutoRotate,
     forceMorphsUpdate: orchestrator.forceMorphsUpdate,
+    exportAvatar: orchestrator.exportAvatar,
+    measureAvatar: orchestrator.measureAvatar,
   }), [orchestrator]);
 
   // Log simplified component render
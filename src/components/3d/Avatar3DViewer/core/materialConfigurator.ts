@@ -6,12 +6,14 @@
 import * as THREE from 'three';
 import { applySkinToneToScene as coreConfigureMaterials } from '../../../../lib/3d/materials/applySkinTone';
 import type { SkinToneV2 } from '../../../../lib/scan/normalizeSkinTone';
+import type { SkinMaterialComplexity } from '../../../../lib/3d/materials/core/skinProperties';
 import logger from '../../../../lib/utils/logger';
 
 interface MaterialConfigOptions {
   scene: THREE.Scene;
   skinTone: SkinToneV2;
   serverScanId?: string;
+  skinComplexity?: SkinMaterialComplexity;
 }
 
 interface MaterialConfigResult {
@@ -24,17 +26,18 @@ interface MaterialConfigResult {
  * Configure model materials with skin tone
  */
 export async function configureModelMaterials(options: MaterialConfigOptions): Promise<MaterialConfigResult> {
-  const { scene, skinTone, serverScanId } = options;
+  const { scene, skinTone, serverScanId, skinComplexity = 'full' } = options;
 
   logger.info('MATERIAL_CONFIGURATOR', 'Starting material configuration', {
     serverScanId,
     skinToneRGB: `rgb(${skinTone.rgb.r}, ${skinTone.rgb.g}, ${skinTone.rgb.b})`,
     skinToneHex: skinTone.hex,
+    skinComplexity,
     philosophy: 'core_material_configuration'
   });
 
   try {
-    const result = await coreConfigureMaterials(scene, skinTone);
+    const result = await coreConfigureMaterials(scene, skinTone, skinComplexity);
     
     if (!result || !result.success) {
       logger.error('MATERIAL_CONFIGURATOR', 'Material configuration failed', {
@@ -3,7 +3,7 @@ import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import { DRACOLoader } from 'three/examples/jsm/loaders/DRACOLoader.js';
 import { sanitizeAvatarScene } from '../../../../lib/3d/utils/meshSanitizer';
 import { sanitizeSkeleton } from '../../../../lib/3d/utils/boneSanitizer';
-import { getModelUrlForGender } from '../../../../system/data/repositories/assetsRepo';
+import { api } from '../../../../system/data/dataSource';
 import logger from '../../../../lib/utils/logger';
 
 // Global GLTF cache to prevent re-loading models
@@ -43,7 +43,7 @@ export async function loadAndPrepareModel(options: ModelLoadOptions): Promise<Lo
     throw new Error('Model loading was aborted before starting');
   }
 
-  const modelUrl = getModelUrlForGender(finalGender);
+  const modelUrl = api().assets.getModelUrlForGender(finalGender);
   logger.info('MODEL_LOADER', `Attempting to load model from URL: ${modelUrl}`, {
     gender: finalGender,
     serverScanId
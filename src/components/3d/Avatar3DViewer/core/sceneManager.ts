@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { OrbitTouchControls } from '../../../../lib/3d/camera/OrbitTouchControls';
 import { setupLighting } from '../../../../lib/3d/setup/lightingSetup';
+import { resolveRenderQuality, type RenderQualitySettings } from '../../../../lib/3d/setup/renderQuality';
 import logger from '../../../../lib/utils/logger';
 
 export interface SceneInstance {
@@ -9,6 +10,7 @@ export interface SceneInstance {
   camera: THREE.PerspectiveCamera;
   controls: OrbitTouchControls;
   containerId: string;
+  quality: RenderQualitySettings;
 }
 
 interface SceneCreationOptions {
@@ -16,25 +18,28 @@ interface SceneCreationOptions {
   finalGender: 'male' | 'female';
   faceOnly?: boolean; // ADDED
   serverScanId?: string;
+  /** Defaults to the tier detected for this device */
+  quality?: RenderQualitySettings;
 }
 
 /**
  * Create complete Three.js scene with renderer, camera, and controls
  */
 export function createScene(options: SceneCreationOptions): SceneInstance {
-  const { container, finalGender, faceOnly, serverScanId } = options; // MODIFIED
+  const { container, finalGender, faceOnly, serverScanId, quality = resolveRenderQuality() } = options; // MODIFIED
   
   logger.info('SCENE_MANAGER', 'Creating Three.js scene', {
     gender: finalGender,
     faceOnly, // ADDED
     serverScanId,
+    qualityTier: quality.tier,
     containerSize: { width: container.clientWidth, height: container.clientHeight },
     philosophy: 'core_scene_creation'
   });
 
   // Create renderer with strict settings
   const renderer = new THREE.WebGLRenderer({
-    antialias: true,
+    antialias: quality.antialias,
     alpha: true,
     powerPreference: 'high-performance',
     preserveDrawingBuffer: false,
@@ -42,9 +47,9 @@ export function createScene(options: SceneCreationOptions): SceneInstance {
   });
 
   renderer.setSize(container.clientWidth, container.clientHeight);
-  renderer.setPixelRatio(Math.min(window.devicePixelRatio, 2));
-  renderer.shadowMap.enabled = true;
-  renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+  renderer.setPixelRatio(Math.min(window.devicePixelRatio, quality.maxPixelRatio));
+  renderer.shadowMap.enabled = quality.shadows;
+  renderer.shadowMap.type = quality.shadowMapType;
   renderer.outputColorSpace = THREE.SRGBColorSpace;
   renderer.toneMapping = THREE.ACESFilmicToneMapping;
   renderer.toneMappingExposure = 1.25;
@@ -97,7 +102,7 @@ export function createScene(options: SceneCreationOptions): SceneInstance {
   controls.setTarget(new THREE.Vector3(0, 1.0, 0)); // Higher target for full body view
 
   // Setup lighting
-  setupLighting(scene);
+  setupLighting(scene, { shadowMapSize: quality.shadowMapSize });
 
   // Store renderer and camera globally for material compilation
   (window as any).__THREE_RENDERER__ = renderer;
@@ -109,7 +114,8 @@ export function createScene(options: SceneCreationOptions): SceneInstance {
     scene,
     camera,
     controls,
-    containerId: `viewer_${Date.now()}`
+    containerId: `viewer_${Date.now()}`,
+    quality
   };
 
   logger.info('SCENE_MANAGER', 'Scene creation completed', {
@@ -147,29 +153,31 @@ export function createResizeHandler(
 export function startAnimationLoop(
   sceneInstance: SceneInstance,
   autoRotate: boolean = false,
-  onFirstFrame?: () => void
+  onFirstFrame?: () => void,
+  onFrame?: (now: number) => void
 ): () => void {
   const { scene, renderer, camera, controls } = sceneInstance;
   let firstFrameRendered = false;
+  // Latest requested frame: cancelling an older id would leave the loop running
+  let animationId = 0;
 
   controls.setAutoRotate(autoRotate);
 
-  const animate = () => {
-    const animationId = requestAnimationFrame(animate);
+  const animate = (now: number = performance.now()) => {
+    animationId = requestAnimationFrame(animate);
     
     controls.update();
     renderer.render(scene, camera);
+    onFrame?.(now);
 
     // Track first frame rendered
     if (!firstFrameRendered) {
       firstFrameRendered = true;
       onFirstFrame?.();
     }
-
-    return animationId;
   };
 
-  const animationId = animate();
+  animate();
 
   logger.info('SCENE_MANAGER', 'Animation loop started', {
     autoRotate,
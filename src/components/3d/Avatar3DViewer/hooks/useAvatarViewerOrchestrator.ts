@@ -6,6 +6,8 @@ import { useMaterialLifecycle } from './useMaterialLifecycle';
 import { processViewerPayload, processSkinTone, determineFinalGender } from '../utils/payloadProcessor';
 import { useMorphologyMapping } from '../../../../hooks/useMorphologyMapping';
 import { useProgressStore } from '../../../../system/store/progressStore';
+import { exportAvatar as exportAvatarModel, type AvatarExportOptions, type AvatarExportResult } from '../../../../lib/3d/export/avatarExport';
+import { measureMeshCircumferences, type MeshMeasurementResult } from '../../../../lib/3d/measurements/meshCircumference';
 import type { Avatar3DViewerProps, ViewerState } from '../utils/viewerTypes';
 import logger from '../../../../lib/utils/logger';
 import * as THREE from 'three';
@@ -35,6 +37,8 @@ interface AvatarViewerOrchestratorResult {
   updateMorphData: (morphData: Record<string, number>) => void;
   retryInitialization: () => void;
   forceMorphsUpdate: (morphData: Record<string, number>) => void;
+  exportAvatar: (options: AvatarExportOptions) => Promise<AvatarExportResult>;
+  measureAvatar: (heightCm: number) => MeshMeasurementResult;
   
   // Status
   isReady: boolean;
@@ -190,7 +194,8 @@ export function useAvatarViewerOrchestrator(
     scene: sceneLifecycle.scene,
     skinTone: processedSkinTone, // MODIFIED: Utiliser processedSkinTone par défaut
     finalGender,
-    serverScanId
+    serverScanId,
+    skinComplexity: sceneLifecycle.renderQuality.skinComplexity
   });
 
   // Initialize scene when container is available
@@ -325,6 +330,36 @@ export function useAvatarViewerOrchestrator(
     }
   }, [modelLifecycle.modelRef, morphLifecycle.forceMorphsUpdate, serverScanId, faceMorphData]); // NOUVEAU: Ajouter faceMorphData aux dépendances
 
+  const exportAvatar = useCallback(async (options: AvatarExportOptions) => {
+    const model = modelLifecycle.modelRef.current;
+    if (!model || !viewerState.isViewerReady) {
+      throw new Error('Avatar not ready for export');
+    }
+
+    logger.info('[ORCHESTRATOR] Exporting baked avatar', {
+      format: options.format,
+      serverScanId,
+      philosophy: 'orchestrator_avatar_export'
+    });
+
+    return exportAvatarModel(model, options);
+  }, [modelLifecycle.modelRef, viewerState.isViewerReady, serverScanId]);
+
+  const measureAvatar = useCallback((heightCm: number) => {
+    const model = modelLifecycle.modelRef.current;
+    if (!model || !viewerState.isViewerReady) {
+      throw new Error('Avatar not ready for measurement');
+    }
+
+    logger.info('[ORCHESTRATOR] Measuring avatar circumferences', {
+      heightCm,
+      serverScanId,
+      philosophy: 'orchestrator_avatar_measurement'
+    });
+
+    return measureMeshCircumferences(model, heightCm);
+  }, [modelLifecycle.modelRef, viewerState.isViewerReady, serverScanId]);
+
   const retryInitialization = useCallback(() => {
     logger.info('ORCHESTRATOR', 'Retrying initialization with complete cleanup', {
       serverScanId,
@@ -380,6 +415,8 @@ export function useAvatarViewerOrchestrator(
     updateMorphData,
     retryInitialization,
     forceMorphsUpdate,
+    exportAvatar,
+    measureAvatar,
     
     // Status
     isReady,
@@ -3,6 +3,7 @@ import { useCallback, useState } from 'react';
 import * as THREE from 'three';
 import { configureModelMaterials } from '../core/materialConfigurator';
 import { resolveSkinTone } from '../../../../lib/scan/normalizeSkinTone';
+import type { SkinMaterialComplexity } from '../../../../lib/3d/materials/core/skinProperties';
 import logger from '../../../../lib/utils/logger';
 
 interface UseMaterialLifecycleProps {
@@ -10,6 +11,7 @@ interface UseMaterialLifecycleProps {
   skinTone?: SkinToneV2;
   finalGender: 'male' | 'female';
   serverScanId?: string;
+  skinComplexity?: SkinMaterialComplexity;
 }
 
 /**
@@ -19,7 +21,8 @@ export function useMaterialLifecycle({
   scene,
   skinTone,
   finalGender,
-  serverScanId
+  serverScanId,
+  skinComplexity
 }: UseMaterialLifecycleProps) {
   const [isConfiguring, setIsConfiguring] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -65,7 +68,8 @@ export function useMaterialLifecycle({
       await configureModelMaterials({
         scene,
         skinTone: resolvedSkinTone.tone,
-        serverScanId
+        serverScanId,
+        skinComplexity
       });
 
       logger.info('MATERIAL_LIFECYCLE', 'Material configuration completed successfully', {
@@ -85,7 +89,7 @@ export function useMaterialLifecycle({
     } finally {
       setIsConfiguring(false);
     }
-  }, [scene, skinTone, finalGender, serverScanId]);
+  }, [scene, skinTone, finalGender, serverScanId, skinComplexity]);
 
   return {
     // State
@@ -2,6 +2,13 @@ import { useCallback, useRef, useState } from 'react';
 import * as THREE from 'three';
 import { OrbitTouchControls } from '../../../../lib/3d/camera/OrbitTouchControls';
 import { createScene, startAnimationLoop, disposeSceneResources, createResizeHandler, type SceneInstance } from '../core/sceneManager';
+import {
+  applyRenderQuality,
+  getLowerQuality,
+  resolveRenderQuality,
+  type RenderQualitySettings
+} from '../../../../lib/3d/setup/renderQuality';
+import { createFrameRateMonitor } from '../../../../lib/3d/setup/frameRateMonitor';
 import logger from '../../../../lib/utils/logger';
 
 interface UseSceneLifecycleProps {
@@ -25,6 +32,8 @@ export function useSceneLifecycle({
   const [isInitialized, setIsInitialized] = useState(false);
   const [isInitializing, setIsInitializing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Detected once per viewer, then only ever stepped down by the frame-rate monitor
+  const [renderQuality, setRenderQuality] = useState<RenderQualitySettings>(() => resolveRenderQuality());
   
   const sceneInstanceRef = useRef<SceneInstance | null>(null);
   const animationCleanupRef = useRef<(() => void) | null>(null);
@@ -60,7 +69,8 @@ export function useSceneLifecycle({
         container,
         finalGender,
         faceOnly, // ADDED
-        serverScanId
+        serverScanId,
+        quality: renderQuality
       });
 
       sceneInstanceRef.current = sceneInstance;
@@ -93,7 +103,7 @@ export function useSceneLifecycle({
         philosophy: 'scene_lifecycle_error'
       });
     }
-  }, [container, finalGender, faceOnly, serverScanId, isInitialized, isInitializing, onSceneReady]); // MODIFIED
+  }, [container, finalGender, faceOnly, serverScanId, isInitialized, isInitializing, onSceneReady, renderQuality]); // MODIFIED
 
   // Start render loop
   const startRenderLoop = useCallback((autoRotate: boolean = false, model?: THREE.Group) => {
@@ -102,10 +112,30 @@ export function useSceneLifecycle({
       return;
     }
 
-    const cleanup = startAnimationLoop(sceneInstanceRef.current, autoRotate, () => {
-      logger.debug('SCENE_LIFECYCLE', 'First frame rendered', { serverScanId });
+    const sceneInstance = sceneInstanceRef.current;
+    const frameRateMonitor = createFrameRateMonitor({
+      onSustainedLowFps: (averageFps) => {
+        const lowerQuality = getLowerQuality(sceneInstance.quality.tier);
+        if (!lowerQuality) return;
+
+        logger.warn('[SCENE_LIFECYCLE] Sustained low frame rate, lowering render quality', {
+          averageFps: averageFps.toFixed(1),
+          fromTier: sceneInstance.quality.tier,
+          toTier: lowerQuality.tier,
+          serverScanId,
+          philosophy: 'adaptive_render_quality_step_down'
+        });
+
+        applyRenderQuality(sceneInstance.renderer, sceneInstance.scene, lowerQuality);
+        sceneInstance.quality = lowerQuality;
+        setRenderQuality(lowerQuality);
+      }
     });
 
+    const cleanup = startAnimationLoop(sceneInstance, autoRotate, () => {
+      logger.debug('SCENE_LIFECYCLE', 'First frame rendered', { serverScanId });
+    }, frameRateMonitor.tick);
+
     animationCleanupRef.current = cleanup;
 
     logger.info('SCENE_LIFECYCLE', 'Render loop started', {
@@ -157,6 +187,7 @@ export function useSceneLifecycle({
     isInitialized,
     isInitializing,
     error,
+    renderQuality,
     
     // Scene references
     scene: sceneInstanceRef.current?.scene || null,
@@ -1,6 +1,8 @@
 import * as THREE from 'three';
 import { OrbitTouchControls } from '../../../../lib/3d/camera/OrbitTouchControls';
 import { SkinToneV2 } from '../../../../lib/scan/normalizeSkinTone'; // ADDED
+import type { AvatarExportOptions, AvatarExportResult } from '../../../../lib/3d/export/avatarExport';
+import type { MeshMeasurementResult } from '../../../../lib/3d/measurements/meshCircumference';
 
 // Payload status type for strict state management
 type PayloadStatus = 'pending' | 'ready' | 'error';
@@ -56,6 +58,8 @@ export interface Avatar3DViewerRef {
   toggleAutoRotate: () => void;
   setCameraDistance: (distance: number) => void; // Nouvelle méthode pour le zoom direct
   forceMorphsUpdate: (morphData: Record<string, number>) => void;
+  exportAvatar: (options: AvatarExportOptions) => Promise<AvatarExportResult>; // Bakes the current morphs/bone scales
+  measureAvatar: (heightCm: number) => MeshMeasurementResult; // Circumferences sliced from the baked mesh
 }
 
 export interface ViewerState {
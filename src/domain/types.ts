@@ -4,9 +4,12 @@
  * Essential type definitions for Body Scan functionality
  */
 
+import type { SkinToneV2 } from '../lib/scan/normalizeSkinTone';
+import type { MeshMeasurementResult } from '../lib/3d/measurements/meshCircumference';
+
 type ID = string;
 
-type RetakeReason =
+export type RetakeReason =
   | 'blur'
   | 'under_exposed'
   | 'over_exposed'
@@ -15,14 +18,34 @@ type RetakeReason =
   | 'arms_not_clear'
   | 'feet_missing'
   | 'profile_angle_bad'
+  | 'threequarter_angle_bad'
   | 'background_busy'
   | 'face_not_detected'
   | 'resolution_too_low'
   | 'inconsistent_views'
   | 'low_overall_quality';
 
+/**
+ * Body landmark from the on-device pose estimator (BlazePose topology),
+ * coordinates normalized to the image (0..1, y down)
+ */
+export interface PoseKeypoint {
+  name: string;
+  x: number;
+  y: number;
+  z: number;
+  visibility: number;
+}
+
+/**
+ * Body scan views: front and profile are required, back and three-quarter are optional
+ */
+export type CaptureView = 'front' | 'profile' | 'back' | 'threequarter';
+
+export type OptionalCaptureView = Exclude<CaptureView, 'front' | 'profile'>;
+
 export interface PhotoCaptureReport {
-  view: 'front' | 'profile';
+  view: CaptureView;
   device: {
     brand: string;
     model: string;
@@ -48,13 +71,15 @@ export interface PhotoCaptureReport {
   content: {
     single_person: boolean;
     pose_ok: boolean;
-    skeleton_keypoints: any[] | null;
+    skeleton_keypoints: PoseKeypoint[] | null;
     face_detected: boolean;
     face_bbox_norm: [number, number, number, number] | null;
   };
   scale: {
     pixel_per_cm_estimate: number | null;
     method: 'face-heuristic' | 'sheet-A4' | 'none';
+    /** Detection confidence of the A4 sheet (0..1), sheet-A4 only */
+    confidence?: number;
   };
   bg: {
     background_segmentable: boolean;
@@ -72,13 +97,19 @@ export interface PhotoCaptureReport {
     b: number;
     confidence?: number;
   };
+  /** Privacy mode: face and background were masked on the device, only the masked image is uploaded */
+  privacy?: {
+    masked: boolean;
+    mode: 'blur' | 'replace';
+    face_source: 'pose' | 'silhouette' | null;
+  };
 }
 
 
 export interface CapturedPhotoEnhanced {
   file: File;
   url: string;
-  type: 'front' | 'profile';
+  type: CaptureView;
   validationResult?: {
     isValid: boolean;
     issues: string[];
@@ -105,3 +136,49 @@ export interface ValidationSummary {
   userMessage: string;
   canProceed: boolean;
 }
+
+/**
+ * scan-estimate response as committed in body_scans.metrics.estimate_result
+ */
+export interface BodyScanEstimateResult {
+  extracted_data?: {
+    raw_measurements?: Record<string, number>;
+    calibrated_measurements?: Record<string, number> | null;
+    estimated_bmi?: number;
+    estimated_body_fat_perc?: number;
+    estimated_muscle_mass_kg?: number;
+    processing_confidence?: number;
+  };
+  estimated_bmi?: number;
+}
+
+/**
+ * Avatar fields of body_scans.metrics read by the history views; metrics is free-form JSON
+ * written by scan-commit, so every other key stays untyped
+ */
+export interface BodyScanMetrics {
+  final_shape_params?: Record<string, number>;
+  morph_values?: Record<string, number>;
+  final_limb_masses?: Record<string, number>;
+  limb_masses?: Record<string, number>;
+  skin_tone?: SkinToneV2 | null;
+  resolved_gender?: 'male' | 'female';
+  estimate_result?: BodyScanEstimateResult;
+  /** Measurements of scans committed before estimate_result was stored */
+  raw_measurements?: Record<string, number>;
+  /** Circumferences measured on the avatar mesh (MeshMeasurementsCard) */
+  mesh_measurements?: MeshMeasurementResult;
+  [key: string]: unknown;
+}
+
+/**
+ * Persisted body scan (body_scans row)
+ */
+export interface BodyScan {
+  id: ID;
+  user_id: ID;
+  created_at: string;
+  /** Capture time written by scan-commit */
+  timestamp?: string;
+  metrics: BodyScanMetrics | null;
+}
@@ -1,7 +1,7 @@
 import React from 'react';
 import { useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { morphologyMappingRepo } from '../system/data/repositories/morphologyMappingRepo';
+import { api } from '../system/data/dataSource';
 import logger from '../lib/utils/logger';
 
 interface MorphologyRange {
@@ -77,7 +77,7 @@ interface MorphologyMappingResult {
 export function useMorphologyMapping(): MorphologyMappingResult {
   const { data, isLoading, error } = useQuery({
     queryKey: ['morphology-mapping'],
-    queryFn: morphologyMappingRepo.getMapping,
+    queryFn: () => api().morphologyMapping.getMapping(),
     staleTime: 30 * 60 * 1000, // 30 minutes - mapping data changes rarely
     gcTime: 60 * 60 * 1000, // 1 hour
     refetchOnWindowFocus: false,
@@ -280,7 +280,7 @@ export function useMorphologyMapping(): MorphologyMappingResult {
 export function usePrefetchMorphologyMapping() {
   const { data } = useQuery({
     queryKey: ['morphology-mapping'],
-    queryFn: morphologyMappingRepo.getMapping,
+    queryFn: () => api().morphologyMapping.getMapping(),
     staleTime: 30 * 60 * 1000,
     gcTime: 60 * 60 * 1000,
     refetchOnWindowFocus: false,
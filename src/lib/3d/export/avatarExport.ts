@@ -0,0 +1,133 @@
+/**
+ * Avatar Export
+ * Turns the live, morphed avatar into downloadable 3D files
+ */
+
+import * as THREE from 'three';
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js';
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js';
+import { STLExporter } from 'three/examples/jsm/exporters/STLExporter.js';
+import { bakeAvatarModel, disposeBakedModel } from './meshBaker';
+import { buildPrintableMesh, type PrintableMeshOptions } from './printableMesh';
+import logger from '../../utils/logger';
+
+export type AvatarExportFormat = 'glb' | 'obj' | 'stl';
+
+export interface AvatarExportOptions {
+  format: AvatarExportFormat;
+  fileName?: string;
+  /** Required for OBJ/STL: the mesh is scaled so its height matches (output in mm) */
+  heightCm?: number;
+  /** OBJ/STL only: weld seams and cap holes for printing */
+  watertight?: boolean;
+  /** OBJ/STL only: fraction of vertices to keep */
+  decimateRatio?: number;
+}
+
+export interface AvatarExportResult {
+  blob: Blob;
+  fileName: string;
+}
+
+const MIME_TYPES: Record<AvatarExportFormat, string> = {
+  glb: 'model/gltf-binary',
+  obj: 'model/obj',
+  stl: 'model/stl',
+};
+
+/**
+ * Binary glTF of the baked avatar; materials (incl. the applied skin tone) are cloned as-is
+ */
+export async function exportAvatarGLB(model: THREE.Object3D): Promise<Blob> {
+  const baked = bakeAvatarModel(model);
+  try {
+    const exporter = new GLTFExporter();
+    const result = await exporter.parseAsync(baked, { binary: true, onlyVisible: true });
+    return new Blob([result as ArrayBuffer], { type: MIME_TYPES.glb });
+  } finally {
+    disposeBakedModel(baked);
+  }
+}
+
+function toPrintableOptions(options: AvatarExportOptions, zUp: boolean): PrintableMeshOptions {
+  if (!options.heightCm) {
+    throw new Error(`Height is required for ${options.format.toUpperCase()} export`);
+  }
+  return {
+    heightCm: options.heightCm,
+    watertight: options.watertight,
+    decimateRatio: options.decimateRatio,
+    unit: 'mm',
+    zUp,
+  };
+}
+
+/**
+ * Wavefront OBJ of the body only, Y-up, in millimeters at the user's real height
+ */
+export function exportAvatarOBJ(model: THREE.Object3D, options: AvatarExportOptions): Blob {
+  const mesh = buildPrintableMesh(model, toPrintableOptions(options, false));
+  try {
+    const result = new OBJExporter().parse(mesh);
+    return new Blob([result], { type: MIME_TYPES.obj });
+  } finally {
+    disposeBakedModel(mesh);
+  }
+}
+
+/**
+ * Binary STL of the body only, Z-up (slicer convention), in millimeters at the user's real height
+ */
+export function exportAvatarSTL(model: THREE.Object3D, options: AvatarExportOptions): Blob {
+  const mesh = buildPrintableMesh(model, toPrintableOptions(options, true));
+  try {
+    const result = new STLExporter().parse(mesh, { binary: true }) as DataView<ArrayBuffer>;
+    return new Blob([result], { type: MIME_TYPES.stl });
+  } finally {
+    disposeBakedModel(mesh);
+  }
+}
+
+/**
+ * Export the avatar in the requested format
+ */
+export async function exportAvatar(model: THREE.Object3D, options: AvatarExportOptions): Promise<AvatarExportResult> {
+  const startTime = performance.now();
+  const fileName = options.fileName || `avatar-${new Date().toISOString().slice(0, 10)}.${options.format}`;
+
+  let blob: Blob;
+  switch (options.format) {
+    case 'obj':
+      blob = exportAvatarOBJ(model, options);
+      break;
+    case 'stl':
+      blob = exportAvatarSTL(model, options);
+      break;
+    default:
+      blob = await exportAvatarGLB(model);
+  }
+
+  logger.info('[AVATAR_EXPORT] Avatar exported', {
+    format: options.format,
+    fileName,
+    heightCm: options.heightCm,
+    watertight: options.watertight,
+    sizeKb: Math.round(blob.size / 1024),
+    durationMs: (performance.now() - startTime).toFixed(1),
+  });
+
+  return { blob, fileName };
+}
+
+/**
+ * Trigger a browser download for an exported file
+ */
+export function downloadExport({ blob, fileName }: AvatarExportResult): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Let the download start before releasing the object URL
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
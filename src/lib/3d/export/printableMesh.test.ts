@@ -0,0 +1,40 @@
+import * as THREE from 'three';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { describe, expect, it } from 'vitest';
+import { WELD_TOLERANCE, capBoundaryLoops } from './printableMesh';
+
+/** Welded, position-only geometry, as capBoundaryLoops expects */
+function welded(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+  const stripped = new THREE.BufferGeometry();
+  stripped.setAttribute('position', geometry.getAttribute('position').clone());
+  stripped.setIndex(geometry.index!.clone());
+  return mergeVertices(stripped, WELD_TOLERANCE);
+}
+
+/** Directed edges that have no twin, i.e. still on an open boundary */
+function openEdges(geometry: THREE.BufferGeometry): number {
+  const indices = Array.from(geometry.index!.array as ArrayLike<number>);
+  const edges = new Set<string>();
+  for (let i = 0; i < indices.length; i += 3) {
+    edges.add(`${indices[i]}_${indices[i + 1]}`).add(`${indices[i + 1]}_${indices[i + 2]}`).add(`${indices[i + 2]}_${indices[i]}`);
+  }
+  return Array.from(edges).filter((edge) => !edges.has(edge.split('_').reverse().join('_'))).length;
+}
+
+describe('capBoundaryLoops', () => {
+  it('caps both ends of an open tube and leaves no boundary edge', () => {
+    const tube = welded(new THREE.CylinderGeometry(1, 1, 2, 16, 1, true));
+    expect(openEdges(tube)).toBe(32);
+
+    expect(capBoundaryLoops(tube)).toBe(2);
+    expect(openEdges(tube)).toBe(0);
+  });
+
+  it('leaves a closed mesh untouched', () => {
+    const box = welded(new THREE.BoxGeometry(1, 1, 1));
+    const triangles = box.index!.count;
+
+    expect(capBoundaryLoops(box)).toBe(0);
+    expect(box.index!.count).toBe(triangles);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Printable Mesh
+ * Single static body mesh scaled to the user's real height, for OBJ/STL export
+ * (figurines, 3D printing). Optional watertight welding/capping and decimation.
+ */
+
+import * as THREE from 'three';
+import { mergeGeometries, mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { SimplifyModifier } from 'three/examples/jsm/modifiers/SimplifyModifier.js';
+import { bakeAvatarModel, disposeBakedModel } from './meshBaker';
+import { shouldRemoveObject } from '../utils/meshSanitizer';
+import logger from '../../utils/logger';
+
+export type PrintUnit = 'mm' | 'cm';
+
+export interface PrintableMeshOptions {
+  /** Real-world height the mesh is scaled to */
+  heightCm: number;
+  /** File unit: 1 unit = 1 mm (slicer default) or 1 cm */
+  unit?: PrintUnit;
+  /** Weld seams and cap open boundaries so slicers see a closed volume */
+  watertight?: boolean;
+  /** Fraction of vertices to keep, in (0, 1]; 1 disables decimation */
+  decimateRatio?: number;
+  /** Rotate Y-up to Z-up (STL/printer convention) */
+  zUp?: boolean;
+}
+
+// Welding tolerance in asset units (meters in the avatar GLB)
+export const WELD_TOLERANCE = 1e-5;
+const MIN_DECIMATE_RATIO = 0.05;
+
+/**
+ * Position-only copy so geometries with different attribute sets can be merged/welded
+ */
+function positionOnly(geometry: THREE.BufferGeometry): THREE.BufferGeometry {
+  const stripped = new THREE.BufferGeometry();
+  stripped.setAttribute('position', geometry.getAttribute('position').clone());
+  if (geometry.index) stripped.setIndex(geometry.index.clone());
+  return stripped;
+}
+
+/**
+ * Close every open boundary loop with a triangle fan around its centroid.
+ * Expects a welded, indexed geometry; returns the number of holes capped.
+ */
+export function capBoundaryLoops(geometry: THREE.BufferGeometry): number {
+  const index = geometry.index;
+  if (!index) return 0;
+
+  const indices = Array.from(index.array as ArrayLike<number>);
+  const directedEdges = new Set<string>();
+  for (let i = 0; i < indices.length; i += 3) {
+    const [a, b, c] = [indices[i], indices[i + 1], indices[i + 2]];
+    directedEdges.add(`${a}_${b}`).add(`${b}_${c}`).add(`${c}_${a}`);
+  }
+
+  // A directed edge whose twin is missing lies on a boundary
+  const boundaryNext = new Map<number, number[]>();
+  for (let i = 0; i < indices.length; i += 3) {
+    const tri = [indices[i], indices[i + 1], indices[i + 2]];
+    for (let e = 0; e < 3; e++) {
+      const from = tri[e];
+      const to = tri[(e + 1) % 3];
+      if (!directedEdges.has(`${to}_${from}`)) {
+        const next = boundaryNext.get(from) || [];
+        next.push(to);
+        boundaryNext.set(from, next);
+      }
+    }
+  }
+
+  const positions = Array.from(geometry.getAttribute('position').array as ArrayLike<number>);
+  let holesCapped = 0;
+
+  for (const start of Array.from(boundaryNext.keys())) {
+    while ((boundaryNext.get(start)?.length ?? 0) > 0) {
+      const loop: number[] = [start];
+      let current = boundaryNext.get(start)!.pop()!;
+      while (current !== start && loop.length <= indices.length) {
+        loop.push(current);
+        const next = boundaryNext.get(current);
+        if (!next || next.length === 0) break;
+        current = next.pop()!;
+      }
+      if (current !== start || loop.length < 3) continue;
+
+      const centroid = new THREE.Vector3();
+      loop.forEach((v) => centroid.add(new THREE.Vector3(positions[v * 3], positions[v * 3 + 1], positions[v * 3 + 2])));
+      centroid.divideScalar(loop.length);
+      const centroidIndex = positions.length / 3;
+      positions.push(centroid.x, centroid.y, centroid.z);
+
+      // Reverse winding of the boundary so the cap's edges twin the existing ones
+      for (let i = 0; i < loop.length; i++) {
+        indices.push(centroidIndex, loop[(i + 1) % loop.length], loop[i]);
+      }
+      holesCapped++;
+    }
+  }
+
+  geometry.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  geometry.setIndex(indices);
+  return holesCapped;
+}
+
+/**
+ * Bake the avatar body (non-body objects stripped) into one position-only geometry, in asset units
+ */
+export function bakeBodyGeometry(model: THREE.Object3D): THREE.BufferGeometry {
+  const baked = bakeAvatarModel(model, { excludeObject: shouldRemoveObject, keepMaterials: false });
+  const parts: THREE.BufferGeometry[] = [];
+  baked.traverse((obj) => {
+    const mesh = obj as THREE.Mesh;
+    if (mesh.isMesh) parts.push(positionOnly(mesh.geometry));
+  });
+  disposeBakedModel(baked);
+
+  if (parts.length === 0) {
+    throw new Error('No body mesh found in avatar model');
+  }
+
+  const geometry = parts.length === 1 ? parts[0] : mergeGeometries(parts, false);
+  if (!geometry) {
+    throw new Error('Failed to merge avatar meshes');
+  }
+  if (parts.length > 1) parts.forEach((part) => part.dispose());
+  return geometry;
+}
+
+/**
+ * Bake the avatar body into one mesh at real-world scale
+ */
+export function buildPrintableMesh(model: THREE.Object3D, options: PrintableMeshOptions): THREE.Mesh {
+  const { heightCm, unit = 'mm', watertight = false, decimateRatio = 1, zUp = false } = options;
+  if (!(heightCm > 0)) {
+    throw new Error('A positive height is required to scale the printable mesh');
+  }
+  const startTime = performance.now();
+
+  let geometry = bakeBodyGeometry(model);
+
+  let holesCapped = 0;
+  if (watertight) {
+    // UV seams split vertices; welding reconnects them before looking for real holes
+    geometry = mergeVertices(geometry, WELD_TOLERANCE);
+    holesCapped = capBoundaryLoops(geometry);
+  }
+
+  const keepRatio = Math.min(1, Math.max(MIN_DECIMATE_RATIO, decimateRatio));
+  const verticesBefore = geometry.getAttribute('position').count;
+  if (keepRatio < 1) {
+    const removeCount = Math.floor(verticesBefore * (1 - keepRatio));
+    geometry = new SimplifyModifier().modify(geometry, removeCount);
+  }
+
+  if (zUp) {
+    geometry.rotateX(Math.PI / 2);
+  }
+
+  // Scale to the user's height, then center and stand the feet on the ground plane
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox!;
+  const size = box.getSize(new THREE.Vector3());
+  const currentHeight = zUp ? size.z : size.y;
+  const targetHeight = unit === 'mm' ? heightCm * 10 : heightCm;
+  const scale = targetHeight / currentHeight;
+  geometry.scale(scale, scale, scale);
+
+  geometry.computeBoundingBox();
+  const scaledBox = geometry.boundingBox!;
+  const center = scaledBox.getCenter(new THREE.Vector3());
+  if (zUp) {
+    geometry.translate(-center.x, -center.y, -scaledBox.min.z);
+  } else {
+    geometry.translate(-center.x, -scaledBox.min.y, -center.z);
+  }
+  geometry.computeVertexNormals();
+
+  logger.info('[PRINTABLE_MESH] Printable avatar mesh built', {
+    heightCm,
+    unit,
+    watertight,
+    holesCapped,
+    keepRatio,
+    verticesBefore,
+    verticesAfter: geometry.getAttribute('position').count,
+    durationMs: (performance.now() - startTime).toFixed(1),
+  });
+
+  const mesh = new THREE.Mesh(geometry, new THREE.MeshStandardMaterial());
+  mesh.name = 'avatar_body';
+  return mesh;
+}
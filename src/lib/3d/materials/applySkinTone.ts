@@ -2,7 +2,7 @@ import * as THREE from 'three';
 import logger from '../../utils/logger';
 import { type SkinToneV2, isSkinToneV2 } from '../../scan/normalizeSkinTone';
 import { classifyMaterial, validateMaterialForSkin } from './core/materialIdentifier';
-import { calculateSkinProperties, applySkinPropertiesToMaterial } from './core/skinProperties';
+import { calculateSkinProperties, applySkinPropertiesToMaterial, type SkinMaterialComplexity } from './core/skinProperties';
 import { traverseSceneForMaterials } from './core/sceneTraverser';
 import { forceMaterialCompilation, updateAllMaterials } from './core/materialCompiler';
 import { upgradeMaterialToPhysical, replaceMaterialOnObject, ensureValidColorProperty } from './core/materialUpgrader';
@@ -25,7 +25,11 @@ export interface SkinToneApplicationResult {
  * Apply skin tone to all skin materials in the scene
  * MODULARIZED: Uses specialized modules for each aspect of skin tone application
  */
-export function applySkinToneToScene(scene: THREE.Scene, tone: SkinToneV2): SkinToneApplicationResult {
+export function applySkinToneToScene(
+  scene: THREE.Scene,
+  tone: SkinToneV2,
+  complexity: SkinMaterialComplexity = 'full'
+): SkinToneApplicationResult {
   // Input validation and telemetry
   logger.info('SKIN_TONE_APPLICATION_V2', 'Starting modularized V2 skin tone application', {
     inputSkinTone: {
@@ -64,7 +68,7 @@ export function applySkinToneToScene(scene: THREE.Scene, tone: SkinToneV2): Skin
   }
 
   // Calculate optimal skin properties
-  const skinProperties = calculateSkinProperties(tone);
+  const skinProperties = calculateSkinProperties(tone, complexity);
 
   // Initialize counters
   let appliedCount = 0;
@@ -34,10 +34,54 @@ interface SkinMaterialProperties {
   iridescenceIOR: number;
 }
 
+/**
+ * Shader cost of the skin material, chosen from the render quality tier
+ * - full: transmission (SSS) + sheen + clearcoat + iridescence
+ * - reduced: transmission + sheen only
+ * - minimal: plain PBR, no extra render pass for transmission
+ */
+export type SkinMaterialComplexity = 'full' | 'reduced' | 'minimal';
+
+/**
+ * Zero the properties a complexity level cannot afford.
+ * three.js only compiles the transmission/sheen/clearcoat/iridescence paths for non-zero values.
+ */
+function limitSkinPropertiesComplexity(
+  properties: SkinMaterialProperties,
+  complexity: SkinMaterialComplexity
+): SkinMaterialProperties {
+  if (complexity === 'full') return properties;
+
+  const limited = { ...properties, clearcoat: 0, iridescence: 0 };
+  if (complexity === 'minimal') {
+    limited.transmission = 0;
+    limited.sheen = 0;
+  }
+  return limited;
+}
+
+/**
+ * Downgrade an already configured skin material in place (runtime quality step-down)
+ */
+export function applySkinMaterialComplexity(material: THREE.Material, complexity: SkinMaterialComplexity): void {
+  if (!(material instanceof THREE.MeshPhysicalMaterial) || complexity === 'full') return;
+
+  material.clearcoat = 0;
+  material.iridescence = 0;
+  if (complexity === 'minimal') {
+    material.transmission = 0;
+    material.sheen = 0;
+  }
+  material.needsUpdate = true;
+}
+
 /**
  * Calculate optimal skin properties based on skin tone
  */
-export function calculateSkinProperties(skinTone: SkinToneV2): SkinMaterialProperties {
+export function calculateSkinProperties(
+  skinTone: SkinToneV2,
+  complexity: SkinMaterialComplexity = 'full'
+): SkinMaterialProperties {
   const { linear_f32 } = skinTone;
   
   // Calculate luminance for adaptive properties
@@ -107,10 +151,11 @@ export function calculateSkinProperties(skinTone: SkinToneV2): SkinMaterialPrope
       clearcoat
     },
     attenuationColor: `rgb(${attenuationR.toFixed(3)}, ${attenuationG.toFixed(3)}, ${attenuationB.toFixed(3)})`,
+    complexity,
     philosophy: 'adaptive_skin_properties_calculation'
   });
   
-  return properties;
+  return limitSkinPropertiesComplexity(properties, complexity);
 }
 
 /**
@@ -341,6 +386,8 @@ export function applySkinPropertiesToMaterial(
     
     // Force material update
     mat.needsUpdate = true;
+    // Tag for runtime quality changes (applySkinMaterialComplexity)
+    mat.userData.isSkinMaterial = true;
     
     // Verify color was applied correctly
     const colorApplied = 
@@ -0,0 +1,61 @@
+import * as THREE from 'three';
+import { describe, expect, it, vi } from 'vitest';
+import { compareWithEstimates, measureMeshCircumferences } from './meshCircumference';
+
+vi.mock('../../utils/logger', () => ({ default: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } }));
+
+const SEGMENTS = 64;
+
+function cylinder(radius: number, from: number, to: number, x = 0): THREE.Mesh {
+  const mesh = new THREE.Mesh(new THREE.CylinderGeometry(radius, radius, to - from, SEGMENTS, 8));
+  mesh.position.set(x, (from + to) / 2, 0);
+  return mesh;
+}
+
+/** Perimeter of the regular polygon a sliced cylinder gives, in cm for a 1.75 m body */
+const polygonPerimeterCm = (radius: number) => 2 * SEGMENTS * radius * Math.sin(Math.PI / SEGMENTS) * 100;
+
+describe('measureMeshCircumferences', () => {
+  // 1.75 units tall: a torso on two separate legs
+  const body = new THREE.Group();
+  body.add(cylinder(0.15, 0.85, 1.75), cylinder(0.08, 0, 0.85, -0.1), cylinder(0.08, 0, 0.85, 0.1));
+
+  it('slices the torso and thighs at real scale', () => {
+    const result = measureMeshCircumferences(body, 175);
+
+    expect(result.circumferences.waist_cm).toBeCloseTo(polygonPerimeterCm(0.15), 0);
+    expect(result.circumferences.hips_cm).toBeCloseTo(polygonPerimeterCm(0.15), 0);
+    expect(result.circumferences.thigh_cm).toBeCloseTo(polygonPerimeterCm(0.08), 0);
+    expect(result.levels_cm.thigh).toBeGreaterThanOrEqual(70);
+    expect(result.levels_cm.thigh).toBeLessThanOrEqual(77);
+  });
+
+  it('skips the chest while the arms are not detached from the torso', () => {
+    expect(measureMeshCircumferences(body, 175).circumferences.chest_cm).toBeUndefined();
+  });
+
+  it('scales with the declared height', () => {
+    const waist = measureMeshCircumferences(body, 175).circumferences.waist_cm!;
+    expect(measureMeshCircumferences(body, 140).circumferences.waist_cm).toBeCloseTo(waist * 0.8, 0);
+  });
+
+  it('requires a height', () => {
+    expect(() => measureMeshCircumferences(body, 0)).toThrow();
+  });
+});
+
+describe('compareWithEstimates', () => {
+  it('reports signed deltas and flags gaps beyond the tolerance', () => {
+    const comparisons = compareWithEstimates({ waist_cm: 84, hips_cm: 110, chest_cm: 100 }, { waist_cm: 80, hips_cm: 100 });
+
+    expect(comparisons).toEqual([
+      { site: 'waist', mesh_cm: 84, estimate_cm: 80, delta_cm: 4, delta_perc: 5, consistent: true },
+      { site: 'hips', mesh_cm: 110, estimate_cm: 100, delta_cm: 10, delta_perc: 10, consistent: false },
+    ]);
+  });
+
+  it('returns nothing without estimates', () => {
+    expect(compareWithEstimates({ waist_cm: 84 }, null)).toEqual([]);
+    expect(compareWithEstimates({ waist_cm: 84 }, { waist_cm: 0 })).toEqual([]);
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Mesh Circumference
+ * Tape-measure style circumferences sliced from the morphed, bone-scaled avatar,
+ * scaled to the user's height. Independent from the vision model estimates.
+ */
+
+import * as THREE from 'three';
+import { mergeVertices } from 'three/examples/jsm/utils/BufferGeometryUtils.js';
+import { bakeBodyGeometry, WELD_TOLERANCE } from '../export/printableMesh';
+import logger from '../../utils/logger';
+
+export type CircumferenceSite = 'chest' | 'waist' | 'hips' | 'thigh' | 'arm';
+
+export type MeshCircumferences = Partial<Record<`${CircumferenceSite}_cm`, number>>;
+
+export interface MeshMeasurementResult {
+  circumferences: MeshCircumferences;
+  /** Slice height from the floor for each measured site, in cm */
+  levels_cm: Partial<Record<CircumferenceSite, number>>;
+  height_cm: number;
+  method: 'mesh_slice_convex_hull';
+  measured_at: string;
+}
+
+export interface CircumferenceComparison {
+  site: CircumferenceSite;
+  mesh_cm: number;
+  estimate_cm: number;
+  delta_cm: number;
+  delta_perc: number;
+  consistent: boolean;
+}
+
+interface TorsoLandmark {
+  /** Search band as a fraction of stature, measured from the floor */
+  band: [number, number];
+  /** Tailor convention: narrowest waist, fullest chest/hips */
+  pick: 'min' | 'max';
+  /** Skip levels where the arms still merge into the torso loop (armpits) */
+  requireDetachedArms?: boolean;
+}
+
+/**
+ * Anthropometric landmark bands (fraction of stature). Bands are sampled and
+ * the min/max torso circumference is kept, which absorbs body-proportion variance.
+ */
+const TORSO_LANDMARKS: Record<'chest' | 'waist' | 'hips', TorsoLandmark> = {
+  chest: { band: [0.7, 0.74], pick: 'max', requireDetachedArms: true },
+  waist: { band: [0.58, 0.65], pick: 'min' },
+  hips: { band: [0.48, 0.55], pick: 'max' },
+};
+const THIGH_BAND: [number, number] = [0.4, 0.44];
+// Upper arm axis is estimated between these two levels, then sliced perpendicular at their midpoint
+const ARM_AXIS_LEVELS: [number, number] = [0.72, 0.66];
+
+const BAND_SAMPLES = 7;
+// Loops with fewer intersection points are fingers, hair strands or slicing noise
+const MIN_LOOP_POINTS = 8;
+// Relative gap between mesh and AI values still considered consistent
+export const CONSISTENCY_TOLERANCE = 0.08;
+
+interface SliceLoop {
+  points: THREE.Vector3[];
+  centroid: THREE.Vector3;
+}
+
+/**
+ * Intersect an indexed, welded geometry with a plane; returns one loop per connected cross-section
+ */
+function slice(geometry: THREE.BufferGeometry, plane: THREE.Plane): SliceLoop[] {
+  const position = geometry.getAttribute('position');
+  const indices = geometry.index!.array;
+  const vertex = new THREE.Vector3();
+  const distances = new Float32Array(position.count);
+  for (let i = 0; i < position.count; i++) {
+    distances[i] = plane.distanceToPoint(vertex.fromBufferAttribute(position, i));
+  }
+
+  // Intersection points are keyed by the mesh edge they lie on, so adjacent triangles share them exactly
+  const points = new Map<string, THREE.Vector3>();
+  const parent = new Map<string, string>();
+  const find = (key: string): string => {
+    let root = key;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(key, root);
+    return root;
+  };
+
+  const crossing = (a: number, b: number): string | null => {
+    if (distances[a] >= 0 === distances[b] >= 0) return null;
+    const key = a < b ? `${a}_${b}` : `${b}_${a}`;
+    if (!points.has(key)) {
+      const t = distances[a] / (distances[a] - distances[b]);
+      const start = new THREE.Vector3().fromBufferAttribute(position, a);
+      const end = new THREE.Vector3().fromBufferAttribute(position, b);
+      points.set(key, start.lerp(end, t));
+      parent.set(key, key);
+    }
+    return key;
+  };
+
+  for (let i = 0; i < indices.length; i += 3) {
+    const [a, b, c] = [indices[i], indices[i + 1], indices[i + 2]];
+    const keys = [crossing(a, b), crossing(b, c), crossing(c, a)].filter((k): k is string => k !== null);
+    if (keys.length === 2) {
+      parent.set(find(keys[0]), find(keys[1]));
+    }
+  }
+
+  const groups = new Map<string, THREE.Vector3[]>();
+  points.forEach((point, key) => {
+    const root = find(key);
+    const group = groups.get(root) || [];
+    group.push(point);
+    groups.set(root, group);
+  });
+
+  return Array.from(groups.values())
+    .filter((group) => group.length >= MIN_LOOP_POINTS)
+    .map((group) => ({
+      points: group,
+      centroid: group.reduce((sum, p) => sum.add(p), new THREE.Vector3()).divideScalar(group.length),
+    }));
+}
+
+/**
+ * Perimeter of the 2D convex hull of a loop in its plane, i.e. what a tape
+ * measure reads: it bridges concavities (between the breasts, the spine groove)
+ */
+function convexHullPerimeter(points: THREE.Vector3[], normal: THREE.Vector3): number {
+  const helper = Math.abs(normal.y) < 0.9 ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(1, 0, 0);
+  const u = new THREE.Vector3().crossVectors(normal, helper).normalize();
+  const v = new THREE.Vector3().crossVectors(normal, u);
+
+  const projected = points
+    .map((p) => [p.dot(u), p.dot(v)] as [number, number])
+    .sort((p, q) => p[0] - q[0] || p[1] - q[1]);
+
+  // Andrew's monotone chain
+  const cross = (o: [number, number], a: [number, number], b: [number, number]) =>
+    (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+  const lower: [number, number][] = [];
+  for (const p of projected) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+    lower.push(p);
+  }
+  const upper: [number, number][] = [];
+  for (let i = projected.length - 1; i >= 0; i--) {
+    const p = projected[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+    upper.push(p);
+  }
+  const hull = lower.slice(0, -1).concat(upper.slice(0, -1));
+
+  let perimeter = 0;
+  for (let i = 0; i < hull.length; i++) {
+    const [x1, y1] = hull[i];
+    const [x2, y2] = hull[(i + 1) % hull.length];
+    perimeter += Math.hypot(x2 - x1, y2 - y1);
+  }
+  return perimeter;
+}
+
+const UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Horizontal cross-sections at a given height (asset units)
+ */
+function horizontalSlice(geometry: THREE.BufferGeometry, y: number): SliceLoop[] {
+  return slice(geometry, new THREE.Plane(UP.clone(), -y));
+}
+
+function closestToMidline(loops: SliceLoop[], centerX: number): SliceLoop | null {
+  if (loops.length === 0) return null;
+  return loops.reduce((a, b) => (Math.abs(a.centroid.x - centerX) <= Math.abs(b.centroid.x - centerX) ? a : b));
+}
+
+function bandLevels([from, to]: [number, number], floorY: number, bodyHeight: number): number[] {
+  return Array.from({ length: BAND_SAMPLES }, (_, i) => floorY + bodyHeight * (from + ((to - from) * i) / (BAND_SAMPLES - 1)));
+}
+
+/**
+ * Slice the baked avatar at anatomical levels and return circumferences in cm
+ */
+export function measureMeshCircumferences(model: THREE.Object3D, heightCm: number): MeshMeasurementResult {
+  if (!(heightCm > 0)) {
+    throw new Error('A positive height is required to measure the avatar');
+  }
+  const startTime = performance.now();
+
+  // UV seams split vertices; welding lets cross-sections close into single loops
+  const baked = bakeBodyGeometry(model);
+  const geometry = mergeVertices(baked, WELD_TOLERANCE);
+  baked.dispose();
+
+  geometry.computeBoundingBox();
+  const box = geometry.boundingBox!;
+  const floorY = box.min.y;
+  const bodyHeight = box.max.y - box.min.y;
+  const centerX = (box.min.x + box.max.x) / 2;
+  const cmPerUnit = heightCm / bodyHeight;
+  const toLevelCm = (y: number) => Math.round((y - floorY) * cmPerUnit * 10) / 10;
+  const toCm = (length: number) => Math.round(length * cmPerUnit * 10) / 10;
+
+  const circumferences: MeshCircumferences = {};
+  const levels: MeshMeasurementResult['levels_cm'] = {};
+
+  // Torso: the loop closest to the body's mid-line (arms and hands are lateral loops)
+  (Object.keys(TORSO_LANDMARKS) as Array<keyof typeof TORSO_LANDMARKS>).forEach((site) => {
+    const { band, pick, requireDetachedArms } = TORSO_LANDMARKS[site];
+    let best: { perimeter: number; y: number } | null = null;
+
+    for (const y of bandLevels(band, floorY, bodyHeight)) {
+      const loops = horizontalSlice(geometry, y);
+      if (loops.length === 0 || (requireDetachedArms && loops.length < 3)) continue;
+      const torso = closestToMidline(loops, centerX)!;
+      const perimeter = convexHullPerimeter(torso.points, UP);
+      if (!best || (pick === 'max' ? perimeter > best.perimeter : perimeter < best.perimeter)) {
+        best = { perimeter, y };
+      }
+    }
+
+    if (best) {
+      circumferences[`${site}_cm`] = toCm(best.perimeter);
+      levels[site] = toLevelCm(best.y);
+    }
+  });
+
+  // Thigh: fullest level, averaged over the innermost loop on each side of the mid-line
+  let bestThigh: { perimeter: number; y: number } | null = null;
+  for (const y of bandLevels(THIGH_BAND, floorY, bodyHeight)) {
+    const loops = horizontalSlice(geometry, y);
+    const left = closestToMidline(loops.filter((loop) => loop.centroid.x < centerX), centerX);
+    const right = closestToMidline(loops.filter((loop) => loop.centroid.x >= centerX), centerX);
+    // Above the crotch both legs are one loop: not a thigh level
+    if (!left || !right) continue;
+
+    const perimeter = (convexHullPerimeter(left.points, UP) + convexHullPerimeter(right.points, UP)) / 2;
+    if (!bestThigh || perimeter > bestThigh.perimeter) {
+      bestThigh = { perimeter, y };
+    }
+  }
+  if (bestThigh) {
+    circumferences.thigh_cm = toCm(bestThigh.perimeter);
+    levels.thigh = toLevelCm(bestThigh.y);
+  }
+
+  // Upper arm: arms hang at an angle, so slice perpendicular to the arm axis rather than horizontally
+  const armCentroids = ARM_AXIS_LEVELS.map((fraction) => {
+    const loops = horizontalSlice(geometry, floorY + bodyHeight * fraction);
+    if (loops.length === 0) return null;
+    // The outermost loop is the arm only if it is detached from the torso
+    const torso = closestToMidline(loops, centerX);
+    const lateral = loops.filter((loop) => loop !== torso && loop.centroid.x > centerX);
+    if (lateral.length === 0) return null;
+    return lateral.reduce((a, b) => (a.centroid.x >= b.centroid.x ? a : b)).centroid;
+  });
+  if (armCentroids[0] && armCentroids[1]) {
+    const axis = new THREE.Vector3().subVectors(armCentroids[0], armCentroids[1]).normalize();
+    const midpoint = new THREE.Vector3().addVectors(armCentroids[0], armCentroids[1]).multiplyScalar(0.5);
+    const loops = slice(geometry, new THREE.Plane().setFromNormalAndCoplanarPoint(axis, midpoint));
+    if (loops.length > 0) {
+      const arm = loops.reduce((a, b) => (a.centroid.distanceTo(midpoint) <= b.centroid.distanceTo(midpoint) ? a : b));
+      circumferences.arm_cm = toCm(convexHullPerimeter(arm.points, axis));
+      levels.arm = toLevelCm(midpoint.y);
+    }
+  }
+
+  geometry.dispose();
+
+  logger.info('[MESH_CIRCUMFERENCE] Avatar circumferences measured', {
+    heightCm,
+    circumferences,
+    levels,
+    durationMs: (performance.now() - startTime).toFixed(1),
+  });
+
+  return {
+    circumferences,
+    levels_cm: levels,
+    height_cm: heightCm,
+    method: 'mesh_slice_convex_hull',
+    measured_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Compare mesh circumferences with the vision model's raw measurements (chest/waist/hips)
+ */
+export function compareWithEstimates(
+  circumferences: MeshCircumferences,
+  estimates: Partial<Record<'chest_cm' | 'waist_cm' | 'hips_cm', number>> | null | undefined,
+  tolerance = CONSISTENCY_TOLERANCE
+): CircumferenceComparison[] {
+  if (!estimates) return [];
+
+  return (['chest', 'waist', 'hips'] as const).flatMap((site) => {
+    const meshValue = circumferences[`${site}_cm`];
+    const estimate = estimates[`${site}_cm`];
+    if (typeof meshValue !== 'number' || typeof estimate !== 'number' || estimate <= 0) return [];
+
+    const delta = meshValue - estimate;
+    return [
+      {
+        site,
+        mesh_cm: meshValue,
+        estimate_cm: estimate,
+        delta_cm: Math.round(delta * 10) / 10,
+        delta_perc: Math.round((delta / estimate) * 1000) / 10,
+        consistent: Math.abs(delta / estimate) <= tolerance,
+      },
+    ];
+  });
+}
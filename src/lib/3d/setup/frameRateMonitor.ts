@@ -0,0 +1,74 @@
+/**
+ * Frame Rate Monitor
+ * Measures frame times from the render loop and reports sustained low FPS
+ */
+
+interface FrameRateMonitorOptions {
+  /** Average FPS under which a sample window counts as slow */
+  minFps?: number;
+  /** Length of one averaging window */
+  sampleWindowMs?: number;
+  /** Consecutive slow windows before reporting */
+  slowWindowsToDegrade?: number;
+  /** Ignored time after start/reset: shader compilation and model upload stall the first frames */
+  warmupMs?: number;
+  onSustainedLowFps: (averageFps: number) => void;
+}
+
+export interface FrameRateMonitor {
+  /** Call once per rendered frame with the rAF timestamp */
+  tick: (now: number) => void;
+  /** Restart measuring, e.g. after the quality changed */
+  reset: () => void;
+}
+
+/** Gaps longer than this are tab switches or breakpoints, not slow frames */
+const MAX_FRAME_GAP_MS = 250;
+
+export function createFrameRateMonitor(options: FrameRateMonitorOptions): FrameRateMonitor {
+  const {
+    minFps = 30,
+    sampleWindowMs = 2000,
+    slowWindowsToDegrade = 2,
+    warmupMs = 3000,
+    onSustainedLowFps,
+  } = options;
+
+  let startedAt: number | null = null;
+  let lastFrameAt: number | null = null;
+  let windowElapsed = 0;
+  let windowFrames = 0;
+  let slowWindows = 0;
+
+  const reset = () => {
+    startedAt = null;
+    lastFrameAt = null;
+    windowElapsed = 0;
+    windowFrames = 0;
+    slowWindows = 0;
+  };
+
+  const tick = (now: number) => {
+    if (startedAt === null) startedAt = now;
+    const delta = lastFrameAt === null ? 0 : now - lastFrameAt;
+    lastFrameAt = now;
+
+    if (now - startedAt < warmupMs || delta <= 0 || delta > MAX_FRAME_GAP_MS) return;
+
+    windowElapsed += delta;
+    windowFrames++;
+    if (windowElapsed < sampleWindowMs) return;
+
+    const averageFps = (windowFrames * 1000) / windowElapsed;
+    windowElapsed = 0;
+    windowFrames = 0;
+    slowWindows = averageFps < minFps ? slowWindows + 1 : 0;
+
+    if (slowWindows >= slowWindowsToDegrade) {
+      reset();
+      onSustainedLowFps(averageFps);
+    }
+  };
+
+  return { tick, reset };
+}
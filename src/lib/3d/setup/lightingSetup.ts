@@ -11,7 +11,12 @@ import logger from '../../utils/logger';
  * Enhanced for realistic skin rendering across all skin tones
  * ENHANCED: Optimized for PBR materials with true subsurface scattering
  */
-export function setupLighting(scene: THREE.Scene): void {
+export function setupLighting(
+  scene: THREE.Scene,
+  options: { shadowMapSize?: number } = {}
+): void {
+  const { shadowMapSize = 2048 } = options;
+
   // Ensure scene is properly initialized
   if (!scene) {
     throw new Error('Scene is not initialized - cannot setup lighting');
@@ -21,8 +26,8 @@ export function setupLighting(scene: THREE.Scene): void {
   const keyLight = new THREE.DirectionalLight(0xfff8f0, 2.8); // Warmer white, increased intensity for SSS
   keyLight.position.set(2, 4, 3);
   keyLight.castShadow = true;
-  keyLight.shadow.mapSize.width = 2048;
-  keyLight.shadow.mapSize.height = 2048;
+  keyLight.shadow.mapSize.width = shadowMapSize;
+  keyLight.shadow.mapSize.height = shadowMapSize;
   keyLight.shadow.camera.near = 0.1;
   keyLight.shadow.camera.far = 20;
   keyLight.shadow.camera.left = -5;
@@ -83,6 +88,7 @@ export function setupLighting(scene: THREE.Scene): void {
     ambientEnhanced: 'increased_for_sss_global_illumination',
     temperatureVariation: 'warmer_spectrum_for_sss_skin_rendering',
     shadowQuality: 'enhanced_with_bias_correction',
+    shadowMapSize,
     intensityOptimization: 'enhanced_for_sss_light_penetration',
     sceneChildren: scene.children.length,
     lightsAdded: scene.children.filter(child => child.isLight).length,
@@ -0,0 +1,139 @@
+/**
+ * Render Quality
+ * Quality tiers for the avatar viewer, picked from device capabilities and
+ * stepped down at runtime when the frame rate cannot keep up
+ */
+
+import * as THREE from 'three';
+import { detectDeviceCapabilitiesEnhanced, type DeviceCapabilities, type PerformanceLevel } from '../../device/deviceCapabilities';
+import { applySkinMaterialComplexity, type SkinMaterialComplexity } from '../materials/core/skinProperties';
+import logger from '../../utils/logger';
+
+export type RenderQualityTier = PerformanceLevel;
+
+export interface RenderQualitySettings {
+  tier: RenderQualityTier;
+  /** Upper bound applied to window.devicePixelRatio */
+  maxPixelRatio: number;
+  /** WebGL context attribute: only honoured when the renderer is created */
+  antialias: boolean;
+  shadows: boolean;
+  shadowMapType: THREE.ShadowMapType;
+  shadowMapSize: number;
+  skinComplexity: SkinMaterialComplexity;
+}
+
+/** Lowest first: stepping down walks this list backwards */
+export const RENDER_QUALITY_TIERS: RenderQualityTier[] = ['low', 'medium', 'high', 'ultra'];
+
+export const RENDER_QUALITY_PRESETS: Record<RenderQualityTier, RenderQualitySettings> = {
+  low: {
+    tier: 'low',
+    maxPixelRatio: 1,
+    antialias: false,
+    shadows: false,
+    shadowMapType: THREE.BasicShadowMap,
+    shadowMapSize: 512,
+    skinComplexity: 'minimal',
+  },
+  medium: {
+    tier: 'medium',
+    maxPixelRatio: 1.5,
+    antialias: true,
+    shadows: true,
+    shadowMapType: THREE.PCFShadowMap,
+    shadowMapSize: 1024,
+    skinComplexity: 'reduced',
+  },
+  high: {
+    tier: 'high',
+    maxPixelRatio: 2,
+    antialias: true,
+    shadows: true,
+    shadowMapType: THREE.PCFSoftShadowMap,
+    shadowMapSize: 2048,
+    skinComplexity: 'full',
+  },
+  ultra: {
+    tier: 'ultra',
+    maxPixelRatio: 2,
+    antialias: true,
+    shadows: true,
+    shadowMapType: THREE.PCFSoftShadowMap,
+    shadowMapSize: 4096,
+    skinComplexity: 'full',
+  },
+};
+
+/**
+ * Initial tier for this device. Mobile GPUs are capped at 'high' whatever their RAM/cores.
+ */
+export function resolveRenderQuality(
+  capabilities: DeviceCapabilities = detectDeviceCapabilitiesEnhanced()
+): RenderQualitySettings {
+  const tier: RenderQualityTier =
+    capabilities.isMobile && capabilities.performanceLevel === 'ultra' ? 'high' : capabilities.performanceLevel;
+
+  return RENDER_QUALITY_PRESETS[tier];
+}
+
+/**
+ * Next tier down, or null when already at the lowest one
+ */
+export function getLowerQuality(tier: RenderQualityTier): RenderQualitySettings | null {
+  const index = RENDER_QUALITY_TIERS.indexOf(tier);
+  return index > 0 ? RENDER_QUALITY_PRESETS[RENDER_QUALITY_TIERS[index - 1]] : null;
+}
+
+/**
+ * Apply a tier to a live renderer and scene: pixel ratio, shadows and skin material cost.
+ * Antialiasing is left as created (it cannot change without a new WebGL context).
+ */
+export function applyRenderQuality(
+  renderer: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  settings: RenderQualitySettings
+): void {
+  renderer.setPixelRatio(Math.min(window.devicePixelRatio, settings.maxPixelRatio));
+
+  const shadowModeChanged =
+    renderer.shadowMap.enabled !== settings.shadows || renderer.shadowMap.type !== settings.shadowMapType;
+  renderer.shadowMap.enabled = settings.shadows;
+  renderer.shadowMap.type = settings.shadowMapType;
+
+  let skinMaterialsUpdated = 0;
+  scene.traverse((obj: THREE.Object3D) => {
+    const light = obj as THREE.DirectionalLight;
+    if (light.isLight && light.castShadow && light.shadow) {
+      if (light.shadow.mapSize.x !== settings.shadowMapSize) {
+        light.shadow.mapSize.set(settings.shadowMapSize, settings.shadowMapSize);
+        // Recreated at the new size on the next shadow pass
+        light.shadow.map?.dispose();
+        light.shadow.map = null;
+      }
+    }
+
+    const mesh = obj as THREE.Mesh;
+    if (mesh.isMesh && mesh.material) {
+      const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+      materials.forEach((material) => {
+        if (material.userData?.isSkinMaterial) {
+          applySkinMaterialComplexity(material, settings.skinComplexity);
+          skinMaterialsUpdated++;
+        } else if (shadowModeChanged) {
+          // Shadow defines are baked into compiled programs
+          material.needsUpdate = true;
+        }
+      });
+    }
+  });
+
+  logger.info('[RenderQuality] Quality tier applied', {
+    tier: settings.tier,
+    pixelRatio: renderer.getPixelRatio(),
+    shadows: settings.shadows,
+    shadowMapSize: settings.shadowMapSize,
+    skinComplexity: settings.skinComplexity,
+    skinMaterialsUpdated,
+  });
+}
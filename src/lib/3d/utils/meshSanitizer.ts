@@ -114,9 +114,9 @@ export function sanitizeAvatarScene(root: THREE.Object3D): THREE.SkinnedMesh | n
 }
 
 /**
- * Determine if an object should be removed
+ * Determine if an object should be removed (explicit parts, rig control shapes)
  */
-function shouldRemoveObject(obj: THREE.Object3D): boolean {
+export function shouldRemoveObject(obj: THREE.Object3D): boolean {
   const objName = obj.name.toLowerCase();
   
   // Remove explicit genitalia
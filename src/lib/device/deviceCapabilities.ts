@@ -3,9 +3,9 @@
  * Basic device performance detection for Body Scan environment
  */
 
-type PerformanceLevel = 'low' | 'medium' | 'high' | 'ultra';
+export type PerformanceLevel = 'low' | 'medium' | 'high' | 'ultra';
 
-interface DeviceCapabilities {
+export interface DeviceCapabilities {
   performanceLevel: PerformanceLevel;
   supportsHover: boolean;
   isMobile: boolean;
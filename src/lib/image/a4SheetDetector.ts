@@ -0,0 +1,251 @@
+/**
+ * A4 Sheet Detector
+ * Finds a white A4 sheet in a capture photo and derives the image scale (pixels per cm)
+ * from its known size, for absolute measurements independent of the declared height
+ */
+
+import logger from '../utils/logger';
+
+export const A4_WIDTH_CM = 21;
+export const A4_HEIGHT_CM = 29.7;
+
+type Point = { x: number; y: number };
+
+export interface A4SheetDetection {
+  /** Corners in full-resolution image pixels, convex order */
+  corners: [Point, Point, Point, Point];
+  pixelPerCm: number;
+  /** 0..1: how rectangular and how close to the A4 aspect ratio the detected shape is */
+  confidence: number;
+}
+
+/** Detection runs on a downscaled copy; the sheet stays well above this resolution at body distance */
+const ANALYSIS_MAX_SIDE = 640;
+/** Paper is bright and unsaturated */
+const MIN_LUMINANCE = 170;
+const MAX_CHROMA = 45;
+/** Component area bounds, as a fraction of the image */
+const MIN_AREA_RATIO = 0.002;
+const MAX_AREA_RATIO = 0.25;
+/** Component pixels / quadrilateral area: below this the blob is not a flat sheet */
+const MIN_FILL_RATIO = 0.85;
+const A4_ASPECT = A4_HEIGHT_CM / A4_WIDTH_CM;
+const MAX_ASPECT_ERROR = 0.12;
+
+function paperMask(data: Uint8ClampedArray, width: number, height: number): Uint8Array {
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    const r = data[i * 4];
+    const g = data[i * 4 + 1];
+    const b = data[i * 4 + 2];
+    const luminance = 0.299 * r + 0.587 * g + 0.114 * b;
+    const chroma = Math.max(r, g, b) - Math.min(r, g, b);
+    mask[i] = luminance >= MIN_LUMINANCE && chroma <= MAX_CHROMA ? 1 : 0;
+  }
+  return mask;
+}
+
+/**
+ * 4-connected components of the mask; returns the boundary pixels and area of each
+ */
+function findComponents(mask: Uint8Array, width: number, height: number) {
+  const labels = new Int32Array(width * height);
+  const components: { area: number; boundary: Point[] }[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+
+    const label = components.length + 1;
+    const component = { area: 0, boundary: [] as Point[] };
+    labels[start] = label;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const index = stack.pop()!;
+      const x = index % width;
+      const y = (index - x) / width;
+      component.area++;
+
+      let isBoundary = false;
+      const neighbours = [
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        y > 0 ? index - width : -1,
+        y < height - 1 ? index + width : -1,
+      ];
+      for (const neighbour of neighbours) {
+        if (neighbour < 0 || !mask[neighbour]) {
+          isBoundary = true;
+          continue;
+        }
+        if (!labels[neighbour]) {
+          labels[neighbour] = label;
+          stack.push(neighbour);
+        }
+      }
+      if (isBoundary) component.boundary.push({ x, y });
+    }
+
+    components.push(component);
+  }
+
+  return components;
+}
+
+function cross(o: Point, a: Point, b: Point): number {
+  return (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+}
+
+/** Andrew's monotone chain */
+function convexHull(points: Point[]): Point[] {
+  const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+  const lower: Point[] = [];
+  for (const point of sorted) {
+    while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+    lower.push(point);
+  }
+  const upper: Point[] = [];
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const point = sorted[i];
+    while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) upper.pop();
+    upper.push(point);
+  }
+  return lower.slice(0, -1).concat(upper.slice(0, -1));
+}
+
+function polygonArea(points: Point[]): number {
+  let area = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+/**
+ * Reduce a convex hull to 4 vertices by repeatedly dropping the vertex whose removal
+ * loses the least area (rounded sheet corners and pixel noise go first)
+ */
+function simplifyToQuadrilateral(hull: Point[]): Point[] | null {
+  if (hull.length < 4) return null;
+  const polygon = [...hull];
+
+  while (polygon.length > 4) {
+    let minIndex = 0;
+    let minArea = Infinity;
+    for (let i = 0; i < polygon.length; i++) {
+      const prev = polygon[(i - 1 + polygon.length) % polygon.length];
+      const next = polygon[(i + 1) % polygon.length];
+      const area = Math.abs(cross(prev, polygon[i], next)) / 2;
+      if (area < minArea) {
+        minArea = area;
+        minIndex = i;
+      }
+    }
+    polygon.splice(minIndex, 1);
+  }
+  return polygon;
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Score a quadrilateral as an A4 sheet; side lengths are averaged over opposite sides
+ * to absorb a slight perspective tilt
+ */
+function scoreQuadrilateral(quad: Point[], componentArea: number) {
+  const fillRatio = componentArea / Math.max(1, polygonArea(quad));
+  const sideA = (distance(quad[0], quad[1]) + distance(quad[2], quad[3])) / 2;
+  const sideB = (distance(quad[1], quad[2]) + distance(quad[3], quad[0])) / 2;
+  const longSide = Math.max(sideA, sideB);
+  const shortSide = Math.min(sideA, sideB);
+  const aspectError = Math.abs(longSide / Math.max(1, shortSide) - A4_ASPECT) / A4_ASPECT;
+
+  return { fillRatio, aspectError, longSide, shortSide };
+}
+
+/**
+ * Sheet search on the analysis-size pixels; `scale` maps them back to the full-resolution image
+ */
+function findSheet(data: Uint8ClampedArray, width: number, height: number, scale: number): A4SheetDetection | null {
+  const imageArea = width * height;
+  const candidates = findComponents(paperMask(data, width, height), width, height)
+    .filter((component) => component.area >= imageArea * MIN_AREA_RATIO && component.area <= imageArea * MAX_AREA_RATIO)
+    .map((component) => {
+      const quad = simplifyToQuadrilateral(convexHull(component.boundary));
+      return quad ? { quad, ...scoreQuadrilateral(quad, component.area) } : null;
+    })
+    .filter((candidate): candidate is NonNullable<typeof candidate> =>
+      !!candidate && candidate.fillRatio >= MIN_FILL_RATIO && candidate.aspectError <= MAX_ASPECT_ERROR
+    )
+    // Prefer the most rectangular shape with the closest A4 proportions
+    .sort((a, b) => (b.fillRatio - b.aspectError) - (a.fillRatio - a.aspectError));
+
+  const best = candidates[0];
+  if (!best) {
+    logger.info('[A4SheetDetector] No A4 sheet found', { width: Math.round(width / scale), height: Math.round(height / scale) });
+    return null;
+  }
+
+  const pixelPerCm = ((best.longSide / A4_HEIGHT_CM + best.shortSide / A4_WIDTH_CM) / 2) / scale;
+  const confidence = Math.max(0, Math.min(1, best.fillRatio - best.aspectError / MAX_ASPECT_ERROR * 0.3));
+  const corners = best.quad.map((point) => ({ x: point.x / scale, y: point.y / scale })) as A4SheetDetection['corners'];
+
+  logger.info('[A4SheetDetector] A4 sheet detected', {
+    pixelPerCm: Math.round(pixelPerCm * 100) / 100,
+    confidence: Math.round(confidence * 100) / 100,
+    fillRatio: Math.round(best.fillRatio * 100) / 100,
+    aspectError: Math.round(best.aspectError * 1000) / 1000,
+    candidates: candidates.length,
+  });
+
+  return { corners, pixelPerCm, confidence };
+}
+
+/**
+ * Detect an A4 sheet in the image. Returns null when no sheet-shaped region is found.
+ */
+export function detectA4Sheet(imageData: ImageData): A4SheetDetection | null {
+  const { width, height } = imageData;
+  const scale = Math.min(1, ANALYSIS_MAX_SIDE / Math.max(width, height));
+  if (scale === 1) return findSheet(imageData.data, width, height, 1);
+
+  const source = document.createElement('canvas');
+  source.width = width;
+  source.height = height;
+  source.getContext('2d')!.putImageData(imageData, 0, 0);
+  return findSheetOnCanvasSource(source, width, height);
+}
+
+function findSheetOnCanvasSource(source: CanvasImageSource, fullWidth: number, fullHeight: number): A4SheetDetection | null {
+  const scale = Math.min(1, ANALYSIS_MAX_SIDE / Math.max(fullWidth, fullHeight));
+  const width = Math.round(fullWidth * scale);
+  const height = Math.round(fullHeight * scale);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(source, 0, 0, width, height);
+  return findSheet(ctx.getImageData(0, 0, width, height).data, width, height, width / fullWidth);
+}
+
+/**
+ * Detect an A4 sheet in a captured photo file; null when none is found or the image cannot be decoded
+ */
+export async function detectA4SheetInFile(file: Blob): Promise<A4SheetDetection | null> {
+  try {
+    const bitmap = await createImageBitmap(file);
+    const detection = findSheetOnCanvasSource(bitmap, bitmap.width, bitmap.height);
+    bitmap.close();
+    return detection;
+  } catch (error) {
+    logger.warn('[A4SheetDetector] Sheet detection failed', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
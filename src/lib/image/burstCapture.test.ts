@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+type FrameFixture = { sharpness: number; qualityScore: number; skinTone: { r: number; g: number; b: number; confidence?: number } | null };
+
+const frameFixtures = vi.hoisted(() => new Map<string, FrameFixture | 'corrupt'>());
+
+vi.mock('../utils/logger', () => ({ default: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } }));
+vi.mock('../utils/photoUtils', () => ({
+  processPhotoForUpload: async (file: File) => {
+    const fixture = frameFixtures.get(file.name);
+    if (!fixture || fixture === 'corrupt') throw new Error('Failed to decode image');
+    return { processedFile: file, validationReport: { qualityScore: fixture.qualityScore } };
+  },
+  fileToImageData: async (file: File) => ({ name: file.name }),
+  measureSharpness: (imageData: { name: string }) => (frameFixtures.get(imageData.name) as FrameFixture).sharpness,
+  detectFaceRegionForSkinTone: async () => null,
+}));
+vi.mock('./skinToneExtractor', () => ({
+  extractSkinToneFromPhoto: (imageData: { name: string }) => (frameFixtures.get(imageData.name) as FrameFixture).skinTone,
+}));
+
+const { averageSkinTones, selectBestFrame } = await import('./burstCapture');
+
+function frame(name: string, fixture: FrameFixture | 'corrupt'): File {
+  frameFixtures.set(name, fixture);
+  return new File(['frame'], name, { type: 'image/jpeg' });
+}
+
+const SKIN = { r: 200, g: 160, b: 130, confidence: 0.8 };
+
+beforeEach(() => {
+  frameFixtures.clear();
+});
+
+describe('averageSkinTones', () => {
+  it('drops lighting glitches and weights the frames by confidence', () => {
+    const tone = averageSkinTones([
+      { r: 200, g: 160, b: 130, confidence: 0.8 },
+      { r: 204, g: 162, b: 132, confidence: 0.6 },
+      { r: 120, g: 90, b: 80, confidence: 0.9 },
+    ]);
+
+    expect(tone?.rgb).toEqual({ r: 202, g: 161, b: 131 });
+    expect(tone?.source).toBe('burst_average');
+    expect(tone?.confidence).toBe(0.7);
+  });
+
+  it('is more confident when several frames agree than for a single one', () => {
+    const single = averageSkinTones([SKIN]);
+    const agreeing = averageSkinTones([SKIN, SKIN, SKIN]);
+
+    expect(single?.confidence).toBe(0.8);
+    expect(agreeing?.confidence).toBeGreaterThan(single!.confidence!);
+  });
+
+  it('returns null without samples', () => {
+    expect(averageSkinTones([])).toBeNull();
+  });
+});
+
+describe('selectBestFrame', () => {
+  it('keeps the sharpest frame, blur outweighing compression', async () => {
+    const selection = await selectBestFrame([
+      frame('shaky.jpg', { sharpness: 0.3, qualityScore: 1, skinTone: SKIN }),
+      frame('sharp.jpg', { sharpness: 0.9, qualityScore: 0.7, skinTone: SKIN }),
+      frame('soft.jpg', { sharpness: 0.6, qualityScore: 0.9, skinTone: SKIN }),
+    ]);
+
+    expect(selection.bestIndex).toBe(1);
+    expect(selection.processedFile.name).toBe('sharp.jpg');
+    expect(selection.sharpness).toBe(0.9);
+    expect(selection.frames).toHaveLength(3);
+    expect(selection.skinTone?.rgb).toEqual({ r: 200, g: 160, b: 130 });
+  });
+
+  it('skips frames that fail to decode and fails only when none is left', async () => {
+    const selection = await selectBestFrame([
+      frame('corrupt.jpg', 'corrupt'),
+      frame('ok.jpg', { sharpness: 0.5, qualityScore: 0.8, skinTone: null }),
+    ]);
+
+    expect(selection.bestIndex).toBe(1);
+    expect(selection.skinTone).toBeNull();
+    await expect(selectBestFrame([frame('corrupt.jpg', 'corrupt')])).rejects.toThrow('No burst frame could be processed');
+  });
+
+  it('does not measure the skin tone when averaging is off', async () => {
+    const selection = await selectBestFrame([frame('a.jpg', { sharpness: 0.5, qualityScore: 0.8, skinTone: SKIN })], {
+      averageSkinTone: false,
+    });
+
+    expect(selection.frames[0].skinTone).toBeNull();
+    expect(selection.skinTone).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Burst Capture
+ * Picks the best of several frames taken in quick succession and averages the skin tone
+ * across them, so one shaky or badly lit frame no longer forces a retake
+ */
+
+import logger from '../utils/logger';
+import {
+  processPhotoForUpload,
+  fileToImageData,
+  measureSharpness,
+  detectFaceRegionForSkinTone,
+} from '../utils/photoUtils';
+import { extractSkinToneFromPhoto } from './skinToneExtractor';
+import { createCompleteSkinTone, type SkinToneV2 } from '../scan/normalizeSkinTone';
+
+type SkinToneSample = { r: number; g: number; b: number; confidence?: number };
+
+export interface BurstFrameScore {
+  index: number;
+  /** 0..1 from the Laplacian variance, higher is sharper */
+  sharpness: number;
+  /** 0..1 from processPhotoForUpload (compression loss, file size) */
+  qualityScore: number;
+  score: number;
+  skinTone: SkinToneSample | null;
+}
+
+export interface BurstSelection {
+  /** Best frame, already processed for upload */
+  processedFile: File;
+  validationReport: Awaited<ReturnType<typeof processPhotoForUpload>>['validationReport'];
+  bestIndex: number;
+  /** Blur score of the best frame, for the capture report */
+  sharpness: number;
+  frames: BurstFrameScore[];
+  /** Skin tone averaged over the frames; null when averaging is off or no frame yielded one */
+  skinTone: SkinToneV2 | null;
+}
+
+/** Blur dominates: compression loss is small for camera frames of similar content */
+const SHARPNESS_WEIGHT = 0.7;
+const QUALITY_WEIGHT = 0.3;
+/** Samples further than this (RGB distance) from the median are lighting glitches, not skin */
+const MAX_SKIN_TONE_DEVIATION = 40;
+
+/**
+ * Median-filtered, confidence-weighted mean of the per-frame skin tones
+ */
+export function averageSkinTones(samples: SkinToneSample[]): SkinToneV2 | null {
+  if (samples.length === 0) return null;
+
+  const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[(sorted.length - 1) >> 1];
+  };
+  const center = {
+    r: median(samples.map((s) => s.r)),
+    g: median(samples.map((s) => s.g)),
+    b: median(samples.map((s) => s.b)),
+  };
+  const kept = samples.filter(
+    (s) => Math.hypot(s.r - center.r, s.g - center.g, s.b - center.b) <= MAX_SKIN_TONE_DEVIATION
+  );
+
+  let weights = 0;
+  const sum = { r: 0, g: 0, b: 0 };
+  kept.forEach((s) => {
+    const weight = s.confidence ?? 0.5;
+    sum.r += s.r * weight;
+    sum.g += s.g * weight;
+    sum.b += s.b * weight;
+    weights += weight;
+  });
+  if (weights === 0) return null;
+
+  // Agreement between frames raises confidence over the single-frame average
+  const meanConfidence = weights / kept.length;
+  const agreement = kept.length / samples.length;
+  const confidence = Math.min(1, meanConfidence * (0.8 + 0.2 * agreement) + 0.05 * (kept.length - 1));
+
+  return createCompleteSkinTone(
+    Math.round(sum.r / weights),
+    Math.round(sum.g / weights),
+    Math.round(sum.b / weights),
+    'burst_average',
+    Math.round(confidence * 100) / 100
+  );
+}
+
+async function scoreFrame(file: File, index: number, withSkinTone: boolean) {
+  const { processedFile, validationReport } = await processPhotoForUpload(file);
+  const imageData = await fileToImageData(processedFile);
+  const sharpness = measureSharpness(imageData);
+  const skinTone = withSkinTone
+    ? extractSkinToneFromPhoto(imageData, (await detectFaceRegionForSkinTone(imageData)) ?? undefined)
+    : null;
+
+  const frame: BurstFrameScore = {
+    index,
+    sharpness,
+    qualityScore: validationReport.qualityScore,
+    score: sharpness * SHARPNESS_WEIGHT + validationReport.qualityScore * QUALITY_WEIGHT,
+    skinTone,
+  };
+  return { frame, processedFile, validationReport };
+}
+
+/**
+ * Score every frame of a burst and keep the best one.
+ * Frames that fail to decode are skipped; throws only when none can be processed.
+ */
+export async function selectBestFrame(
+  frames: File[],
+  { averageSkinTone = true }: { averageSkinTone?: boolean } = {}
+): Promise<BurstSelection> {
+  const scored: Awaited<ReturnType<typeof scoreFrame>>[] = [];
+
+  // Sequential on purpose: each frame holds a full-resolution decode in memory
+  for (let index = 0; index < frames.length; index++) {
+    try {
+      scored.push(await scoreFrame(frames[index], index, averageSkinTone));
+    } catch (error) {
+      logger.warn('[BurstCapture] Frame skipped', {
+        index,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  if (scored.length === 0) {
+    throw new Error('No burst frame could be processed');
+  }
+
+  const best = scored.reduce((a, b) => (b.frame.score > a.frame.score ? b : a));
+  const skinTone = averageSkinTone
+    ? averageSkinTones(scored.map((s) => s.frame.skinTone).filter((tone): tone is SkinToneSample => !!tone))
+    : null;
+
+  logger.info('[BurstCapture] Best frame selected', {
+    frameCount: frames.length,
+    scoredCount: scored.length,
+    bestIndex: best.frame.index,
+    scores: scored.map((s) => Math.round(s.frame.score * 100) / 100),
+    sharpness: scored.map((s) => Math.round(s.frame.sharpness * 100) / 100),
+    skinTone: skinTone?.hex ?? null,
+  });
+
+  return {
+    processedFile: best.processedFile,
+    validationReport: best.validationReport,
+    bestIndex: best.frame.index,
+    sharpness: best.frame.sharpness,
+    frames: scored.map((s) => s.frame),
+    skinTone,
+  };
+}
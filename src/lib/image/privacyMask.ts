@@ -0,0 +1,296 @@
+/**
+ * Privacy Mask
+ * On-device person segmentation (MediaPipe Image Segmenter, WASM/CPU) used by the privacy mode:
+ * the face and the background are blurred or replaced before upload, so only the masked
+ * silhouette leaves the device. The model is served from /models, where
+ * scripts/fetch-vision-models.js downloads it before `dev` and `build`.
+ */
+
+import type { ImageSegmenter } from '@mediapipe/tasks-vision';
+import logger from '../utils/logger';
+import { detectPose, resolveVisionWasmFileset } from '../pose/poseDetector';
+
+const DEFAULT_MODEL_URL = '/models/selfie_segmenter.tflite';
+
+export type PrivacyMaskMode = 'blur' | 'replace';
+
+export interface PrivacyMaskResult {
+  file: File;
+  mode: PrivacyMaskMode;
+  /** How the face region was located; null when no head could be found (whole background still masked) */
+  faceSource: 'pose' | 'silhouette' | null;
+  /** Fraction of the image kept as person */
+  personCoverage: number;
+}
+
+/** Flat fill used by the replace mode: neutral grey keeps the silhouette edges readable */
+const REPLACEMENT_COLOR: [number, number, number] = [128, 128, 128];
+/** Downscale factor of the blur: pixels are averaged over blocks of this size */
+const BACKGROUND_BLUR_FACTOR = 24;
+/** Person confidence ramp: below LOW is background, above HIGH is person, soft edge in between */
+const MASK_LOW = 0.3;
+const MASK_HIGH = 0.7;
+/** Below this the segmenter missed the person: uploading would send an almost empty image */
+const MIN_PERSON_COVERAGE = 0.02;
+/** Head height as a fraction of the silhouette height, for the fallback face region */
+const HEAD_HEIGHT_RATIO = 1 / 7;
+const MASK_JPEG_QUALITY = 0.9;
+
+let segmenterPromise: Promise<ImageSegmenter> | null = null;
+
+/**
+ * Raised when the segmentation model cannot be loaded, as opposed to a photo it cannot mask:
+ * the capture flow then reports privacy mode as unavailable instead of asking for a retake.
+ */
+export class PrivacyMaskUnavailableError extends Error {
+  constructor(cause: unknown) {
+    super(`Segmentation model unavailable: ${cause instanceof Error ? cause.message : 'Unknown error'}`);
+    this.name = 'PrivacyMaskUnavailableError';
+  }
+}
+
+async function createSegmenter(): Promise<ImageSegmenter> {
+  const { ImageSegmenter } = await import('@mediapipe/tasks-vision');
+
+  return ImageSegmenter.createFromOptions(
+    await resolveVisionWasmFileset(),
+    {
+      baseOptions: {
+        modelAssetPath: import.meta.env.VITE_SEGMENTATION_MODEL_URL || DEFAULT_MODEL_URL,
+        delegate: 'CPU',
+      },
+      runningMode: 'IMAGE',
+      outputConfidenceMasks: true,
+      outputCategoryMask: false,
+    }
+  );
+}
+
+/**
+ * Load the model once; a failed load is retried on the next call
+ */
+function getSegmenter(): Promise<ImageSegmenter> {
+  if (!segmenterPromise) {
+    segmenterPromise = createSegmenter().catch((error) => {
+      segmenterPromise = null;
+      if (import.meta.env.DEV) {
+        logger.error('[PrivacyMask] Segmentation model could not be loaded: run `npm run models` or set VITE_SEGMENTATION_MODEL_URL', {
+          modelUrl: import.meta.env.VITE_SEGMENTATION_MODEL_URL || DEFAULT_MODEL_URL,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+      throw new PrivacyMaskUnavailableError(error);
+    });
+  }
+  return segmenterPromise;
+}
+
+/**
+ * Start downloading the segmentation model ahead of the first capture.
+ * Resolves to false when the model is unavailable (privacy mode cannot be used).
+ */
+export function preloadPrivacyMask(): Promise<boolean> {
+  return getSegmenter().then(
+    () => true,
+    (error) => {
+      logger.warn('[PrivacyMask] Preload failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  );
+}
+
+/**
+ * Person confidence per pixel at the mask resolution
+ */
+async function segmentPerson(canvas: HTMLCanvasElement) {
+  const segmenter = await getSegmenter();
+  const result = segmenter.segment(canvas);
+  try {
+    const masks = result.confidenceMasks ?? [];
+    const labels = segmenter.getLabels().map((label) => label.toLowerCase());
+    const personIndex = labels.indexOf('person');
+    // Single-output selfie models only return the person mask
+    const mask = masks[personIndex >= 0 ? personIndex : masks.length - 1];
+    if (!mask) throw new Error('Segmenter returned no confidence mask');
+    return { confidence: mask.getAsFloat32Array().slice(), width: mask.width, height: mask.height };
+  } finally {
+    result.close();
+  }
+}
+
+type Ellipse = { cx: number; cy: number; rx: number; ry: number };
+
+/**
+ * Head ellipse from the pose landmarks (nose to ears), sized from the head-to-shoulders distance
+ */
+async function faceRegionFromPose(canvas: HTMLCanvasElement): Promise<Ellipse | null> {
+  try {
+    const { poses, width, height } = await detectPose(canvas);
+    const pose = poses[0];
+    if (!pose) return null;
+
+    // Landmarks 0-10 are the head; ears stay usable in profile and back views
+    const head = pose.slice(0, 11);
+    const shoulders = [pose[11], pose[12]].filter(Boolean);
+    if (shoulders.length < 2) return null;
+
+    const cx = (head.reduce((sum, point) => sum + point.x, 0) / head.length) * width;
+    const headY = (head.reduce((sum, point) => sum + point.y, 0) / head.length) * height;
+    const shoulderX = ((shoulders[0].x + shoulders[1].x) / 2) * width;
+    const shoulderY = ((shoulders[0].y + shoulders[1].y) / 2) * height;
+    const neck = Math.hypot(cx - shoulderX, headY - shoulderY);
+    if (neck < 4) return null;
+
+    // Landmarks sit at eye level: the crown is further above than the chin is below
+    return { cx, cy: headY - neck * 0.1, rx: neck * 0.55, ry: neck * 0.75 };
+  } catch (error) {
+    logger.warn('[PrivacyMask] Pose unavailable, using silhouette for the face region', {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
+
+/**
+ * Head ellipse from the top of the silhouette: the pose fallback
+ */
+function faceRegionFromSilhouette(alpha: Float32Array, width: number, height: number): Ellipse | null {
+  let top = -1;
+  let bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (alpha[y * width + x] >= 0.5) {
+        if (top < 0) top = y;
+        bottom = y;
+        break;
+      }
+    }
+  }
+  if (top < 0) return null;
+
+  const headHeight = (bottom - top) * HEAD_HEIGHT_RATIO;
+  let sumX = 0;
+  let count = 0;
+  for (let y = top; y < Math.min(height, top + headHeight); y++) {
+    for (let x = 0; x < width; x++) {
+      if (alpha[y * width + x] >= 0.5) {
+        sumX += x;
+        count++;
+      }
+    }
+  }
+  if (count === 0) return null;
+
+  return { cx: sumX / count, cy: top + headHeight / 2, rx: headHeight * 0.6, ry: headHeight * 0.75 };
+}
+
+/**
+ * Per-pixel person weight at image resolution, nearest-sampled from the mask
+ */
+function personAlpha(mask: { confidence: Float32Array; width: number; height: number }, width: number, height: number): Float32Array {
+  const alpha = new Float32Array(width * height);
+  const scaleX = mask.width / width;
+  const scaleY = mask.height / height;
+  for (let y = 0; y < height; y++) {
+    const row = Math.min(mask.height - 1, Math.floor(y * scaleY)) * mask.width;
+    for (let x = 0; x < width; x++) {
+      const value = mask.confidence[row + Math.min(mask.width - 1, Math.floor(x * scaleX))];
+      alpha[y * width + x] = Math.max(0, Math.min(1, (value - MASK_LOW) / (MASK_HIGH - MASK_LOW)));
+    }
+  }
+  return alpha;
+}
+
+/**
+ * What replaces masked pixels: a strongly downscaled copy of the image, or a flat colour
+ */
+function maskedLayer(source: HTMLCanvasElement, mode: PrivacyMaskMode): Uint8ClampedArray {
+  const { width, height } = source;
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d')!;
+
+  if (mode === 'replace') {
+    ctx.fillStyle = `rgb(${REPLACEMENT_COLOR.join(',')})`;
+    ctx.fillRect(0, 0, width, height);
+  } else {
+    const small = document.createElement('canvas');
+    small.width = Math.max(1, Math.round(width / BACKGROUND_BLUR_FACTOR));
+    small.height = Math.max(1, Math.round(height / BACKGROUND_BLUR_FACTOR));
+    small.getContext('2d')!.drawImage(source, 0, 0, small.width, small.height);
+    ctx.imageSmoothingEnabled = true;
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(small, 0, 0, width, height);
+  }
+  return ctx.getImageData(0, 0, width, height).data;
+}
+
+function insideEllipse(ellipse: Ellipse, x: number, y: number): boolean {
+  const dx = (x - ellipse.cx) / ellipse.rx;
+  const dy = (y - ellipse.cy) / ellipse.ry;
+  return dx * dx + dy * dy <= 1;
+}
+
+/**
+ * Mask the face and background of a photo on the device.
+ * Rejects with PrivacyMaskUnavailableError when the model cannot be loaded, and with a plain
+ * Error when it finds no person: in privacy mode the unmasked photo must never be uploaded.
+ */
+export async function maskPhotoForPrivacy(file: File, mode: PrivacyMaskMode = 'blur'): Promise<PrivacyMaskResult> {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const { width, height } = canvas;
+  const alpha = personAlpha(await segmentPerson(canvas), width, height);
+  const personCoverage = alpha.reduce((sum, value) => sum + value, 0) / alpha.length;
+  if (personCoverage < MIN_PERSON_COVERAGE) {
+    throw new Error('No person found by the segmentation model');
+  }
+
+  const poseFace = await faceRegionFromPose(canvas);
+  const face = poseFace ?? faceRegionFromSilhouette(alpha, width, height);
+  const faceSource: PrivacyMaskResult['faceSource'] = poseFace ? 'pose' : face ? 'silhouette' : null;
+
+  const original = ctx.getImageData(0, 0, width, height);
+  const replacement = maskedLayer(canvas, mode);
+  const pixels = original.data;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      const keep = face && insideEllipse(face, x, y) ? 0 : alpha[index];
+      if (keep >= 1) continue;
+      const offset = index * 4;
+      for (let channel = 0; channel < 3; channel++) {
+        pixels[offset + channel] = pixels[offset + channel] * keep + replacement[offset + channel] * (1 - keep);
+      }
+    }
+  }
+  ctx.putImageData(original, 0, 0);
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', MASK_JPEG_QUALITY));
+  if (!blob) throw new Error('Canvas export returned no data');
+
+  logger.info('[PrivacyMask] Photo masked', {
+    mode,
+    width,
+    height,
+    faceSource,
+    personCoverage: Math.round(personCoverage * 1000) / 1000,
+    sizeKB: Math.round(blob.size / 1024),
+  });
+
+  return {
+    file: new File([blob], file.name.replace(/\.\w+$/, '') + '-masked.jpg', { type: 'image/jpeg' }),
+    mode,
+    faceSource,
+    personCoverage,
+  };
+}
@@ -14,6 +14,8 @@ interface ArchetypeData {
   morph_values: Record<string, number>;
   limb_masses: Record<string, number>;
   distance?: number;
+  /** 'morph_space' when distance comes from scan-match numeric ranking */
+  distance_metric?: string;
   weight?: number;
 }
 
@@ -131,6 +133,10 @@ export function blendArchetypeMorphs(
   };
 }
 
+// Must match scan-match morphSpaceRanker so client and server weights agree (checked by morphSpaceRanker.test.ts)
+export const INVERSE_DISTANCE_EPSILON = 0.05;
+export const INVERSE_DISTANCE_POWER = 2;
+
 /**
  * Calculate blend weights using inverse distance weighting with semantic coherence
  */
@@ -139,6 +145,13 @@ function calculateBlendWeights(archetypes: ArchetypeData[]): Array<[string, numb
     return [[archetypes[0].id, 1.0]];
   }
   
+  const hasMorphSpaceDistances = archetypes.every(
+    archetype => archetype.distance_metric === 'morph_space' && Number.isFinite(archetype.distance)
+  );
+  if (hasMorphSpaceDistances) {
+    return calculateInverseDistanceWeights(archetypes);
+  }
+  
   // Use inverse distance weighting
   const weights = archetypes.map(archetype => {
     const distance = archetype.distance || 1.0;
@@ -172,6 +185,28 @@ function calculateBlendWeights(archetypes: ArchetypeData[]): Array<[string, numb
   return finalWeights;
 }
 
+/**
+ * True inverse-distance weights for morph-space distances (no softmax flattening)
+ */
+function calculateInverseDistanceWeights(archetypes: ArchetypeData[]): Array<[string, number]> {
+  const inverseDistances = archetypes.map(archetype =>
+    1.0 / Math.pow((archetype.distance ?? 0) + INVERSE_DISTANCE_EPSILON, INVERSE_DISTANCE_POWER)
+  );
+  const totalWeight = inverseDistances.reduce((sum, w) => sum + w, 0);
+  const weights = archetypes.map((archetype, index) => [archetype.id, inverseDistances[index] / totalWeight] as [string, number]);
+  
+  logger.debug('[MORPH_BLEND] Inverse-distance blend weights calculated', {
+    distanceMetric: 'morph_space',
+    weights: weights.map(([id, w], index) => ({
+      id,
+      distance: archetypes[index].distance?.toFixed(3),
+      weight: w.toFixed(3)
+    }))
+  });
+  
+  return weights;
+}
+
 /**
  * Calculate blending confidence based on archetype quality
  */
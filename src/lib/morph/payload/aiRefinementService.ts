@@ -4,9 +4,10 @@
  */
 
 import logger from '../../utils/logger';
+import { TRACE_HEADER, traceHeaders } from '../../utils/trace';
 
 /**
- * Call scan-refine-morphs Edge Function for AI refinement
+ * Call scan-refine-morphs Edge Function for AI refinement, under the scan trace when known
  */
 export async function callScanRefineMorphs(request: {
   scan_id: string;
@@ -28,7 +29,7 @@ export async function callScanRefineMorphs(request: {
       hips_cm: number;
     };
   };
-}) {
+}, traceId?: string) {
   // PHASE 1: Import strict schema validation
   const { validateRefineResponse } = await import('./types');
   const { RefineResponse } = await import('./types');
@@ -64,7 +65,8 @@ export async function callScanRefineMorphs(request: {
       ...request,
       blend_limb_masses: filteredLimbMasses,
       user_measurements: request.user_measurements
-    }
+    },
+    headers: traceId ? { [TRACE_HEADER]: traceId } : traceHeaders()
   });
   
   if (error) {
@@ -307,14 +307,14 @@ export async function prepareMorphologicalPayload(
       scan_id: scanResults.serverScanId || scanResults.commit?.scan_id || 'unknown',
       user_id: scanResults.userId || 'unknown',
       resolvedGender: finalGender === 'male' ? 'masculine' : 'feminine',
-      photos: extractPhotosFromScanResults(scanResults),
+      photos: await extractPhotosFromScanResults(scanResults),
       blend_shape_params: blendedData.shape_params,
       blend_limb_masses: blendedData.limb_masses,
       mapping_version: 'v1.0',
       k5_envelope: k5_envelope,
       vision_classification: vision_classification,
       user_measurements: userMeasurements
-    });
+    }, scanResults.traceId);
     
     // PHASE 1: Strict validation of AI refinement result
     if (!aiRefinementResult) {
@@ -4,6 +4,7 @@
  */
 
 import logger from '../../utils/logger';
+import { api } from '../../../system/data/dataSource';
 import { getMorphologyFeatureFlags } from '../../../config/featureFlags';
 import { normalizeShapeParams } from '../keys/index';
 import { generateStrictDBOnlyFallback, generateFallbackLimbMasses } from './payloadGenerators';
@@ -13,7 +14,7 @@ import type { MorphologyMappingData } from '../../../hooks/useMorphologyMapping'
 /**
  * Extract photos from scan results for AI refinement
  */
-export function extractPhotosFromScanResults(scanResults: ScanResults): Array<{ view: string; url: string; report?: any }> {
+export async function extractPhotosFromScanResults(scanResults: ScanResults): Promise<Array<{ view: string; url: string; report?: any }>> {
   const photos: Array<{ view: string; url: string; report?: any }> = [];
   
   // Try to extract from photos_metadata
@@ -29,17 +30,23 @@ export function extractPhotosFromScanResults(scanResults: ScanResults): Array<{
     });
   }
   
-  // Try to extract from estimate photos_metadata
+  // Try to extract from estimate photos_metadata: storage paths, signed again here
   if (photos.length === 0 && scanResults.estimate?.photos_metadata && Array.isArray(scanResults.estimate.photos_metadata)) {
-    scanResults.estimate.photos_metadata.forEach((photo: any) => {
-      if (photo.view && photo.url) {
+    for (const photo of scanResults.estimate.photos_metadata) {
+      if (!photo.view || !(photo.path || photo.url)) continue;
+      try {
         photos.push({
           view: photo.view,
-          url: photo.url,
+          url: photo.path ? await api().bodyScan.createPhotoUrl(photo.path) : photo.url!,
           report: photo.report
         });
+      } catch (error) {
+        logger.warn('[MORPH_PAYLOAD] Photo could not be signed for AI refinement', {
+          view: photo.view,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
       }
-    });
+    }
   }
   
   logger.debug('MORPH_PAYLOAD', 'Extracted photos for AI refinement', {
@@ -25,7 +25,9 @@ export interface ScanResults {
     };
     photos_metadata?: Array<{
       view: string;
-      url: string;
+      /** Storage path in the scan bucket; estimates made before paths were kept have a URL */
+      path?: string | null;
+      url?: string;
       report?: any;
     }>;
   };
@@ -78,6 +80,8 @@ export interface ScanResults {
   };
   userId?: string;
   serverScanId?: string;
+  /** Trace id of the capture, kept with the results once the pipeline has forgotten it */
+  traceId?: string;
   commit?: {
     scan_id?: string;
   };
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateFraming } from './framingGuidance';
+import type { PoseKeypoint } from '../../domain/types';
+
+const LEVEL = { beta: 90, gamma: 0 };
+
+/**
+ * Standing person: crown at 0.12, heels at 0.85 (73% of the frame), torso centered on `centerX`
+ */
+function standingPose(centerX = 0.5, scale = 1): PoseKeypoint[] {
+  const point = (name: string, dx: number, y: number): PoseKeypoint => ({
+    name,
+    x: centerX + dx,
+    y: 0.5 + (y - 0.5) * scale,
+    z: 0,
+    visibility: 0.9,
+  });
+  return [
+    point('nose', 0, 0.2),
+    point('left_shoulder', 0.08, 0.3),
+    point('right_shoulder', -0.08, 0.3),
+    point('left_hip', 0.05, 0.55),
+    point('right_hip', -0.05, 0.55),
+    point('left_heel', 0.04, 0.85),
+    point('right_heel', -0.04, 0.85),
+  ];
+}
+
+describe('evaluateFraming', () => {
+  it('passes a centered full body with a level phone', () => {
+    const guidance = evaluateFraming(standingPose(), LEVEL);
+
+    expect(guidance.allOk).toBe(true);
+    expect(guidance.hints).toEqual([]);
+  });
+
+  it('asks for a person when nothing is detected', () => {
+    const guidance = evaluateFraming(null, LEVEL);
+
+    expect(guidance.checks.person).toBe(false);
+    expect(guidance.allOk).toBe(false);
+    expect(guidance.hints).toEqual(['Placez-vous dans le cadre']);
+  });
+
+  it('asks to step back when the body fills the frame, closer when it is small', () => {
+    expect(evaluateFraming(standingPose(0.5, 1.3), LEVEL).hints).toEqual(['Reculez pour que tout le corps soit visible']);
+    expect(evaluateFraming(standingPose(0.5, 0.7), LEVEL).hints).toEqual(['Approchez-vous de la caméra']);
+  });
+
+  it('gives side hints from the side of the person', () => {
+    // Body on the image right: facing the camera, that is the person's left
+    expect(evaluateFraming(standingPose(0.7), LEVEL).hints).toEqual(['Décalez-vous vers votre droite']);
+    expect(evaluateFraming(standingPose(0.3), LEVEL).hints).toEqual(['Décalez-vous vers votre gauche']);
+  });
+
+  it('reverses the side hints when the person shows their back', () => {
+    expect(evaluateFraming(standingPose(0.7), LEVEL, 'back').hints).toEqual(['Décalez-vous vers votre gauche']);
+    expect(evaluateFraming(standingPose(0.3), LEVEL, 'back').hints).toEqual(['Décalez-vous vers votre droite']);
+  });
+
+  it('skips the tilt check without an orientation sensor, and reports a tilted phone', () => {
+    expect(evaluateFraming(standingPose(), null).checks.level).toBeNull();
+    expect(evaluateFraming(standingPose(), null).allOk).toBe(true);
+    expect(evaluateFraming(standingPose(), { beta: 90, gamma: 12 }).hints).toEqual([
+      "Redressez le téléphone, l'horizon doit être droit",
+    ]);
+  });
+});
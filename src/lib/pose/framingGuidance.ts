@@ -0,0 +1,142 @@
+/**
+ * Framing Guidance
+ * Per-frame checks on the live camera preview: person centered, full body in frame,
+ * distance from the camera and device tilt, turned into corrective hints
+ */
+
+import type { CaptureView, PoseKeypoint } from '../../domain/types';
+
+export type FramingCheckId = 'person' | 'centered' | 'fullBody' | 'distance' | 'level';
+
+export interface DeviceTilt {
+  /** Front-back rotation in degrees, ~90 when the phone is held upright */
+  beta: number;
+  /** Left-right rotation in degrees, 0 when the horizon is level */
+  gamma: number;
+}
+
+export interface FramingGuidance {
+  /** null when the check could not run (no detection, no orientation sensor) */
+  checks: Record<FramingCheckId, boolean | null>;
+  /** Corrective hints, most important first */
+  hints: string[];
+  /** Every check that could run passed, and a person was detected */
+  allOk: boolean;
+}
+
+const MIN_VISIBILITY = 0.5;
+/** Frame edge margin for the head and feet, normalized */
+const EDGE_MARGIN = 0.02;
+/** Horizontal offset of the body center from the frame center */
+const MAX_CENTER_OFFSET = 0.1;
+/** Body height as a fraction of frame height */
+const MIN_BODY_HEIGHT_RATIO = 0.6;
+const MAX_BODY_HEIGHT_RATIO = 0.92;
+const MAX_ROLL_DEG = 5;
+const MAX_PITCH_DEG = 10;
+
+const HINTS = {
+  person: 'Placez-vous dans le cadre',
+  tooClose: 'Reculez pour que tout le corps soit visible',
+  tooFar: 'Approchez-vous de la caméra',
+  moveLeft: 'Décalez-vous vers votre gauche',
+  moveRight: 'Décalez-vous vers votre droite',
+  tiltRoll: "Redressez le téléphone, l'horizon doit être droit",
+  tiltPitch: 'Tenez le téléphone à la verticale',
+};
+
+function visible(keypoints: PoseKeypoint[], names: string[]): PoseKeypoint[] {
+  return keypoints.filter((keypoint) => names.includes(keypoint.name) && keypoint.visibility >= MIN_VISIBILITY);
+}
+
+function averageX(points: PoseKeypoint[]): number {
+  return points.reduce((sum, point) => sum + point.x, 0) / points.length;
+}
+
+/**
+ * Top of the head extrapolated from the face landmarks: BlazePose has no crown point,
+ * the crown sits roughly one nose-to-shoulder distance above the nose
+ */
+function estimateHeadTop(keypoints: PoseKeypoint[]): number | null {
+  const [nose] = visible(keypoints, ['nose']);
+  const shoulders = visible(keypoints, ['left_shoulder', 'right_shoulder']);
+  if (!nose || shoulders.length === 0) return null;
+
+  const shoulderY = shoulders.reduce((sum, point) => sum + point.y, 0) / shoulders.length;
+  return nose.y - (shoulderY - nose.y) * 0.8;
+}
+
+function evaluateTilt(tilt: DeviceTilt | null): { ok: boolean | null; hint: string | null } {
+  if (!tilt) return { ok: null, hint: null };
+  if (Math.abs(tilt.gamma) > MAX_ROLL_DEG) return { ok: false, hint: HINTS.tiltRoll };
+  if (Math.abs(tilt.beta - 90) > MAX_PITCH_DEG) return { ok: false, hint: HINTS.tiltPitch };
+  return { ok: true, hint: null };
+}
+
+/**
+ * Evaluate one preview frame (landmarks normalized to the raw, unmirrored video frame).
+ * `view` is the pose being captured: it tells which way the person faces for the side hints.
+ */
+export function evaluateFraming(
+  keypoints: PoseKeypoint[] | null,
+  tilt: DeviceTilt | null,
+  view: CaptureView = 'front'
+): FramingGuidance {
+  const level = evaluateTilt(tilt);
+  const checks: FramingGuidance['checks'] = {
+    person: !!keypoints,
+    centered: null,
+    fullBody: null,
+    distance: null,
+    level: level.ok,
+  };
+  const hints: string[] = [];
+
+  if (!keypoints) {
+    hints.push(HINTS.person);
+  } else {
+    const headTop = estimateHeadTop(keypoints);
+    const feet = visible(keypoints, ['left_heel', 'right_heel', 'left_foot_index', 'right_foot_index']);
+    const feetBottom = feet.length > 0 ? Math.max(...feet.map((point) => point.y)) : null;
+
+    checks.fullBody =
+      headTop !== null && feetBottom !== null && headTop >= EDGE_MARGIN && feetBottom <= 1 - EDGE_MARGIN;
+
+    if (headTop !== null && feetBottom !== null) {
+      const bodyHeight = feetBottom - headTop;
+      checks.distance = bodyHeight >= MIN_BODY_HEIGHT_RATIO && bodyHeight <= MAX_BODY_HEIGHT_RATIO;
+      if (bodyHeight > MAX_BODY_HEIGHT_RATIO || !checks.fullBody) {
+        hints.push(HINTS.tooClose);
+      } else if (bodyHeight < MIN_BODY_HEIGHT_RATIO) {
+        hints.push(HINTS.tooFar);
+      }
+    } else {
+      // Head or feet not found at all: most often the body is cut by the frame
+      checks.distance = false;
+      hints.push(HINTS.tooClose);
+    }
+
+    const torso = visible(keypoints, ['left_shoulder', 'right_shoulder', 'left_hip', 'right_hip']);
+    if (torso.length > 0) {
+      const offset = averageX(torso) - 0.5;
+      checks.centered = Math.abs(offset) <= MAX_CENTER_OFFSET;
+      if (!checks.centered) {
+        // Hints are given from the person's side: facing the camera, their left is on the image
+        // right; with their back to it (back view), their left is on the image left
+        const towardImageLeft = view === 'back' ? HINTS.moveLeft : HINTS.moveRight;
+        const towardImageRight = view === 'back' ? HINTS.moveRight : HINTS.moveLeft;
+        hints.push(offset > 0 ? towardImageLeft : towardImageRight);
+      }
+    } else {
+      checks.centered = false;
+    }
+  }
+
+  if (level.hint) hints.push(level.hint);
+
+  return {
+    checks,
+    hints,
+    allOk: checks.person === true && Object.values(checks).every((check) => check !== false),
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Pose Detector
+ * On-device body landmark detection (MediaPipe Pose Landmarker, WASM/CPU).
+ * The WASM runtime ships with the app bundle; the model is served from /models, where
+ * scripts/fetch-vision-models.js downloads it before `dev` and `build`.
+ */
+
+import type { PoseLandmarker } from '@mediapipe/tasks-vision';
+import wasmLoaderUrl from '@mediapipe/tasks-vision/vision_wasm_internal.js?url';
+import wasmBinaryUrl from '@mediapipe/tasks-vision/vision_wasm_internal.wasm?url';
+import wasmNoSimdLoaderUrl from '@mediapipe/tasks-vision/vision_wasm_nosimd_internal.js?url';
+import wasmNoSimdBinaryUrl from '@mediapipe/tasks-vision/vision_wasm_nosimd_internal.wasm?url';
+import logger from '../utils/logger';
+import type { PoseKeypoint } from '../../domain/types';
+
+const DEFAULT_MODEL_URL = '/models/pose_landmarker_lite.task';
+
+/** BlazePose landmark names, by index */
+export const POSE_LANDMARK_NAMES = [
+  'nose', 'left_eye_inner', 'left_eye', 'left_eye_outer', 'right_eye_inner', 'right_eye', 'right_eye_outer',
+  'left_ear', 'right_ear', 'mouth_left', 'mouth_right',
+  'left_shoulder', 'right_shoulder', 'left_elbow', 'right_elbow', 'left_wrist', 'right_wrist',
+  'left_pinky', 'right_pinky', 'left_index', 'right_index', 'left_thumb', 'right_thumb',
+  'left_hip', 'right_hip', 'left_knee', 'right_knee', 'left_ankle', 'right_ankle',
+  'left_heel', 'right_heel', 'left_foot_index', 'right_foot_index',
+] as const;
+
+export type PoseLandmarkName = (typeof POSE_LANDMARK_NAMES)[number];
+
+export interface PoseDetectionResult {
+  /** One entry per detected person, most confident first */
+  poses: PoseKeypoint[][];
+  width: number;
+  height: number;
+}
+
+let landmarkerPromise: Promise<PoseLandmarker> | null = null;
+let missingModelReported = false;
+
+/**
+ * Bundled WASM runtime for MediaPipe vision tasks, SIMD build when the browser supports it
+ */
+export async function resolveVisionWasmFileset() {
+  const { FilesetResolver } = await import('@mediapipe/tasks-vision');
+  const simd = await FilesetResolver.isSimdSupported();
+  return {
+    wasmLoaderPath: simd ? wasmLoaderUrl : wasmNoSimdLoaderUrl,
+    wasmBinaryPath: simd ? wasmBinaryUrl : wasmNoSimdBinaryUrl,
+  };
+}
+
+async function createLandmarker(): Promise<PoseLandmarker> {
+  const { PoseLandmarker } = await import('@mediapipe/tasks-vision');
+
+  return PoseLandmarker.createFromOptions(
+    await resolveVisionWasmFileset(),
+    {
+      baseOptions: {
+        modelAssetPath: import.meta.env.VITE_POSE_MODEL_URL || DEFAULT_MODEL_URL,
+        delegate: 'CPU',
+      },
+      runningMode: 'IMAGE',
+      // Two poses so a second person in frame can be reported
+      numPoses: 2,
+      minPoseDetectionConfidence: 0.5,
+      minPosePresenceConfidence: 0.5,
+    }
+  );
+}
+
+/**
+ * Load the model once; a failed load is retried on the next call
+ */
+function getLandmarker(): Promise<PoseLandmarker> {
+  if (!landmarkerPromise) {
+    landmarkerPromise = createLandmarker().catch((error) => {
+      landmarkerPromise = null;
+      // Pose checks degrade silently for users; in dev a missing model must not go unnoticed
+      if (import.meta.env.DEV && !missingModelReported) {
+        missingModelReported = true;
+        logger.error('[PoseDetector] Pose model could not be loaded: run `npm run models` or set VITE_POSE_MODEL_URL', {
+          modelUrl: import.meta.env.VITE_POSE_MODEL_URL || DEFAULT_MODEL_URL,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+      throw error;
+    });
+  }
+  return landmarkerPromise;
+}
+
+/**
+ * Start downloading the model ahead of the first capture.
+ * Resolves to false when the model is unavailable (pose checks will be skipped).
+ */
+export function preloadPoseDetector(): Promise<boolean> {
+  return getLandmarker().then(
+    () => true,
+    (error) => {
+      logger.warn('[PoseDetector] Preload failed', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return false;
+    }
+  );
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Detect body landmarks in a still image or the current frame of a playing video.
+ * Rejects when the model cannot be loaded (callers treat pose checks as unavailable).
+ */
+export async function detectPose(
+  image: HTMLImageElement | HTMLCanvasElement | HTMLVideoElement | ImageBitmap
+): Promise<PoseDetectionResult> {
+  const landmarker = await getLandmarker();
+  const result = landmarker.detect(image);
+  const isVideo = image instanceof HTMLVideoElement;
+
+  return {
+    poses: result.landmarks.map((landmarks) =>
+      landmarks.map((landmark, index) => ({
+        name: POSE_LANDMARK_NAMES[index] ?? `landmark_${index}`,
+        x: round(landmark.x),
+        y: round(landmark.y),
+        z: round(landmark.z),
+        visibility: round(landmark.visibility ?? 0),
+      }))
+    ),
+    width: isVideo ? image.videoWidth : image.width,
+    height: isVideo ? image.videoHeight : image.height,
+  };
+}
@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { PoseKeypoint } from '../../domain/types';
+
+vi.mock('./poseDetector', () => ({ detectPose: vi.fn() }));
+vi.mock('../utils/logger', () => ({ default: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } }));
+
+const { validatePose } = await import('./poseValidation');
+
+type Landmarks = Record<string, [number, number]>;
+
+const FEET: Landmarks = {
+  left_ankle: [0.54, 0.8],
+  right_ankle: [0.46, 0.8],
+  left_heel: [0.54, 0.84],
+  right_heel: [0.46, 0.84],
+  left_foot_index: [0.55, 0.85],
+  right_foot_index: [0.45, 0.85],
+};
+
+/** Facing the camera: the person's left is on the image right */
+const FACING: Landmarks = {
+  nose: [0.5, 0.2],
+  left_shoulder: [0.6, 0.3],
+  right_shoulder: [0.4, 0.3],
+  left_hip: [0.55, 0.55],
+  right_hip: [0.45, 0.55],
+  left_wrist: [0.7, 0.5],
+  right_wrist: [0.3, 0.5],
+  ...FEET,
+};
+
+const SIDE_ON: Landmarks = {
+  ...FACING,
+  left_shoulder: [0.51, 0.3],
+  right_shoulder: [0.49, 0.3],
+  left_hip: [0.51, 0.55],
+  right_hip: [0.49, 0.55],
+};
+
+/** Turned ~45°: shoulder width about half the torso length */
+const THREE_QUARTER: Landmarks = {
+  ...FACING,
+  left_shoulder: [0.56, 0.3],
+  right_shoulder: [0.44, 0.3],
+  left_hip: [0.54, 0.55],
+  right_hip: [0.46, 0.55],
+};
+
+function pose(landmarks: Landmarks, overrides: Landmarks = {}): PoseKeypoint[] {
+  return Object.entries({ ...landmarks, ...overrides }).map(([name, [x, y]]) => ({ name, x, y, z: 0, visibility: 0.9 }));
+}
+
+function detection(...poses: PoseKeypoint[][]) {
+  return { poses, width: 1000, height: 1000 };
+}
+
+describe('validatePose', () => {
+  it('accepts a front pose with the arms away from the body', () => {
+    const result = validatePose(detection(pose(FACING)), 'front');
+
+    expect(result.poseOk).toBe(true);
+    expect(result.singlePerson).toBe(true);
+    expect(result.metrics.leftArmAngleDeg).toBeGreaterThan(15);
+    expect(result.metrics.rightArmAngleDeg).toBeGreaterThan(15);
+  });
+
+  it('asks to open the arms when they hide the body outline', () => {
+    const result = validatePose(detection(pose(FACING, { left_wrist: [0.6, 0.55] })), 'front');
+
+    expect(result.retakeReasons).toEqual(['arms_not_clear']);
+    expect(result.issues).toEqual(['Écartez légèrement les bras du corps pour dégager la silhouette']);
+  });
+
+  it('requires one foot fully in frame', () => {
+    const cutOff = pose(FACING, {
+      left_foot_index: [0.55, 1],
+      right_foot_index: [0.45, 1],
+    });
+
+    expect(validatePose(detection(cutOff), 'front').retakeReasons).toEqual(['feet_missing']);
+    expect(validatePose(detection(pose(FACING, { right_foot_index: [0.45, 1] })), 'front').poseOk).toBe(true);
+  });
+
+  it('rejects a profile that still shows the shoulders', () => {
+    expect(validatePose(detection(pose(SIDE_ON)), 'profile').poseOk).toBe(true);
+    expect(validatePose(detection(pose(FACING)), 'profile').retakeReasons).toEqual(['profile_angle_bad']);
+  });
+
+  it('reports an empty frame and a second person, not a small one in the background', () => {
+    expect(validatePose(detection(), 'front').retakeReasons).toEqual(['no_person']);
+
+    const passerBy = pose({ nose: [0.9, 0.4], left_hip: [0.9, 0.5] });
+    expect(validatePose(detection(pose(FACING), passerBy), 'front').poseOk).toBe(true);
+
+    const result = validatePose(detection(pose(FACING), pose(FACING)), 'front');
+    expect(result.retakeReasons).toEqual(['multiple_people']);
+    expect(result.singlePerson).toBe(false);
+  });
+
+  it('checks the arms on the back view too', () => {
+    // Back to the camera, the person's left is on the image left
+    const back = pose(FACING, {
+      left_shoulder: [0.4, 0.3],
+      right_shoulder: [0.6, 0.3],
+      left_hip: [0.45, 0.55],
+      right_hip: [0.55, 0.55],
+      left_wrist: [0.3, 0.5],
+      right_wrist: [0.7, 0.5],
+    });
+
+    expect(validatePose(detection(back), 'back').poseOk).toBe(true);
+    expect(validatePose(detection(pose(FACING, { right_wrist: [0.4, 0.55] })), 'back').retakeReasons).toEqual(['arms_not_clear']);
+  });
+
+  it('accepts a three-quarter turn between a profile and facing the camera', () => {
+    expect(validatePose(detection(pose(THREE_QUARTER)), 'threequarter').poseOk).toBe(true);
+    expect(validatePose(detection(pose(SIDE_ON)), 'threequarter').retakeReasons).toEqual(['threequarter_angle_bad']);
+    expect(validatePose(detection(pose(FACING)), 'threequarter').retakeReasons).toEqual(['threequarter_angle_bad']);
+  });
+});
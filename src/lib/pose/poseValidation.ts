@@ -0,0 +1,224 @@
+/**
+ * Pose Validation
+ * Geometric checks on detected body landmarks for scan captures:
+ * arms away from the body, feet in frame, true side profile, ~45° three-quarter turn
+ */
+
+import logger from '../utils/logger';
+import type { CaptureView, PoseKeypoint, RetakeReason } from '../../domain/types';
+import { detectPose, type PoseDetectionResult, type PoseLandmarkName } from './poseDetector';
+
+export interface PoseValidationResult {
+  poseOk: boolean;
+  singlePerson: boolean;
+  /** Landmarks of the main person, null when nobody was detected */
+  keypoints: PoseKeypoint[] | null;
+  retakeReasons: RetakeReason[];
+  /** User-facing messages, one per retake reason */
+  issues: string[];
+  metrics: {
+    leftArmAngleDeg: number | null;
+    rightArmAngleDeg: number | null;
+    shoulderToTorsoRatio: number | null;
+  };
+}
+
+const MIN_VISIBILITY = 0.5;
+/** Angle between upper arm and torso below which the arm hides the body outline */
+const MIN_ARM_ABDUCTION_DEG = 15;
+/** Landmarks closer than this to the bottom edge are considered cut off */
+const FRAME_EDGE_MARGIN = 0.01;
+/** Visible shoulder width / torso length above which a "profile" is really a three-quarter view */
+const MAX_PROFILE_SHOULDER_RATIO = 0.35;
+/** A three-quarter view sits between a true profile and facing the camera (~0.8) */
+const MAX_THREEQUARTER_SHOULDER_RATIO = 0.7;
+/** A second person smaller than this fraction of the main one is background noise */
+const SECOND_PERSON_MIN_SIZE_RATIO = 0.5;
+
+const ISSUE_MESSAGES: Partial<Record<RetakeReason, string>> = {
+  no_person: "Aucune personne détectée - Assurez-vous d'être entièrement visible dans le cadre",
+  multiple_people: 'Une seule personne doit être visible sur la photo',
+  arms_not_clear: 'Écartez légèrement les bras du corps pour dégager la silhouette',
+  feet_missing: 'Vos pieds doivent être visibles en bas du cadre',
+  profile_angle_bad: 'Tournez-vous complètement de côté pour la photo de profil',
+  threequarter_angle_bad: "Tournez-vous d'environ 45° par rapport à l'objectif pour la photo de trois-quarts",
+};
+
+type Point = { x: number; y: number };
+
+function byName(keypoints: PoseKeypoint[], name: PoseLandmarkName): PoseKeypoint | undefined {
+  return keypoints.find((keypoint) => keypoint.name === name);
+}
+
+function isVisible(keypoint: PoseKeypoint | undefined): keypoint is PoseKeypoint {
+  return !!keypoint && keypoint.visibility >= MIN_VISIBILITY;
+}
+
+/** Normalized → pixel space, so angles and ratios are not skewed by the aspect ratio */
+function toPixels(keypoint: PoseKeypoint, width: number, height: number): Point {
+  return { x: keypoint.x * width, y: keypoint.y * height };
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+function distance(a: Point, b: Point): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function angleBetweenDeg(origin: Point, a: Point, b: Point): number {
+  const v1 = { x: a.x - origin.x, y: a.y - origin.y };
+  const v2 = { x: b.x - origin.x, y: b.y - origin.y };
+  const norm = Math.hypot(v1.x, v1.y) * Math.hypot(v2.x, v2.y);
+  if (norm === 0) return 0;
+  const cos = Math.max(-1, Math.min(1, (v1.x * v2.x + v1.y * v2.y) / norm));
+  return (Math.acos(cos) * 180) / Math.PI;
+}
+
+/** Height of the visible landmark bounding box, used to compare detected people */
+function poseExtent(keypoints: PoseKeypoint[]): number {
+  const ys = keypoints.filter(isVisible).map((keypoint) => keypoint.y);
+  return ys.length > 1 ? Math.max(...ys) - Math.min(...ys) : 0;
+}
+
+/**
+ * Shoulder→wrist vs shoulder→hip angle for one side, null when the arm is not visible
+ */
+function armAbductionDeg(keypoints: PoseKeypoint[], side: 'left' | 'right', width: number, height: number): number | null {
+  const shoulder = byName(keypoints, `${side}_shoulder`);
+  const wrist = byName(keypoints, `${side}_wrist`);
+  const hip = byName(keypoints, `${side}_hip`);
+  if (!isVisible(shoulder) || !isVisible(wrist) || !isVisible(hip)) return null;
+
+  return angleBetweenDeg(toPixels(shoulder, width, height), toPixels(wrist, width, height), toPixels(hip, width, height));
+}
+
+function feetInFrame(keypoints: PoseKeypoint[]): boolean {
+  const feet = (['left', 'right'] as const).map((side) => {
+    const ankle = byName(keypoints, `${side}_ankle`);
+    const heel = byName(keypoints, `${side}_heel`);
+    const toes = byName(keypoints, `${side}_foot_index`);
+    return [ankle, heel, toes].every(
+      (keypoint) => isVisible(keypoint) && keypoint.y <= 1 - FRAME_EDGE_MARGIN && keypoint.y >= 0
+    );
+  });
+  // In profile the far foot is often hidden behind the near one
+  return feet.some(Boolean);
+}
+
+/**
+ * Visible shoulder width relative to torso length: ~1 facing the camera, ~0 in true profile
+ */
+function shoulderToTorsoRatio(keypoints: PoseKeypoint[], width: number, height: number): number | null {
+  const leftShoulder = byName(keypoints, 'left_shoulder');
+  const rightShoulder = byName(keypoints, 'right_shoulder');
+  const leftHip = byName(keypoints, 'left_hip');
+  const rightHip = byName(keypoints, 'right_hip');
+  if (!leftShoulder || !rightShoulder || !leftHip || !rightHip) return null;
+
+  const ls = toPixels(leftShoulder, width, height);
+  const rs = toPixels(rightShoulder, width, height);
+  const torsoLength = distance(midpoint(ls, rs), midpoint(toPixels(leftHip, width, height), toPixels(rightHip, width, height)));
+  if (torsoLength === 0) return null;
+
+  return Math.abs(ls.x - rs.x) / torsoLength;
+}
+
+/**
+ * Validate the capture pose for the given view
+ */
+export function validatePose(detection: PoseDetectionResult, view: CaptureView): PoseValidationResult {
+  const { poses, width, height } = detection;
+  const retakeReasons: RetakeReason[] = [];
+  const main = poses[0] ?? null;
+
+  const metrics: PoseValidationResult['metrics'] = {
+    leftArmAngleDeg: null,
+    rightArmAngleDeg: null,
+    shoulderToTorsoRatio: null,
+  };
+
+  if (!main) {
+    retakeReasons.push('no_person');
+  } else {
+    const mainExtent = poseExtent(main);
+    const hasSecondPerson = poses
+      .slice(1)
+      .some((pose) => mainExtent > 0 && poseExtent(pose) / mainExtent >= SECOND_PERSON_MIN_SIZE_RATIO);
+    if (hasSecondPerson) retakeReasons.push('multiple_people');
+
+    if (!feetInFrame(main)) retakeReasons.push('feet_missing');
+
+    metrics.shoulderToTorsoRatio = shoulderToTorsoRatio(main, width, height);
+
+    // Arms must clear the silhouette from behind too, for back width
+    if (view === 'front' || view === 'back') {
+      metrics.leftArmAngleDeg = armAbductionDeg(main, 'left', width, height);
+      metrics.rightArmAngleDeg = armAbductionDeg(main, 'right', width, height);
+      const armsClear = [metrics.leftArmAngleDeg, metrics.rightArmAngleDeg].every(
+        (angle) => angle !== null && angle >= MIN_ARM_ABDUCTION_DEG
+      );
+      if (!armsClear) retakeReasons.push('arms_not_clear');
+    } else if (view === 'threequarter') {
+      const ratio = metrics.shoulderToTorsoRatio;
+      if (ratio === null || ratio <= MAX_PROFILE_SHOULDER_RATIO || ratio > MAX_THREEQUARTER_SHOULDER_RATIO) {
+        retakeReasons.push('threequarter_angle_bad');
+      }
+    } else if (metrics.shoulderToTorsoRatio === null || metrics.shoulderToTorsoRatio > MAX_PROFILE_SHOULDER_RATIO) {
+      retakeReasons.push('profile_angle_bad');
+    }
+  }
+
+  return {
+    poseOk: retakeReasons.length === 0,
+    singlePerson: poses.length > 0 && !retakeReasons.includes('multiple_people'),
+    keypoints: main,
+    retakeReasons,
+    issues: retakeReasons.map((reason) => ISSUE_MESSAGES[reason] ?? reason),
+    metrics,
+  };
+}
+
+function loadImage(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image for pose detection'));
+    };
+    img.src = url;
+  });
+}
+
+/**
+ * Detect and validate the pose of a captured photo.
+ * Returns null when the estimator is unavailable, so capture is never blocked by a model failure.
+ */
+export async function analyzePhotoPose(file: Blob, view: CaptureView): Promise<PoseValidationResult | null> {
+  try {
+    const image = await loadImage(file);
+    const detection = await detectPose(image);
+    const result = validatePose(detection, view);
+
+    logger.info('[PoseValidation] Pose analyzed', {
+      view,
+      posesDetected: detection.poses.length,
+      poseOk: result.poseOk,
+      retakeReasons: result.retakeReasons,
+      metrics: result.metrics,
+    });
+    return result;
+  } catch (error) {
+    logger.warn('[PoseValidation] Pose estimator unavailable, skipping pose checks', {
+      view,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+}
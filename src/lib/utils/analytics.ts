@@ -3,6 +3,7 @@
  * Simple event tracking for scan flow optimization
  */
 import logger from './logger';
+import type { CaptureView } from '../../domain/types';
 
 interface AnalyticsEvent {
   event: string;
@@ -11,7 +12,7 @@ interface AnalyticsEvent {
 }
 
 interface ScanAnalyticsData {
-  view: 'front' | 'profile';
+  view: CaptureView;
   quality_scores: {
     blur_score: number;
     brightness: number;
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { scrubLogPayload } from './logScrubber';
+
+describe('scrubLogPayload', () => {
+  it('scrubs every measurement set whatever its prefix', () => {
+    const scrubbed = scrubLogPayload({
+      context: {
+        raw_measurements: { waist_cm: 80 },
+        calibrated_measurements: { waist_cm: 82 },
+        mesh_measurements: { circumferences: { waist_cm: 81 }, method: 'mesh_slice_convex_hull' },
+        reference_measurements: [{ scan_id: 'scan-1', waist_cm: 79 }],
+        scan: { id: 'scan-1', metrics: { mesh_measurements: { height_cm: 175 } } },
+      },
+    });
+
+    expect(scrubbed.context).toEqual({
+      raw_measurements: '[scrubbed]',
+      calibrated_measurements: '[scrubbed]',
+      mesh_measurements: '[scrubbed]',
+      reference_measurements: '[scrubbed]',
+      scan: { id: 'scan-1', metrics: { mesh_measurements: '[scrubbed]' } },
+    });
+  });
+
+  it('scrubs the AI estimates stored with a tape calibration', () => {
+    const scrubbed = scrubLogPayload({
+      context: { scanId: 'scan-1', raw_estimates: { waist: 80, hips: 95, chest: 98 } },
+    });
+
+    expect(scrubbed.context).toEqual({ scanId: 'scan-1', raw_estimates: '[scrubbed]' });
+  });
+
+  it('scrubs the mesh circumference levels and their named entries', () => {
+    const scrubbed = scrubLogPayload({
+      message: '[MESH_CIRCUMFERENCE] Avatar circumferences measured',
+      context: {
+        heightCm: 175,
+        circumferences: { chest_cm: 98, thigh_cm: 56 },
+        levels: { chest: 128, waist: 105, thigh: 70, arm: 140 },
+        durationMs: '12.5',
+        slice: { thigh: 56, arm: 31, loops: 2 },
+      },
+    });
+
+    expect(scrubbed.context).toEqual({
+      heightCm: '[scrubbed]',
+      circumferences: '[scrubbed]',
+      levels: '[scrubbed]',
+      durationMs: '12.5',
+      slice: { thigh: '[scrubbed]', arm: '[scrubbed]', loops: 2 },
+    });
+  });
+
+  it('replaces emails and photo URLs inside strings', () => {
+    const scrubbed = scrubLogPayload({
+      message: 'Upload failed for jane.doe@example.com',
+      context: {
+        photos: [
+          'https://abc.supabase.co/storage/v1/object/sign/body-scans/u1/front.jpg?token=x',
+          'blob:https://app.example.com/1234',
+        ],
+      },
+    });
+
+    expect(scrubbed.message).toBe('Upload failed for [email]');
+    expect(scrubbed.context.photos).toEqual(['[photo_url]', '[photo_url]']);
+  });
+
+  it('keeps unrelated keys and cuts dumped payloads past the depth limit', () => {
+    const scrubbed = scrubLogPayload({
+      context: { traceId: 'trace-1', count: 3, a: { b: { c: { d: { e: { f: 1 } } } } } },
+    });
+
+    expect(scrubbed.context.traceId).toBe('trace-1');
+    expect(scrubbed.context.count).toBe(3);
+    expect(scrubbed.context.a.b.c.d.e).toBe('[truncated]');
+  });
+});
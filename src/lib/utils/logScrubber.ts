@@ -0,0 +1,51 @@
+// src/lib/utils/logScrubber.ts
+/**
+ * Log Scrubber - PII removal before remote shipping
+ * Console output stays untouched; only payloads leaving the device go through here.
+ * Removes email addresses, photo URLs (signed storage URLs, blob: and data: images)
+ * and body measurements (any *measurements set, tape calibration estimates, mesh circumference
+ * levels, *_cm, *_kg, BMI).
+ */
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const PHOTO_URL_PATTERN = /(?:https?:\/\/\S*\/storage\/v1\/object\/\S+|blob:\S+|data:image\/[^\s"']+)/gi;
+
+/**
+ * Keys whose value is a body measurement or a whole measurement set: raw, calibrated, mesh and
+ * reference measurements, the AI estimates stored with a tape calibration, the mesh slice levels
+ */
+const MEASUREMENT_KEY_PATTERN = /measurements$|^raw_estimates$|^(?:levels|circumferences)$|^user_?metrics$|^(?:height|weight|waist|chest|hips|thigh|arm)$|(?:cm|kg|bmi)$/i;
+
+/** Deeper structures are cut: log contexts are shallow, anything deeper is a dumped API payload */
+const MAX_DEPTH = 6;
+
+const SCRUBBED = '[scrubbed]';
+
+function scrubString(value: string): string {
+  return value
+    .replace(PHOTO_URL_PATTERN, '[photo_url]')
+    .replace(EMAIL_PATTERN, '[email]');
+}
+
+function scrubValue(value: unknown, depth: number): unknown {
+  if (typeof value === 'string') return scrubString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_DEPTH) return '[truncated]';
+
+  if (Array.isArray(value)) {
+    return value.map((item) => scrubValue(item, depth + 1));
+  }
+
+  const scrubbed: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value as Record<string, unknown>)) {
+    scrubbed[key] = MEASUREMENT_KEY_PATTERN.test(key) ? SCRUBBED : scrubValue(entry, depth + 1);
+  }
+  return scrubbed;
+}
+
+/**
+ * Copy of a structured log payload with PII removed from its message and context
+ */
+export function scrubLogPayload<T extends Record<string, any>>(payload: T): T {
+  return scrubValue(payload, 0) as T;
+}
@@ -4,6 +4,7 @@
  * Structured logging with single payload to prevent [object Object] issues
  */
 
+import { scrubLogPayload } from './logScrubber';
 
 type LogLevel = 'silent' | 'error' | 'warn' | 'info' | 'debug' | 'trace';
 
@@ -31,20 +32,25 @@ function getCurrentLogConfig() {
 }
 
 
+/**
+ * IDs injected into every log payload; traceId matches the `x-trace-id` sent to the Edge Functions
+ */
+type LogContext = { clientScanId?: string; serverScanId?: string; traceId?: string };
+
 // Context provider to avoid circular dependencies
-let contextProvider: (() => { clientScanId?: string; serverScanId?: string }) | null = null;
+let contextProvider: (() => LogContext) | null = null;
 
 /**
  * Set context provider for automatic ID injection
  */
-function setContextProvider(provider: () => { clientScanId?: string; serverScanId?: string }) {
+function setContextProvider(provider: () => LogContext) {
   contextProvider = provider;
 }
 
 /**
  * Get current context from provider
  */
-function getCurrentContext(): { clientScanId?: string; serverScanId?: string } {
+function getCurrentContext(): LogContext {
   try {
     return contextProvider?.() || {};
   } catch (error) {
@@ -84,6 +90,54 @@ function shouldLog(level: LogLevel): boolean {
   return messageLevelValue >= currentLevelValue;
 }
 
+/**
+ * Remote shipping sample rates per environment (0 = never shipped, 1 = always).
+ * Independent from the console levels: production ships warnings and a share of info logs
+ * even though its console only shows warnings. Development ships nothing.
+ */
+const LOG_SHIPPING_SAMPLE_RATES: Record<keyof typeof LOG_LEVEL_CONFIG, Record<Exclude<LogLevel, 'silent'>, number>> = {
+  development: { error: 0, warn: 0, info: 0, debug: 0, trace: 0 },
+  staging: { error: 1, warn: 1, info: 0.5, debug: 0, trace: 0 },
+  production: { error: 1, warn: 1, info: 0.1, debug: 0, trace: 0 },
+};
+
+/**
+ * Destination of shipped logs (src/system/logging/remoteLogTransport.ts).
+ * Receives scrubbed payloads; must not log through this logger.
+ */
+export interface LogTransport {
+  enqueue(payload: Record<string, any>): void;
+}
+
+// Transport is injected like the context provider to avoid circular dependencies
+let transport: LogTransport | null = null;
+
+/**
+ * Set the remote transport (null stops shipping)
+ */
+function setTransport(next: LogTransport | null) {
+  transport = next;
+}
+
+function getShippingRate(level: Exclude<LogLevel, 'silent'>): number {
+  if (!transport) return 0;
+  const env = import.meta.env.MODE as keyof typeof LOG_SHIPPING_SAMPLE_RATES;
+  return (LOG_SHIPPING_SAMPLE_RATES[env] || LOG_SHIPPING_SAMPLE_RATES.development)[level];
+}
+
+/**
+ * Sampling draw in [0, 1): derived from the traceId when there is one, so a sampled scan
+ * ships all its logs instead of a random subset
+ */
+function samplingDraw(traceId?: string): number {
+  if (!traceId) return Math.random();
+  let hash = 0;
+  for (let i = 0; i < traceId.length; i++) {
+    hash = (hash * 31 + traceId.charCodeAt(i)) >>> 0;
+  }
+  return hash / 0x100000000;
+}
+
 /**
  * Create structured log payload with automatic context injection
  */
@@ -113,55 +167,68 @@ function createLogPayload(level: LogLevel, message: string, context?: any) {
   return payload;
 }
 
+/**
+ * Write a payload to the console and/or the remote transport, each with its own gate
+ */
+function emit(
+  level: Exclude<LogLevel, 'silent'>,
+  message: string,
+  context: any,
+  write: (line: string) => void
+) {
+  const toConsole = shouldLog(level);
+  const shippingRate = getShippingRate(level);
+  if (!toConsole && shippingRate === 0) return;
+
+  const payload = createLogPayload(level, message, context);
+  if (toConsole) {
+    write(JSON.stringify(payload, null, 2));
+  }
+  if (shippingRate > 0 && samplingDraw(payload.context.traceId) < shippingRate) {
+    try {
+      transport?.enqueue(scrubLogPayload(payload));
+    } catch (shipError) {
+      console.warn('Failed to enqueue log for shipping:', shipError);
+    }
+  }
+}
+
 /**
  * Core logging functions with strict contract
  */
 function trace(message: string, context?: Record<string, any>) {
-  if (!shouldLog('trace')) return;
-  const payload = createLogPayload('trace', message, context);
-  console.trace(JSON.stringify(payload, null, 2));
+  emit('trace', message, context, (line) => console.trace(line));
 }
 
 function debug(message: string, context?: Record<string, any>) {
-  if (!shouldLog('debug')) return;
-  const payload = createLogPayload('debug', message, context);
-  console.debug(JSON.stringify(payload, null, 2));
+  emit('debug', message, context, (line) => console.debug(line));
 }
 
 function info(message: string, context?: Record<string, any>) {
-  if (!shouldLog('info')) return;
-  const payload = createLogPayload('info', message, context);
-  console.log(JSON.stringify(payload, null, 2));
+  emit('info', message, context, (line) => console.log(line));
 }
 
 function warn(message: string, context?: Record<string, any>) {
-  if (!shouldLog('warn')) return;
-  const payload = createLogPayload('warn', message, context);
-  console.warn(JSON.stringify(payload, null, 2));
+  emit('warn', message, context, (line) => console.warn(line));
 }
 
 function error(message: string, context?: Record<string, any>) {
-  if (!shouldLog('error')) return;
-  const payload = createLogPayload('error', message, context);
-  console.error(JSON.stringify(payload, null, 2));
+  emit('error', message, context, (line) => console.error(line));
 }
 
 /**
  * Progress logging function for tracking operation progress
  */
 function progress(category: string, progressValue: number, message: string, subMessage?: string) {
-  if (!shouldLog('info')) return;
   const safeProgress = Number.isFinite(progressValue) && !Number.isNaN(progressValue) ? 
     Math.max(0, Math.min(100, progressValue)) : 0;
   
-  const payload = createLogPayload('info', `${category}: ${safeProgress}% - ${message}`, {
+  emit('info', `${category}: ${safeProgress}% - ${message}`, {
     category,
     progress: safeProgress,
     message,
     ...(subMessage && { subMessage })
-  });
-  
-  console.log(JSON.stringify(payload, null, 2));
+  }, (line) => console.log(line));
 }
 
 /**
@@ -183,15 +250,11 @@ function aiRefinement(
     philosophy?: string;
   }
 ) {
-  if (!shouldLog('info')) return;
-  
-  const payload = createLogPayload('info', `AI_REFINEMENT: ${operation}`, {
+  emit('info', `AI_REFINEMENT: ${operation}`, {
     operation,
     philosophy: data.philosophy || 'ai_driven_morphological_refinement',
     ...data
-  });
-  
-  console.log(JSON.stringify(payload, null, 2));
+  }, (line) => console.log(line));
 }
 
 /**
@@ -208,32 +271,26 @@ function genderResolution(
     reason?: string;
   }
 ) {
-  if (!shouldLog('info')) return;
-  
-  const payload = createLogPayload('info', `GENDER_RESOLUTION: ${stage}`, {
+  emit('info', `GENDER_RESOLUTION: ${stage}`, {
     stage,
     philosophy: 'consistent_gender_resolution',
     ...data
-  });
-  
-  console.log(JSON.stringify(payload, null, 2));
+  }, (line) => console.log(line));
 }
 
 /**
  * Enhanced error logging with context
  */
 function logError(message: string, err: unknown, context: Record<string, any> = {}) {
-  if (!shouldLog('error')) return;
   const e = err as any;
-  const payload = createLogPayload('error', message, {
+  emit('error', message, {
     error: {
       name: e?.name || 'Unknown',
       message: e?.message || 'No message',
       stack: e?.stack || 'No stack trace',
     },
     ...context
-  });
-  console.error(JSON.stringify(payload, null, 2));
+  }, (line) => console.error(line));
 }
 
 /**
@@ -251,6 +308,7 @@ const logger = {
   logError,
   logOnce,
   setContextProvider,
+  setTransport,
 };
 
 ;
@@ -1,7 +1,8 @@
 // src/lib/utils/photoUtils.ts
 import logger from './logger';
-import type { PhotoCaptureReport } from '../../domain/types';
+import type { CaptureView, PhotoCaptureReport } from '../../domain/types';
 import { extractSkinToneFromPhoto } from '../image/skinToneExtractor';
+import type { SkinToneV2 } from '../scan/normalizeSkinTone';
 
 /**
  * Validation result interface
@@ -363,6 +364,41 @@ function calculateQualityScore(
   return Math.max(0.1, Math.min(1.0, score));
 }
 
+/** Laplacian variance at which a frame scores 0.5; handheld phone shots in focus land well above */
+const SHARPNESS_HALF_VARIANCE = 100;
+/** Sharpness is measured on a grid of at most this many pixels per side */
+const SHARPNESS_MAX_SIDE = 512;
+
+/**
+ * Sharpness score (0..1, higher is sharper) from the variance of the Laplacian of the luminance.
+ * Motion blur and missed focus flatten edges and drive the variance down.
+ */
+export function measureSharpness(imageData: ImageData): number {
+  const { data, width, height } = imageData;
+  const step = Math.max(1, Math.floor(Math.max(width, height) / SHARPNESS_MAX_SIDE));
+  const luma = (x: number, y: number) => {
+    const idx = (y * width + x) * 4;
+    return 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+  };
+
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = step; y < height - step; y += step) {
+    for (let x = step; x < width - step; x += step) {
+      const laplacian = luma(x - step, y) + luma(x + step, y) + luma(x, y - step) + luma(x, y + step) - 4 * luma(x, y);
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+
+  if (count === 0) return 0;
+  const mean = sum / count;
+  const variance = sumSquares / count - mean * mean;
+  return variance / (variance + SHARPNESS_HALF_VARIANCE);
+}
+
 /**
  * Strip EXIF data from image file
  * @param file The image file to strip EXIF data from.
@@ -406,9 +442,11 @@ export async function stripExif(file: File, outputMimeType: string = 'image/jpeg
  */
 export async function createPhotoCaptureReport(
   file: File,
-  photoType: 'front' | 'profile',
+  photoType: CaptureView,
   validationResult: any,
-  stream?: MediaStream
+  stream?: MediaStream,
+  /** Skin tone averaged over a burst; replaces the single-frame extraction */
+  averagedSkinTone?: SkinToneV2 | null
 ): Promise<PhotoCaptureReport> {
   const timestamp = new Date().toISOString();
 
@@ -421,15 +459,24 @@ export async function createPhotoCaptureReport(
 
   // Extract skin tone from the image
   let skinTone;
+  let imageSize: { width: number; height: number } | null = null;
   try {
     // Convert file to ImageData for skin tone extraction
     const imageData = await fileToImageData(file);
+    imageSize = { width: imageData.width, height: imageData.height };
 
     // ENHANCED: Try to detect face region for better skin tone extraction
-    const faceRegion = await detectFaceRegionForSkinTone(imageData);
-    const skinToneResult = extractSkinToneFromPhoto(imageData, faceRegion);
+    const faceRegion = averagedSkinTone ? null : await detectFaceRegionForSkinTone(imageData);
+    const skinToneResult = averagedSkinTone ? null : extractSkinToneFromPhoto(imageData, faceRegion);
 
-    if (skinToneResult) {
+    if (averagedSkinTone) {
+      skinTone = {
+        ...averagedSkinTone.rgb,
+        confidence: averagedSkinTone.confidence ?? 0.5,
+        source: averagedSkinTone.source || 'burst_average',
+        extraction_method: 'burst_average'
+      };
+    } else if (skinToneResult) {
       const { r, g, b, confidence } = skinToneResult;
       skinTone = {
         r, g, b, // Keep original RGB format for consistency
@@ -493,6 +540,13 @@ export async function createPhotoCaptureReport(
       lastModified: file.lastModified
     },
     validation: validationResult,
+    // Pixel space of scale.pixel_per_cm_estimate
+    image: {
+      width: imageSize?.width ?? 0,
+      height: imageSize?.height ?? 0,
+      filesize: file.size,
+      format: file.type,
+    },
     quality: validationResult.qualityMetrics || {
       blur_score: 0.5,
       brightness: 0.5,
@@ -510,7 +564,11 @@ export async function createPhotoCaptureReport(
     },
     skinTone,
     streamInfo,
-    userId: null // Will be set by the calling component
+    userId: null, // Will be set by the calling component
+    // Read by the scan pipeline before the estimate's own skin tone
+    ...(averagedSkinTone && {
+      skin_tone: { ...averagedSkinTone.rgb, confidence: averagedSkinTone.confidence }
+    })
   };
 
   logger.info('📸 [PhotoCapture] Capture report created', {
@@ -528,7 +586,7 @@ export async function createPhotoCaptureReport(
 /**
  * Detect face region for better skin tone extraction
  */
-async function detectFaceRegionForSkinTone(imageData: ImageData): Promise<{ x: number; y: number; width: number; height: number } | null> {
+export async function detectFaceRegionForSkinTone(imageData: ImageData): Promise<{ x: number; y: number; width: number; height: number } | null> {
   try {
     const { data, width, height } = imageData;
 
@@ -580,7 +638,7 @@ async function detectFaceRegionForSkinTone(imageData: ImageData): Promise<{ x: n
 /**
  * Convert File to ImageData for processing
  */
-async function fileToImageData(file: File): Promise<ImageData> {
+export async function fileToImageData(file: File): Promise<ImageData> {
   return new Promise((resolve, reject) => {
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d');
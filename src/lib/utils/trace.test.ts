@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { TRACE_HEADER, clearScanTraceId, getScanTraceId, setScanTraceId, traceHeaders } from './trace';
+
+describe('scan traces', () => {
+  it('reuses the trace of a scan for every call', () => {
+    const traceId = getScanTraceId('scan-1');
+    expect(traceHeaders('scan-1')).toEqual({ [TRACE_HEADER]: traceId });
+    expect(traceHeaders()[TRACE_HEADER]).not.toBe(traceId);
+  });
+
+  it('forgets the trace once the pipeline is over', () => {
+    setScanTraceId('scan-2', 'trace_queued');
+    expect(getScanTraceId('scan-2')).toBe('trace_queued');
+
+    clearScanTraceId('scan-2');
+    expect(getScanTraceId('scan-2')).not.toBe('trace_queued');
+  });
+});
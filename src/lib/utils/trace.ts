@@ -0,0 +1,51 @@
+// src/lib/utils/trace.ts
+/**
+ * Trace Utility - End-to-end scan tracing
+ * One trace id per scan, created at capture and sent in the `x-trace-id` header of every
+ * scan Edge Function call, so client and server logs of a scan share a single id
+ */
+
+/** Header read by the Edge Functions (supabase/functions/_shared/utils/trace.ts) */
+export const TRACE_HEADER = 'x-trace-id';
+
+const scanTraceIds = new Map<string, string>();
+
+export function generateTraceId(): string {
+  return `trace_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`;
+}
+
+/**
+ * Trace id of a scan: created on first use (capture start) and reused by every later call
+ */
+export function getScanTraceId(clientScanId: string): string {
+  let traceId = scanTraceIds.get(clientScanId);
+  if (!traceId) {
+    traceId = generateTraceId();
+    scanTraceIds.set(clientScanId, traceId);
+  }
+  return traceId;
+}
+
+/**
+ * Re-attach a persisted trace id, e.g. when the offline queue replays a capture after a reload
+ */
+export function setScanTraceId(clientScanId: string, traceId: string): void {
+  scanTraceIds.set(clientScanId, traceId);
+}
+
+/**
+ * Forget a scan trace once its pipeline is over; later calls about the scan (review
+ * refinement) carry the id from the scan results, and the offline queue persists its own
+ */
+export function clearScanTraceId(clientScanId: string): void {
+  scanTraceIds.delete(clientScanId);
+}
+
+/**
+ * Headers for a scan Edge Function call; calls outside a scan get a trace of their own
+ */
+export function traceHeaders(clientScanId?: string | null): Record<string, string> {
+  return {
+    [TRACE_HEADER]: clientScanId ? getScanTraceId(clientScanId) : generateTraceId(),
+  };
+}
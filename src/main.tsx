@@ -8,6 +8,7 @@ import { logSupabaseConfig } from './system/supabase/client';
 import logger from './lib/utils/logger';
 import { useProgressStore } from './system/store/progressStore';
 import { logMorphologyFeatureFlags } from './config/featureFlags';
+import { createRemoteLogTransport } from './system/logging/remoteLogTransport';
 
 // Setup logger context provider to avoid circular dependencies
 logger.setContextProvider(() => {
@@ -15,9 +16,13 @@ logger.setContextProvider(() => {
   return {
     clientScanId: state.clientScanId || undefined,
     serverScanId: state.serverScanId || undefined,
+    traceId: state.traceId || undefined,
   };
 });
 
+// Ship sampled, scrubbed logs to log-ingest (sample rates per environment in logger.ts)
+logger.setTransport(createRemoteLogTransport());
+
 // Initialize deferred logging after all modules are loaded
 setTimeout(() => {
   logEnvConfig();
@@ -1,25 +1,44 @@
 /**
- * Data Source Abstraction - Simplified for Body Scan
- * Simplified interface for essential data operations
+ * Data Source Abstraction
+ * Single entry point to every repository, so the live Supabase implementation
+ * can be swapped for a recorded-fixture implementation (see ./fixtures)
  */
 
-interface IDataSource {
+import type { bodyScanRepo } from './repositories/bodyScanRepo';
+import type { faceScanRepo } from './repositories/faceScanRepo';
+import type { morphologyMappingRepo } from './repositories/morphologyMappingRepo';
+import type { getModelUrlForGender } from './repositories/assetsRepo';
+import type { accountRepo } from './repositories/accountRepo';
+
+export interface IDataSource {
   morphologyMapping: {
-    getMapping: () => Promise<any>;
+    getMapping: typeof morphologyMappingRepo.getMapping;
+  };
+  bodyScan: typeof bodyScanRepo;
+  faceScan: typeof faceScanRepo;
+  assets: {
+    getModelUrlForGender: typeof getModelUrlForGender;
   };
+  account: typeof accountRepo;
 }
 
+export type RepositoryName = keyof IDataSource;
+
 let impl: IDataSource;
 
 export function setDataSource(ds: IDataSource) {
   impl = ds;
 }
 
-function api(): IDataSource {
+export function api(): IDataSource {
   if (!impl) {
     throw new Error('DataSource not set. Make sure DataProvider is mounted.');
   }
   return impl;
 }
 
-export const isMock = () => import.meta.env.VITE_MOCK_DATA === '1';
\ No newline at end of file
+/** Replay recorded fixtures instead of calling Supabase/OpenAI */
+export const isMock = () => import.meta.env.VITE_MOCK_DATA === '1';
+
+/** Record every repository call so it can be exported as a fixture session */
+export const isFixtureRecording = () => import.meta.env.VITE_FIXTURE_RECORD === '1';
@@ -0,0 +1,238 @@
+/**
+ * Default Fixture Session
+ * Synthetic body scan session used by replay mode when no recorded session
+ * is configured (VITE_FIXTURE_URL). Shapes mirror the edge function responses.
+ */
+
+import { FIXTURE_SESSION_VERSION, type FixtureSession } from './fixtureTypes';
+
+const FIXTURE_SCAN_ID = '00000000-0000-4000-8000-000000000001';
+const FIXTURE_RECORDED_AT = '2025-09-13T12:00:00.000Z';
+
+const shapeParams = {
+  pearFigure: 0.35,
+  emaciated: -0.4,
+  bodybuilderSize: 0.25,
+  bodybuilderDetails: 0.4,
+  bigHips: 0.1,
+  assLarge: 0.2,
+  narrowWaist: -0.3,
+  superBreast: 0,
+  breastsSmall: 0.6,
+  breastsSag: 0.1,
+  animeWaist: 0,
+  dollBody: 0,
+  animeNeck: 0,
+  pregnant: 0,
+  nipples: 0,
+  animeProportion: 0,
+};
+
+const limbMasses = {
+  gate: 1,
+  armMass: 1.05,
+  calfMass: 1,
+  neckMass: 1,
+  thighMass: 1.08,
+  torsoMass: 1.1,
+  forearmMass: 1.02,
+};
+
+const skinTone = { r: 198, g: 160, b: 135, confidence: 0.8 };
+
+const extractedData = {
+  raw_measurements: {
+    waist_cm: 84,
+    hips_cm: 98,
+    chest_cm: 100,
+    height_cm: 178,
+    weight_kg: 76,
+    estimated_body_fat_perc: 18,
+    estimated_muscle_mass_kg: 34,
+  },
+  estimated_bmi: 23.99,
+  processing_confidence: 0.85,
+  photo_quality_score: 0.86,
+  skin_tone: skinTone,
+  keypoints: { front: [], profile: [] },
+  scale_method: 'body-proportion',
+  pixel_per_cm: 4.5,
+  fallback_used: false,
+  fallback_reason: null,
+  bmi_validation: { flags: [] },
+};
+
+const semanticProfile = {
+  obesity: 'Non obèse',
+  muscularity: 'Normal costaud',
+  level: 'Normal',
+  morphotype: 'REC',
+  morph_index: 0.2,
+  muscle_index: 0.3,
+  validated_morph_values: shapeParams,
+};
+
+const archetype = {
+  id: 'MAS-FIXTURE-001',
+  name: 'Fixture Normal Rectangle',
+  gender: 'masculine',
+  level: 'Normal',
+  obesity: 'Non obèse',
+  muscularity: 'Normal costaud',
+  morphotype: 'REC',
+  bmi_range: [22, 26],
+  morph_values: shapeParams,
+  limb_masses: limbMasses,
+};
+
+const envelopeOf = (values: Record<string, number>) =>
+  Object.fromEntries(
+    Object.entries(values).map(([key, value]) => [
+      key,
+      { min: value - 0.2, max: value + 0.2, archetype_min: value, archetype_max: value },
+    ])
+  );
+
+const scanRow = {
+  id: FIXTURE_SCAN_ID,
+  user_id: 'fixture-user',
+  created_at: FIXTURE_RECORDED_AT,
+  timestamp: FIXTURE_RECORDED_AT,
+  metrics: {
+    ...extractedData,
+    final_shape_params: shapeParams,
+    final_limb_masses: limbMasses,
+    resolved_gender: 'masculine',
+    mapping_version: 'v1.0',
+    avatar_version: 'v2.0',
+  },
+};
+
+export const defaultFixtureSession: FixtureSession = {
+  version: FIXTURE_SESSION_VERSION,
+  recordedAt: FIXTURE_RECORDED_AT,
+  entries: [
+    {
+      repository: 'bodyScan',
+      method: 'estimate',
+      response: {
+        extracted_data: extractedData,
+        photos_metadata: [],
+        diagnostics: { processing_notes: [], bmi_validation_flags: [] },
+      },
+      durationMs: 0,
+      recordedAt: FIXTURE_RECORDED_AT,
+    },
+    {
+      repository: 'bodyScan',
+      method: 'semantic',
+      response: {
+        semantic_profile: semanticProfile,
+        semantic_confidence: 0.8,
+        semantic_validation_flags: [],
+        adjustments_made: [],
+      },
+      durationMs: 0,
+      recordedAt: FIXTURE_RECORDED_AT,
+    },
+    {
+      repository: 'bodyScan',
+      method: 'match',
+      response: {
+        selected_archetypes: [archetype],
+        strategy_used: 'fixture',
+        semantic_coherence_score: 0.9,
+        k5_envelope: {
+          shape_params_envelope: envelopeOf(shapeParams),
+          limb_masses_envelope: envelopeOf(limbMasses),
+          envelope_metadata: { archetypes_count: 1 },
+        },
+        blended_shape_params: shapeParams,
+        blended_limb_masses: limbMasses,
+        mapping_metadata: { mapping_source: 'fixture', fallback_used: false },
+      },
+      durationMs: 0,
+      recordedAt: FIXTURE_RECORDED_AT,
+    },
+    {
+      repository: 'bodyScan',
+      method: 'refine',
+      response: {
+        ai_refine: true,
+        final_shape_params: shapeParams,
+        final_limb_masses: limbMasses,
+        clamped_keys: [],
+        envelope_violations: [],
+        db_violations: [],
+        out_of_range_count: 0,
+        missing_keys_added: [],
+        extra_keys_removed: [],
+        active_keys_count: Object.keys(shapeParams).length,
+        ai_confidence: 0.8,
+        mapping_version: 'v1.0',
+      },
+      durationMs: 0,
+      recordedAt: FIXTURE_RECORDED_AT,
+    },
+    {
+      repository: 'bodyScan',
+      method: 'commit',
+      response: { success: true, scan_id: FIXTURE_SCAN_ID, processing_complete: true },
+      durationMs: 0,
+      recordedAt: FIXTURE_RECORDED_AT,
+    },
+    {
+      repository: 'bodyScan',
+      method: 'getHistory',
+      response: [scanRow],
+      durationMs: 0,
+      recordedAt: FIXTURE_RECORDED_AT,
+    },
+    {
+      repository: 'bodyScan',
+      method: 'getById',
+      response: scanRow,
+      durationMs: 0,
+      recordedAt: FIXTURE_RECORDED_AT,
+    },
+    {
+      repository: 'bodyScan',
+      method: 'getLatest',
+      response: { scan: { ...scanRow, skin_tone: skinTone }, ready_for_3d: true },
+      durationMs: 0,
+      recordedAt: FIXTURE_RECORDED_AT,
+    },
+    {
+      repository: 'bodyScan',
+      method: 'generateInsights',
+      response: {
+        insights: [
+          {
+            id: 'fixture-balanced-morphology',
+            title: 'Morphologie équilibrée',
+            description: 'Tour de taille et de hanches proches des valeurs de référence pour votre taille.',
+            type: 'observation',
+            category: 'morphology',
+            priority: 'medium',
+            icon: 'Activity',
+            color: '#8B5CF6',
+            confidence: 0.8,
+          },
+        ],
+        summary: {
+          morphology_score: 72,
+          goal_alignment: 65,
+          health_indicators: 78,
+          recommendations_count: 0,
+        },
+        metadata: {
+          generated_at: FIXTURE_RECORDED_AT,
+          ai_model: 'fixture',
+          confidence: 0.8,
+        },
+      },
+      durationMs: 0,
+      recordedAt: FIXTURE_RECORDED_AT,
+    },
+  ],
+};
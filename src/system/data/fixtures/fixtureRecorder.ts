@@ -0,0 +1,156 @@
+/**
+ * Fixture Recorder
+ * Wraps the live data source and captures every repository call to JSON
+ */
+
+import logger from '../../../lib/utils/logger';
+import type { IDataSource, RepositoryName } from '../dataSource';
+import { FIXTURE_SESSION_VERSION, type FixtureEntry, type FixtureError, type FixtureSession } from './fixtureTypes';
+
+const recordedEntries: FixtureEntry[] = [];
+const sessionStartedAt = new Date().toISOString();
+
+/**
+ * JSON round-trip so later mutations by callers don't leak into the recording
+ */
+function toSerializable(value: unknown): unknown {
+  if (value === undefined) return undefined;
+  try {
+    return JSON.parse(JSON.stringify(value));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keep what callers branch on: name, HTTP status (functions.invoke errors carry the Response
+ * in `context`) and structured details such as the quota payload of a 429
+ */
+function toFixtureError(error: unknown): FixtureError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) };
+  }
+
+  const { status, context, details } = error as Error & { status?: unknown; context?: unknown; details?: unknown };
+  const httpStatus = typeof status === 'number'
+    ? status
+    : context instanceof Response ? context.status : undefined;
+
+  return {
+    name: error.name,
+    message: error.message,
+    ...(httpStatus !== undefined && { status: httpStatus }),
+    ...(details !== undefined && { details: toSerializable(details) }),
+  };
+}
+
+function record(repository: RepositoryName, method: string, startedAt: number, outcome: { response?: unknown; error?: unknown }) {
+  const entry: FixtureEntry = {
+    repository,
+    method,
+    durationMs: Math.round(performance.now() - startedAt),
+    recordedAt: new Date().toISOString(),
+  };
+
+  if ('error' in outcome) {
+    entry.error = toFixtureError(outcome.error);
+  } else {
+    entry.response = toSerializable(outcome.response);
+  }
+
+  recordedEntries.push(entry);
+
+  logger.debug('[FixtureRecorder] Repository call recorded', {
+    repository,
+    method,
+    failed: !!entry.error,
+    durationMs: entry.durationMs,
+    totalEntries: recordedEntries.length,
+  });
+}
+
+function recordRepository<T extends object>(repository: RepositoryName, repo: T): T {
+  const wrapped: Record<string, unknown> = {};
+
+  for (const [method, member] of Object.entries(repo)) {
+    if (typeof member !== 'function') {
+      wrapped[method] = member;
+      continue;
+    }
+
+    wrapped[method] = (...args: unknown[]) => {
+      const startedAt = performance.now();
+      let result: unknown;
+      try {
+        result = member.apply(repo, args);
+      } catch (error) {
+        record(repository, method, startedAt, { error });
+        throw error;
+      }
+
+      if (result instanceof Promise) {
+        return result.then(
+          (response) => {
+            record(repository, method, startedAt, { response });
+            return response;
+          },
+          (error) => {
+            record(repository, method, startedAt, { error });
+            throw error;
+          }
+        );
+      }
+
+      record(repository, method, startedAt, { response: result });
+      return result;
+    };
+  }
+
+  return wrapped as T;
+}
+
+/**
+ * Wrap every repository of a data source with call recording
+ */
+export function withFixtureRecording(dataSource: IDataSource): IDataSource {
+  logger.info('[FixtureRecorder] Fixture recording enabled for all repositories', {
+    repositories: Object.keys(dataSource),
+  });
+
+  return {
+    morphologyMapping: recordRepository('morphologyMapping', dataSource.morphologyMapping),
+    bodyScan: recordRepository('bodyScan', dataSource.bodyScan),
+    faceScan: recordRepository('faceScan', dataSource.faceScan),
+    assets: recordRepository('assets', dataSource.assets),
+    // Not recorded: the export is a binary archive of personal data
+    account: dataSource.account,
+  };
+}
+
+/**
+ * Snapshot of everything recorded since page load
+ */
+export function exportFixtureSession(): FixtureSession {
+  return {
+    version: FIXTURE_SESSION_VERSION,
+    recordedAt: sessionStartedAt,
+    entries: recordedEntries.slice(),
+  };
+}
+
+/**
+ * Download the recorded session as a JSON file
+ */
+export function downloadFixtureSession(fileName = `fixture-session-${Date.now()}.json`): void {
+  const blob = new Blob([JSON.stringify(exportFixtureSession(), null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function clearFixtureSession(): void {
+  recordedEntries.length = 0;
+}
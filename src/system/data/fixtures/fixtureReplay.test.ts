@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+vi.mock('../../supabase/client', () => ({ supabase: {} }));
+vi.mock('../../../lib/utils/logger', () => ({ default: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } }));
+
+const { createFixtureDataSource, resetFixtureReplay, FixtureMissingError } = await import('./fixtureReplay');
+
+beforeEach(() => {
+  resetFixtureReplay();
+  vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:fixture-photo');
+});
+
+describe('createFixtureDataSource', () => {
+  it('keeps face photos on the device', async () => {
+    const { faceScan } = createFixtureDataSource();
+
+    const filePath = await faceScan.uploadPhoto('user-1', 'scan-1', 'front', new Blob(['photo']));
+
+    expect(filePath).toBe('blob:fixture-photo');
+    expect(await faceScan.createPhotoUrl(filePath)).toBe(filePath);
+  });
+
+  it('replays the insights of the default session', async () => {
+    const { bodyScan } = createFixtureDataSource();
+
+    const response = await bodyScan.generateInsights({ scan_data: {}, user_profile: {}, analysis_config: {} });
+
+    expect(response.insights).toHaveLength(1);
+  });
+
+  it('fails calls the session never recorded', async () => {
+    const { faceScan } = createFixtureDataSource();
+
+    await expect(faceScan.semantic({ user_id: 'user-1', photos: [], user_declared_gender: 'male' })).rejects
+      .toBeInstanceOf(FixtureMissingError);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Fixture Replay Data Source
+ * Serves every repository call from a recorded session - no Supabase, no OpenAI
+ */
+
+import logger from '../../../lib/utils/logger';
+import type { IDataSource, RepositoryName } from '../dataSource';
+import { bodyScanRepo, QuotaExceededError, type QuotaExceededDetails } from '../repositories/bodyScanRepo';
+import { faceScanRepo } from '../repositories/faceScanRepo';
+import { morphologyMappingRepo, getFallbackMapping } from '../repositories/morphologyMappingRepo';
+import { getModelUrlForGender } from '../repositories/assetsRepo';
+import { accountRepo } from '../repositories/accountRepo';
+import { defaultFixtureSession } from './defaultFixtureSession';
+import type { FixtureEntry, FixtureError, FixtureSession } from './fixtureTypes';
+
+/**
+ * Raised when replay mode is asked for a call that was never recorded
+ */
+export class FixtureMissingError extends Error {
+  constructor(repository: RepositoryName, method: string) {
+    super(`No recorded fixture for ${repository}.${method}`);
+    this.name = 'FixtureMissingError';
+  }
+}
+
+/**
+ * Stand-ins for repository methods: same parameters, resolving to what the live method resolves to
+ */
+type ReplayHandlers = {
+  [R in RepositoryName]?: {
+    [M in keyof IDataSource[R]]?: IDataSource[R][M] extends (...args: infer A) => infer T
+      ? (...args: A) => Awaited<T>
+      : never;
+  };
+};
+
+type ReplayHandler = (...args: unknown[]) => unknown;
+
+function handlerFor(handlers: ReplayHandlers, repository: RepositoryName, method: string): ReplayHandler | undefined {
+  const repositoryHandlers: Record<string, unknown> | undefined = handlers[repository];
+  const handler = repositoryHandlers?.[method];
+  return typeof handler === 'function' ? (handler as ReplayHandler) : undefined;
+}
+
+/**
+ * Calls handled locally even when recorded: writes must never leave the device
+ */
+const LOCAL_HANDLERS: ReplayHandlers = {
+  bodyScan: {
+    // Keep the captured photo local: its object URL stands in for the storage path and the signed URL
+    uploadPhoto: (_userId, _clientScanId, _view, blob) => URL.createObjectURL(blob),
+    createPhotoUrl: (filePath) => filePath,
+    updateMetrics: () => undefined,
+    mergeMetrics: () => undefined,
+    saveReferenceMeasurements: () => undefined,
+  },
+  faceScan: {
+    uploadPhoto: (_userId, _clientScanId, _view, blob) => URL.createObjectURL(blob),
+    createPhotoUrl: (filePath) => filePath,
+  },
+  // Exporting or erasing a real account from a replay session would act on recorded data
+  account: {
+    exportData: () => {
+      throw new Error('Data export is unavailable in fixture replay mode');
+    },
+    deleteAccount: () => {
+      throw new Error('Account deletion is unavailable in fixture replay mode');
+    },
+  },
+};
+
+/**
+ * Used when the session holds no recording for a call
+ */
+const MISSING_FALLBACKS: ReplayHandlers = {
+  morphologyMapping: {
+    getMapping: () => getFallbackMapping(),
+  },
+  bodyScan: {
+    getReferenceMeasurements: () => null,
+  },
+};
+
+let sessionPromise: Promise<FixtureSession> | null = null;
+const cursors = new Map<string, number>();
+
+/**
+ * Load the session once: VITE_FIXTURE_URL (a recorded JSON) or the bundled default
+ */
+function loadFixtureSession(): Promise<FixtureSession> {
+  if (!sessionPromise) {
+    const fixtureUrl = import.meta.env.VITE_FIXTURE_URL;
+    sessionPromise = fixtureUrl
+      ? fetch(fixtureUrl).then(async (response) => {
+          if (!response.ok) {
+            throw new Error(`Failed to load fixture session from ${fixtureUrl}: ${response.status}`);
+          }
+          const session = (await response.json()) as FixtureSession;
+          logger.info('[FixtureReplay] Recorded fixture session loaded', {
+            fixtureUrl,
+            entries: session.entries?.length || 0,
+            recordedAt: session.recordedAt,
+          });
+          return session;
+        })
+      : Promise.resolve(defaultFixtureSession);
+  }
+  return sessionPromise;
+}
+
+/**
+ * Rebuild a recorded error: quota errors get their class back so the capture flow and the
+ * offline queue handle them as live; others keep their name, status and details
+ */
+function toReplayedError(recorded: string | FixtureError): Error {
+  if (typeof recorded === 'string') {
+    return new Error(recorded);
+  }
+  if (recorded.name === 'QuotaExceededError' && recorded.details) {
+    return new QuotaExceededError(recorded.details as QuotaExceededDetails);
+  }
+
+  const error = new Error(recorded.message) as Error & { status?: number; details?: unknown };
+  error.name = recorded.name;
+  if (recorded.status !== undefined) error.status = recorded.status;
+  if (recorded.details !== undefined) error.details = recorded.details;
+  return error;
+}
+
+/**
+ * Entries are replayed in recorded order per method; the last one repeats
+ * once exhausted so the flow can be run several times in a row.
+ */
+function nextEntry(session: FixtureSession, repository: RepositoryName, method: string): FixtureEntry | null {
+  const entries = session.entries.filter((entry) => entry.repository === repository && entry.method === method);
+  if (entries.length === 0) return null;
+
+  const key = `${repository}.${method}`;
+  const index = cursors.get(key) ?? 0;
+  cursors.set(key, index + 1);
+  return entries[Math.min(index, entries.length - 1)];
+}
+
+function replayRepository<T extends object>(repository: RepositoryName, liveRepo: T): T {
+  const replayed: Record<string, unknown> = {};
+
+  for (const [method, member] of Object.entries(liveRepo)) {
+    if (typeof member !== 'function') {
+      replayed[method] = member;
+      continue;
+    }
+
+    replayed[method] = async (...args: unknown[]) => {
+      const localHandler = handlerFor(LOCAL_HANDLERS, repository, method);
+      if (localHandler) {
+        return localHandler(...args);
+      }
+
+      const session = await loadFixtureSession();
+      const entry = nextEntry(session, repository, method);
+
+      if (!entry) {
+        const fallback = handlerFor(MISSING_FALLBACKS, repository, method);
+        if (fallback) {
+          return fallback(...args);
+        }
+        logger.error('[FixtureReplay] Missing fixture for repository call', { repository, method });
+        throw new FixtureMissingError(repository, method);
+      }
+
+      logger.debug('[FixtureReplay] Replaying repository call', {
+        repository,
+        method,
+        failed: !!entry.error,
+        recordedAt: entry.recordedAt,
+      });
+
+      if (entry.error) {
+        throw toReplayedError(entry.error);
+      }
+
+      // Callers mutate results (e.g. match.ai_refinement), so always hand out a copy
+      return entry.response === undefined ? undefined : JSON.parse(JSON.stringify(entry.response));
+    };
+  }
+
+  return replayed as T;
+}
+
+/**
+ * Build the replay data source
+ */
+export function createFixtureDataSource(): IDataSource {
+  logger.info('[FixtureReplay] Fixture replay mode enabled', {
+    fixtureUrl: import.meta.env.VITE_FIXTURE_URL || 'default_session',
+  });
+
+  return {
+    morphologyMapping: replayRepository('morphologyMapping', { getMapping: morphologyMappingRepo.getMapping }),
+    bodyScan: replayRepository('bodyScan', bodyScanRepo),
+    faceScan: replayRepository('faceScan', faceScanRepo),
+    // 3D models are static public assets, not backend calls
+    assets: { getModelUrlForGender },
+    account: replayRepository('account', accountRepo),
+  };
+}
+
+/**
+ * Rewind every method to its first recorded entry
+ */
+export function resetFixtureReplay(): void {
+  cursors.clear();
+}
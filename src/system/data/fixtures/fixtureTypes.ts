@@ -0,0 +1,37 @@
+/**
+ * Fixture Types
+ * Shape of a recorded data-source session (one JSON file per session)
+ */
+
+import type { RepositoryName } from '../dataSource';
+
+/**
+ * Recorded failure: enough to rebuild the error callers branch on (QuotaExceededError, HTTP status)
+ */
+export interface FixtureError {
+  name: string;
+  message: string;
+  /** HTTP status of a failed Edge Function call */
+  status?: number;
+  /** Structured payload carried by the error, e.g. QuotaExceededError.details */
+  details?: unknown;
+}
+
+export interface FixtureEntry {
+  repository: RepositoryName;
+  method: string;
+  /** Resolved value of the call (absent when the call failed) */
+  response?: unknown;
+  /** Error of a rejected call, replayed as a thrown error (plain message in older sessions) */
+  error?: string | FixtureError;
+  durationMs: number;
+  recordedAt: string;
+}
+
+export interface FixtureSession {
+  version: 1;
+  recordedAt: string;
+  entries: FixtureEntry[];
+}
+
+export const FIXTURE_SESSION_VERSION = 1 as const;
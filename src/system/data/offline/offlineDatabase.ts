@@ -0,0 +1,56 @@
+/**
+ * Offline Database
+ * Shared IndexedDB connection for the offline stores (pending scans, pipeline checkpoints)
+ */
+
+const DB_NAME = 'twinforge-offline';
+const DB_VERSION = 2;
+
+export const PENDING_SCANS_STORE = 'pending_body_scans';
+export const SCAN_CHECKPOINTS_STORE = 'scan_checkpoints';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isOfflineStorageAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PENDING_SCANS_STORE)) {
+          const store = db.createObjectStore(PENDING_SCANS_STORE, { keyPath: 'clientScanId' });
+          store.createIndex('userId', 'userId', { unique: false });
+        }
+        if (!db.objectStoreNames.contains(SCAN_CHECKPOINTS_STORE)) {
+          db.createObjectStore(SCAN_CHECKPOINTS_STORE, { keyPath: 'clientScanId' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Allow a later call to retry opening (e.g. private browsing quota errors)
+        dbPromise = null;
+        reject(new Error(`Open offline database failed: ${request.error?.message}`));
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export async function runTransaction<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(new Error(`Offline store ${storeName} ${mode} failed: ${transaction.error?.message}`));
+    transaction.onabort = () => reject(new Error(`Offline store ${storeName} ${mode} aborted: ${transaction.error?.message}`));
+  });
+}
@@ -0,0 +1,90 @@
+/**
+ * Pending Scan Store
+ * IndexedDB persistence for body scans captured without connectivity.
+ * Photos are kept as Blobs next to their capture report until the pipeline succeeds.
+ */
+
+import logger from '../../../lib/utils/logger';
+import type { CaptureView, PhotoCaptureReport } from '../../../domain/types';
+import {
+  PENDING_SCANS_STORE,
+  isOfflineStorageAvailable,
+  runTransaction as runStoreTransaction,
+} from './offlineDatabase';
+
+export { isOfflineStorageAvailable };
+
+export type PendingScanStatus = 'pending' | 'processing' | 'failed';
+
+export interface PendingScanPhoto {
+  type: CaptureView;
+  blob: Blob;
+  fileName: string;
+  captureReport: PhotoCaptureReport;
+}
+
+export interface PendingScanRecord {
+  clientScanId: string;
+  userId: string;
+  photos: PendingScanPhoto[];
+  stableScanParams: {
+    sex: 'male' | 'female';
+    height_cm: number;
+    weight_kg: number;
+  };
+  resolvedGender: 'masculine' | 'feminine';
+  /** Trace id of the capture, kept so a replay after reload logs under the same trace */
+  traceId?: string;
+  status: PendingScanStatus;
+  attempts: number;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Epoch ms before which the queue must not retry */
+  nextAttemptAt: number;
+}
+
+function runTransaction<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  return runStoreTransaction(PENDING_SCANS_STORE, mode, operation);
+}
+
+export async function savePendingScan(record: PendingScanRecord): Promise<void> {
+  await runTransaction('readwrite', (store) => store.put(record));
+  logger.info('[PendingScanStore] Pending scan saved', {
+    clientScanId: record.clientScanId,
+    status: record.status,
+    attempts: record.attempts,
+    photosCount: record.photos.length,
+  });
+}
+
+export async function getPendingScan(clientScanId: string): Promise<PendingScanRecord | undefined> {
+  return runTransaction<PendingScanRecord | undefined>('readonly', (store) => store.get(clientScanId));
+}
+
+/**
+ * Oldest first, so scans are replayed in capture order
+ */
+export async function listPendingScans(userId: string): Promise<PendingScanRecord[]> {
+  const records = await runTransaction<PendingScanRecord[]>('readonly', (store) =>
+    store.index('userId').getAll(userId)
+  );
+  return records.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function updatePendingScan(
+  clientScanId: string,
+  changes: Partial<Omit<PendingScanRecord, 'clientScanId'>>
+): Promise<PendingScanRecord | undefined> {
+  const existing = await getPendingScan(clientScanId);
+  if (!existing) return undefined;
+
+  const updated: PendingScanRecord = { ...existing, ...changes, updatedAt: new Date().toISOString() };
+  await runTransaction('readwrite', (store) => store.put(updated));
+  return updated;
+}
+
+export async function deletePendingScan(clientScanId: string): Promise<void> {
+  await runTransaction('readwrite', (store) => store.delete(clientScanId));
+  logger.info('[PendingScanStore] Pending scan removed', { clientScanId });
+}
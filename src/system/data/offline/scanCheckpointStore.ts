@@ -0,0 +1,72 @@
+/**
+ * Scan Checkpoint Store
+ * IndexedDB persistence of each completed body scan pipeline stage, keyed by clientScanId,
+ * so a failed pipeline resumes from the first stage that did not succeed.
+ */
+
+import logger from '../../../lib/utils/logger';
+import { SCAN_CHECKPOINTS_STORE, isOfflineStorageAvailable, runTransaction } from './offlineDatabase';
+
+/** Pipeline stages, in execution order */
+export const SCAN_PIPELINE_STAGES = ['upload', 'estimate', 'semantic', 'match', 'refine'] as const;
+
+export type ScanPipelineStage = (typeof SCAN_PIPELINE_STAGES)[number];
+
+const CHECKPOINT_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface ScanCheckpointRecord {
+  clientScanId: string;
+  userId: string;
+  /** Identifies the captured photos; a retake under the same scan id invalidates the checkpoint */
+  fingerprint: string;
+  stages: Partial<Record<ScanPipelineStage, any>>;
+  updatedAt: string;
+}
+
+export async function getScanCheckpoint(clientScanId: string): Promise<ScanCheckpointRecord | undefined> {
+  if (!isOfflineStorageAvailable()) return undefined;
+
+  const record = await runTransaction<ScanCheckpointRecord | undefined>(SCAN_CHECKPOINTS_STORE, 'readonly', (store) =>
+    store.get(clientScanId)
+  );
+  if (record && Date.now() - new Date(record.updatedAt).getTime() > CHECKPOINT_TTL_MS) {
+    await clearScanCheckpoint(clientScanId);
+    return undefined;
+  }
+  return record;
+}
+
+export async function saveStageCheckpoint(
+  base: Pick<ScanCheckpointRecord, 'clientScanId' | 'userId' | 'fingerprint'>,
+  stage: ScanPipelineStage,
+  result: unknown
+): Promise<void> {
+  if (!isOfflineStorageAvailable()) return;
+
+  const existing = await getScanCheckpoint(base.clientScanId);
+  const stages = existing && existing.fingerprint === base.fingerprint ? existing.stages : {};
+  const record: ScanCheckpointRecord = {
+    ...base,
+    stages: { ...stages, [stage]: result },
+    updatedAt: new Date().toISOString(),
+  };
+
+  await runTransaction(SCAN_CHECKPOINTS_STORE, 'readwrite', (store) => store.put(record));
+  logger.info('[ScanCheckpointStore] Stage checkpoint saved', {
+    clientScanId: base.clientScanId,
+    stage,
+    completedStages: Object.keys(record.stages),
+  });
+}
+
+export async function clearScanCheckpoint(clientScanId: string): Promise<void> {
+  if (!isOfflineStorageAvailable()) return;
+  await runTransaction(SCAN_CHECKPOINTS_STORE, 'readwrite', (store) => store.delete(clientScanId));
+}
+
+/**
+ * First stage without a stored result, or null when every stage before commit is done
+ */
+export function firstMissingStage(record: ScanCheckpointRecord | undefined): ScanPipelineStage | null {
+  return SCAN_PIPELINE_STAGES.find((stage) => !(record?.stages && stage in record.stages)) ?? null;
+}
@@ -0,0 +1,124 @@
+/**
+ * Account Repository
+ * GDPR rights of the signed-in user: data export (portability) and account deletion (erasure)
+ */
+
+import { supabase } from '../../supabase/client';
+import logger from '../../../lib/utils/logger';
+
+/** Phrase the user-data-delete function requires, so a stray call cannot erase an account */
+export const ACCOUNT_DELETION_CONFIRMATION = 'DELETE_MY_ACCOUNT';
+
+export interface AccountDeletionReport {
+  verified: boolean;
+  deleted: {
+    photos: number;
+    rows: Record<string, number>;
+  };
+  remaining: {
+    photos: number;
+    rows: Record<string, number>;
+  };
+  account_deleted: boolean;
+  /** Auth deletion error, when the data was erased but the account could not be deleted */
+  account_error?: string;
+  trace_id: string;
+}
+
+/**
+ * Raised when every photo and row was erased but the auth account could not be deleted.
+ * Calling deleteAccount again finishes the deletion.
+ */
+export class AccountPartiallyDeletedError extends Error {
+  constructor(public readonly report: AccountDeletionReport) {
+    super(`Data erased but account deletion failed: ${report.account_error ?? 'unknown error'}`);
+    this.name = 'AccountPartiallyDeletedError';
+  }
+}
+
+/**
+ * Turn the 500 of a deletion whose data step succeeded into an AccountPartiallyDeletedError (null otherwise)
+ */
+async function toPartialDeletionError(error: unknown): Promise<AccountPartiallyDeletedError | null> {
+  const response = (error as { context?: unknown } | null)?.context;
+  if (!(response instanceof Response)) {
+    return null;
+  }
+  try {
+    const body = await response.clone().json();
+    return body?.data_erased === true ? new AccountPartiallyDeletedError(body) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Account Repository Implementation
+ */
+export const accountRepo = {
+  /**
+   * Download everything stored for the user as a ZIP archive
+   */
+  async exportData(): Promise<Blob> {
+    logger.info('[AccountRepo] Requesting user data export', {
+      timestamp: new Date().toISOString()
+    });
+
+    const { data, error } = await supabase.functions.invoke('user-data-export', {
+      body: {}
+    });
+
+    if (error) {
+      logger.error('[AccountRepo] User data export failed', {
+        error: error.message || error,
+        timestamp: new Date().toISOString()
+      });
+      throw new Error(`Data export failed: ${error.message}`);
+    }
+
+    if (!(data instanceof Blob)) {
+      throw new Error('Data export failed: unexpected response format');
+    }
+
+    logger.info('[AccountRepo] User data export received', {
+      sizeKB: Math.round(data.size / 1024),
+      timestamp: new Date().toISOString()
+    });
+
+    return data;
+  },
+
+  /**
+   * Erase every photo and row of the user, then the account itself.
+   * Throws when the server could not verify that nothing is left: the account is kept in that case.
+   * Throws AccountPartiallyDeletedError when the data is gone but the account itself remains.
+   */
+  async deleteAccount(): Promise<AccountDeletionReport> {
+    logger.warn('[AccountRepo] Requesting account deletion', {
+      timestamp: new Date().toISOString()
+    });
+
+    const { data, error } = await supabase.functions.invoke('user-data-delete', {
+      body: { confirm: ACCOUNT_DELETION_CONFIRMATION }
+    });
+
+    if (error) {
+      logger.error('[AccountRepo] Account deletion failed', {
+        error: error.message || error,
+        timestamp: new Date().toISOString()
+      });
+      throw (await toPartialDeletionError(error)) ?? new Error(`Account deletion failed: ${error.message}`);
+    }
+
+    const report = data as AccountDeletionReport;
+    logger.info('[AccountRepo] Account deletion completed', {
+      verified: report.verified,
+      accountDeleted: report.account_deleted,
+      deletedPhotos: report.deleted?.photos,
+      traceId: report.trace_id,
+      timestamp: new Date().toISOString()
+    });
+
+    return report;
+  },
+};
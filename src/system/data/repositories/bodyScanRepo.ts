@@ -4,8 +4,15 @@
  * Client-side interface for interacting with body scan Edge Functions
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from '../../supabase/client';
 import logger from '../../../lib/utils/logger';
+import { traceHeaders } from '../../../lib/utils/trace';
+import type { BodyScan } from '../../../domain/types';
+
+const SCAN_PHOTO_BUCKET = 'body-scans';
+/** Signed photo URLs only need to outlive one pipeline run: the Edge Functions fetch them right away */
+const SCAN_PHOTO_URL_TTL_SECONDS = 15 * 60;
 
 interface BodyScanEstimateRequest {
   photos: Array<{
@@ -40,6 +47,8 @@ interface BodyScanMatchRequest {
   matching_config: {
     gender: 'masculine' | 'feminine';
     limit: number;
+    ranking_strategy?: 'semantic_score' | 'morph_distance';
+    feature_weights?: Partial<Record<'bmi' | 'morph_index' | 'muscle_index' | 'waist_hip_ratio' | 'waist_chest_ratio' | 'chest_hip_ratio', number>>;
   };
   clientScanId?: string;
   resolvedGender?: 'masculine' | 'feminine'; // MODIFIED: Type updated
@@ -63,6 +72,111 @@ interface BodyScanCommitRequest {
   clientScanId?: string;
 }
 
+/** Tape measurements (cm) a user can enter to calibrate the AI estimates */
+export type ReferenceMeasurementKey = 'waist_cm' | 'hips_cm' | 'chest_cm';
+
+export interface ReferenceMeasurements {
+  scan_id: string;
+  user_id: string;
+  waist_cm: number | null;
+  hips_cm: number | null;
+  chest_cm: number | null;
+  /** AI estimates of the scan when the tape values were entered */
+  raw_estimates: Record<string, number>;
+  measured_at: string;
+}
+
+/** Pick turns the interface into a type literal, which the client's row constraint accepts */
+type ReferenceMeasurementsRow = Pick<ReferenceMeasurements, keyof ReferenceMeasurements> & { updated_at: string };
+
+/** Columns of body_scans this repository writes; scans are inserted by scan-commit */
+type BodyScanMetricsRow = { id: string; metrics: Record<string, unknown> };
+
+/**
+ * Tables and functions this repository writes, so the untyped client checks their rows
+ */
+interface BodyScanSchema {
+  public: {
+    Tables: {
+      body_scans: {
+        Row: BodyScanMetricsRow;
+        Insert: BodyScanMetricsRow;
+        Update: Partial<BodyScanMetricsRow>;
+        Relationships: [];
+      };
+      body_scan_reference_measurements: {
+        Row: ReferenceMeasurementsRow;
+        Insert: ReferenceMeasurementsRow;
+        Update: Partial<ReferenceMeasurementsRow>;
+        Relationships: [];
+      };
+    };
+    Views: Record<never, never>;
+    Functions: {
+      merge_body_scan_metrics: {
+        Args: { p_scan_id: string; p_patch: Record<string, unknown> };
+        Returns: undefined;
+      };
+    };
+  };
+}
+
+const scanDb = supabase as unknown as SupabaseClient<BodyScanSchema>;
+
+/** Structured 429 body of the AI-backed Edge Functions (supabase/functions/_shared/utils/quota.ts) */
+export interface QuotaExceededDetails {
+  error: 'quota_exceeded';
+  feature: 'scan' | 'face_scan' | 'insights';
+  plan: string;
+  period: 'day' | 'month';
+  limit: number;
+  used: number;
+  reset_at: string;
+  retry_after_seconds: number;
+}
+
+const QUOTA_FEATURE_LABELS: Record<QuotaExceededDetails['feature'], string> = {
+  scan: 'scans',
+  face_scan: 'scans du visage',
+  insights: 'analyses',
+};
+
+/**
+ * Raised when the user's plan allows no more AI calls for the period.
+ * The message is user-facing: the capture flow shows it as is.
+ */
+export class QuotaExceededError extends Error {
+  constructor(public readonly details: QuotaExceededDetails) {
+    const resetAt = new Date(details.reset_at).toLocaleString('fr-FR', {
+      day: 'numeric',
+      month: 'long',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    super(
+      `Limite atteinte : ${details.limit} ${QUOTA_FEATURE_LABELS[details.feature] ?? details.feature} ` +
+      `par ${details.period === 'day' ? 'jour' : 'mois'}. Nouvel essai possible à partir du ${resetAt}.`
+    );
+    this.name = 'QuotaExceededError';
+  }
+}
+
+/**
+ * Turn a 429 of functions.invoke into a QuotaExceededError (null for any other error)
+ */
+async function toQuotaExceededError(error: unknown): Promise<QuotaExceededError | null> {
+  const response = (error as { context?: unknown } | null)?.context;
+  if (!(response instanceof Response) || response.status !== 429) {
+    return null;
+  }
+  try {
+    const details = await response.clone().json();
+    return details?.error === 'quota_exceeded' ? new QuotaExceededError(details) : null;
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Body Scan Repository Implementation
  */
@@ -86,7 +200,8 @@ export const bodyScanRepo = {
     });
     
     const { data, error } = await supabase.functions.invoke('scan-estimate', {
-      body: request
+      body: request,
+      headers: traceHeaders(request.clientScanId)
     });
 
     logger.info('Scan-estimate response received', {
@@ -99,6 +214,15 @@ export const bodyScanRepo = {
     });
     
     if (error) {
+      const quotaError = await toQuotaExceededError(error);
+      if (quotaError) {
+        logger.warn('[BodyScanRepo] Scan-estimate quota exceeded', {
+          clientScanId: request.clientScanId,
+          ...quotaError.details,
+        });
+        throw quotaError;
+      }
+
       logger.error('Scan-estimate failed', { 
         clientScanId: request.clientScanId,
         error: error.message || error,
@@ -141,7 +265,8 @@ export const bodyScanRepo = {
     });
     
     const { data, error } = await supabase.functions.invoke('scan-semantic', {
-      body: request
+      body: request,
+      headers: traceHeaders(request.clientScanId)
     });
 
     logger.info('Scan-semantic response received', {
@@ -154,6 +279,15 @@ export const bodyScanRepo = {
     });
     
     if (error) {
+      const quotaError = await toQuotaExceededError(error);
+      if (quotaError) {
+        logger.warn('[BodyScanRepo] Scan-semantic quota exceeded', {
+          clientScanId: request.clientScanId,
+          ...quotaError.details,
+        });
+        throw quotaError;
+      }
+
       logger.error('Scan-semantic failed', { 
         clientScanId: request.clientScanId,
         error: error.message || error,
@@ -188,7 +322,8 @@ export const bodyScanRepo = {
     });
     
     const { data, error } = await supabase.functions.invoke('scan-match', {
-      body: request
+      body: request,
+      headers: traceHeaders(request.clientScanId)
     });
 
     logger.info('Scan-match response received', {
@@ -335,7 +470,8 @@ export const bodyScanRepo = {
         k5_envelope: request.k5_envelope,
         vision_classification: request.vision_classification,
         user_measurements: request.user_measurements
-      }
+      },
+      headers: traceHeaders(request.scan_id)
     });
 
     logger.info('Scan-refine-morphs response received', {
@@ -357,6 +493,15 @@ export const bodyScanRepo = {
     });
     
     if (error) {
+      const quotaError = await toQuotaExceededError(error);
+      if (quotaError) {
+        logger.warn('[BodyScanRepo] Scan-refine-morphs quota exceeded', {
+          scanId: request.scan_id,
+          ...quotaError.details,
+        });
+        throw quotaError;
+      }
+
       logger.error('Scan-refine-morphs failed', { 
         scanId: request.scan_id,
         error: error.message || error,
@@ -402,7 +547,8 @@ export const bodyScanRepo = {
     });
     
     const response = await supabase.functions.invoke('scan-commit', {
-      body: request
+      body: request,
+      headers: traceHeaders(request.clientScanId)
     });
 
     logger.info('Scan-commit response received', {
@@ -452,13 +598,140 @@ export const bodyScanRepo = {
     return response.data;
   },
 
+  /**
+   * Upload a captured scan photo to the private scan bucket and return its storage path
+   */
+  async uploadPhoto(userId: string, clientScanId: string, view: string, blob: Blob): Promise<string> {
+    const file = new File([blob], `scan-${clientScanId}-${view}.jpg`, { type: 'image/jpeg' });
+    const filePath = `scans/${userId}/${clientScanId}/${view}.jpg`;
+
+    const { error } = await supabase.storage
+      .from(SCAN_PHOTO_BUCKET)
+      .upload(filePath, file, {
+        cacheControl: '3600',
+        // Retried/resumed pipelines re-upload under the same clientScanId path
+        upsert: true
+      });
+
+    if (error) {
+      throw new Error(`Upload failed for ${view}: ${error.message}`);
+    }
+
+    return filePath;
+  },
+
+  /**
+   * Short-lived signed URL of an uploaded scan photo, for the Edge Functions
+   */
+  async createPhotoUrl(filePath: string): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(SCAN_PHOTO_BUCKET)
+      .createSignedUrl(filePath, SCAN_PHOTO_URL_TTL_SECONDS);
+
+    if (error || !data?.signedUrl) {
+      throw new Error(`Signed URL failed for ${filePath}: ${error?.message || 'no URL returned'}`);
+    }
+
+    return data.signedUrl;
+  },
+
+  /**
+   * Overwrite the metrics of an existing body scan
+   */
+  async updateMetrics(scanId: string, metrics: Record<string, any>) {
+    const { error } = await scanDb
+      .from('body_scans')
+      .update({ metrics })
+      .eq('id', scanId);
+
+    if (error) {
+      throw new Error(`Update scan metrics failed: ${error.message}`);
+    }
+  },
+
+  /**
+   * Set top-level metrics keys server-side, leaving every other key as stored
+   */
+  async mergeMetrics(scanId: string, patch: Record<string, any>) {
+    const { error } = await scanDb.rpc('merge_body_scan_metrics', {
+      p_scan_id: scanId,
+      p_patch: patch,
+    });
+
+    if (error) {
+      throw new Error(`Merge scan metrics failed: ${error.message}`);
+    }
+  },
+
+  /**
+   * Tape measurements entered for a scan, null when none
+   */
+  async getReferenceMeasurements(scanId: string): Promise<ReferenceMeasurements | null> {
+    const { data, error } = await supabase
+      .from('body_scan_reference_measurements')
+      .select('scan_id, user_id, waist_cm, hips_cm, chest_cm, raw_estimates, measured_at')
+      .eq('scan_id', scanId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Get reference measurements failed: ${error.message}`);
+    }
+
+    return data as ReferenceMeasurements | null;
+  },
+
+  /**
+   * Store (or replace) the tape measurements of a scan; they calibrate the user's next scans
+   */
+  async saveReferenceMeasurements(reference: Omit<ReferenceMeasurements, 'measured_at'>) {
+    const now = new Date().toISOString();
+    const row: ReferenceMeasurementsRow = { ...reference, measured_at: now, updated_at: now };
+    const { error } = await scanDb
+      .from('body_scan_reference_measurements')
+      .upsert(row, { onConflict: 'scan_id' });
+
+    if (error) {
+      throw new Error(`Save reference measurements failed: ${error.message}`);
+    }
+
+    logger.info('[BodyScanRepo] Reference measurements saved', {
+      scanId: reference.scan_id,
+      measured: (['waist_cm', 'hips_cm', 'chest_cm'] as const).filter((key) => reference[key] !== null),
+    });
+  },
+
+  /**
+   * Call generate-morph-insights Edge Function for the insights of the saved avatar
+   */
+  async generateInsights(request: {
+    scan_data: Record<string, unknown>;
+    user_profile: Record<string, unknown>;
+    analysis_config: Record<string, unknown>;
+  }) {
+    const { data, error } = await supabase.functions.invoke('generate-morph-insights', {
+      body: request,
+      headers: traceHeaders()
+    });
+
+    if (error) {
+      logger.error('Generate-morph-insights failed', {
+        error: error.message,
+        timestamp: new Date().toISOString()
+      });
+      throw new Error(`Failed to generate insights: ${error.message}`);
+    }
+
+    return data;
+  },
+
   /**
    * Get latest body scan for user
    */
   async getLatest(userId: string) {
     const { data, error } = await supabase.functions.invoke('scan-latest', {
       method: 'GET',
-      query: { user_id: userId }
+      query: { user_id: userId },
+      headers: traceHeaders()
     });
 
     if (error) {
@@ -471,7 +744,7 @@ export const bodyScanRepo = {
   /**
    * Get body scan history for user
    */
-  async getHistory(userId: string, limit = 1000) { // MODIFIED: Augmenter la limite
+  async getHistory(userId: string, limit = 1000): Promise<BodyScan[]> { // MODIFIED: Augmenter la limite
     const { data, error } = await supabase
       .from('body_scans')
       .select('*')
@@ -6,8 +6,14 @@
 
 import { supabase } from '../../supabase/client';
 import logger from '../../../lib/utils/logger';
+import { traceHeaders } from '../../../lib/utils/trace';
 import { toDbGender } from '../../../lib/morph/keys/keyNormalizers'; // MODIFIED: Import toDbGender
 
+/** Face photos share the scan bucket, under face-scans/ */
+const FACE_PHOTO_BUCKET = 'body-scans';
+/** Only the face-semantic call reads the photos, right after upload */
+const FACE_PHOTO_URL_TTL_SECONDS = 300;
+
 interface FaceScanSemanticRequest {
   user_id: string;
   photos: Array<{
@@ -84,7 +90,8 @@ export const faceScanRepo = {
       body: {
         ...request,
         user_declared_gender: toDbGender(request.user_declared_gender) // MODIFIED: Convert to DB gender enum
-      }
+      },
+      headers: traceHeaders(request.clientScanId)
     });
 
     logger.info('Face-semantic response received', {
@@ -134,7 +141,8 @@ export const faceScanRepo = {
           ...request.face_semantic_profile,
           gender: request.face_semantic_profile.gender ? toDbGender(request.face_semantic_profile.gender) : undefined // MODIFIED: Convert to DB gender enum
         }
-      }
+      },
+      headers: traceHeaders(request.clientScanId)
     });
 
     logger.info('Face-match response received', {
@@ -189,7 +197,8 @@ export const faceScanRepo = {
           ...request.face_semantic_profile,
           gender: request.face_semantic_profile.gender ? toDbGender(request.face_semantic_profile.gender) : undefined // MODIFIED: Convert to DB gender enum
         }
-      }
+      },
+      headers: traceHeaders(request.scan_id)
     });
 
     logger.info('Face-refine-morphs response received', {
@@ -240,7 +249,8 @@ export const faceScanRepo = {
       body: {
         ...request,
         resolvedGender: toDbGender(request.resolvedGender) // MODIFIED: Convert to DB gender enum
-      }
+      },
+      headers: traceHeaders(request.clientScanId)
     });
 
     logger.info('Face-commit response received', {
@@ -287,4 +297,39 @@ export const faceScanRepo = {
     
     return response.data;
   },
+
+  /**
+   * Upload a face scan photo; returns its path in the scan bucket
+   */
+  async uploadPhoto(userId: string, clientScanId: string, view: string, blob: Blob): Promise<string> {
+    const filePath = `face-scans/${userId}/${clientScanId}/${view}.jpg`;
+
+    const { error } = await supabase.storage
+      .from(FACE_PHOTO_BUCKET)
+      .upload(filePath, blob, {
+        cacheControl: '3600',
+        upsert: true
+      });
+
+    if (error) {
+      throw new Error(`Upload failed for ${view}: ${error.message}`);
+    }
+
+    return filePath;
+  },
+
+  /**
+   * Short-lived signed URL of an uploaded face photo, for the Edge Functions
+   */
+  async createPhotoUrl(filePath: string): Promise<string> {
+    const { data, error } = await supabase.storage
+      .from(FACE_PHOTO_BUCKET)
+      .createSignedUrl(filePath, FACE_PHOTO_URL_TTL_SECONDS);
+
+    if (error || !data?.signedUrl) {
+      throw new Error(`Signed URL failed for ${filePath}: ${error?.message || 'no URL returned'}`);
+    }
+
+    return data.signedUrl;
+  }
 };
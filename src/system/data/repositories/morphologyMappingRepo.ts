@@ -200,7 +200,7 @@ function getMorphPolicy(
 /**
  * Fallback mapping based on provided data to prevent crashes
  */
-function getFallbackMapping(): MorphologyMappingData {
+export function getFallbackMapping(): MorphologyMappingData {
   logger.warn('🔍 [MorphologyMappingRepo] Using fallback mapping data');
   
   return {
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const auth = vi.hoisted(() => ({
+  listener: null as null | ((event: string, session: { user: { id: string } } | null) => void),
+  sessionUserId: null as string | null,
+}));
+const invoke = vi.hoisted(() => vi.fn());
+
+vi.mock('../supabase/client', () => ({
+  supabase: {
+    auth: {
+      onAuthStateChange: (listener: typeof auth.listener) => {
+        auth.listener = listener;
+        return { data: { subscription: { unsubscribe: vi.fn() } } };
+      },
+      getSession: async () => ({
+        data: { session: auth.sessionUserId ? { user: { id: auth.sessionUserId } } : null },
+      }),
+    },
+    functions: { invoke },
+  },
+}));
+
+const { createRemoteLogTransport } = await import('./remoteLogTransport');
+
+const storage = new Map<string, string>();
+
+function signIn(userId: string | null) {
+  auth.sessionUserId = userId;
+  auth.listener?.(userId ? 'SIGNED_IN' : 'SIGNED_OUT', userId ? { user: { id: userId } } : null);
+}
+
+function shippedMessages(): string[] {
+  return invoke.mock.calls.flatMap(([, options]) => options.body.entries.map((entry: any) => entry.message));
+}
+
+beforeEach(() => {
+  storage.clear();
+  invoke.mockReset();
+  invoke.mockResolvedValue({ error: null });
+  auth.listener = null;
+  auth.sessionUserId = null;
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+  vi.stubGlobal('window', { addEventListener: vi.fn(), removeEventListener: vi.fn() });
+  vi.stubGlobal('document', { addEventListener: vi.fn(), removeEventListener: vi.fn(), visibilityState: 'visible' });
+  vi.stubGlobal('navigator', { onLine: true });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('createRemoteLogTransport', () => {
+  it('ships the entries logged during startup under the restored user', async () => {
+    const transport = createRemoteLogTransport();
+    transport.enqueue({ level: 'info', message: 'boot' });
+    signIn('user-a');
+
+    await transport.flush();
+    transport.stop();
+
+    expect(shippedMessages()).toEqual(['boot']);
+  });
+
+  it('buffers nothing while signed out', async () => {
+    const transport = createRemoteLogTransport();
+    signIn(null);
+    transport.enqueue({ level: 'info', message: 'signed out' });
+    signIn('user-a');
+
+    await transport.flush();
+    transport.stop();
+
+    expect(invoke).not.toHaveBeenCalled();
+  });
+
+  it('drops the previous account entries when another user signs in', async () => {
+    const transport = createRemoteLogTransport();
+    signIn('user-a');
+    transport.enqueue({ level: 'warn', message: 'from a' });
+    signIn('user-b');
+    transport.enqueue({ level: 'warn', message: 'from b' });
+
+    await transport.flush();
+    transport.stop();
+
+    expect(shippedMessages()).toEqual(['from b']);
+  });
+
+  it('does not resend another user buffer persisted on the device', async () => {
+    storage.set('remote_log_buffer', JSON.stringify([
+      { userId: 'user-a', payload: { level: 'warn', message: 'stored for a' } },
+      { level: 'warn', message: 'untagged' },
+    ]));
+
+    const transport = createRemoteLogTransport();
+    signIn('user-b');
+    await transport.flush();
+    transport.stop();
+
+    expect(invoke).not.toHaveBeenCalled();
+    expect(storage.has('remote_log_buffer')).toBe(false);
+  });
+
+  it('keeps the entries buffered when the session belongs to someone else', async () => {
+    const transport = createRemoteLogTransport();
+    signIn('user-a');
+    transport.enqueue({ level: 'warn', message: 'from a' });
+    auth.sessionUserId = 'user-b';
+
+    await transport.flush();
+    transport.stop();
+
+    expect(invoke).not.toHaveBeenCalled();
+  });
+});
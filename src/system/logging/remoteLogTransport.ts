@@ -0,0 +1,157 @@
+// src/system/logging/remoteLogTransport.ts
+/**
+ * Remote Log Transport
+ * Batches the scrubbed payloads handed over by the logger and ships them to the log-ingest
+ * Edge Function. The buffer is persisted in localStorage so logs written offline, or right
+ * before the tab closes, are sent on the next flush.
+ *
+ * log-ingest attributes rows to the caller, so each entry is tagged with the user signed in
+ * when it was logged: entries are only sent under that user, nothing is buffered while signed
+ * out, and other users' entries are dropped when the account changes (shared devices).
+ *
+ * Never logs through the logger: a failing send would otherwise feed itself.
+ */
+
+import { supabase } from '../supabase/client';
+import type { LogTransport } from '../../lib/utils/logger';
+
+const STORAGE_KEY = 'remote_log_buffer';
+/** Oldest entries are dropped past this size, e.g. after a long offline session */
+const MAX_BUFFERED_ENTRIES = 200;
+/** Must stay within the log-ingest limit per request */
+const BATCH_SIZE = 25;
+const FLUSH_INTERVAL_MS = 15 * 1000;
+
+type LogEntry = Record<string, any>;
+
+interface BufferedEntry {
+  /** Undefined while the stored session is being restored at startup */
+  userId?: string;
+  payload: LogEntry;
+}
+
+export interface RemoteLogTransport extends LogTransport {
+  flush(): Promise<void>;
+  stop(): void;
+}
+
+function readStoredBuffer(): BufferedEntry[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    const entries: unknown[] = stored ? JSON.parse(stored) : [];
+    // Untagged entries (older app versions) have no known owner
+    return entries.filter((entry): entry is BufferedEntry =>
+      typeof (entry as BufferedEntry)?.userId === 'string' && typeof (entry as BufferedEntry).payload === 'object'
+    );
+  } catch (error) {
+    console.warn('Failed to read buffered logs:', error);
+    return [];
+  }
+}
+
+function writeStoredBuffer(entries: BufferedEntry[]): void {
+  try {
+    if (entries.length === 0) {
+      localStorage.removeItem(STORAGE_KEY);
+    } else {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    }
+  } catch (error) {
+    console.warn('Failed to persist buffered logs:', error);
+  }
+}
+
+/**
+ * Create the transport and start its flush triggers: size threshold, interval,
+ * connectivity regained and tab hidden
+ */
+export function createRemoteLogTransport(): RemoteLogTransport {
+  let buffer = readStoredBuffer();
+  let isFlushing = false;
+  /** Undefined until the auth state is known, null when signed out */
+  let currentUserId: string | null | undefined;
+
+  /**
+   * Keep only the entries of the signed-in user; entries logged during startup belong to them
+   */
+  function setCurrentUser(userId: string | null) {
+    currentUserId = userId;
+    buffer = userId
+      ? buffer
+          .map((entry) => (entry.userId === undefined ? { ...entry, userId } : entry))
+          .filter((entry) => entry.userId === userId)
+      : [];
+    writeStoredBuffer(buffer.filter((entry) => entry.userId !== undefined));
+  }
+
+  async function flush(): Promise<void> {
+    if (isFlushing || !currentUserId || buffer.length === 0 || !navigator.onLine) return;
+    isFlushing = true;
+
+    try {
+      // log-ingest requires a user JWT and attributes the rows to it
+      const { data } = await supabase.auth.getSession();
+      if (data.session?.user.id !== currentUserId) return;
+
+      while (buffer.length > 0) {
+        const batch = buffer.slice(0, BATCH_SIZE);
+        const { error } = await supabase.functions.invoke('log-ingest', {
+          body: { entries: batch.map((entry) => entry.payload) },
+        });
+        if (error) {
+          console.warn('Failed to ship logs, keeping them buffered:', error.message);
+          return;
+        }
+
+        buffer = buffer.filter((entry) => !batch.includes(entry));
+        writeStoredBuffer(buffer);
+      }
+    } catch (error) {
+      console.warn('Failed to ship logs, keeping them buffered:', error);
+    } finally {
+      isFlushing = false;
+    }
+  }
+
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      flush();
+    }
+  };
+  const handleOnline = () => {
+    flush();
+  };
+
+  const { data: authListener } = supabase.auth.onAuthStateChange((_event, session) => {
+    setCurrentUser(session?.user.id ?? null);
+  });
+
+  window.addEventListener('online', handleOnline);
+  document.addEventListener('visibilitychange', handleVisibilityChange);
+  const intervalId = setInterval(flush, FLUSH_INTERVAL_MS);
+
+  return {
+    enqueue(payload: LogEntry) {
+      // Signed out: nobody to attribute the entry to
+      if (currentUserId === null) return;
+
+      buffer.push({ userId: currentUserId, payload });
+      if (buffer.length > MAX_BUFFERED_ENTRIES) {
+        buffer.splice(0, buffer.length - MAX_BUFFERED_ENTRIES);
+      }
+      // Startup entries are persisted once their user is known
+      writeStoredBuffer(buffer.filter((entry) => entry.userId !== undefined));
+
+      if (buffer.length >= BATCH_SIZE) {
+        flush();
+      }
+    },
+    flush,
+    stop() {
+      authListener.subscription.unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      clearInterval(intervalId);
+    },
+  };
+}
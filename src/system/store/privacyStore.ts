@@ -0,0 +1,33 @@
+/**
+ * Privacy Store - Préférences de confidentialité des photos de scan
+ * Conservée sur l'appareil : le choix s'applique à tous les scans suivants
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { PrivacyMaskMode } from '../../lib/image/privacyMask';
+
+interface PrivacyState {
+  /** Mask face and background on the device before any photo upload */
+  photoMasking: boolean;
+  maskMode: PrivacyMaskMode;
+
+  // Actions
+  setPhotoMasking: (enabled: boolean) => void;
+  setMaskMode: (mode: PrivacyMaskMode) => void;
+}
+
+export const usePrivacyStore = create<PrivacyState>()(
+  persist(
+    (set) => ({
+      photoMasking: false,
+      maskMode: 'blur',
+
+      setPhotoMasking: (enabled) => set({ photoMasking: enabled }),
+      setMaskMode: (mode) => set({ maskMode: mode }),
+    }),
+    {
+      name: 'fastlift:privacystore:main',
+    }
+  )
+);
@@ -2,6 +2,7 @@
 import { create } from 'zustand';
 import { ICONS } from '../../ui/icons/registry';
 import logger from '../../lib/utils/logger';
+import { getScanTraceId } from '../../lib/utils/trace';
 import { playSoundLegacy } from '../../hooks/useFeedback';
 
 // Detailed scan status steps for dynamic progression (Body Scan)
@@ -60,6 +61,7 @@ interface ProgressState {
   isActive: boolean;
   clientScanId: string | null;
   serverScanId: string | null;
+  traceId: string | null; // Trace id sent to every Edge Function of this scan
   currentStep: Step;
   overallProgress: number;
   phaseProgress: number;
@@ -126,6 +128,7 @@ export const useProgressStore = create<ProgressState>((set, get) => ({
   isActive: false,
   clientScanId: null,
   serverScanId: null,
+  traceId: null,
   currentStep: 'capture',
   overallProgress: 0,
   phaseProgress: 0,
@@ -181,6 +184,7 @@ export const useProgressStore = create<ProgressState>((set, get) => ({
       isActive: true,
       clientScanId,
       serverScanId: null, // Will be set later by commit
+      traceId: getScanTraceId(clientScanId), // Capture start: the scan trace begins here
       steps,
       totalSteps: steps.length,
       currentStep: 'capture',
@@ -560,6 +564,7 @@ export const useProgressStore = create<ProgressState>((set, get) => ({
       isActive: false,
       clientScanId: null,
       serverScanId: null,
+      traceId: null,
       currentStep: 'capture',
       overallProgress: 0,
       phaseProgress: 0,
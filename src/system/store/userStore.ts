@@ -80,7 +80,8 @@ type UserState = {
   setSessionInfo: (s: SessionInfo | null) => void;
   setAuthReady: (ready: boolean) => void;
   fetchProfile: () => Promise<void>;
-  setProfile: (updates: Partial<Profile>) => void;
+  /** null clears the profile, e.g. on sign-out */
+  setProfile: (updates: Partial<Profile> | null) => void;
   saveProfile: () => Promise<void>;
   updateProfile: (updates: Partial<Profile>) => Promise<void>;
 };
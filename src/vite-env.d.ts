@@ -1 +1,10 @@
 /// <reference types="vite/client" />
+
+interface Window {
+  /** Dev console access to the fixture recorder (VITE_FIXTURE_RECORD=1), see DataProvider */
+  __fixtures?: {
+    export: typeof import('./system/data/fixtures/fixtureRecorder').exportFixtureSession;
+    download: typeof import('./system/data/fixtures/fixtureRecorder').downloadFixtureSession;
+    clear: typeof import('./system/data/fixtures/fixtureRecorder').clearFixtureSession;
+  };
+}
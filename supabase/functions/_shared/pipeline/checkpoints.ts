@@ -0,0 +1,142 @@
+// supabase/functions/_shared/pipeline/checkpoints.ts
+import { createClient } from 'npm:@supabase/supabase-js@2.54.0';
+
+/**
+ * Scan pipeline checkpoints
+ * Persists the result of each paid vision stage under the client scan id so a
+ * retried pipeline (e.g. after a scan-match failure) resumes instead of re-analysing.
+ * Checkpointing is best effort: failures are logged and never fail the request.
+ */
+
+export type CheckpointStage = 'estimate' | 'semantic';
+
+const TABLE = 'scan_pipeline_checkpoints';
+const CHECKPOINT_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface CheckpointKey {
+  clientScanId: string;
+  userId: string;
+  stage: CheckpointStage;
+}
+
+let serviceClient: ReturnType<typeof createClient> | null = null;
+
+function getClient() {
+  if (serviceClient) return serviceClient;
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error('❌ [pipelineCheckpoints] Supabase configuration missing');
+    return null;
+  }
+
+  serviceClient = createClient(supabaseUrl, supabaseServiceKey, {
+    auth: { autoRefreshToken: false, persistSession: false }
+  });
+  return serviceClient;
+}
+
+/**
+ * Stable hash of the stage inputs (photo URLs + capture reports).
+ * Upload paths are reused per scan id, so a retake must not hit the previous checkpoint.
+ * Signed URL query strings (token, expiry) change on every signing and are left out.
+ */
+export async function hashStageInput(photos: Array<{ view: string; url: string; report?: unknown }>): Promise<string> {
+  const canonical = JSON.stringify(
+    [...photos]
+      .sort((a, b) => a.view.localeCompare(b.view))
+      .map((photo) => ({ view: photo.view, url: photo.url.split('?')[0], report: photo.report ?? null }))
+  );
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Load a stage result. Passing `inputHash` rejects checkpoints computed from other inputs.
+ */
+export async function loadCheckpoint<T = any>(
+  key: CheckpointKey & { inputHash?: string }
+): Promise<T | null> {
+  const supabase = getClient();
+  if (!supabase || !key.clientScanId || !key.userId) return null;
+
+  try {
+    const { data, error } = await supabase
+      .from(TABLE)
+      .select('input_hash, result, updated_at')
+      .eq('client_scan_id', key.clientScanId)
+      .eq('user_id', key.userId)
+      .eq('stage', key.stage)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+
+    if (Date.now() - new Date(data.updated_at).getTime() > CHECKPOINT_TTL_MS) {
+      console.log(`🔍 [pipelineCheckpoints] Checkpoint expired`, {
+        clientScanId: key.clientScanId,
+        stage: key.stage,
+        philosophy: 'checkpoint_ttl_expired'
+      });
+      return null;
+    }
+
+    if (key.inputHash && data.input_hash !== key.inputHash) {
+      console.log(`🔍 [pipelineCheckpoints] Checkpoint inputs changed, ignoring`, {
+        clientScanId: key.clientScanId,
+        stage: key.stage,
+        philosophy: 'checkpoint_input_mismatch'
+      });
+      return null;
+    }
+
+    console.log(`✅ [pipelineCheckpoints] Checkpoint found`, {
+      clientScanId: key.clientScanId,
+      stage: key.stage,
+      philosophy: 'resume_from_checkpoint'
+    });
+    return data.result as T;
+  } catch (error) {
+    console.warn(`⚠️ [pipelineCheckpoints] Failed to load checkpoint`, {
+      clientScanId: key.clientScanId,
+      stage: key.stage,
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return null;
+  }
+}
+
+export async function saveCheckpoint(
+  key: CheckpointKey & { inputHash: string },
+  result: unknown
+): Promise<void> {
+  const supabase = getClient();
+  if (!supabase || !key.clientScanId || !key.userId) return;
+
+  try {
+    const { error } = await supabase.from(TABLE).upsert({
+      client_scan_id: key.clientScanId,
+      user_id: key.userId,
+      stage: key.stage,
+      input_hash: key.inputHash,
+      result,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id,client_scan_id,stage' });
+
+    if (error) throw error;
+
+    console.log(`✅ [pipelineCheckpoints] Checkpoint saved`, {
+      clientScanId: key.clientScanId,
+      stage: key.stage
+    });
+  } catch (error) {
+    console.warn(`⚠️ [pipelineCheckpoints] Failed to save checkpoint`, {
+      clientScanId: key.clientScanId,
+      stage: key.stage,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const inserted = vi.hoisted(() => ({ rows: [] as Record<string, unknown>[], error: null as null | { message: string } }));
+
+vi.mock('./auth.ts', () => ({
+  getServiceRoleClient: async () => ({
+    from: () => ({
+      insert: async (row: Record<string, unknown>) => {
+        inserted.rows.push(row);
+        return { error: inserted.error };
+      },
+    }),
+  }),
+}));
+vi.spyOn(console, 'log').mockImplementation(() => undefined);
+vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+const { computeAiCostUsd, recordAiUsage } = await import('./aiUsage.ts');
+
+function usage(overrides: Record<string, unknown> = {}) {
+  return {
+    functionName: 'scan-estimate',
+    provider: 'openai',
+    model: 'gpt-4o-2024-08-06',
+    promptTokens: 1000,
+    completionTokens: 500,
+    latencyMs: 1234.6,
+    success: true,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  inserted.rows = [];
+  inserted.error = null;
+});
+
+describe('computeAiCostUsd', () => {
+  it('prices dated snapshots with their family and keeps mini models apart', () => {
+    expect(computeAiCostUsd('gpt-4o-2024-08-06', 1000, 500)).toBe(0.0075);
+    expect(computeAiCostUsd('gpt-4o-mini', 1000, 500)).toBe(0.00045);
+  });
+
+  it('has no price for unknown models, and counts missing token counts as zero', () => {
+    expect(computeAiCostUsd('llava-13b', 1000, 500)).toBeNull();
+    expect(computeAiCostUsd('gpt-4o', null, 500)).toBe(0.005);
+  });
+});
+
+describe('recordAiUsage', () => {
+  it('stores tokens, rounded latency and cost', async () => {
+    await recordAiUsage(usage({ userId: 'user-1', clientScanId: 'scan-1' }));
+
+    expect(inserted.rows[0]).toMatchObject({
+      function_name: 'scan-estimate',
+      user_id: 'user-1',
+      client_scan_id: 'scan-1',
+      total_tokens: 1500,
+      latency_ms: 1235,
+      cost_usd: 0.0075,
+      success: true,
+    });
+  });
+
+  it('bills fixture calls nothing and keeps unknown token counts null', async () => {
+    await recordAiUsage(usage({ provider: 'fixture', promptTokens: null, completionTokens: null }));
+
+    expect(inserted.rows[0]).toMatchObject({ cost_usd: 0, total_tokens: null });
+  });
+
+  it('never fails the request it accounts for', async () => {
+    inserted.error = { message: 'relation "ai_usage" does not exist' };
+
+    await expect(recordAiUsage(usage())).resolves.toBeUndefined();
+  });
+});
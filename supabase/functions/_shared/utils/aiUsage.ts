@@ -0,0 +1,126 @@
+// supabase/functions/_shared/utils/aiUsage.ts
+
+/**
+ * AI cost accounting: one `ai_usage` row per model call, with token counts, latency and
+ * the computed cost. Vision calls are recorded by the provider wrapper
+ * (_shared/vision/usageRecording.ts); functions calling OpenAI directly call recordAiUsage.
+ */
+
+import { getServiceRoleClient } from './auth.ts';
+
+/** Who and what a call is billed to; serverScanId is backfilled by scan-commit */
+export interface AiUsageContext {
+  userId?: string | null;
+  clientScanId?: string | null;
+  serverScanId?: string | null;
+}
+
+export interface AiUsageEntry extends AiUsageContext {
+  functionName: string;
+  provider: string;
+  model: string;
+  promptTokens: number | null;
+  completionTokens: number | null;
+  latencyMs: number;
+  success: boolean;
+  error?: string | null;
+  traceId?: string | null;
+}
+
+/**
+ * USD per 1M tokens. Matched by prefix so dated snapshots (gpt-4o-2024-08-06) use their
+ * family price; longer prefixes first so gpt-4o-mini is not billed as gpt-4o.
+ */
+const MODEL_PRICING_PER_MILLION: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: 'gpt-4o-mini', input: 0.15, output: 0.6 },
+  { prefix: 'gpt-4o', input: 2.5, output: 10 },
+  { prefix: 'gpt-4.1-mini', input: 0.4, output: 1.6 },
+  { prefix: 'gpt-4.1', input: 2, output: 8 },
+];
+
+/**
+ * Cost of a call in USD; null when the model has no known price (self-hosted or new model)
+ */
+export function computeAiCostUsd(
+  model: string,
+  promptTokens: number | null,
+  completionTokens: number | null
+): number | null {
+  const pricing = MODEL_PRICING_PER_MILLION.find((entry) => model.startsWith(entry.prefix));
+  if (!pricing) return null;
+  const cost = ((promptTokens || 0) * pricing.input + (completionTokens || 0) * pricing.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
+
+/**
+ * Store one AI call. Never throws: accounting must not fail the request it accounts for.
+ */
+export async function recordAiUsage(entry: AiUsageEntry): Promise<void> {
+  const costUsd = entry.provider === 'fixture'
+    ? 0
+    : computeAiCostUsd(entry.model, entry.promptTokens, entry.completionTokens);
+
+  try {
+    const supabase = await getServiceRoleClient();
+    const { error } = await supabase.from('ai_usage').insert({
+      function_name: entry.functionName,
+      provider: entry.provider,
+      model: entry.model,
+      user_id: entry.userId || null,
+      client_scan_id: entry.clientScanId || null,
+      server_scan_id: entry.serverScanId || null,
+      prompt_tokens: entry.promptTokens,
+      completion_tokens: entry.completionTokens,
+      total_tokens: entry.promptTokens === null && entry.completionTokens === null
+        ? null
+        : (entry.promptTokens || 0) + (entry.completionTokens || 0),
+      latency_ms: Math.round(entry.latencyMs),
+      cost_usd: costUsd,
+      success: entry.success,
+      error: entry.error ? entry.error.substring(0, 500) : null,
+      trace_id: entry.traceId || null,
+    });
+    if (error) throw new Error(error.message);
+  } catch (error) {
+    console.error('❌ [aiUsage] Failed to record AI usage', {
+      functionName: entry.functionName,
+      model: entry.model,
+      costUsd,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return;
+  }
+
+  console.log('💰 [aiUsage] AI call recorded', {
+    functionName: entry.functionName,
+    model: entry.model,
+    promptTokens: entry.promptTokens,
+    completionTokens: entry.completionTokens,
+    latencyMs: Math.round(entry.latencyMs),
+    costUsd,
+    clientScanId: entry.clientScanId,
+    philosophy: 'ai_cost_accounting',
+  });
+}
+
+/**
+ * Attach the server scan id to the calls made while a scan was processed
+ */
+export async function linkAiUsageToScan(userId: string, clientScanId: string, serverScanId: string): Promise<void> {
+  try {
+    const supabase = await getServiceRoleClient();
+    const { error } = await supabase
+      .from('ai_usage')
+      .update({ server_scan_id: serverScanId })
+      .eq('user_id', userId)
+      .eq('client_scan_id', clientScanId)
+      .is('server_scan_id', null);
+    if (error) throw new Error(error.message);
+  } catch (error) {
+    console.warn('⚠️ [aiUsage] Failed to link AI usage to scan', {
+      clientScanId,
+      serverScanId,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+}
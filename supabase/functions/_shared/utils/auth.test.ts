@@ -0,0 +1,132 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuthContext } from './auth.ts';
+
+const SERVICE_KEY = 'service-role-key';
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const CLIENT_ID = '00000000-0000-4000-8000-000000000002';
+const CORS = { 'Access-Control-Allow-Origin': '*' };
+
+const backend = vi.hoisted(() => ({
+  /** Token → auth user returned by auth.getUser */
+  users: new Map<string, { id: string; app_metadata: Record<string, string> }>(),
+  /** coach_id:client_id pairs of coach_clients */
+  assignments: new Set<string>(),
+}));
+
+vi.mock('npm:@supabase/supabase-js@2.54.0', () => ({
+  createClient: () => ({
+    auth: {
+      getUser: async (token: string) => {
+        const user = backend.users.get(token);
+        return user ? { data: { user }, error: null } : { data: { user: null }, error: { message: 'invalid JWT' } };
+      },
+    },
+    from: () => {
+      const filters: Record<string, string> = {};
+      const query = {
+        select: () => query,
+        eq: (column: string, value: string) => {
+          filters[column] = value;
+          return query;
+        },
+        maybeSingle: async () => ({
+          data: backend.assignments.has(`${filters.coach_id}:${filters.client_id}`) ? { client_id: filters.client_id } : null,
+          error: null,
+        }),
+      };
+      return query;
+    },
+  }),
+}));
+
+vi.stubGlobal('Deno', {
+  env: { get: (name: string) => ({ SUPABASE_URL: 'http://supabase.test', SUPABASE_SERVICE_ROLE_KEY: SERVICE_KEY })[name] },
+});
+vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+const { withAuth } = await import('./auth.ts');
+
+function request(token: string | null, { method = 'POST', query = '', body }: { method?: string; query?: string; body?: unknown } = {}) {
+  return new Request(`http://supabase.test/functions/v1/test${query}`, {
+    method,
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+/** Handler echoing the verified context */
+const echo = vi.fn(async (_req: Request, auth: AuthContext) => new Response(JSON.stringify(auth)));
+
+beforeEach(() => {
+  echo.mockClear();
+  backend.users.clear();
+  backend.assignments.clear();
+  backend.users.set('user-token', { id: USER_ID, app_metadata: { plan: 'pro' } });
+  backend.users.set('coach-token', { id: 'coach-1', app_metadata: { role: 'coach' } });
+  backend.users.set('admin-token', { id: 'admin-1', app_metadata: { role: 'admin' } });
+  // Roles outside coach/admin in app_metadata grant nothing
+  backend.users.set('forged-token', { id: 'forged-1', app_metadata: { role: 'service' } });
+});
+
+describe('withAuth', () => {
+  it('rejects calls without a valid token before the handler runs', async () => {
+    const handler = withAuth(echo, { corsHeaders: CORS });
+
+    expect((await handler(request(null))).status).toBe(401);
+    expect((await handler(request('expired-token'))).status).toBe(401);
+    expect(echo).not.toHaveBeenCalled();
+  });
+
+  it('passes the verified caller, whatever user the payload names', async () => {
+    const response = await withAuth(echo, { corsHeaders: CORS })(request('user-token', { body: { user_id: USER_ID } }));
+
+    expect(await response.json()).toEqual({ caller: { userId: USER_ID, role: 'user', plan: 'pro' }, userId: USER_ID });
+    expect((await withAuth(echo, { corsHeaders: CORS })(request('user-token', { body: { user_id: CLIENT_ID } }))).status)
+      .toBe(403);
+  });
+
+  it('lets a coach read an assigned client, never write', async () => {
+    backend.assignments.add(`coach-1:${CLIENT_ID}`);
+    const read = withAuth(echo, { corsHeaders: CORS, access: 'read' });
+
+    expect(await (await read(request('coach-token', { method: 'GET', query: `?user_id=${CLIENT_ID}` }))).json())
+      .toMatchObject({ userId: CLIENT_ID });
+    expect((await read(request('coach-token', { method: 'GET', query: '?user_id=someone-else' }))).status).toBe(403);
+    expect((await withAuth(echo, { corsHeaders: CORS })(request('coach-token', { body: { user_id: CLIENT_ID } }))).status)
+      .toBe(403);
+  });
+
+  it('does not grant roles from app_metadata outside coach and admin', async () => {
+    const response = await withAuth(echo, { corsHeaders: CORS })(request('forged-token'));
+
+    expect(await response.json()).toMatchObject({ caller: { role: 'user' } });
+  });
+
+  it('recognizes the service role key and applies the allowed roles', async () => {
+    const serviceOnly = withAuth(echo, { corsHeaders: CORS, roles: ['service'] });
+
+    expect(await (await serviceOnly(request(SERVICE_KEY, { body: { user_id: CLIENT_ID } }))).json()).toEqual({
+      caller: { userId: null, role: 'service', plan: 'service' },
+      userId: CLIENT_ID,
+    });
+    expect((await serviceOnly(request('user-token'))).status).toBe(403);
+    expect((await withAuth(echo, { corsHeaders: CORS })(request(SERVICE_KEY))).status).toBe(403);
+  });
+
+  it('answers preflights without a token', async () => {
+    const response = await withAuth(echo, { corsHeaders: CORS })(request(null, { method: 'OPTIONS' }));
+
+    expect(response.status).toBe(200);
+    expect(echo).toHaveBeenCalledOnce();
+  });
+
+  it('grants the admin role from app_metadata for admin-only functions', async () => {
+    const adminOnly = withAuth(echo, { corsHeaders: CORS, roles: ['admin'] });
+
+    expect(await (await adminOnly(request('admin-token', { method: 'GET' }))).json()).toMatchObject({
+      caller: { userId: 'admin-1', role: 'admin' },
+    });
+    expect((await adminOnly(request('user-token', { method: 'GET' }))).status).toBe(403);
+    expect((await adminOnly(request('coach-token', { method: 'GET' }))).status).toBe(403);
+  });
+});
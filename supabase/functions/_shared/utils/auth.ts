@@ -0,0 +1,187 @@
+// supabase/functions/_shared/utils/auth.ts
+
+/**
+ * Caller identity for edge functions.
+ * Every function runs with the service role client and bypasses RLS, so the user a request
+ * acts on must come from a verified JWT, never from the payload alone. `withAuth` verifies the
+ * token, then checks that the `user_id` of the request (if any) is the caller, or a client
+ * assigned to the caller when a coach reads data (`coach_clients`).
+ */
+
+/** `coach` and `admin` are granted through `app_metadata.role`, which only the service role can write */
+export type CallerRole = 'user' | 'coach' | 'admin' | 'service';
+
+const GRANTED_ROLES: CallerRole[] = ['coach', 'admin'];
+
+export type AccessMode = 'read' | 'write';
+
+export interface Caller {
+  userId: string | null;
+  role: CallerRole;
+  /** Subscription plan from `app_metadata.plan`, used for AI quotas (see quota.ts) */
+  plan: string;
+}
+
+export interface AuthContext {
+  caller: Caller;
+  /** Verified user the request acts on: the caller, or an assigned client of a coach */
+  userId: string | null;
+}
+
+export interface AuthOptions {
+  corsHeaders: Record<string, string>;
+  /** Coaches may only read their clients' data; writes stay limited to the caller */
+  access?: AccessMode;
+  /** Roles allowed to call the function (default: every signed-in user, not the service role) */
+  roles?: CallerRole[];
+  /** Where the request names its user (default: `user_id` query parameter, then JSON body) */
+  requestedUserId?: (req: Request, body: any) => string | null | undefined;
+}
+
+export class AuthError extends Error {
+  constructor(message: string, public readonly status: 401 | 403) {
+    super(message);
+    this.name = 'AuthError';
+  }
+}
+
+let serviceRoleClient: any = null;
+
+/**
+ * Service role client shared by the _shared helpers of a function instance
+ */
+export async function getServiceRoleClient() {
+  if (!serviceRoleClient) {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL');
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase configuration missing');
+    }
+    const { createClient } = await import('npm:@supabase/supabase-js@2.54.0');
+    serviceRoleClient = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+  }
+  return serviceRoleClient;
+}
+
+function defaultRequestedUserId(req: Request, body: any) {
+  return new URL(req.url).searchParams.get('user_id') ?? body?.user_id;
+}
+
+/**
+ * Verify the bearer token of the request: the service role key or a user JWT
+ */
+export async function authenticateCaller(req: Request): Promise<Caller> {
+  const token = req.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    throw new AuthError('Authentication required', 401);
+  }
+
+  if (token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+    return { userId: null, role: 'service', plan: 'service' };
+  }
+
+  const supabase = await getServiceRoleClient();
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) {
+    throw new AuthError('Invalid or expired token', 401);
+  }
+
+  return {
+    userId: data.user.id,
+    role: GRANTED_ROLES.includes(data.user.app_metadata?.role) ? data.user.app_metadata.role : 'user',
+    plan: data.user.app_metadata?.plan || 'free',
+  };
+}
+
+async function isAssignedCoach(coachId: string, clientId: string): Promise<boolean> {
+  const supabase = await getServiceRoleClient();
+  const { data, error } = await supabase
+    .from('coach_clients')
+    .select('client_id')
+    .eq('coach_id', coachId)
+    .eq('client_id', clientId)
+    .maybeSingle();
+  if (error) {
+    throw new Error(`Failed to check coach assignment: ${error.message}`);
+  }
+  return !!data;
+}
+
+/**
+ * Resolve the user a request may act on, or throw a 403
+ */
+export async function authorizeUserAccess(
+  caller: Caller,
+  requestedUserId: string | null | undefined,
+  access: AccessMode
+): Promise<string | null> {
+  if (caller.role === 'service') {
+    return requestedUserId ?? null;
+  }
+  if (!requestedUserId || requestedUserId === caller.userId) {
+    return caller.userId;
+  }
+  if (access === 'read' && caller.role === 'coach' && (await isAssignedCoach(caller.userId!, requestedUserId))) {
+    return requestedUserId;
+  }
+  throw new AuthError('Access to this user is not allowed', 403);
+}
+
+/**
+ * Wrap a Deno.serve handler with caller verification.
+ * OPTIONS preflights go straight to the handler; rejected calls never reach it.
+ */
+export function withAuth(
+  handler: (req: Request, auth: AuthContext) => Response | Promise<Response>,
+  options: AuthOptions
+) {
+  const { corsHeaders, access = 'write', roles = ['user', 'coach', 'admin'] } = options;
+  const requestedUserId = options.requestedUserId ?? defaultRequestedUserId;
+
+  return async (req: Request): Promise<Response> => {
+    if (req.method === 'OPTIONS') {
+      return handler(req, { caller: { userId: null, role: 'user', plan: 'free' }, userId: null });
+    }
+
+    try {
+      const caller = await authenticateCaller(req);
+      if (!roles.includes(caller.role)) {
+        throw new AuthError('Caller role not allowed', 403);
+      }
+
+      const body = req.method === 'GET' ? null : await req.clone().json().catch(() => null);
+      const userId = await authorizeUserAccess(caller, requestedUserId(req, body), access);
+
+      return handler(req, { caller, userId });
+    } catch (error) {
+      const isAuthError = error instanceof AuthError;
+      if (isAuthError) {
+        console.warn('⚠️ [auth] Request rejected', {
+          status: error.status,
+          reason: error.message,
+          path: new URL(req.url).pathname,
+          philosophy: 'jwt_verified_caller_identity',
+        });
+      } else {
+        console.error('❌ [auth] Caller verification failed', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+        });
+      }
+
+      return new Response(JSON.stringify({
+        error: isAuthError ? error.message : 'Caller verification failed',
+      }), {
+        status: isAuthError ? error.status : 500,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+        },
+      });
+    }
+  };
+}
@@ -0,0 +1,55 @@
+// supabase/functions/_shared/utils/captureViews.ts
+
+/** Views a body scan can send besides the required front and profile photos */
+export const ADDITIONAL_CAPTURE_VIEWS = ['back', 'threequarter'] as const;
+
+export type AdditionalCaptureView = typeof ADDITIONAL_CAPTURE_VIEWS[number];
+export type CaptureView = 'front' | 'profile' | AdditionalCaptureView;
+
+export interface CapturePhoto {
+  view: CaptureView;
+  url: string;
+  report?: any;
+}
+
+const VIEW_LABELS: Record<CaptureView, string> = {
+  front: 'face',
+  profile: 'profil',
+  back: 'dos',
+  threequarter: 'trois-quarts',
+};
+
+/** What each optional view adds to the analysis, for the vision prompts */
+const VIEW_FOCUS: Record<AdditionalCaptureView, string> = {
+  back: 'largeur du dos et des épaules vue de derrière, volume et galbe des fessiers, posture (alignement épaules/bassin, scoliose apparente)',
+  threequarter: 'projection des fessiers et de l\'abdomen, profondeur de la poitrine, courbure lombaire',
+};
+
+/**
+ * Optional views present in the request, in a stable order; photos without URL are ignored
+ */
+export function pickAdditionalPhotos(photos: CapturePhoto[] | null | undefined): CapturePhoto[] {
+  return ADDITIONAL_CAPTURE_VIEWS
+    .map((view) => photos?.find((photo) => photo.view === view && !!photo.url))
+    .filter((photo): photo is CapturePhoto => !!photo);
+}
+
+/** French label of a view, e.g. "trois-quarts" */
+export function viewLabel(view: CaptureView): string {
+  return VIEW_LABELS[view] ?? view;
+}
+
+/**
+ * Prompt block describing the optional views appended after the front/profile images
+ */
+export function describeAdditionalViews(views: CaptureView[], firstImageIndex: number): string {
+  const additional = views.filter((view): view is AdditionalCaptureView =>
+    (ADDITIONAL_CAPTURE_VIEWS as readonly string[]).includes(view)
+  );
+  if (additional.length === 0) return '';
+
+  const lines = additional.map((view, index) =>
+    `- Image ${firstImageIndex + index} = vue de ${VIEW_LABELS[view]} : utilise-la pour ${VIEW_FOCUS[view]}`
+  );
+  return `\nVUES COMPLÉMENTAIRES:\n${lines.join('\n')}\nCroise ces vues avec face/profil ; en cas de désaccord, privilégie la vue où la zone est la plus visible.\n`;
+}
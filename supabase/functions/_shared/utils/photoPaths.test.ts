@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { photoStoragePath, photosMetadata } from './photoPaths.ts';
+
+const SIGNED_URL =
+  'https://abc.supabase.co/storage/v1/object/sign/body-scans/scans/u1/scan-1/front.jpg?token=secret&expires=1';
+
+describe('photoStoragePath', () => {
+  it('prefers the path sent by the client', () => {
+    expect(photoStoragePath({ view: 'front', url: SIGNED_URL, path: 'scans/u1/scan-1/front.jpg' })).toBe('scans/u1/scan-1/front.jpg');
+  });
+
+  it('reads the path out of a signed URL without its token', () => {
+    expect(photoStoragePath({ view: 'front', url: SIGNED_URL })).toBe('scans/u1/scan-1/front.jpg');
+  });
+
+  it('never returns inline image data', () => {
+    expect(photoStoragePath({ view: 'front', url: 'data:image/jpeg;base64,AAAA' })).toBeNull();
+    expect(photoStoragePath(null)).toBeNull();
+  });
+});
+
+describe('photosMetadata', () => {
+  it('keeps the view, path and report only', () => {
+    expect(photosMetadata([{ view: 'front', url: SIGNED_URL, report: { quality: { blur_score: 0.1 } } }])).toEqual([
+      { view: 'front', path: 'scans/u1/scan-1/front.jpg', report: { quality: { blur_score: 0.1 } } },
+    ]);
+  });
+});
@@ -0,0 +1,37 @@
+// supabase/functions/_shared/utils/photoPaths.ts
+
+/** Signed and public Storage URLs: /storage/v1/object/{sign|public}/{bucket}/{path} */
+const STORAGE_OBJECT_URL = /\/storage\/v1\/object\/(?:sign|public)\/[^/]+\/(.+)$/;
+
+export interface StoredPhoto {
+  view: string;
+  url?: string;
+  /** Path in the scan bucket, sent by clients since photos are signed */
+  path?: string;
+  report?: unknown;
+}
+
+/**
+ * Storage path of a scan photo, safe to log and persist: signed URLs carry an access
+ * token in their query string and stop working once expired.
+ */
+export function photoStoragePath(photo: StoredPhoto | null | undefined): string | null {
+  if (!photo) return null;
+  if (typeof photo.path === 'string' && photo.path) return photo.path;
+  // Inline images have no storage location, and their content is the photo itself
+  if (typeof photo.url !== 'string' || !photo.url || /^(data|blob):/.test(photo.url)) return null;
+  const withoutQuery = photo.url.split('?')[0];
+  const match = withoutQuery.match(STORAGE_OBJECT_URL);
+  return match ? decodeURIComponent(match[1]) : withoutQuery;
+}
+
+/**
+ * Photos as persisted with a scan: view, storage path and capture report, never the URL
+ */
+export function photosMetadata(photos: StoredPhoto[]): Array<{ view: string; path: string | null; report: unknown }> {
+  return photos.map((photo) => ({
+    view: photo.view,
+    path: photoStoragePath(photo),
+    report: photo.report ?? null,
+  }));
+}
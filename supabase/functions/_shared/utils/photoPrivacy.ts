@@ -0,0 +1,36 @@
+// supabase/functions/_shared/utils/photoPrivacy.ts
+
+import { viewLabel, type CaptureView } from './captureViews.ts';
+
+/** Capture report fields written by the client privacy mode */
+interface PrivacyCaptureReport {
+  privacy?: {
+    masked?: boolean;
+    mode?: 'blur' | 'replace';
+  } | null;
+}
+
+export interface ReportedPhoto {
+  view: CaptureView;
+  report?: PrivacyCaptureReport | null;
+}
+
+/**
+ * Views whose photo had the face and background masked on the user's device
+ */
+export function maskedViews(photos: ReportedPhoto[]): CaptureView[] {
+  return photos.filter((photo) => photo.report?.privacy?.masked === true).map((photo) => photo.view);
+}
+
+/**
+ * Prompt block telling the vision model which photos are masked; empty when none is
+ */
+export function describePrivacyMasking(photos: ReportedPhoto[]): string {
+  const masked = photos.filter((photo) => photo.report?.privacy?.masked === true);
+  if (masked.length === 0) return '';
+
+  const replaced = masked.some((photo) => photo.report?.privacy?.mode === 'replace');
+  return `\nPHOTOS MASQUÉES (mode confidentialité) : ${masked.map((photo) => viewLabel(photo.view)).join('/')}.
+Le visage et l'arrière-plan ont été ${replaced ? 'floutés ou remplacés par un gris uni' : 'floutés'} sur l'appareil ; la silhouette du corps est intacte.
+Base-toi uniquement sur le contour et les volumes du corps, ignore les zones masquées et ne les signale pas comme un défaut de qualité. La couleur de peau est mesurée côté client : ne l'estime pas depuis ces images.\n`;
+}
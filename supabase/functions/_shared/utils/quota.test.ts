@@ -0,0 +1,156 @@
+import { readFileSync } from 'node:fs';
+import { PGlite } from '@electric-sql/pglite';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuthContext } from './auth.ts';
+import type { QuotaFeature } from './quota.ts';
+
+const db = new PGlite();
+
+// consume_ai_quota runs on an in-process Postgres with the real migration
+vi.mock('./auth.ts', () => ({
+  getServiceRoleClient: async () => ({
+    rpc: async (fn: string, args: Record<string, unknown>) => {
+      try {
+        const { rows } = await db.query<{ decision: unknown }>(
+          `SELECT ${fn}($1, $2, $3, $4, $5) AS decision`,
+          [args.p_user_id, args.p_feature, args.p_plan, args.p_request_key, args.p_recompute]
+        );
+        return { data: rows[0].decision, error: null };
+      } catch (error) {
+        return { data: null, error: { message: (error as Error).message } };
+      }
+    },
+  }),
+}));
+
+const { enforceQuota } = await import('./quota.ts');
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const CORS = { 'Access-Control-Allow-Origin': '*' };
+
+function userAuth(plan = 'free'): AuthContext {
+  return { caller: { userId: USER_ID, role: 'user', plan }, userId: USER_ID };
+}
+
+async function setLimits(feature: string, daily: number, monthly: number) {
+  await db.query('UPDATE ai_quota_limits SET daily_limit = $1, monthly_limit = $2 WHERE plan = $3 AND feature = $4', [
+    daily,
+    monthly,
+    'free',
+    feature,
+  ]);
+}
+
+async function countedUses() {
+  const { rows } = await db.query<{ count: number }>('SELECT count(*)::int AS count FROM ai_quota_events');
+  return rows[0].count;
+}
+
+beforeAll(async () => {
+  await db.exec(`
+    CREATE ROLE anon;
+    CREATE ROLE authenticated;
+    CREATE ROLE service_role;
+    CREATE SCHEMA auth;
+    CREATE TABLE auth.users (id uuid PRIMARY KEY);
+    CREATE FUNCTION auth.uid() RETURNS uuid LANGUAGE sql AS $$ SELECT NULL::uuid $$;
+  `);
+  await db.exec(readFileSync(new URL('../../../migrations/20250924090000_ai_usage_quotas.sql', import.meta.url), 'utf8'));
+  await db.query('INSERT INTO auth.users (id) VALUES ($1)', [USER_ID]);
+});
+
+afterAll(async () => {
+  await db.close();
+});
+
+beforeEach(async () => {
+  await db.exec('DELETE FROM ai_quota_events');
+  await setLimits('scan', 3, 20);
+});
+
+describe('enforceQuota', () => {
+  it('counts an allowed use and lets the call through', async () => {
+    expect(await enforceQuota(userAuth(), 'scan', 'scan-a', CORS)).toBeNull();
+    expect(await countedUses()).toBe(1);
+  });
+
+  it('does not meter service role calls', async () => {
+    const auth: AuthContext = { caller: { userId: null, role: 'service', plan: 'free' }, userId: USER_ID };
+    expect(await enforceQuota(auth, 'scan', null, CORS)).toBeNull();
+    expect(await countedUses()).toBe(0);
+  });
+
+  it('blocks past the daily limit with a 429 reset at the next UTC day', async () => {
+    await setLimits('scan', 1, 20);
+    await enforceQuota(userAuth(), 'scan', 'scan-a', CORS);
+
+    const response = await enforceQuota(userAuth(), 'scan', 'scan-b', CORS);
+    expect(response?.status).toBe(429);
+    const body = await response!.json();
+    expect(body).toMatchObject({ error: 'quota_exceeded', period: 'day', limit: 1, used: 1 });
+
+    const nextDay = new Date();
+    nextDay.setUTCHours(24, 0, 0, 0);
+    expect(Date.parse(body.reset_at)).toBe(nextDay.getTime());
+    expect(Number(response!.headers.get('Retry-After'))).toBe(body.retry_after_seconds);
+    expect(await countedUses()).toBe(1);
+  });
+
+  it('checks the monthly limit first, reset at the next UTC month', async () => {
+    await setLimits('scan', 1, 1);
+    await enforceQuota(userAuth(), 'scan', 'scan-a', CORS);
+
+    const body = await (await enforceQuota(userAuth(), 'scan', 'scan-b', CORS))!.json();
+    expect(body).toMatchObject({ period: 'month', limit: 1, used: 1 });
+
+    const now = new Date();
+    expect(Date.parse(body.reset_at)).toBe(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  });
+
+  it('lets the call through when the quota check fails', async () => {
+    expect(await enforceQuota(userAuth(), 'unknown' as unknown as QuotaFeature, 'scan-a', CORS)).toBeNull();
+  });
+});
+
+describe('request key sharing', () => {
+  it('shares one counted use between the stages of a scan, even at the limit', async () => {
+    await setLimits('scan', 1, 20);
+    expect(await enforceQuota(userAuth(), 'scan', 'scan-a', CORS)).toBeNull();
+    expect(await enforceQuota(userAuth(), 'scan', 'scan-a', CORS)).toBeNull();
+    expect(await enforceQuota(userAuth(), 'scan', 'scan-a', CORS)).toBeNull();
+    expect(await countedUses()).toBe(1);
+  });
+
+  it('counts a forced recompute as a new use', async () => {
+    await enforceQuota(userAuth(), 'scan', 'scan-a', CORS);
+    expect(await enforceQuota(userAuth(), 'scan', 'scan-a', CORS, { recompute: true })).toBeNull();
+    expect(await countedUses()).toBe(2);
+
+    await setLimits('scan', 2, 20);
+    expect((await enforceQuota(userAuth(), 'scan', 'scan-a', CORS, { recompute: true }))?.status).toBe(429);
+  });
+
+  it('counts again once the key has served 10 calls', async () => {
+    for (let call = 0; call < 10; call++) {
+      await enforceQuota(userAuth(), 'scan', 'scan-a', CORS);
+    }
+    expect(await countedUses()).toBe(1);
+
+    await enforceQuota(userAuth(), 'scan', 'scan-a', CORS);
+    expect(await countedUses()).toBe(2);
+  });
+
+  it('counts again after 24 hours', async () => {
+    await enforceQuota(userAuth(), 'scan', 'scan-a', CORS);
+    await db.exec(`UPDATE ai_quota_events SET created_at = now() - interval '25 hours'`);
+
+    await enforceQuota(userAuth(), 'scan', 'scan-a', CORS);
+    expect(await countedUses()).toBe(2);
+  });
+
+  it('does not share a use across features', async () => {
+    await enforceQuota(userAuth(), 'scan', 'scan-a', CORS);
+    await enforceQuota(userAuth(), 'insights', 'scan-a', CORS);
+    expect(await countedUses()).toBe(2);
+  });
+});
@@ -0,0 +1,102 @@
+// supabase/functions/_shared/utils/quota.ts
+
+/**
+ * Per-user quotas of the AI-backed edge functions (paid OpenAI calls).
+ * Limits live in `ai_quota_limits` per plan; `consume_ai_quota` counts a use atomically.
+ * Every stage of one scan passes the same client scan id, so its stages and retries share one
+ * counted use. The id comes from the client: the sharing is bounded in time and calls (see the
+ * migration), and a forced recompute always counts.
+ */
+
+import { getServiceRoleClient, type AuthContext } from './auth.ts';
+
+export type QuotaFeature = 'scan' | 'face_scan' | 'insights';
+
+export interface QuotaDecision {
+  allowed: boolean;
+  plan: string;
+  feature: QuotaFeature;
+  period: 'day' | 'month';
+  limit: number;
+  used: number;
+  reset_at: string;
+}
+
+export interface QuotaOptions {
+  /** Cached results were bypassed on request: the call is a new use even with a known key */
+  recompute?: boolean;
+}
+
+/**
+ * Count one use of a feature for the verified user, or return the 429 to send back.
+ * Service role calls are not metered. A quota lookup failure lets the call through:
+ * a database hiccup must not block scans, and it is logged for follow-up.
+ */
+export async function enforceQuota(
+  auth: AuthContext,
+  feature: QuotaFeature,
+  requestKey: string | null | undefined,
+  corsHeaders: Record<string, string>,
+  options: QuotaOptions = {}
+): Promise<Response | null> {
+  if (auth.caller.role === 'service' || !auth.userId) {
+    return null;
+  }
+
+  let decision: QuotaDecision;
+  try {
+    const supabase = await getServiceRoleClient();
+    const { data, error } = await supabase.rpc('consume_ai_quota', {
+      p_user_id: auth.userId,
+      p_feature: feature,
+      p_plan: auth.caller.plan,
+      p_request_key: requestKey || null,
+      p_recompute: options.recompute === true,
+    });
+    if (error) throw new Error(error.message);
+    decision = data;
+  } catch (error) {
+    console.error('❌ [quota] Quota check failed, call allowed', {
+      userId: auth.userId,
+      feature,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return null;
+  }
+
+  if (decision.allowed) {
+    return null;
+  }
+
+  const retryAfterSeconds = Math.max(1, Math.ceil((Date.parse(decision.reset_at) - Date.now()) / 1000));
+
+  console.warn('⚠️ [quota] Quota exceeded', {
+    userId: auth.userId,
+    plan: decision.plan,
+    feature,
+    period: decision.period,
+    limit: decision.limit,
+    used: decision.used,
+    resetAt: decision.reset_at,
+    philosophy: 'per_user_ai_cost_limit',
+  });
+
+  return new Response(JSON.stringify({
+    error: 'quota_exceeded',
+    message: `${feature} limit reached (${decision.limit} per ${decision.period})`,
+    feature,
+    plan: decision.plan,
+    period: decision.period,
+    limit: decision.limit,
+    used: decision.used,
+    reset_at: decision.reset_at,
+    retry_after_seconds: retryAfterSeconds,
+  }), {
+    status: 429,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+      "Retry-After": String(retryAfterSeconds),
+    },
+  });
+}
@@ -0,0 +1,107 @@
+// supabase/functions/_shared/utils/trace.ts
+
+/**
+ * End-to-end scan tracing. The client creates one trace id per scan at capture and sends it
+ * in the `x-trace-id` header of every scan call (src/lib/utils/trace.ts); each function logs
+ * under that id and returns it in its response, with the timing of each processing stage.
+ */
+
+export const TRACE_HEADER = 'x-trace-id';
+
+/** The id ends up in logs and ai_usage rows: only short, plain ids are adopted from the client */
+const TRACE_ID_PATTERN = /^[A-Za-z0-9_.:-]{8,128}$/;
+
+export interface TraceSpan {
+  name: string;
+  /** Offset from the start of the request */
+  start_ms: number;
+  duration_ms: number;
+  success: boolean;
+}
+
+/** Spread into response bodies */
+export interface TraceResponseFields {
+  trace_id: string;
+  trace: {
+    propagated: boolean;
+    total_ms: number;
+    spans: TraceSpan[];
+  };
+}
+
+export interface RequestTrace {
+  traceId: string;
+  /** False when the request carried no usable header and the id was generated here */
+  propagated: boolean;
+  /** Time one stage; the span is kept, flagged as failed, when the stage throws */
+  span<T>(name: string, run: () => Promise<T> | T): Promise<T>;
+  elapsedMs(): number;
+  toResponse(): TraceResponseFields;
+}
+
+function roundMs(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Trace id sent by the client, or a generated one for calls made outside the app
+ * (curl, scheduled jobs, older clients)
+ */
+export function resolveTraceId(req: Request): { traceId: string; propagated: boolean } {
+  const header = req.headers.get(TRACE_HEADER)?.trim();
+  if (header && TRACE_ID_PATTERN.test(header)) {
+    return { traceId: header, propagated: true };
+  }
+  return {
+    traceId: `trace_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+    propagated: false,
+  };
+}
+
+/**
+ * Start tracing a request; `functionName` tags the span logs like the function's own logs
+ */
+export function startRequestTrace(req: Request, functionName: string): RequestTrace {
+  const startedAt = performance.now();
+  const { traceId, propagated } = resolveTraceId(req);
+  const spans: TraceSpan[] = [];
+
+  const elapsedMs = () => roundMs(performance.now() - startedAt);
+
+  return {
+    traceId,
+    propagated,
+    elapsedMs,
+    async span<T>(name: string, run: () => Promise<T> | T): Promise<T> {
+      const spanStart = performance.now();
+      let success = false;
+      try {
+        const result = await run();
+        success = true;
+        return result;
+      } finally {
+        const span = {
+          name,
+          start_ms: roundMs(spanStart - startedAt),
+          duration_ms: roundMs(performance.now() - spanStart),
+          success,
+        };
+        spans.push(span);
+        console.log(`⏱️ [${functionName}] [${traceId}] Span ${name}`, {
+          durationMs: span.duration_ms,
+          success,
+        });
+      }
+    },
+    toResponse(): TraceResponseFields {
+      return {
+        trace_id: traceId,
+        trace: {
+          propagated,
+          total_ms: elapsedMs(),
+          spans: [...spans],
+        },
+      };
+    },
+  };
+}
@@ -0,0 +1,94 @@
+// supabase/functions/_shared/utils/userData.ts
+
+/**
+ * User data inventory for the GDPR functions (user-data-export, user-data-delete).
+ * Every table holding rows keyed by user_id and every storage folder of the user is
+ * listed here, so export and deletion cannot drift apart: a new table goes in this list.
+ */
+
+import type { createClient } from 'npm:@supabase/supabase-js@2.54.0';
+
+type SupabaseClient = ReturnType<typeof createClient>;
+
+export const PHOTO_BUCKET = 'body-scans';
+
+/** Per-user folders of the photo bucket: `<prefix>/<user_id>/<client_scan_id>/<view>.jpg` */
+export const PHOTO_FOLDER_PREFIXES = ['scans', 'face-scans'] as const;
+
+export interface UserDataTable {
+  table: string;
+  /** File name of the table in the export archive */
+  exportName: string;
+}
+
+/**
+ * Children first: deleting in this order never trips a foreign key.
+ * Not listed: `ai_usage` keeps the cost history and loses its user_id when the account goes (ON DELETE SET NULL).
+ */
+export const USER_DATA_TABLES: UserDataTable[] = [
+  { table: 'scan_pipeline_checkpoints', exportName: 'pipeline_checkpoints.json' },
+  { table: 'body_scan_reference_measurements', exportName: 'reference_measurements.json' },
+  { table: 'body_scans', exportName: 'body_scans.json' },
+  { table: 'user_face_profiles', exportName: 'face_profiles.json' },
+  { table: 'ai_quota_events', exportName: 'ai_quota_events.json' },
+  { table: 'client_logs', exportName: 'client_logs.json' },
+  { table: 'user_profile', exportName: 'profile.json' },
+];
+
+/** Entry of a Storage list(): folders have no id */
+interface StorageEntry {
+  id: string | null;
+  name: string;
+}
+
+/** Storage list() page size, the API maximum */
+const LIST_PAGE_SIZE = 1000;
+
+async function listFolder(supabase: SupabaseClient, path: string): Promise<StorageEntry[]> {
+  const entries: StorageEntry[] = [];
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage.from(PHOTO_BUCKET).list(path, {
+      limit: LIST_PAGE_SIZE,
+      offset,
+    });
+    if (error) throw new Error(`Failed to list ${path}: ${error.message}`);
+    entries.push(...(data || []));
+    if (!data || data.length < LIST_PAGE_SIZE) return entries;
+  }
+}
+
+/**
+ * Paths of every photo the user has in the bucket, scan folders included
+ */
+export async function listUserPhotoPaths(supabase: SupabaseClient, userId: string): Promise<string[]> {
+  const paths: string[] = [];
+  for (const prefix of PHOTO_FOLDER_PREFIXES) {
+    const root = `${prefix}/${userId}`;
+    for (const entry of await listFolder(supabase, root)) {
+      // Folders (one per client scan id) have no id
+      if (entry.id) {
+        paths.push(`${root}/${entry.name}`);
+        continue;
+      }
+      for (const file of await listFolder(supabase, `${root}/${entry.name}`)) {
+        if (file.id) paths.push(`${root}/${entry.name}/${file.name}`);
+      }
+    }
+  }
+  return paths;
+}
+
+/**
+ * Row count per user data table; a failed count is reported as -1
+ */
+export async function countUserRows(supabase: SupabaseClient, userId: string): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  for (const { table } of USER_DATA_TABLES) {
+    const { count, error } = await supabase
+      .from(table)
+      .select('user_id', { count: 'exact', head: true })
+      .eq('user_id', userId);
+    counts[table] = error ? -1 : count ?? 0;
+  }
+  return counts;
+}
@@ -0,0 +1,142 @@
+// supabase/functions/_shared/vision/fixtureProvider.ts
+import type { VisionProvider, VisionRequest, VisionResponse, VisionTask } from './types.ts';
+
+/**
+ * Built-in replies, shaped exactly like what each analyzer expects from the model.
+ * height_cm/weight_kg are omitted on purpose so analyzers fall back to the
+ * user-declared metrics and the fixture stays valid for any test profile.
+ */
+const BUILTIN_FIXTURES: Record<VisionTask, Record<string, unknown>> = {
+  'scan-estimate': {
+    keypoints: {
+      front: [[0.5, 0.12, 0.9], [0.38, 0.24, 0.9], [0.62, 0.24, 0.9], [0.42, 0.46, 0.85], [0.58, 0.46, 0.85], [0.44, 0.72, 0.8], [0.56, 0.72, 0.8]],
+      profile: [[0.5, 0.12, 0.9], [0.5, 0.24, 0.85], [0.52, 0.46, 0.85], [0.5, 0.72, 0.8]]
+    },
+    measurements: {
+      waist_cm: 82,
+      hips_cm: 98,
+      chest_cm: 96,
+      estimated_body_fat_perc: 20,
+      estimated_muscle_mass_kg: 32
+    },
+    skin_tone: {
+      r: 198,
+      g: 160,
+      b: 135,
+      confidence: 0.8,
+      region_used: 'face_detected'
+    },
+    confidence: {
+      vision: 0.85,
+      fit: 0.8
+    },
+    quality_assessment: {
+      photo_quality: 0.85,
+      pose_quality: 0.85
+    },
+    scale_method: 'body-proportion',
+    pixel_per_cm: 4.5
+  },
+  'scan-semantic': {
+    pearFigure: 0,
+    emaciated: 0,
+    bodybuilderSize: 0,
+    bodybuilderDetails: 0,
+    bigHips: 0,
+    assLarge: 0,
+    narrowWaist: 0,
+    superBreast: 0,
+    breastsSmall: 0,
+    pregnant: 0,
+    animeWaist: 0,
+    breastsSag: 0,
+    dollBody: 0,
+    animeProportion: 0,
+    animeNeck: 0,
+    nipples: 0,
+    muscularity_level: 0.5,
+    adiposity_level: 0.4,
+    body_types: ['REC'],
+    body_shape_primary: 'REC',
+    muscle_definition: 0.4,
+    fat_distribution: 'even',
+    region_scores: {
+      shoulders_width: 0,
+      chest_depth: 0,
+      waist_circ: 0,
+      hips_width: 0,
+      glutes_projection: 0
+    },
+    flags: {
+      clothes_baggy: false,
+      arms_away_from_body: true,
+      hair_volume_high: false,
+      posture_good: true,
+      lighting_adequate: true
+    },
+    confidence: {
+      semantic: 0.8
+    }
+  },
+  'face-semantic': {
+    face_shape: 'oval',
+    eye_shape: 'almond',
+    nose_type: 'straight',
+    lip_fullness: 'average',
+    confidence: {
+      semantic: 0.8,
+      face_detection: 0.9
+    }
+  }
+};
+
+/**
+ * Deterministic provider for CI/offline runs: never touches the network.
+ * Replies come from `${VISION_FIXTURE_DIR}/${task}.json` when present,
+ * otherwise from the built-in fixtures above.
+ */
+export function createFixtureProvider(): VisionProvider {
+  const fixtureDir = Deno.env.get('VISION_FIXTURE_DIR');
+
+  return {
+    name: 'fixture',
+    model: 'fixture',
+    async complete(request: VisionRequest): Promise<VisionResponse> {
+      let content: string | null = null;
+
+      if (fixtureDir) {
+        const path = `${fixtureDir.replace(/\/+$/, '')}/${request.task}.json`;
+        try {
+          content = await Deno.readTextFile(path);
+        } catch (error) {
+          console.warn(`⚠️ [visionProvider:fixture] [${request.traceId || 'unknown'}] Fixture file not readable, using built-in fixture`, {
+            path,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+
+      if (content === null) {
+        content = JSON.stringify(BUILTIN_FIXTURES[request.task]);
+      }
+
+      console.log(`🔍 [visionProvider:fixture] [${request.traceId || 'unknown'}] Replaying fixture`, {
+        task: request.task,
+        imagesIgnored: request.imageUrls.length,
+        source: fixtureDir ? 'fixture_dir_or_builtin' : 'builtin'
+      });
+
+      return {
+        content,
+        provider: 'fixture',
+        model: 'fixture',
+        usage: {
+          prompt_tokens: 0,
+          completion_tokens: 0,
+          total_tokens: 0
+        },
+        finishReason: 'stop'
+      };
+    }
+  };
+}
@@ -0,0 +1,120 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { VisionRequest } from './types.ts';
+
+const recordAiUsage = vi.hoisted(() => vi.fn());
+const env = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('../utils/aiUsage.ts', () => ({ recordAiUsage }));
+
+const { getVisionProvider, VisionProviderError } = await import('./index.ts');
+
+function visionRequest(overrides: Partial<VisionRequest> = {}): VisionRequest {
+  return {
+    task: 'scan-estimate',
+    prompt: 'Estimate the measurements',
+    imageUrls: ['https://storage.test/front.jpg', 'https://storage.test/profile.jpg'],
+    maxTokens: 1000,
+    temperature: 0.1,
+    jsonResponse: true,
+    usageContext: { userId: 'user-1', clientScanId: 'scan-1' },
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  env.clear();
+  recordAiUsage.mockReset();
+  vi.stubGlobal('Deno', {
+    env: { get: (name: string) => env.get(name) },
+    readTextFile: async () => {
+      throw new Error('not found');
+    },
+  });
+  vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('getVisionProvider', () => {
+  it('defaults to OpenAI and requires its key', () => {
+    expect(() => getVisionProvider()).toThrow('OpenAI API key not configured');
+
+    env.set('OPENAI_API_KEY', 'sk-test');
+    expect(getVisionProvider()).toMatchObject({ name: 'openai', model: 'gpt-4o' });
+  });
+
+  it('selects the provider and model from the environment', () => {
+    env.set('VISION_PROVIDER', 'openai-compatible');
+    env.set('VISION_BASE_URL', 'http://localhost:11434/v1');
+    env.set('VISION_MODEL', 'llava');
+
+    expect(getVisionProvider()).toMatchObject({ name: 'openai-compatible', model: 'llava' });
+  });
+
+  it('rejects an unknown provider', () => {
+    env.set('VISION_PROVIDER', 'carrier-pigeon');
+
+    expect(() => getVisionProvider()).toThrow('Unknown VISION_PROVIDER: carrier-pigeon');
+  });
+});
+
+describe('chat completions provider', () => {
+  beforeEach(() => {
+    env.set('VISION_PROVIDER', 'openai-compatible');
+    env.set('VISION_BASE_URL', 'http://localhost:11434/v1/');
+  });
+
+  it('sends the prompt and every image, and records the usage', async () => {
+    const fetchMock = vi.fn(async () => new Response(JSON.stringify({
+      model: 'gpt-4o-2024-08-06',
+      choices: [{ message: { content: '{"waist_cm":80}' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 900, completion_tokens: 100, total_tokens: 1000 },
+    })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await getVisionProvider().complete(visionRequest());
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const body = JSON.parse(init.body as string);
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(body.messages[0].content.map((part: { type: string }) => part.type)).toEqual(['text', 'image_url', 'image_url']);
+    expect(body.response_format).toEqual({ type: 'json_object' });
+    expect(response).toMatchObject({ content: '{"waist_cm":80}', model: 'gpt-4o-2024-08-06', finishReason: 'stop' });
+    expect(recordAiUsage).toHaveBeenCalledWith(expect.objectContaining({
+      functionName: 'scan-estimate',
+      userId: 'user-1',
+      promptTokens: 900,
+      completionTokens: 100,
+      success: true,
+    }));
+  });
+
+  it('raises a VisionProviderError with the upstream status, recorded as a failed call', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('rate limited', { status: 429, statusText: 'Too Many Requests' })));
+
+    const error = await getVisionProvider().complete(visionRequest()).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(VisionProviderError);
+    expect(error).toMatchObject({ status: 429, body: 'rate limited', provider: 'openai-compatible' });
+    expect(recordAiUsage).toHaveBeenCalledWith(expect.objectContaining({ success: false }));
+  });
+});
+
+describe('fixture provider', () => {
+  it('replies with the built-in fixture of the task without any network call', async () => {
+    env.set('VISION_PROVIDER', 'fixture');
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const response = await getVisionProvider().complete(visionRequest({ task: 'face-semantic' }));
+
+    expect(JSON.parse(response.content)).toMatchObject({ face_shape: 'oval' });
+    expect(response.usage).toEqual({ prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,33 @@
+// supabase/functions/_shared/vision/index.ts
+import type { VisionProvider } from './types.ts';
+import { createOpenAIProvider, createOpenAICompatibleProvider } from './openaiProvider.ts';
+import { createFixtureProvider } from './fixtureProvider.ts';
+import { withUsageRecording } from './usageRecording.ts';
+
+export type { VisionProvider, VisionRequest, VisionResponse, VisionTask, VisionUsage } from './types.ts';
+export { VisionProviderError } from './types.ts';
+
+/**
+ * Resolve the vision provider from the environment.
+ *   VISION_PROVIDER = openai (default) | openai-compatible | fixture
+ *   VISION_MODEL    = model override (default gpt-4o)
+ *   VISION_BASE_URL / VISION_API_KEY  for openai-compatible
+ *   VISION_FIXTURE_DIR                for fixture
+ * Every call is recorded in `ai_usage` (tokens, latency, cost).
+ */
+export function getVisionProvider(): VisionProvider {
+  const providerName = (Deno.env.get('VISION_PROVIDER') || 'openai').toLowerCase();
+  const model = Deno.env.get('VISION_MODEL') || undefined;
+
+  switch (providerName) {
+    case 'openai':
+      return withUsageRecording(createOpenAIProvider(model));
+    case 'openai-compatible':
+    case 'local':
+      return withUsageRecording(createOpenAICompatibleProvider(model));
+    case 'fixture':
+      return withUsageRecording(createFixtureProvider());
+    default:
+      throw new Error(`Unknown VISION_PROVIDER: ${providerName}`);
+  }
+}
@@ -0,0 +1,130 @@
+// supabase/functions/_shared/vision/openaiProvider.ts
+import type { VisionProvider, VisionRequest, VisionResponse } from './types.ts';
+import { VisionProviderError } from './types.ts';
+
+const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+const OPENAI_DEFAULT_MODEL = 'gpt-4o';
+
+interface ChatCompletionsConfig {
+  name: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string | null;
+}
+
+/**
+ * Vision provider speaking the OpenAI `/chat/completions` protocol.
+ * Used both for api.openai.com and for self-hosted OpenAI-compatible
+ * servers (vLLM, Ollama, LM Studio...) which only differ by base URL/key.
+ */
+export function createChatCompletionsProvider(config: ChatCompletionsConfig): VisionProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  return {
+    name: config.name,
+    model: config.model,
+    async complete(request: VisionRequest): Promise<VisionResponse> {
+      const content: Array<Record<string, unknown>> = [
+        {
+          type: 'text',
+          text: request.prompt
+        }
+      ];
+      for (const url of request.imageUrls) {
+        content.push({
+          type: 'image_url',
+          image_url: {
+            url
+          }
+        });
+      }
+
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json'
+      };
+      if (config.apiKey) {
+        headers['Authorization'] = `Bearer ${config.apiKey}`;
+      }
+
+      const body: Record<string, unknown> = {
+        model: config.model,
+        messages: [
+          {
+            role: 'user',
+            content
+          }
+        ],
+        max_tokens: request.maxTokens,
+        temperature: request.temperature
+      };
+      if (request.jsonResponse) {
+        body.response_format = {
+          type: 'json_object'
+        };
+      }
+
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(body)
+      });
+
+      if (!response.ok) {
+        const errorBody = await response.text();
+        console.error(`❌ [visionProvider:${config.name}] [${request.traceId || 'unknown'}] API error:`, {
+          task: request.task,
+          status: response.status,
+          statusText: response.statusText,
+          body: errorBody.substring(0, 500)
+        });
+        throw new VisionProviderError(
+          `${config.name} API error: ${response.status} - ${response.statusText}`,
+          config.name,
+          response.status,
+          errorBody
+        );
+      }
+
+      const result = await response.json();
+      return {
+        content: result.choices?.[0]?.message?.content ?? '',
+        provider: config.name,
+        model: result.model || config.model,
+        usage: result.usage ?? null,
+        finishReason: result.choices?.[0]?.finish_reason ?? null
+      };
+    }
+  };
+}
+
+/**
+ * Hosted OpenAI provider (default)
+ */
+export function createOpenAIProvider(model?: string): VisionProvider {
+  const apiKey = Deno.env.get('OPENAI_API_KEY');
+  if (!apiKey) {
+    throw new Error('OpenAI API key not configured');
+  }
+  return createChatCompletionsProvider({
+    name: 'openai',
+    baseUrl: OPENAI_BASE_URL,
+    model: model || OPENAI_DEFAULT_MODEL,
+    apiKey
+  });
+}
+
+/**
+ * Local/self-hosted OpenAI-compatible endpoint (VISION_BASE_URL)
+ */
+export function createOpenAICompatibleProvider(model?: string): VisionProvider {
+  const baseUrl = Deno.env.get('VISION_BASE_URL');
+  if (!baseUrl) {
+    throw new Error('VISION_BASE_URL is required for the openai-compatible vision provider');
+  }
+  return createChatCompletionsProvider({
+    name: 'openai-compatible',
+    baseUrl,
+    model: model || OPENAI_DEFAULT_MODEL,
+    apiKey: Deno.env.get('VISION_API_KEY') || null
+  });
+}
@@ -0,0 +1,60 @@
+// supabase/functions/_shared/vision/types.ts
+import type { AiUsageContext } from '../utils/aiUsage.ts';
+
+/** Which pipeline step is asking; fixture providers key their replies on it */
+export type VisionTask = 'scan-estimate' | 'scan-semantic' | 'face-semantic';
+
+export interface VisionRequest {
+  task: VisionTask;
+  prompt: string;
+  imageUrls: string[];
+  maxTokens: number;
+  temperature: number;
+  /** Ask the model for a JSON object (OpenAI response_format json_object) */
+  jsonResponse?: boolean;
+  traceId?: string;
+  /** User and scan the call is billed to in `ai_usage` */
+  usageContext?: AiUsageContext;
+}
+
+export interface VisionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
+export interface VisionResponse {
+  /** Raw text content returned by the model (usually a JSON string) */
+  content: string;
+  provider: string;
+  model: string;
+  usage: VisionUsage | null;
+  finishReason: string | null;
+}
+
+/**
+ * Common contract for every vision backend used by the edge functions.
+ * Providers only move text + image URLs in and raw text out; prompt
+ * building and response parsing stay in each function's analyzer.
+ */
+export interface VisionProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: VisionRequest): Promise<VisionResponse>;
+}
+
+/**
+ * Raised when the upstream API answers with a non-2xx status.
+ * Analyzers map `status`/`body` to their own user-facing messages.
+ */
+export class VisionProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: string,
+    public readonly status: number,
+    public readonly body: string
+  ) {
+    super(message);
+    this.name = 'VisionProviderError';
+  }
+}
@@ -0,0 +1,46 @@
+// supabase/functions/_shared/vision/usageRecording.ts
+import type { VisionProvider, VisionRequest, VisionResponse } from './types.ts';
+import { recordAiUsage } from '../utils/aiUsage.ts';
+
+/**
+ * Wrap a provider so every completion, failed ones included, lands in `ai_usage`.
+ * The request task doubles as the function name (scan-estimate, scan-semantic, face-semantic).
+ */
+export function withUsageRecording(provider: VisionProvider): VisionProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    async complete(request: VisionRequest): Promise<VisionResponse> {
+      const startedAt = performance.now();
+      try {
+        const response = await provider.complete(request);
+        await recordAiUsage({
+          ...request.usageContext,
+          functionName: request.task,
+          provider: response.provider,
+          model: response.model,
+          promptTokens: response.usage?.prompt_tokens ?? null,
+          completionTokens: response.usage?.completion_tokens ?? null,
+          latencyMs: performance.now() - startedAt,
+          success: true,
+          traceId: request.traceId,
+        });
+        return response;
+      } catch (error) {
+        await recordAiUsage({
+          ...request.usageContext,
+          functionName: request.task,
+          provider: provider.name,
+          model: provider.model,
+          promptTokens: null,
+          completionTokens: null,
+          latencyMs: performance.now() - startedAt,
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          traceId: request.traceId,
+        });
+        throw error;
+      }
+    }
+  };
+}
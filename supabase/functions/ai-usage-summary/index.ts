@@ -0,0 +1,98 @@
+import { jsonResponse, corsHeaders } from './response.ts';
+import { resolveDateRange, summarizeAiUsage } from './usageSummary.ts';
+import { withAuth } from '../_shared/utils/auth.ts';
+
+/**
+ * AI Usage Summary Edge Function - Admin reporting
+ * OpenAI spend (calls, tokens, cost) by day and by function over `from`..`to` (UTC dates, inclusive).
+ * Restricted to admins (`app_metadata.role = 'admin'`) and the service role.
+ */
+Deno.serve(withAuth(async (req, auth) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "GET") {
+    return jsonResponse(
+      {
+        error: "Method not allowed",
+      },
+      405
+    );
+  }
+
+  const traceId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  const url = new URL(req.url);
+  const range = resolveDateRange(url.searchParams.get('from'), url.searchParams.get('to'));
+  if (range.error) {
+    return jsonResponse(
+      {
+        error: range.error,
+      },
+      400
+    );
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error('❌ [ai-usage-summary] Missing Supabase configuration', {
+      hasUrl: !!supabaseUrl,
+      hasServiceKey: !!supabaseServiceKey,
+    });
+    return jsonResponse(
+      {
+        error: "Supabase configuration missing",
+      },
+      500
+    );
+  }
+
+  try {
+    const { createClient } = await import('npm:@supabase/supabase-js@2.54.0');
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    const summary = await summarizeAiUsage(supabase, range.from, range.to);
+
+    console.log(`✅ [ai-usage-summary] [${traceId}] Summary built`, {
+      from: range.from,
+      to: range.to,
+      callerRole: auth.caller.role,
+      calls: summary.totals.calls,
+      costUsd: summary.totals.cost_usd,
+      durationMs: Date.now() - startTime,
+      philosophy: 'ai_cost_accounting',
+    });
+
+    return jsonResponse({
+      ...summary,
+      trace_id: traceId,
+    });
+  } catch (error) {
+    console.error(`❌ [ai-usage-summary] [${traceId}] Summary failed`, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      durationMs: Date.now() - startTime,
+    });
+    return jsonResponse(
+      {
+        error: error instanceof Error ? error.message : 'Summary failed',
+        trace_id: traceId,
+      },
+      500
+    );
+  }
+}, {
+  corsHeaders,
+  roles: ['admin', 'service'],
+}));
@@ -0,0 +1,100 @@
+/**
+ * Usage Summary
+ * Aggregates the daily rows of ai_usage_daily_summary into totals, per-day and per-function views
+ */ /** Longest range one request may cover */ const MAX_RANGE_DAYS = 366;
+const DEFAULT_RANGE_DAYS = 30;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+function toDateString(date) {
+  return date.toISOString().slice(0, 10);
+}
+/**
+ * Resolve `from`/`to` (YYYY-MM-DD, UTC, inclusive) with the last 30 days as default
+ */ export function resolveDateRange(fromParam, toParam) {
+  if (fromParam && !DATE_PATTERN.test(fromParam) || toParam && !DATE_PATTERN.test(toParam)) {
+    return {
+      error: 'from and to must be dates formatted as YYYY-MM-DD'
+    };
+  }
+  const to = toParam || toDateString(new Date());
+  const from = fromParam || toDateString(new Date(Date.parse(to) - (DEFAULT_RANGE_DAYS - 1) * 86400000));
+  const rangeDays = (Date.parse(to) - Date.parse(from)) / 86400000 + 1;
+  if (!(rangeDays >= 1)) {
+    return {
+      error: 'from must not be after to'
+    };
+  }
+  if (rangeDays > MAX_RANGE_DAYS) {
+    return {
+      error: `Date range limited to ${MAX_RANGE_DAYS} days`
+    };
+  }
+  return {
+    from,
+    to
+  };
+}
+function emptyBucket() {
+  return {
+    calls: 0,
+    failed_calls: 0,
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    cost_usd: 0,
+    unpriced_calls: 0
+  };
+}
+function addRow(bucket, row) {
+  bucket.calls += Number(row.calls);
+  bucket.failed_calls += Number(row.failed_calls);
+  bucket.prompt_tokens += Number(row.prompt_tokens);
+  bucket.completion_tokens += Number(row.completion_tokens);
+  bucket.cost_usd += Number(row.cost_usd);
+  bucket.unpriced_calls += Number(row.unpriced_calls);
+}
+function roundCost(bucket) {
+  return {
+    ...bucket,
+    cost_usd: Math.round(bucket.cost_usd * 10000) / 10000
+  };
+}
+/**
+ * Summary of the AI spend between two dates (inclusive)
+ */ export async function summarizeAiUsage(supabase, from, to) {
+  const { data, error } = await supabase.rpc('ai_usage_daily_summary', {
+    p_from: from,
+    p_to: to
+  });
+  if (error) {
+    throw new Error(`Failed to read AI usage: ${error.message}`);
+  }
+  const rows = data || [];
+  const totals = emptyBucket();
+  const byDay = new Map();
+  const byFunction = new Map();
+  for (const row of rows){
+    addRow(totals, row);
+    if (!byDay.has(row.day)) byDay.set(row.day, emptyBucket());
+    addRow(byDay.get(row.day), row);
+    if (!byFunction.has(row.function_name)) byFunction.set(row.function_name, emptyBucket());
+    addRow(byFunction.get(row.function_name), row);
+  }
+  return {
+    from,
+    to,
+    currency: 'USD',
+    totals: roundCost(totals),
+    by_day: [
+      ...byDay.entries()
+    ].map(([day, bucket])=>({
+        day,
+        ...roundCost(bucket)
+      })),
+    by_function: [
+      ...byFunction.entries()
+    ].map(([function_name, bucket])=>({
+        function_name,
+        ...roundCost(bucket)
+      })).sort((a, b)=>b.cost_usd - a.cost_usd),
+    rows
+  };
+}
@@ -4,12 +4,15 @@ import { validateCommitRequest } from './requestValidator.ts';
 import { storeFaceScanData } from './faceDataStorage.ts';
 import { updateUserProfile } from './profileUpdater.ts';
 import { toDbGender } from '../_shared/utils/toDbGender.ts'; // MODIFIED: Import toDbGender
+import { withAuth } from '../_shared/utils/auth.ts';
+import { linkAiUsageToScan } from '../_shared/utils/aiUsage.ts';
+import { startRequestTrace } from '../_shared/utils/trace.ts';
 
 /**
  * Face Commit Edge Function - Final Persistence
  * Stores complete face scan results with all metadata
  */
-Deno.serve(async (req) => {
+Deno.serve(withAuth(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -27,11 +30,15 @@ Deno.serve(async (req) => {
     );
   }
 
+  const trace = startRequestTrace(req, 'face-commit');
+  const traceId = trace.traceId;
+
   try {
     // Generate unique scan ID first
     const scanId = crypto.randomUUID();
-    console.log('🔍 [face-commit] Generated scan ID', {
+    console.log(`🔍 [face-commit] [${traceId}] Generated scan ID`, {
       scanId,
+      tracePropagated: trace.propagated,
     });
 
     // Parse and validate request
@@ -39,10 +46,11 @@ Deno.serve(async (req) => {
     const validationError = validateCommitRequest(requestData);
 
     if (validationError) {
-      console.error('❌ [face-commit] Request validation failed:', validationError);
+      console.error(`❌ [face-commit] [${traceId}] Request validation failed:`, validationError);
       return jsonResponse(
         {
           error: validationError,
+          ...trace.toResponse(),
         },
         400
       );
@@ -71,10 +79,11 @@ Deno.serve(async (req) => {
         scan_id: scanId,
         processing_complete: true,
         mock_mode: true,
+        ...trace.toResponse(),
       });
     }
 
-    console.log('📥 [face-commit] Request received - detailed data audit', {
+    console.log(`📥 [face-commit] [${traceId}] Request received - detailed data audit`, {
       user_id,
       resolvedGender,
       hasEstimateResult: !!estimate_result,
@@ -117,7 +126,7 @@ Deno.serve(async (req) => {
     });
 
     // Store face scan data in user_face_profiles
-    const faceScanRecord = await storeFaceScanData(supabase, scanId, {
+    const faceScanRecord = await trace.span('scan_storage', () => storeFaceScanData(supabase, scanId, {
       user_id,
       estimate_result,
       semantic_result,
@@ -127,30 +136,40 @@ Deno.serve(async (req) => {
       resolvedGender: toDbGender(resolvedGender), // MODIFIED: Convert to DB gender enum
       skin_tone,
       clientScanId,
-    });
+    }));
+
+    // AI calls were recorded under the client scan id only: attach them to the stored face scan
+    if (clientScanId) {
+      await trace.span('ai_usage_link', () => linkAiUsageToScan(user_id, clientScanId, faceScanRecord.id));
+    }
 
     // Update user profile's active_face_profile_id and preferences
-    await updateUserProfile(supabase, user_id, faceScanRecord.id, refine_result, estimate_result, skin_tone);
+    await trace.span('profile_update', () => updateUserProfile(supabase, user_id, faceScanRecord.id, refine_result, estimate_result, skin_tone));
 
-    console.log('✅ [face-commit] Face scan committed successfully and user profile updated', {
+    console.log(`✅ [face-commit] [${traceId}] Face scan committed successfully and user profile updated`, {
       scanId: faceScanRecord.id,
       userId: user_id,
+      durationMs: trace.elapsedMs(),
     });
 
     return jsonResponse({
       success: true,
       scan_id: faceScanRecord.id,
       processing_complete: true,
+      ...trace.toResponse(),
     });
   } catch (error) {
-    console.error('❌ [face-commit] Commit failed:', error);
+    console.error(`❌ [face-commit] [${traceId}] Commit failed:`, error);
     return jsonResponse(
       {
         error: "Internal server error",
         details: error instanceof Error ? error.message : "Unknown error",
+        ...trace.toResponse(),
       },
       500
     );
   }
-});
+}, {
+  corsHeaders,
+}));
 
@@ -1,12 +1,14 @@
 import { corsHeaders, jsonResponse } from './response.ts';
 import { validateFaceMatchRequest } from './requestValidator.ts';
 import { toDbGender } from '../_shared/utils/toDbGender.ts'; // MODIFIED: Import toDbGender
+import { withAuth } from '../_shared/utils/auth.ts';
+import { startRequestTrace } from '../_shared/utils/trace.ts';
 
 /**
  * Face Match Edge Function - DB-First Architecture
  * Finds K=5 closest face archetypes and builds envelope
  */
-Deno.serve(async (req) => {
+Deno.serve(withAuth(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
       status: 200,
@@ -20,21 +22,27 @@ Deno.serve(async (req) => {
     }, 405);
   }
 
+  const trace = startRequestTrace(req, 'face-match');
+  const traceId = trace.traceId;
+
   try {
     // Parse and validate request
     const requestData = await req.json();
     const validationError = validateFaceMatchRequest(requestData);
 
     if (validationError) {
-      console.error('❌ [face-match] Request validation failed:', validationError);
+      console.error(`❌ [face-match] [${traceId}] Request validation failed:`, validationError);
       return jsonResponse({
-        error: validationError
+        error: validationError,
+        ...trace.toResponse()
       }, 400);
     }
 
     const { user_id, face_semantic_profile } = requestData;
 
-    console.log('📥 [face-match] Request received:', {
+    console.log(`📥 [face-match] [${traceId}] Request received:`, {
+      traceId,
+      tracePropagated: trace.propagated,
       user_id,
       profile: {
         face_shape: face_semantic_profile.face_shape,
@@ -76,41 +84,44 @@ Deno.serve(async (req) => {
     const dbGender = toDbGender(face_semantic_profile.gender || 'male'); 
     console.log(`🔍 [face-match] Using DB gender for RPC: ${dbGender}`);
 
-    const { data: topArchetypes, error: matchError } = await supabase.rpc('face_match_top5', {
+    const { data: topArchetypes, error: matchError } = await trace.span('archetype_match', () => supabase.rpc('face_match_top5', {
       p_gender: dbGender, 
       p_face_shape: face_semantic_profile.face_shape,
       p_eye_shape: face_semantic_profile.eye_shape,
       p_nose_type: face_semantic_profile.nose_type,
       p_lip_fullness: face_semantic_profile.lip_fullness
-    });
+    }));
 
     if (matchError) {
-      console.error('❌ [face-match] Face archetype matching failed:', matchError);
+      console.error(`❌ [face-match] [${traceId}] Face archetype matching failed:`, matchError);
       return jsonResponse({
         error: "Face archetype matching failed",
-        details: matchError.message
+        details: matchError.message,
+        ...trace.toResponse()
       }, 500);
     }
 
     if (!topArchetypes || topArchetypes.length === 0) {
-      console.error('❌ [face-match] No matching face archetypes found');
+      console.error(`❌ [face-match] [${traceId}] No matching face archetypes found`);
       return jsonResponse({
-        error: "No matching face archetypes found"
+        error: "No matching face archetypes found",
+        ...trace.toResponse()
       }, 404);
     }
 
     // MODIFIED: Fetch face_values for each archetype
     const archetypeIds = topArchetypes.map((a: any) => a.id);
-    const { data: fullArchetypes, error: fullArchetypesError } = await supabase
+    const { data: fullArchetypes, error: fullArchetypesError } = await trace.span('archetype_values', () => supabase
       .from('face_archetypes')
       .select('id, name, face_values')
-      .in('id', archetypeIds);
+      .in('id', archetypeIds));
 
     if (fullArchetypesError) {
-      console.error('❌ [face-match] Failed to fetch full archetype data:', fullArchetypesError);
+      console.error(`❌ [face-match] [${traceId}] Failed to fetch full archetype data:`, fullArchetypesError);
       return jsonResponse({
         error: "Failed to fetch full archetype data",
-        details: fullArchetypesError.message
+        details: fullArchetypesError.message,
+        ...trace.toResponse()
       }, 500);
     }
 
@@ -140,15 +151,16 @@ Deno.serve(async (req) => {
     console.log('🔍 [face-match] Building K=5 envelope');
     
     // Use archetypeIds from the RPC result, not the fullArchetypes
-    const { data: k5Envelope, error: envelopeError } = await supabase.rpc('face_k5_envelope', {
+    const { data: k5Envelope, error: envelopeError } = await trace.span('envelope_build', () => supabase.rpc('face_k5_envelope', {
       p_ids: archetypeIds
-    });
+    }));
 
     if (envelopeError) {
-      console.error('❌ [face-match] K-5 envelope construction failed:', envelopeError);
+      console.error(`❌ [face-match] [${traceId}] K-5 envelope construction failed:`, envelopeError);
       return jsonResponse({
         error: "K-5 envelope construction failed",
-        details: envelopeError.message
+        details: envelopeError.message,
+        ...trace.toResponse()
       }, 500);
     }
 
@@ -172,19 +184,26 @@ Deno.serve(async (req) => {
       }
     };
 
-    console.log('✅ [face-match] Face matching completed successfully', {
+    console.log(`✅ [face-match] [${traceId}] Face matching completed successfully`, {
       selectedArchetypes: processedArchetypes.length,
       envelopeKeys: Object.keys(finalK5Envelope.shape_params_envelope || {}).length + Object.keys(finalK5Envelope.limb_masses_envelope || {}).length,
-      bestScore: processedArchetypes[0]?.score
+      bestScore: processedArchetypes[0]?.score,
+      durationMs: trace.elapsedMs()
     });
 
-    return jsonResponse(response);
+    return jsonResponse({
+      ...response,
+      ...trace.toResponse()
+    });
 
   } catch (error) {
-    console.error('❌ [face-match] Face matching failed:', error);
+    console.error(`❌ [face-match] [${traceId}] Face matching failed:`, error);
     return jsonResponse({
       error: "Internal server error",
-      details: error instanceof Error ? error.message : "Unknown error"
+      details: error instanceof Error ? error.message : "Unknown error",
+      ...trace.toResponse()
     }, 500);
   }
-});
+}, {
+  corsHeaders,
+}));
@@ -5,7 +5,7 @@
 export const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization, x-client-info, apikey", // MODIFIÉ: Ajout de x-client-info et apikey
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, x-client-info, apikey, x-trace-id", // MODIFIÉ: Ajout de x-client-info et apikey
 };
 
 export function jsonResponse(data: any, status: number = 200): Response {
@@ -5,6 +5,9 @@ import { refetchMorphologyMapping } from '../_shared/utils/mappingRefetcher.ts';
 import { buildAIRefinementPrompt } from './promptBuilder.ts';
 import { callOpenAIForRefinement } from './openaiClient.ts';
 import { validateAndClampAIResults } from './aiResultValidator.ts';
+import { withAuth } from '../_shared/utils/auth.ts';
+import { enforceQuota } from '../_shared/utils/quota.ts';
+import { startRequestTrace } from '../_shared/utils/trace.ts';
 // AJOUTEZ UN LOG POUR VÉRIFIER L'ACCÈS À LA VARIABLE D'ENVIRONNEMENT
 const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
 if (!openaiApiKey) {
@@ -16,9 +19,11 @@ if (!openaiApiKey) {
  * Scan Refine Morphs Edge Function - AI-Driven Morphological Refinement
  * Takes blended morphs and photos, uses AI to produce photo-realistic final vector
  * Respects ONLY physiological bounds from database (no rigid policies)
- */ Deno.serve(async (req)=>{
+ */ Deno.serve(withAuth(async (req, auth)=>{
   const processingStartTime = performance.now();
-  const traceId = `refine_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  // Trace id generated by the client at capture, shared by every function of the scan
+  const trace = startRequestTrace(req, 'face-refine-morphs');
+  const traceId = trace.traceId;
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
     console.log(`DEBUG: [scan-refine-morphs] [${traceId}] Handling OPTIONS request.`);
@@ -41,7 +46,8 @@ if (!openaiApiKey) {
     if (validationError) {
       console.error(`❌ [scan-refine-morphs] [${traceId}] Request validation failed:`, validationError);
       return jsonResponse({
-        error: validationError
+        error: validationError,
+        ...trace.toResponse()
       }, 400);
     }
     const { scan_id, user_id, resolvedGender, photos, blend_shape_params, blend_limb_masses, mapping_version, k5_envelope, vision_classification, user_measurements } = requestData;
@@ -57,6 +63,7 @@ if (!openaiApiKey) {
       hasVisionClassification: !!vision_classification,
       hasUserMeasurements: !!user_measurements,
       traceId,
+      tracePropagated: trace.propagated,
       philosophy: 'phase_b_ai_driven_k5_envelope_constrained'
     });
     // PHASE B: Validate K=5 envelope is present
@@ -65,7 +72,8 @@ if (!openaiApiKey) {
       return jsonResponse({
         error: "K=5 envelope is required for PHASE B AI refinement",
         phase: "B",
-        fallback_available: false
+        fallback_available: false,
+        ...trace.toResponse()
       }, 400);
     }
     // PHASE B: Validate vision classification is present
@@ -74,18 +82,23 @@ if (!openaiApiKey) {
       return jsonResponse({
         error: "Vision classification is required for PHASE B AI refinement",
         phase: "B",
-        fallback_available: false
+        fallback_available: false,
+        ...trace.toResponse()
       }, 400);
     }
+    // Paid OpenAI call ahead: counted against the user's plan (the stages of one scan share a use)
+    const quotaResponse = await trace.span('quota', ()=>enforceQuota(auth, 'face_scan', scan_id, corsHeaders));
+    if (quotaResponse) return quotaResponse;
     // CRITICAL: Refetch mapping from database (never trust client)
     console.log(`🔍 [scan-refine-morphs] [${traceId}] Refetching mapping from database`);
-    const mappingData = await refetchMorphologyMapping(mapping_version, resolvedGender);
+    const mappingData = await trace.span('mapping_fetch', ()=>refetchMorphologyMapping(mapping_version, resolvedGender));
     if (!mappingData) {
       console.error(`❌ [scan-refine-morphs] [${traceId}] Failed to refetch mapping data`);
       return jsonResponse({
         error: "Failed to retrieve morphology mapping from database",
         phase: "B",
-        fallback_available: true
+        fallback_available: true,
+        ...trace.toResponse()
       }, 500);
     }
     console.log(`✅ [scan-refine-morphs] [${traceId}] Mapping refetched successfully:`, {
@@ -110,7 +123,10 @@ if (!openaiApiKey) {
     });
     // PHASE B: Call OpenAI for strict AI-driven refinement
     console.log(`🔍 [scan-refine-morphs] [${traceId}] PHASE B: Calling OpenAI for K=5 envelope constrained refinement`);
-    const aiRefinementResult = await callOpenAIForRefinement(aiPrompt, photos, traceId);
+    const aiRefinementResult = await trace.span('ai_refinement', ()=>callOpenAIForRefinement(aiPrompt, photos, traceId, {
+        userId: auth.userId,
+        clientScanId: scan_id
+      }));
     console.log(`✅ [scan-refine-morphs] [${traceId}] PHASE B: AI refinement completed:`, {
       hasShapeParams: !!aiRefinementResult.final_shape_params,
       hasLimbMasses: !!aiRefinementResult.final_limb_masses,
@@ -121,7 +137,7 @@ if (!openaiApiKey) {
     });
     // PHASE B: Validate and clamp AI results with K=5 envelope and DB bounds
     console.log(`🔍 [scan-refine-morphs] [${traceId}] PHASE B: Validating with K=5 envelope and DB bounds`);
-    const validationResult = await validateAndClampAIResults(aiRefinementResult, mappingData, k5_envelope, resolvedGender, vision_classification, traceId);
+    const validationResult = await trace.span('result_validation', ()=>validateAndClampAIResults(aiRefinementResult, mappingData, k5_envelope, resolvedGender, vision_classification, traceId));
     // Calculate deltas between blend and AI-refined values
     const deltas = calculateRefinementDeltas(blend_shape_params, blend_limb_masses, validationResult.final_shape_params, validationResult.final_limb_masses);
     // Count active keys (|value| > 0.05)
@@ -170,7 +186,10 @@ if (!openaiApiKey) {
       aiConfidence: response.ai_confidence,
       philosophy: 'phase_b_strict_validation_success'
     });
-    return jsonResponse(response);
+    return jsonResponse({
+      ...response,
+      ...trace.toResponse()
+    });
   } catch (error) {
     const processingTime = performance.now() - processingStartTime;
     console.error(`❌ [scan-refine-morphs] [${traceId}] PHASE B: AI refinement failed:`, error);
@@ -206,9 +225,14 @@ if (!openaiApiKey) {
       processingTime: processingTime.toFixed(2),
       philosophy: 'phase_b_resilient_fallback'
     });
-    return jsonResponse(fallbackResponse, 200); // Return 200 with fallback data
+    return jsonResponse({
+      ...fallbackResponse,
+      ...trace.toResponse()
+    }, 200); // Return 200 with fallback data
   }
-});
+}, {
+  corsHeaders,
+}));
 /**
  * Calculate refinement deltas between blend and AI-refined values
  */ function calculateRefinementDeltas(blendShapeParams, blendLimbMasses, finalShapeParams, finalLimbMasses) {
@@ -1,5 +1,6 @@
 // supabase/functions/face-refine-morphs/openaiClient.ts
 // Transforme les photos (URL signées Supabase, privées, etc.) en data: URLs avant l'appel OpenAI.
+import { recordAiUsage, type AiUsageContext } from '../_shared/utils/aiUsage.ts';
 
 
 type Photo = { url: string; view?: string };
@@ -82,7 +83,12 @@ async function urlToDataUrl(url: string): Promise<string | null> {
  * - Convertit toutes les photos en data URLs (data:<mime>;base64,<payload>) avant l'appel
  * - Envoie uniquement du JSON (response_format: json_object)
  */
-export async function callOpenAIForRefinement(prompt: string, photos: Photo[], traceId: string) {
+export async function callOpenAIForRefinement(
+  prompt: string,
+  photos: Photo[],
+  traceId: string,
+  usageContext: AiUsageContext = {}
+) {
   const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
   if (!openaiApiKey) {
     throw new Error('OpenAI API key not configured');
@@ -117,6 +123,15 @@ export async function callOpenAIForRefinement(prompt: string, photos: Photo[], t
     }
   ];
 
+  // Appels facturés (avec réponse, même en erreur) enregistrés dans ai_usage
+  const usageBase = {
+    ...usageContext,
+    functionName: 'face-refine-morphs',
+    provider: 'openai',
+    traceId,
+  };
+  const startedAt = performance.now();
+
   try {
     console.log(`🤖 [openaiClient] [${traceId}] Calling OpenAI with ${dataUrls.length} image(s) (data URLs)`);
 
@@ -138,10 +153,27 @@ export async function callOpenAIForRefinement(prompt: string, photos: Photo[], t
     if (!response.ok) {
       const errorText = await response.text();
       console.error(`❌ [openaiClient] [${traceId}] OpenAI API error: ${response.status} - ${errorText}`);
+      await recordAiUsage({
+        ...usageBase,
+        model: 'gpt-4o',
+        promptTokens: null,
+        completionTokens: null,
+        latencyMs: performance.now() - startedAt,
+        success: false,
+        error: `OpenAI API error: ${response.status}`,
+      });
       throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
     }
 
     const result = await response.json();
+    await recordAiUsage({
+      ...usageBase,
+      model: result.model || 'gpt-4o',
+      promptTokens: result.usage?.prompt_tokens ?? null,
+      completionTokens: result.usage?.completion_tokens ?? null,
+      latencyMs: performance.now() - startedAt,
+      success: true,
+    });
     const content = result.choices?.[0]?.message?.content;
     if (!content) {
       console.error(`❌ [openaiClient] [${traceId}] No content received from OpenAI`);
@@ -1,4 +1,7 @@
 // supabase/functions/face-semantic/faceSemanticAnalyzer.ts
+import { getVisionProvider, VisionProviderError } from '../_shared/vision/index.ts';
+import type { AiUsageContext } from '../_shared/utils/aiUsage.ts';
+import { FACE_SEMANTIC_FIELDS, type FaceVocabulary } from './faceVocabulary.ts';
 
 interface PhotoReport {
   quality?: {
@@ -14,8 +17,12 @@ interface PhotoReport {
 
 interface AnalyzeOptions {
   gender: 'male' | 'female';
+  /** Allowed values per field, from face_archetypes (see faceVocabulary.ts) */
+  vocabulary: FaceVocabulary;
   frontReport?: PhotoReport;
   profileReport?: PhotoReport;
+  traceId?: string;
+  usageContext?: AiUsageContext;
 }
 
 interface FaceSemanticResult {
@@ -32,15 +39,19 @@ interface FaceSemanticResult {
 }
 
 /**
- * Simule l'analyse de photos avec une IA pour extraire les paramètres sémantiques du visage.
- * Dans une implémentation réelle, cela appellerait une API d'IA (ex: OpenAI Vision).
+ * Analyse les photos avec le fournisseur vision configuré (VISION_PROVIDER)
+ * pour extraire les paramètres sémantiques du visage.
  */
 export async function analyzePhotosForFaceSemantics(
   frontPhotoUrl: string,
   profilePhotoUrl: string,
   options: AnalyzeOptions
 ): Promise<FaceSemanticResult> {
-  console.log('🔍 [faceSemanticAnalyzer] Simulating AI analysis for face semantics:', {
+  const provider = getVisionProvider();
+
+  console.log('🔍 [faceSemanticAnalyzer] Starting AI analysis for face semantics:', {
+    provider: provider.name,
+    model: provider.model,
     frontPhotoUrl: frontPhotoUrl.substring(0, 50) + '...',
     profilePhotoUrl: profilePhotoUrl.substring(0, 50) + '...',
     gender: options.gender,
@@ -48,65 +59,44 @@ export async function analyzePhotosForFaceSemantics(
     hasProfileReport: !!options.profileReport,
   });
 
-  // --- DÉBUT DE LA PARTIE QUI SIMULERAIT UN APPEL OPENAI RÉEL ---
-  // Dans une implémentation réelle, vous feriez un appel fetch ici.
-  // Par exemple:
-  /*
-  const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${openaiApiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o', // MODÈLE MIS À JOUR ICI
-      messages: [
-        {
-          role: 'user',
-          content: [
-            { type: 'text', text: `Analyze the face in these images. Identify face shape, eye shape, nose type, and lip fullness. Gender: ${options.gender}. Return JSON.` },
-            { type: 'image_url', image_url: { url: frontPhotoUrl, detail: 'high' } },
-            { type: 'image_url', image_url: { url: profilePhotoUrl, detail: 'high' } }
-          ]
-        }
-      ],
-      response_format: { type: "json_object" }
-    })
-  });
+  let response;
+  try {
+    response = await provider.complete({
+      task: 'face-semantic',
+      prompt: buildFaceSemanticPrompt(options.gender, options.vocabulary),
+      imageUrls: [frontPhotoUrl, profilePhotoUrl],
+      jsonResponse: true,
+      maxTokens: 800,
+      temperature: 0.1,
+      traceId: options.traceId,
+      usageContext: options.usageContext,
+    });
+  } catch (error) {
+    if (error instanceof VisionProviderError) {
+      throw new Error(`Vision API error: ${error.status} - ${error.body.substring(0, 200)}`);
+    }
+    throw error;
+  }
+
+  if (!response.content) {
+    throw new Error('Vision provider returned empty content');
+  }
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenAI API error: ${response.status} - ${errorText}`);
+  let parsed;
+  try {
+    parsed = JSON.parse(extractJsonObject(response.content));
+  } catch (parseError) {
+    console.error(`❌ [faceSemanticAnalyzer] [${options.traceId}] Failed to parse ${response.provider} response:`, response.content);
+    throw new Error('Failed to parse Vision response');
   }
-  const openaiResult = await response.json();
-  // Traitez openaiResult pour extraire les paramètres
-  */
-  // --- FIN DE LA PARTIE SIMULÉE ---
-
-
-  // Simuler un délai d'analyse IA
-  await new Promise(resolve => setTimeout(resolve, 1500));
-
-  let faceShape: string;
-  let eyeShape: string;
-  let noseType: string;
-  // MODIFIED: Utiliser une valeur valide de l'énumération de la base de données
-  let lipFullness: string;
-  let confidence = 0.85;
-
-  if (options.gender === 'female') {
-    faceShape = 'oval';
-    eyeShape = 'almond';
-    noseType = 'straight';
-    lipFullness = 'average'; // MODIFIED: "average" est valide dans l'énumération DB
-  } else {
-    faceShape = 'square';
-    eyeShape = 'round';
-    noseType = 'roman';
-    lipFullness = 'average'; // MODIFIED: "average" est valide dans l'énumération DB
+  for (const field of FACE_SEMANTIC_FIELDS) {
+    if (typeof parsed?.[field] !== 'string' || parsed[field].length === 0) {
+      throw new Error(`Invalid face semantic response: missing ${field}`);
+    }
   }
 
+  let confidence = typeof parsed.confidence?.semantic === 'number' ? parsed.confidence.semantic : 0.85;
+
   // Ajuster la confiance en fonction de la qualité des photos si les rapports sont disponibles
   if (options.frontReport?.quality?.blur_score < 0.5 || options.profileReport?.quality?.blur_score < 0.5) {
     confidence -= 0.1;
@@ -116,25 +106,66 @@ export async function analyzePhotosForFaceSemantics(
   }
 
   const result: FaceSemanticResult = {
-    face_shape: faceShape,
-    eye_shape: eyeShape,
-    nose_type: noseType,
-    lip_fullness: lipFullness,
+    face_shape: parsed.face_shape,
+    eye_shape: parsed.eye_shape,
+    nose_type: parsed.nose_type,
+    lip_fullness: parsed.lip_fullness,
     confidence: {
-      semantic: Math.max(0.1, confidence),
-      face_detection: (options.frontReport?.content?.face_detected && options.profileReport?.content?.face_detected) ? 0.9 : 0.5,
+      semantic: Math.max(0.1, Math.min(1, confidence)),
+      face_detection: typeof parsed.confidence?.face_detection === 'number'
+        ? parsed.confidence.face_detection
+        : (options.frontReport?.content?.face_detected && options.profileReport?.content?.face_detected) ? 0.9 : 0.5,
     },
-    raw_ai_scores: {
-      // Exemple de scores bruts que l'IA pourrait retourner
-      face_oval_score: options.gender === 'female' ? 0.9 : 0.3,
-      face_square_score: options.gender === 'male' ? 0.85 : 0.2,
-      eye_almond_score: options.gender === 'female' ? 0.8 : 0.4,
-      nose_straight_score: 0.7,
-      lip_full_score: options.gender === 'female' ? 0.75 : 0.4,
-    }
+    raw_ai_scores: parsed.raw_ai_scores && typeof parsed.raw_ai_scores === 'object' ? parsed.raw_ai_scores : undefined,
   };
 
-  console.log('✅ [faceSemanticAnalyzer] Simulated AI analysis complete:', result);
+  console.log('✅ [faceSemanticAnalyzer] AI analysis complete:', {
+    provider: response.provider,
+    face_shape: result.face_shape,
+    eye_shape: result.eye_shape,
+    nose_type: result.nose_type,
+    lip_fullness: result.lip_fullness,
+    confidence: result.confidence,
+  });
   return result;
 }
 
+function formatAllowedValues(values: string[]): string {
+  return values.map((value) => `"${value}"`).join(', ');
+}
+
+function buildFaceSemanticPrompt(gender: 'male' | 'female', vocabulary: FaceVocabulary): string {
+  return `Tu es un expert en analyse morphologique faciale. À partir de ces 2 photos (face/profil), décris le visage.
+
+Genre déclaré: ${gender}
+
+Retourne JSON avec :
+{
+  "face_shape": string (${formatAllowedValues(vocabulary.face_shape)}),
+  "eye_shape": string (${formatAllowedValues(vocabulary.eye_shape)}),
+  "nose_type": string (${formatAllowedValues(vocabulary.nose_type)}),
+  "lip_fullness": string (${formatAllowedValues(vocabulary.lip_fullness)}),
+  "confidence": {
+    "semantic": number (0-1),
+    "face_detection": number (0-1)
+  },
+  "raw_ai_scores": { "<feature>_<value>_score": number (0-1) }
+}
+
+Utilise uniquement les valeurs listées, en minuscules et sans traduction.
+
+Réponds en JSON compact uniquement.`;
+}
+
+function extractJsonObject(content: string): string {
+  let jsonContent = content.trim();
+  if (jsonContent.startsWith('```')) {
+    jsonContent = jsonContent.replace(/^```(json)?\s*/, '').replace(/\s*```$/, '');
+  }
+  const jsonStart = jsonContent.indexOf('{');
+  const jsonEnd = jsonContent.lastIndexOf('}');
+  if (jsonStart !== -1 && jsonEnd !== -1 && jsonEnd > jsonStart) {
+    jsonContent = jsonContent.substring(jsonStart, jsonEnd + 1);
+  }
+  return jsonContent;
+}
@@ -1,6 +1,7 @@
 // supabase/functions/face-semantic/dbFaceSemanticValidator.ts
 
 import { createClient } from 'npm:@supabase/supabase-js@2.54.0';
+import type { FaceVocabulary } from './faceVocabulary.ts';
 
 interface RawFaceSemanticProfile {
   face_shape: string;
@@ -28,6 +29,13 @@ interface ValidationResult {
   adjustmentsMade: string[];
 }
 
+/**
+ * Valeur par défaut si elle existe dans le vocabulaire, sinon la première valeur connue
+ */
+function pickFallback(allowed: string[], preferred: string): string {
+  return allowed.includes(preferred) ? preferred : allowed[0];
+}
+
 /**
  * Valide et ajuste le profil sémantique du visage par rapport aux règles de la base de données.
  * Assure que les classifications correspondent aux ENUMs ou aux règles métier.
@@ -35,7 +43,8 @@ interface ValidationResult {
 export async function validateFaceSemanticWithDB(
   supabase: ReturnType<typeof createClient>,
   rawSemanticProfile: RawFaceSemanticProfile,
-  userDbGender: 'masculine' | 'feminine' // MODIFIED: Expect 'masculine' | 'feminine'
+  userDbGender: 'masculine' | 'feminine', // MODIFIED: Expect 'masculine' | 'feminine'
+  vocabulary: FaceVocabulary
 ): Promise<ValidationResult> {
   console.log('🔍 [dbFaceSemanticValidator] Starting DB validation for face semantic profile:', {
     rawProfile: rawSemanticProfile,
@@ -45,13 +54,11 @@ export async function validateFaceSemanticWithDB(
   const validationFlags: string[] = [];
   const adjustmentsMade: string[] = [];
 
-  // Récupérer les valeurs d'énumération valides directement de la base de données
-  // ou d'une table de configuration si elles sont dynamiques.
-  // Pour cet exemple, nous allons simuler la récupération des ENUMs.
-  const validFaceShapes = ['oval', 'round', 'square', 'heart', 'diamond', 'long', 'triangle'];
-  const validEyeShapes = ['almond', 'round', 'hooded', 'monolid', 'downturned', 'upturned'];
-  const validNoseTypes = ['aquiline', 'button', 'roman', 'nubian', 'straight', 'upturned'];
-  const validLipFullness = ['full', 'thin', 'average', 'pouty'];
+  // Valeurs présentes dans face_archetypes : face-match compare ces champs à l'identique
+  const validFaceShapes = vocabulary.face_shape;
+  const validEyeShapes = vocabulary.eye_shape;
+  const validNoseTypes = vocabulary.nose_type;
+  const validLipFullness = vocabulary.lip_fullness;
 
   let validatedFaceShape = rawSemanticProfile.face_shape;
   let validatedEyeShape = rawSemanticProfile.eye_shape;
@@ -61,7 +68,7 @@ export async function validateFaceSemanticWithDB(
   // Valider et ajuster la forme du visage
   if (!validFaceShapes.includes(validatedFaceShape)) {
     console.warn(`⚠️ [dbFaceSemanticValidator] Invalid face_shape '${validatedFaceShape}', adjusting.`);
-    validatedFaceShape = 'oval'; // Fallback par défaut
+    validatedFaceShape = pickFallback(validFaceShapes, 'oval'); // Fallback par défaut
     adjustmentsMade.push(`face_shape_adjusted_from_${rawSemanticProfile.face_shape}_to_${validatedFaceShape}`);
     validationFlags.push('invalid_face_shape');
   }
@@ -69,7 +76,7 @@ export async function validateFaceSemanticWithDB(
   // Valider et ajuster la forme des yeux
   if (!validEyeShapes.includes(validatedEyeShape)) {
     console.warn(`⚠️ [dbFaceSemanticValidator] Invalid eye_shape '${validatedEyeShape}', adjusting.`);
-    validatedEyeShape = 'almond'; // Fallback par défaut
+    validatedEyeShape = pickFallback(validEyeShapes, 'almond'); // Fallback par défaut
     adjustmentsMade.push(`eye_shape_adjusted_from_${rawSemanticProfile.eye_shape}_to_${validatedEyeShape}`);
     validationFlags.push('invalid_eye_shape');
   }
@@ -77,7 +84,7 @@ export async function validateFaceSemanticWithDB(
   // Valider et ajuster le type de nez
   if (!validNoseTypes.includes(validatedNoseType)) {
     console.warn(`⚠️ [dbFaceSemanticValidator] Invalid nose_type '${validatedNoseType}', adjusting.`);
-    validatedNoseType = 'straight'; // Fallback par défaut
+    validatedNoseType = pickFallback(validNoseTypes, 'straight'); // Fallback par défaut
     adjustmentsMade.push(`nose_type_adjusted_from_${rawSemanticProfile.nose_type}_to_${validatedNoseType}`);
     validationFlags.push('invalid_nose_type');
   }
@@ -85,7 +92,7 @@ export async function validateFaceSemanticWithDB(
   // Valider et ajuster la plénitude des lèvres
   if (!validLipFullness.includes(validatedLipFullness)) {
     console.warn(`⚠️ [dbFaceSemanticValidator] Invalid lip_fullness '${validatedLipFullness}', adjusting.`);
-    validatedLipFullness = 'average'; // Fallback par défaut
+    validatedLipFullness = pickFallback(validLipFullness, 'average'); // Fallback par défaut
     adjustmentsMade.push(`lip_fullness_adjusted_from_${rawSemanticProfile.lip_fullness}_to_${validatedLipFullness}`);
     validationFlags.push('invalid_lip_fullness');
   }
@@ -93,7 +100,7 @@ export async function validateFaceSemanticWithDB(
   // Appliquer des règles spécifiques au genre si nécessaire (exemple)
   if (userDbGender === 'masculine' && validatedLipFullness === 'pouty') {
     console.log('🔍 [dbFaceSemanticValidator] Adjusting pouty lips for masculine gender.');
-    validatedLipFullness = 'average';
+    validatedLipFullness = pickFallback(validLipFullness, 'average');
     adjustmentsMade.push(`lip_fullness_adjusted_for_gender_to_${validatedLipFullness}`);
     validationFlags.push('gender_lip_fullness_mismatch');
   }
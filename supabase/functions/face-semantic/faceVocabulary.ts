@@ -0,0 +1,54 @@
+// supabase/functions/face-semantic/faceVocabulary.ts
+
+/**
+ * Allowed values of the face semantic fields, read from face_archetypes.
+ * face-match scores archetypes by exact equality on these columns, so the prompt and
+ * the DB validation must only ever produce values present in the table.
+ */
+
+export interface FaceVocabulary {
+  face_shape: string[];
+  eye_shape: string[];
+  nose_type: string[];
+  lip_fullness: string[];
+}
+
+export const FACE_SEMANTIC_FIELDS = ['face_shape', 'eye_shape', 'nose_type', 'lip_fullness'] as const;
+
+/** Used when face_archetypes cannot be read; mirrors face-match's request validator */
+export const DEFAULT_FACE_VOCABULARY: FaceVocabulary = {
+  face_shape: ['oval', 'round', 'square', 'heart', 'diamond', 'long', 'triangle'],
+  eye_shape: ['almond', 'round', 'hooded', 'monolid', 'downturned', 'upturned'],
+  nose_type: ['aquiline', 'button', 'roman', 'nubian', 'straight', 'upturned'],
+  lip_fullness: ['full', 'thin', 'average', 'pouty'],
+};
+
+/**
+ * Distinct values of each semantic column among the archetypes of the user's gender
+ */
+export async function loadFaceVocabulary(
+  supabase: any,
+  dbGender: 'masculine' | 'feminine'
+): Promise<FaceVocabulary> {
+  const { data, error } = await supabase
+    .from('face_archetypes')
+    .select('face_shape, eye_shape, nose_type, lip_fullness')
+    .eq('gender', dbGender);
+
+  if (error || !data || data.length === 0) {
+    console.warn('⚠️ [faceVocabulary] face_archetypes unavailable, using default vocabulary', {
+      dbGender,
+      error: error?.message,
+    });
+    return DEFAULT_FACE_VOCABULARY;
+  }
+
+  const vocabulary = {} as FaceVocabulary;
+  for (const field of FACE_SEMANTIC_FIELDS) {
+    const values = [...new Set(
+      data.map((row: any) => row[field]).filter((value: unknown): value is string => typeof value === 'string' && value.length > 0)
+    )].sort();
+    vocabulary[field] = values.length > 0 ? values : DEFAULT_FACE_VOCABULARY[field];
+  }
+  return vocabulary;
+}
@@ -3,13 +3,16 @@ import { validateFaceSemanticRequest } from './requestValidator.ts';
 import { analyzePhotosForFaceSemantics } from './faceSemanticAnalyzer.ts';
 import { validateFaceSemanticWithDB } from './dbFaceSemanticValidator.ts';
 import { createFallbackFaceSemanticAnalysis } from './faceSemanticFallback.ts';
+import { loadFaceVocabulary } from './faceVocabulary.ts';
 import { toDbGender } from '../_shared/utils/toDbGender.ts'; // Import correct du fichier partagé
+import { withAuth } from '../_shared/utils/auth.ts';
+import { startRequestTrace } from '../_shared/utils/trace.ts';
 
 /**
  * Face Semantic Edge Function - DB-First Architecture
  * Generates facial semantic profile and validates against DB classification rules
  */
-Deno.serve(async (req) => {
+Deno.serve(withAuth(async (req, auth) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
       status: 200,
@@ -23,21 +26,27 @@ Deno.serve(async (req) => {
     }, 405);
   }
 
+  const trace = startRequestTrace(req, 'face-semantic');
+  const traceId = trace.traceId;
+
   try {
     // Parse and validate request
     const requestData = await req.json();
     const validationError = validateFaceSemanticRequest(requestData);
 
     if (validationError) {
-      console.error('❌ [face-semantic] Request validation failed:', validationError);
+      console.error(`❌ [face-semantic] [${traceId}] Request validation failed:`, validationError);
       return jsonResponse({
-        error: validationError
+        error: validationError,
+        ...trace.toResponse()
       }, 400);
     }
 
     const { user_id, photos, user_declared_gender } = requestData;
 
-    console.log('📥 [face-semantic] Request received:', {
+    console.log(`📥 [face-semantic] [${traceId}] Request received:`, {
+      traceId,
+      tracePropagated: trace.propagated,
       user_id,
       photosCount: photos?.length,
       userGender: user_declared_gender,
@@ -76,28 +85,39 @@ Deno.serve(async (req) => {
     const profilePhoto = photos.find(p => p.view === 'profile');
 
     if (!frontPhoto || !profilePhoto) {
-      console.error('❌ [face-semantic] Missing front or profile photo');
+      console.error(`❌ [face-semantic] [${traceId}] Missing front or profile photo`);
       return jsonResponse({
-        error: "Both front and profile photos required"
+        error: "Both front and profile photos required",
+        ...trace.toResponse()
       }, 400);
     }
 
     console.log('🔍 [face-semantic] Starting facial semantic analysis with DB validation');
 
+    // MODIFIED: Ensure userDbGender is correctly derived from user_declared_gender
+    const userDbGenderNormalized = toDbGender(user_declared_gender);
+    const vocabulary = await trace.span('vocabulary', () => loadFaceVocabulary(supabase, userDbGenderNormalized));
+
     // Step 1: AI Semantic Analysis
     let rawSemanticProfile;
     let aiAnalysisSuccess = false;
 
     try {
-      rawSemanticProfile = await analyzePhotosForFaceSemantics(
+      rawSemanticProfile = await trace.span('semantic_analysis', () => analyzePhotosForFaceSemantics(
         frontPhoto.url,
         profilePhoto.url,
         {
           gender: user_declared_gender,
+          vocabulary,
           frontReport: frontPhoto.report,
-          profileReport: profilePhoto.report
+          profileReport: profilePhoto.report,
+          traceId,
+          usageContext: {
+            userId: auth.userId,
+            clientScanId: requestData.clientScanId
+          }
         }
-      );
+      ));
       aiAnalysisSuccess = true;
 
       console.log('✅ [face-semantic] AI facial semantic analysis complete:', {
@@ -109,7 +129,7 @@ Deno.serve(async (req) => {
       });
 
     } catch (semanticError) {
-      console.warn('⚠️ [face-semantic] AI facial semantic analysis failed, using fallback:', semanticError);
+      console.warn(`⚠️ [face-semantic] [${traceId}] AI facial semantic analysis failed, using fallback:`, semanticError);
       rawSemanticProfile = createFallbackFaceSemanticAnalysis({
         gender: user_declared_gender,
         frontReport: frontPhoto.report,
@@ -119,13 +139,12 @@ Deno.serve(async (req) => {
 
     // Step 2: DB-First Classification Validation
     console.log('🔍 [face-semantic] Validating facial semantic profile against DB classification rules');
-    // MODIFIED: Ensure userDbGender is correctly derived from user_declared_gender
-    const userDbGenderNormalized = toDbGender(user_declared_gender);
-    const { validatedProfile, validationFlags, adjustmentsMade } = await validateFaceSemanticWithDB(
+    const { validatedProfile, validationFlags, adjustmentsMade } = await trace.span('db_validation', () => validateFaceSemanticWithDB(
       supabase,
       rawSemanticProfile,
-      userDbGenderNormalized // Use the normalized DB gender
-    );
+      userDbGenderNormalized, // Use the normalized DB gender
+      vocabulary
+    ));
 
     console.log('✅ [face-semantic] DB validation results:', {
       validatedProfile: {
@@ -162,7 +181,7 @@ Deno.serve(async (req) => {
       fallback_reason: aiAnalysisSuccess ? null : 'ai_semantic_analysis_failed'
     };
 
-    console.log('✅ [face-semantic] Facial semantic analysis completed successfully', {
+    console.log(`✅ [face-semantic] [${traceId}] Facial semantic analysis completed successfully`, {
       validatedProfile: {
         face_shape: validatedProfile.face_shape,
         eye_shape: validatedProfile.eye_shape,
@@ -172,16 +191,23 @@ Deno.serve(async (req) => {
       finalConfidence: finalConfidence.toFixed(3),
       validationFlags: validationFlags.length,
       adjustmentsMade: adjustmentsMade.length,
-      aiSuccess: aiAnalysisSuccess
+      aiSuccess: aiAnalysisSuccess,
+      durationMs: trace.elapsedMs()
     });
 
-    return jsonResponse(response);
+    return jsonResponse({
+      ...response,
+      ...trace.toResponse()
+    });
 
   } catch (error) {
-    console.error('❌ [face-semantic] Facial semantic analysis failed:', error);
+    console.error(`❌ [face-semantic] [${traceId}] Facial semantic analysis failed:`, error);
     return jsonResponse({
       error: "Internal server error",
-      details: error instanceof Error ? error.message : "Unknown error"
+      details: error instanceof Error ? error.message : "Unknown error",
+      ...trace.toResponse()
     }, 500);
   }
-});
+}, {
+  corsHeaders,
+}));
@@ -1,3 +1,6 @@
+import { withAuth } from '../_shared/utils/auth.ts';
+import { enforceQuota } from '../_shared/utils/quota.ts';
+
 interface ScanData {
   final_shape_params: Record<string, number>;
   final_limb_masses: Record<string, number>;
@@ -356,7 +359,7 @@ async function generateAIInsights(scanData: ScanData, userProfile: UserProfile):
 /**
  * Main Edge Function handler
  */
-Deno.serve(async (req: Request) => {
+Deno.serve(withAuth(async (req: Request, auth) => {
   console.log('🚀 Generate Morph Insights - Function started', {
     method: req.method,
     url: req.url,
@@ -410,6 +413,10 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Paid OpenAI call ahead: counted against the user's plan
+    const quotaResponse = await enforceQuota(auth, 'insights', scan_data.scan_id, corsHeaders);
+    if (quotaResponse) return quotaResponse;
+
     // Generate insights
     console.log('🧠 Generating AI insights...');
     const insights = await generateAIInsights(scan_data, user_profile);
@@ -449,4 +456,7 @@ Deno.serve(async (req: Request) => {
       }
     );
   }
-});
\ No newline at end of file
+}, {
+  corsHeaders,
+  requestedUserId: (_req, body) => body?.user_profile?.user_id,
+}));
\ No newline at end of file
@@ -0,0 +1,123 @@
+import { jsonResponse, corsHeaders } from './response.ts';
+import { buildLogRows, MAX_ENTRIES_PER_HOUR } from './logEntries.ts';
+import { withAuth, getServiceRoleClient } from '../_shared/utils/auth.ts';
+import { startRequestTrace } from '../_shared/utils/trace.ts';
+
+/**
+ * Log Ingest Edge Function - Remote client logs
+ * Stores the sampled, scrubbed log batches shipped by the client logger in client_logs.
+ * Rows are attributed to the verified caller only, whatever the entries say, so only
+ * signed-in users may ship logs; each is limited to MAX_ENTRIES_PER_HOUR stored entries.
+ */
+Deno.serve(withAuth(async (req, auth) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse(
+      {
+        error: "Method not allowed",
+      },
+      405
+    );
+  }
+
+  const trace = startRequestTrace(req, 'log-ingest');
+  const traceId = trace.traceId;
+
+  const userId = auth.caller.userId;
+  if (!userId) {
+    return jsonResponse(
+      {
+        error: "Logs must be shipped by a signed-in user",
+        ...trace.toResponse(),
+      },
+      403
+    );
+  }
+
+  const body = await req.json().catch(() => null);
+  const batch = buildLogRows(body, userId, req.headers.get('user-agent'));
+  if (batch.error) {
+    return jsonResponse(
+      {
+        error: batch.error,
+        ...trace.toResponse(),
+      },
+      400
+    );
+  }
+
+  try {
+    const supabase = await getServiceRoleClient();
+
+    const { count, error: countError } = await trace.span('rate_limit', () => supabase
+      .from('client_logs')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .gte('created_at', new Date(Date.now() - 60 * 60 * 1000).toISOString()));
+    if (countError) {
+      throw new Error(`Failed to check log rate: ${countError.message}`);
+    }
+    if ((count ?? 0) + batch.rows.length > MAX_ENTRIES_PER_HOUR) {
+      console.warn(`⚠️ [log-ingest] [${traceId}] Rate limit reached`, {
+        userId,
+        storedLastHour: count,
+        batchSize: batch.rows.length,
+        philosophy: 'per_user_log_rate_limit',
+      });
+      return new Response(JSON.stringify({
+        error: 'rate_limited',
+        limit: MAX_ENTRIES_PER_HOUR,
+        ...trace.toResponse(),
+      }), {
+        status: 429,
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/json",
+          "Retry-After": "3600",
+        },
+      });
+    }
+
+    if (batch.rows.length > 0) {
+      const { error } = await trace.span('insert', () => supabase.from('client_logs').insert(batch.rows));
+      if (error) {
+        throw new Error(`Failed to store logs: ${error.message}`);
+      }
+    }
+
+    console.log(`📥 [log-ingest] [${traceId}] Batch stored`, {
+      userId,
+      stored: batch.rows.length,
+      rejected: batch.rejected,
+      philosophy: 'sampled_scrubbed_client_logs',
+    });
+
+    return jsonResponse({
+      stored: batch.rows.length,
+      rejected: batch.rejected,
+      ...trace.toResponse(),
+    });
+  } catch (error) {
+    console.error(`❌ [log-ingest] [${traceId}] Batch failed`, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return jsonResponse(
+      {
+        error: error instanceof Error ? error.message : 'Log ingest failed',
+        ...trace.toResponse(),
+      },
+      500
+    );
+  }
+}, {
+  corsHeaders,
+  // The service role has no user to attribute rows to
+  roles: ['user', 'coach', 'admin'],
+  requestedUserId: () => null,
+}));
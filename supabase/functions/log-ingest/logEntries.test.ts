@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_ENTRIES_PER_BATCH, buildLogRows, scrubValue } from './logEntries.ts';
+import { scrubLogPayload } from '../../../src/lib/utils/logScrubber';
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+
+function entry(overrides: Record<string, unknown> = {}) {
+  return { level: 'warn', message: 'Upload slow', timestamp: '2026-01-01T10:00:00.000Z', context: {}, ...overrides };
+}
+
+describe('buildLogRows', () => {
+  it('maps entries to rows of the caller, whatever the entries say', () => {
+    const { rows, rejected } = buildLogRows(
+      { entries: [entry({ context: { traceId: 'trace-1', clientScanId: 'scan-1', user_id: 'someone-else' } })] },
+      USER_ID,
+      'Mozilla/5.0'
+    );
+
+    expect(rejected).toBe(0);
+    expect(rows).toEqual([{
+      user_id: USER_ID,
+      level: 'warn',
+      message: 'Upload slow',
+      context: { traceId: 'trace-1', clientScanId: 'scan-1', user_id: 'someone-else' },
+      trace_id: 'trace-1',
+      client_scan_id: 'scan-1',
+      client_timestamp: '2026-01-01T10:00:00.000Z',
+      user_agent: 'Mozilla/5.0',
+    }]);
+  });
+
+  it('rejects malformed batches and counts invalid entries', () => {
+    expect(buildLogRows({ entries: [] }, USER_ID, null).error).toBeDefined();
+    expect(buildLogRows(null, USER_ID, null).error).toBeDefined();
+    expect(buildLogRows({ entries: Array.from({ length: MAX_ENTRIES_PER_BATCH + 1 }, () => entry()) }, USER_ID, null).error)
+      .toBeDefined();
+
+    const { rows, rejected } = buildLogRows(
+      { entries: [entry({ level: 'fatal' }), entry({ message: '' }), entry({ timestamp: 'yesterday' })] },
+      USER_ID,
+      null
+    );
+    expect(rejected).toBe(2);
+    expect(rows[0].client_timestamp).toBeNull();
+  });
+
+  it('replaces oversized contexts with a marker', () => {
+    const { rows } = buildLogRows({ entries: [entry({ context: { dump: 'x'.repeat(9000) } })] }, USER_ID, null);
+    expect(rows[0].context).toEqual({ truncated: true, size: expect.any(Number) });
+  });
+
+  it('scrubs entries that were not scrubbed on the device', () => {
+    const { rows } = buildLogRows(
+      {
+        entries: [entry({
+          message: 'Failed for jane.doe@example.com',
+          context: { mesh_measurements: { waist_cm: 81 }, photo: 'blob:https://app.example.com/1234' },
+        })],
+      },
+      USER_ID,
+      null
+    );
+
+    expect(rows[0].message).toBe('Failed for [email]');
+    expect(rows[0].context).toEqual({ mesh_measurements: '[scrubbed]', photo: '[photo_url]' });
+  });
+});
+
+describe('server scrubbing', () => {
+  it('applies the same rules as the client scrubber', () => {
+    const context = {
+      email: 'Contact: jane.doe@example.com',
+      photos: ['https://abc.supabase.co/storage/v1/object/sign/body-scans/u1/front.jpg?token=x', 'data:image/png;base64,AAAA'],
+      raw_estimates: { waist: 80 },
+      reference_measurements: [{ waist_cm: 79 }],
+      levels: { thigh: 70, arm: 140 },
+      slice: { thigh: 56, loops: 2 },
+      weightKg: 70,
+      traceId: 'trace-1',
+    };
+
+    expect(scrubValue(context)).toEqual(scrubLogPayload({ context }).context);
+  });
+});
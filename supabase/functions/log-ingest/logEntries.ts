@@ -0,0 +1,97 @@
+/**
+ * Log Entries
+ * Validation of the batches sent by the client logger (src/system/logging/remoteLogTransport.ts)
+ * and their mapping to client_logs rows. Payloads are scrubbed on the device before shipping,
+ * and again here: the endpoint accepts whatever a client sends.
+ */ /** Batches are 25 entries on the client; anything much larger is not the app */ export const MAX_ENTRIES_PER_BATCH = 50;
+/** Entries stored per user and per hour; the client keeps a refused batch buffered for later */ export const MAX_ENTRIES_PER_HOUR = 600;
+const LOG_LEVELS = [
+  'error',
+  'warn',
+  'info',
+  'debug',
+  'trace'
+];
+const MAX_MESSAGE_LENGTH = 1000;
+/** Serialized size above which the context is replaced by a marker */ const MAX_CONTEXT_BYTES = 8000;
+// Same rules as src/lib/utils/logScrubber.ts (logEntries.test.ts checks they agree)
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const PHOTO_URL_PATTERN = /(?:https?:\/\/\S*\/storage\/v1\/object\/\S+|blob:\S+|data:image\/[^\s"']+)/gi;
+const MEASUREMENT_KEY_PATTERN = /measurements$|^raw_estimates$|^(?:levels|circumferences)$|^user_?metrics$|^(?:height|weight|waist|chest|hips|thigh|arm)$|(?:cm|kg|bmi)$/i;
+const MAX_SCRUB_DEPTH = 6;
+function scrubString(value) {
+  return value.replace(PHOTO_URL_PATTERN, '[photo_url]').replace(EMAIL_PATTERN, '[email]');
+}
+/**
+ * Remove emails, photo URLs and body measurements from a message or context
+ */ export function scrubValue(value, depth = 0) {
+  if (typeof value === 'string') return scrubString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= MAX_SCRUB_DEPTH) return '[truncated]';
+  if (Array.isArray(value)) {
+    return value.map((item)=>scrubValue(item, depth + 1));
+  }
+  const scrubbed = {};
+  for (const [key, entry] of Object.entries(value)){
+    scrubbed[key] = MEASUREMENT_KEY_PATTERN.test(key) ? '[scrubbed]' : scrubValue(entry, depth + 1);
+  }
+  return scrubbed;
+}
+function asText(value, maxLength) {
+  return typeof value === 'string' && value.length > 0 ? value.slice(0, maxLength) : null;
+}
+function toContext(value) {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const serialized = JSON.stringify(value);
+  if (serialized.length > MAX_CONTEXT_BYTES) {
+    return {
+      truncated: true,
+      size: serialized.length
+    };
+  }
+  return value;
+}
+function toTimestamp(value) {
+  if (typeof value !== 'string') return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : new Date(time).toISOString();
+}
+/**
+ * Validate a batch; returns the rows to insert or the reason the batch is rejected
+ */ export function buildLogRows(body, userId, userAgent) {
+  const entries = body?.entries;
+  if (!Array.isArray(entries) || entries.length === 0) {
+    return {
+      error: 'entries must be a non-empty array'
+    };
+  }
+  if (entries.length > MAX_ENTRIES_PER_BATCH) {
+    return {
+      error: `At most ${MAX_ENTRIES_PER_BATCH} entries per batch`
+    };
+  }
+  const rows = [];
+  let rejected = 0;
+  for (const entry of entries){
+    const message = asText(entry?.message, MAX_MESSAGE_LENGTH);
+    if (!LOG_LEVELS.includes(entry?.level) || !message) {
+      rejected++;
+      continue;
+    }
+    const context = toContext(scrubValue(entry.context));
+    rows.push({
+      user_id: userId,
+      level: entry.level,
+      message: scrubString(message),
+      context,
+      trace_id: asText(context.traceId, 128),
+      client_scan_id: asText(context.clientScanId, 128),
+      client_timestamp: toTimestamp(entry.timestamp),
+      user_agent: asText(userAgent, 500)
+    });
+  }
+  return {
+    rows,
+    rejected
+  };
+}
@@ -2,12 +2,15 @@ import { jsonResponse, corsHeaders } from './response.ts';
 import { validateCommitRequest } from './requestValidator.ts';
 import { storeBodyScanData } from './scanDataStorage.ts';
 import { updateUserProfile } from './profileUpdater.ts';
+import { withAuth } from '../_shared/utils/auth.ts';
+import { linkAiUsageToScan } from '../_shared/utils/aiUsage.ts';
+import { startRequestTrace } from '../_shared/utils/trace.ts';
 
 /**
  * Scan Commit Edge Function - Final Persistence
  * Stores complete scan results with all metadata
  */
-Deno.serve(async (req) => {
+Deno.serve(withAuth(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
     return new Response(null, {
@@ -25,11 +28,15 @@ Deno.serve(async (req) => {
     );
   }
 
+  const trace = startRequestTrace(req, 'scan-commit');
+  const traceId = trace.traceId;
+
   try {
     // Generate unique scan ID first
     const scanId = crypto.randomUUID();
-    console.log('🔍 [scan-commit] Generated scan ID', {
+    console.log(`🔍 [scan-commit] [${traceId}] Generated scan ID`, {
       scanId,
+      tracePropagated: trace.propagated,
     });
 
     // Parse and validate request
@@ -37,10 +44,11 @@ Deno.serve(async (req) => {
     const validationError = validateCommitRequest(requestData);
 
     if (validationError) {
-      console.error('❌ [scan-commit] Request validation failed:', validationError);
+      console.error(`❌ [scan-commit] [${traceId}] Request validation failed:`, validationError);
       return jsonResponse(
         {
           error: validationError,
+          ...trace.toResponse(),
         },
         400
       );
@@ -66,6 +74,7 @@ Deno.serve(async (req) => {
       gltf_model_id,
       material_config_version,
       avatar_version,
+      clientScanId,
     } = requestData;
 
     // Check if this is a mock user ID in development
@@ -79,10 +88,11 @@ Deno.serve(async (req) => {
         scan_id: scanId,
         processing_complete: true,
         mock_mode: true,
+        ...trace.toResponse(),
       });
     }
 
-    console.log('📥 [scan-commit] Request received - detailed data audit', {
+    console.log(`📥 [scan-commit] [${traceId}] Request received - detailed data audit`, {
       user_id,
       hasEstimateResult: !!estimate_result,
       estimateResultKeys: estimate_result ? Object.keys(estimate_result) : [],
@@ -141,7 +151,7 @@ Deno.serve(async (req) => {
     });
 
     // Store body scan data with complete metadata
-    const scanData = await storeBodyScanData(supabase, scanId, {
+    const scanData = await trace.span('scan_storage', () => storeBodyScanData(supabase, scanId, {
       user_id,
       estimate_result,
       match_result,
@@ -161,10 +171,17 @@ Deno.serve(async (req) => {
       gltf_model_id,
       material_config_version,
       avatar_version,
-    });
+      // Photo folder name, read by the photo retention job
+      client_scan_id: clientScanId,
+    }));
+
+    // AI calls were recorded under the client scan id only: attach them to the stored scan
+    if (clientScanId) {
+      await trace.span('ai_usage_link', () => linkAiUsageToScan(user_id, clientScanId, scanData.id));
+    }
 
     // Update user profile if needed
-    await updateUserProfile(
+    await trace.span('profile_update', () => updateUserProfile(
       supabase,
       user_id,
       estimate_result,
@@ -192,27 +209,32 @@ Deno.serve(async (req) => {
       gltf_model_id,
       material_config_version,
       avatar_version
-    );
+    ));
 
-    console.log('✅ [scan-commit] Scan committed successfully with morph_bounds', {
+    console.log(`✅ [scan-commit] [${traceId}] Scan committed successfully with morph_bounds`, {
       scanId: scanData.id,
       hasMorphBounds: !!morph_bounds,
       morphBoundsCount: Object.keys(morph_bounds || {}).length,
+      durationMs: trace.elapsedMs(),
     });
 
     return jsonResponse({
       success: true,
       scan_id: scanData.id,
       processing_complete: true,
+      ...trace.toResponse(),
     });
   } catch (error) {
-    console.error('❌ [scan-commit] Commit failed:', error);
+    console.error(`❌ [scan-commit] [${traceId}] Commit failed:`, error);
     return jsonResponse(
       {
         error: "Internal server error",
         details: error instanceof Error ? error.message : "Unknown error",
+        ...trace.toResponse(),
       },
       500
     );
   }
-});
+}, {
+  corsHeaders,
+}));
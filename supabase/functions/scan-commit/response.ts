@@ -4,7 +4,7 @@
  */ export const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization, x-client-info, x-environment, apikey"
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, x-client-info, x-environment, apikey, x-trace-id"
 };
 export function jsonResponse(body, status = 200) {
   return new Response(JSON.stringify(body), {
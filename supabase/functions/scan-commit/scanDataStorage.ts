@@ -40,6 +40,7 @@
     const { data, error } = await supabase.from('body_scans').insert({
       id: scanId,
       user_id: scanData.user_id,
+      client_scan_id: scanData.client_scan_id || null,
       timestamp: new Date().toISOString(),
       metrics: metrics
     }).select().single();
@@ -4,14 +4,27 @@ import { analyzePhotosWithVision } from './visionAnalyzer.ts';
 import { createFallbackEstimation } from './estimationFallback.ts';
 import { enhanceMeasurements } from './measurementEnhancer.ts';
 import { validateWithDatabase } from './databaseValidator.ts';
+import { applyCalibration, loadMeasurementCalibration } from './measurementCalibration.ts';
+import { hashStageInput, loadCheckpoint, saveCheckpoint } from '../_shared/pipeline/checkpoints.ts';
+import { pickAdditionalPhotos } from '../_shared/utils/captureViews.ts';
+import { maskedViews } from '../_shared/utils/photoPrivacy.ts';
+import { photoStoragePath, photosMetadata } from '../_shared/utils/photoPaths.ts';
+import { withAuth } from '../_shared/utils/auth.ts';
+import { enforceQuota } from '../_shared/utils/quota.ts';
+import { startRequestTrace } from '../_shared/utils/trace.ts';
 /**
  * Scan Estimate Edge Function - DB-First Architecture
  * Handles photo analysis and measurement extraction with DB validation
- */ Deno.serve(async (req)=>{
+ */ Deno.serve(withAuth(async (req, auth)=>{
   const requestStartTime = performance.now();
-  const traceId = `trace_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  // Trace id generated by the client at capture, shared by every function of the scan
+  const trace = startRequestTrace(req, 'scan-estimate');
+  const traceId = trace.traceId;
   // Log 1: Function Entry & Request Method Check
-  console.log(`📥 [scan-estimate] [${traceId}] Function invoked. Method: ${req.method}`);
+  console.log(`📥 [scan-estimate] [${traceId}] Function invoked. Method: ${req.method}`, {
+    traceId,
+    tracePropagated: trace.propagated
+  });
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
     console.log(`🔍 [scan-estimate] [${traceId}] Handling OPTIONS request.`);
@@ -31,14 +44,21 @@ import { validateWithDatabase } from './databaseValidator.ts';
     const requestData = await req.json();
     const validationError = validateEstimateRequest(requestData);
     if (validationError) {
-      console.error(`❌ [scan-estimate] [${traceId}] Request validation failed: ${validationError}. Request data: ${JSON.stringify(requestData)}.`, {
-        validationError
+      // Not the raw request: its photo URLs are signed and grant access to the photos
+      console.error(`❌ [scan-estimate] [${traceId}] Request validation failed: ${validationError}.`, {
+        validationError,
+        requestKeys: requestData && typeof requestData === 'object' ? Object.keys(requestData) : [],
+        photos: Array.isArray(requestData?.photos) ? requestData.photos.map((p)=>({
+            view: p?.view,
+            path: photoStoragePath(p)
+          })) : null
       });
       return jsonResponse({
-        error: validationError
+        error: validationError,
+        ...trace.toResponse()
       }, 400);
     }
-    const { user_id, photos, user_declared_height_cm, user_declared_weight_kg, user_declared_gender } = requestData;
+    const { user_id, photos, user_declared_height_cm, user_declared_weight_kg, user_declared_gender, clientScanId, force_recompute } = requestData;
     console.log(`📥 [scan-estimate] [${traceId}] Request received and validated.`, {
       user_id,
       photosCount: photos?.length,
@@ -50,6 +70,30 @@ import { validateWithDatabase } from './databaseValidator.ts';
       traceId,
       requestStartTime
     });
+    // Resume: a retried pipeline gets the stored analysis instead of a second vision call
+    const checkpointInputHash = await hashStageInput(photos);
+    if (clientScanId && !force_recompute) {
+      const checkpoint = await trace.span('checkpoint_lookup', ()=>loadCheckpoint({
+          clientScanId,
+          userId: user_id,
+          stage: 'estimate',
+          inputHash: checkpointInputHash
+        }));
+      if (checkpoint) {
+        console.log(`✅ [scan-estimate] [${traceId}] Returning checkpointed estimation.`, {
+          clientScanId,
+          philosophy: 'resume_from_checkpoint'
+        });
+        return jsonResponse({
+          ...checkpoint,
+          resumed_from_checkpoint: true,
+          ...trace.toResponse()
+        });
+      }
+    }
+    // Paid OpenAI call ahead: counted against the user's plan (the stages of one scan share a use)
+    const quotaResponse = await trace.span('quota', ()=>enforceQuota(auth, 'scan', clientScanId, corsHeaders, { recompute: Boolean(force_recompute) }));
+    if (quotaResponse) return quotaResponse;
     // Log 3: Supabase Client Initialization
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
@@ -78,12 +122,14 @@ import { validateWithDatabase } from './databaseValidator.ts';
     // Log 4: Photo Extraction & Availability Check
     const frontPhoto = photos.find((p)=>p.view === 'front');
     const profilePhoto = photos.find((p)=>p.view === 'profile');
+    // Optional back/three-quarter views refine back width, glutes and posture
+    const additionalPhotos = pickAdditionalPhotos(photos);
     console.log('🔍 [scan-estimate] Photo availability and structure analysis:', {
       totalPhotos: photos.length,
       photosStructure: photos.map((p)=>({
           view: p.view,
           hasUrl: !!p.url,
-          urlLength: p.url?.length,
+          path: photoStoragePath(p),
           hasReport: !!p.report,
           reportKeys: p.report ? Object.keys(p.report) : [],
           reportStructure: p.report ? {
@@ -97,12 +143,14 @@ import { validateWithDatabase } from './databaseValidator.ts';
       frontPhotoFound: !!frontPhoto,
       profilePhotoFound: !!profilePhoto,
       frontPhotoHasReport: !!frontPhoto?.report,
-      profilePhotoHasReport: !!profilePhoto?.report
+      profilePhotoHasReport: !!profilePhoto?.report,
+      additionalViews: additionalPhotos.map((p)=>p.view)
     });
     if (!frontPhoto && !profilePhoto) {
       console.error(`❌ [scan-estimate] [${traceId}] At least one photo (front or profile) is required.`);
       return jsonResponse({
-        error: "At least one photo (front or profile) is required"
+        error: "At least one photo (front or profile) is required",
+        ...trace.toResponse()
       }, 400);
     }
     // Log 5: Photo Quality Assessment
@@ -116,15 +164,13 @@ import { validateWithDatabase } from './databaseValidator.ts';
       frontReportExists: !!frontPhoto?.report,
       profileReportExists: !!profilePhoto?.report,
       photoCompatibilityCheck: {
-        frontPhotoUrl: frontPhoto?.url ? {
-          isPublicUrl: frontPhoto.url.includes('supabase.co/storage'),
-          urlLength: frontPhoto.url.length,
-          urlPreview: frontPhoto.url.substring(0, 100) + '...'
+        frontPhoto: frontPhoto?.url ? {
+          isSignedUrl: frontPhoto.url.includes('/storage/v1/object/sign/'),
+          path: photoStoragePath(frontPhoto)
         } : null,
-        profilePhotoUrl: profilePhoto?.url ? {
-          isPublicUrl: profilePhoto.url.includes('supabase.co/storage'),
-          urlLength: profilePhoto.url.length,
-          urlPreview: profilePhoto.url.substring(0, 100) + '...'
+        profilePhoto: profilePhoto?.url ? {
+          isSignedUrl: profilePhoto.url.includes('/storage/v1/object/sign/'),
+          path: photoStoragePath(profilePhoto)
         } : null
       }
     });
@@ -134,8 +180,8 @@ import { validateWithDatabase } from './databaseValidator.ts';
     // Log 6: OpenAI Vision Analysis Call
     try {
       console.log(`🔍 [scan-estimate] [${traceId}] Starting OpenAI Vision analysis with enhanced diagnostics.`, {
-        frontPhotoUrl: frontPhoto?.url,
-        profilePhotoUrl: profilePhoto?.url,
+        frontPhotoPath: photoStoragePath(frontPhoto),
+        profilePhotoPath: photoStoragePath(profilePhoto),
         photosAccessible: 'checking_accessibility',
         userContext: {
           height_cm: user_declared_height_cm,
@@ -143,14 +189,19 @@ import { validateWithDatabase } from './databaseValidator.ts';
           gender: user_declared_gender
         }
       });
-      extractionResult = await analyzePhotosWithVision(frontPhoto?.url || null, profilePhoto?.url || null, {
+      extractionResult = await trace.span('vision_analysis', ()=>analyzePhotosWithVision(frontPhoto?.url || null, profilePhoto?.url || null, {
         height_cm: user_declared_height_cm,
         weight_kg: user_declared_weight_kg,
         gender: user_declared_gender,
         frontReport: frontPhoto?.report || null,
         profileReport: profilePhoto?.report || null,
-        traceId
-      });
+        additionalPhotos,
+        traceId,
+        usageContext: {
+          userId: auth.userId,
+          clientScanId
+        }
+      }));
       console.log(`✅ [scan-estimate] [${traceId}] OpenAI Vision analysis successful.`);
       // Log 6.1: CRITICAL - Full extractionResult from OpenAI
       console.log(`✅ [scan-estimate] [${traceId}] Full extractionResult from OpenAI Vision: ${JSON.stringify(extractionResult, null, 2)}`);
@@ -168,22 +219,25 @@ import { validateWithDatabase } from './databaseValidator.ts';
           isAccessError
         },
         photosContext: {
-          frontPhotoUrl: frontPhoto?.url,
-          profilePhotoUrl: profilePhoto?.url,
+          frontPhotoPath: photoStoragePath(frontPhoto),
+          profilePhotoPath: photoStoragePath(profilePhoto),
           frontPhotoSize: frontPhoto?.report ? 'has_report' : 'no_report',
           profilePhotoSize: profilePhoto?.report ? 'has_report' : 'no_report'
         },
         fallbackStrategy: 'applying_enhanced_fallback'
       });
       // Log 6.2: Fallback Strategy Determination
-      const fallbackStrategy = await determineFallbackStrategy(supabase, user_id, user_declared_gender);
-      extractionResult = await createFallbackEstimation({
-        height_cm: user_declared_height_cm,
-        weight_kg: user_declared_weight_kg,
-        gender: user_declared_gender,
-        frontReport: frontPhoto.report,
-        profileReport: profilePhoto.report,
-        fallbackStrategy
+      let fallbackStrategy;
+      extractionResult = await trace.span('fallback_estimation', async ()=>{
+        fallbackStrategy = await determineFallbackStrategy(supabase, user_id, user_declared_gender);
+        return createFallbackEstimation({
+          height_cm: user_declared_height_cm,
+          weight_kg: user_declared_weight_kg,
+          gender: user_declared_gender,
+          frontReport: frontPhoto.report,
+          profileReport: profilePhoto.report,
+          fallbackStrategy
+        });
       });
       fallbackUsed = true;
       fallbackReason = isTimeoutError ? 'openai_timeout_error' : isFormatError ? 'openai_format_error' : isAccessError ? 'openai_access_error' : 'openai_general_error';
@@ -200,39 +254,60 @@ import { validateWithDatabase } from './databaseValidator.ts';
     console.log(`🔍 [scan-estimate] [${traceId}] Estimated BMI calculated: ${estimated_bmi.toFixed(2)}.`);
     // Log 8: Enhance Measurements Call
     console.log(`🔍 [scan-estimate] [${traceId}] Measurements before enhancement: ${JSON.stringify(extractionResult.measurements, null, 2)}`);
-    const enhancedMeasurements = enhanceMeasurements(extractionResult.measurements, {
+    // The whole vision result, not only its measurements: the model's measurements are kept and
+    // BMI estimates only fill the missing ones (they used to replace every value)
+    const enhancedMeasurements = enhanceMeasurements(extractionResult, {
       height_cm: user_declared_height_cm,
       weight_kg: user_declared_weight_kg,
-      gender: user_declared_gender
+      gender: user_declared_gender,
+      frontReport: frontPhoto?.report || null,
+      profileReport: profilePhoto?.report || null
     });
     console.log(`✅ [scan-estimate] [${traceId}] Measurements after enhancement: ${JSON.stringify(enhancedMeasurements, null, 2)}`);
     // Log 9: Validate Measurements with Database
     console.log(`🔍 [scan-estimate] [${traceId}] Starting DB-first validation for measurements.`);
-    const bmiValidation = await validateWithDatabase(supabase, {
-      estimated_bmi,
-      raw_measurements: enhancedMeasurements,
-      user_declared_height_cm,
-      user_declared_weight_kg,
-      user_declared_gender
-    });
+    const bmiValidation = await trace.span('db_validation', ()=>validateWithDatabase(supabase, {
+        estimated_bmi,
+        raw_measurements: enhancedMeasurements,
+        user_declared_height_cm,
+        user_declared_weight_kg,
+        user_declared_gender
+      }));
     console.log(`✅ [scan-estimate] [${traceId}] DB validation completed: ${JSON.stringify(bmiValidation, null, 2)}.`);
+    // Log 9.1: Per-user calibration from tape measurements of previous scans
+    const measurementCalibration = await trace.span('calibration', ()=>loadMeasurementCalibration(supabase, user_id));
+    const calibratedMeasurements = measurementCalibration ? applyCalibration(enhancedMeasurements, measurementCalibration) : null;
+    if (measurementCalibration) {
+      console.log(`✅ [scan-estimate] [${traceId}] Tape calibration applied.`, {
+        factors: measurementCalibration.factors,
+        sampleCount: measurementCalibration.sample_count,
+        philosophy: 'user_reference_calibration'
+      });
+    }
     // Log 10: Prepare Final Response
     const response = {
       extracted_data: {
         raw_measurements: enhancedMeasurements,
+        // Raw values stay untouched: they are what the calibration learns from
+        calibrated_measurements: calibratedMeasurements,
+        measurement_calibration: measurementCalibration,
         estimated_bmi,
         processing_confidence: extractionResult.confidence.vision,
         photo_quality_score,
         skin_tone: extractSkinToneFromPhotos(photos) || extractionResult.skin_tone,
         skin_tone_analysis: extractionResult.skin_tone_analysis,
         keypoints: extractionResult.keypoints,
+        posture: extractionResult.posture || null,
+        captured_views: photos.map((p)=>p.view),
+        privacy_masked_views: maskedViews(photos),
         scale_method: extractionResult.scale_method,
         pixel_per_cm: extractionResult.pixel_per_cm,
         fallback_used: fallbackUsed,
         fallback_reason: fallbackReason,
         bmi_validation: bmiValidation
       },
-      photos_metadata: photos,
+      // Storage paths only: signed URLs expire and must not be stored
+      photos_metadata: photosMetadata(photos),
       diagnostics: {
         photo_quality: {
           front: {
@@ -244,18 +319,38 @@ import { validateWithDatabase } from './databaseValidator.ts';
             blur_score: profilePhoto.report.quality.blur_score,
             brightness: profilePhoto.report.quality.brightness,
             pose_quality: extractionResult.quality_assessment?.pose_quality || 0.8
-          }
+          },
+          ...Object.fromEntries(additionalPhotos.map((p)=>[
+              p.view,
+              {
+                blur_score: p.report?.quality?.blur_score ?? null,
+                brightness: p.report?.quality?.brightness ?? null
+              }
+            ]))
         },
         processing_notes: extractionResult.processing_notes || [],
         bmi_validation_flags: bmiValidation.flags || []
       }
     };
+    // A fallback estimate is not checkpointed: a resumed pipeline must retry vision, not replay the fallback
+    if (clientScanId && !fallbackUsed) {
+      await trace.span('checkpoint_save', ()=>saveCheckpoint({
+          clientScanId,
+          userId: user_id,
+          stage: 'estimate',
+          inputHash: checkpointInputHash
+        }, response));
+    }
     const processingTime = performance.now() - requestStartTime;
     console.log(`✅ [scan-estimate] [${traceId}] Estimation completed successfully. Final response: ${JSON.stringify(response, null, 2)}`, {
       processingTimeMs: processingTime.toFixed(2),
       traceId
     });
-    return jsonResponse(response);
+    // Added after the checkpoint save: a resumed run reports its own trace
+    return jsonResponse({
+      ...response,
+      ...trace.toResponse()
+    });
   } catch (error) {
     // Log 11: Error Handling
     const processingTime = performance.now() - requestStartTime;
@@ -268,10 +363,13 @@ import { validateWithDatabase } from './databaseValidator.ts';
     return jsonResponse({
       error: "Internal server error",
       details: error instanceof Error ? error.message : "Unknown error",
-      traceId
+      traceId,
+      ...trace.toResponse()
     }, 500);
   }
-});
+}, {
+  corsHeaders,
+}));
 /**
  * Calculate aggregated photo quality score
  */ function calculatePhotoQualityScore(frontReport, profileReport) {
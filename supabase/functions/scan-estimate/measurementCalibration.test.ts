@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { applyCalibration, fitCalibration } from './measurementCalibration.ts';
+
+describe('fitCalibration', () => {
+  it('moves halfway to the ratio of a single tape measurement', () => {
+    const calibration = fitCalibration([{ waist_cm: 88, raw_estimates: { waist_cm: 80 } }]);
+
+    expect(calibration).toEqual({
+      factors: { waist_cm: { factor: 1.05, samples: 1 } },
+      sample_count: 1,
+      model: 'recency_weighted_ratio_v1',
+    });
+  });
+
+  it('weights recent samples more than older ones', () => {
+    const calibration = fitCalibration([
+      { hips_cm: 110, raw_estimates: { hips_cm: 100 } },
+      { hips_cm: 90, raw_estimates: { hips_cm: 100 } },
+    ]);
+
+    // (1.1 + 0.9 * 0.8 + 1) / (1 + 0.8 + 1): above the 1.0 a plain average would give
+    expect(calibration?.factors.hips_cm.factor).toBe(1.007);
+  });
+
+  it('ignores implausible ratios and bounds the factor', () => {
+    expect(fitCalibration([{ waist_cm: 150, raw_estimates: { waist_cm: 80 } }])).toBeNull();
+    expect(fitCalibration([{ chest_cm: 90, raw_estimates: {} }])).toBeNull();
+
+    const samples = Array.from({ length: 5 }, () => ({ chest_cm: 128, raw_estimates: { chest_cm: 100 } }));
+    expect(fitCalibration(samples)?.factors.chest_cm.factor).toBe(1.15);
+  });
+});
+
+describe('applyCalibration', () => {
+  it('applies the factors to the calibrated measurements only', () => {
+    const calibrated = applyCalibration(
+      { waist_cm: 80, hips_cm: 95, height_cm: 175 },
+      { factors: { waist_cm: { factor: 1.05, samples: 1 }, chest_cm: { factor: 0.9, samples: 1 } } }
+    );
+
+    expect(calibrated).toEqual({ waist_cm: 84, hips_cm: 95, height_cm: 175 });
+  });
+});
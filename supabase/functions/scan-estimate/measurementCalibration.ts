@@ -0,0 +1,81 @@
+/**
+ * Measurement Calibration
+ * Per-user bias model learned from tape measurements entered on previous scans.
+ * The AI tends to be consistently off for a given body and capture setup, so each
+ * circumference gets a multiplicative correction factor: tape / raw estimate,
+ * weighted towards recent scans and shrunk towards 1 while samples are few.
+ */ export const CALIBRATED_MEASUREMENTS = [
+  'waist_cm',
+  'hips_cm',
+  'chest_cm'
+];
+const MAX_SAMPLES = 10;
+/** Weight of each older sample relative to the next newer one */ const RECENCY_DECAY = 0.8;
+/** Pseudo-sample at factor 1: one tape measurement only moves the estimate halfway */ const PRIOR_WEIGHT = 1;
+/** Tape/estimate ratios outside this range are typos or a different measuring spot */ const MIN_SAMPLE_RATIO = 0.7;
+const MAX_SAMPLE_RATIO = 1.3;
+const MIN_FACTOR = 0.85;
+const MAX_FACTOR = 1.15;
+/**
+ * Load the user's most recent reference measurements and fit the correction factors.
+ * Returns null when the user has no usable sample or the lookup fails.
+ */ export async function loadMeasurementCalibration(supabase, userId) {
+  const { data, error } = await supabase.from('body_scan_reference_measurements').select('waist_cm, hips_cm, chest_cm, raw_estimates, measured_at').eq('user_id', userId).order('measured_at', {
+    ascending: false
+  }).limit(MAX_SAMPLES);
+  if (error) {
+    console.warn('⚠️ [measurementCalibration] Failed to load reference measurements', {
+      userId,
+      error: error.message,
+      philosophy: 'calibration_best_effort'
+    });
+    return null;
+  }
+  return fitCalibration(data || []);
+}
+/**
+ * Fit one factor per measurement from samples ordered newest first
+ */ export function fitCalibration(samples) {
+  const factors = {};
+  for (const key of CALIBRATED_MEASUREMENTS){
+    let weightedRatios = 0;
+    let weights = 0;
+    let count = 0;
+    samples.forEach((sample, index)=>{
+      const tape = Number(sample[key]);
+      const raw = Number(sample.raw_estimates?.[key]);
+      if (!isFinite(tape) || !isFinite(raw) || tape <= 0 || raw <= 0) return;
+      const ratio = tape / raw;
+      if (ratio < MIN_SAMPLE_RATIO || ratio > MAX_SAMPLE_RATIO) return;
+      const weight = Math.pow(RECENCY_DECAY, index);
+      weightedRatios += ratio * weight;
+      weights += weight;
+      count++;
+    });
+    if (count === 0) continue;
+    const factor = (weightedRatios + PRIOR_WEIGHT) / (weights + PRIOR_WEIGHT);
+    factors[key] = {
+      factor: Math.round(Math.max(MIN_FACTOR, Math.min(MAX_FACTOR, factor)) * 1000) / 1000,
+      samples: count
+    };
+  }
+  if (Object.keys(factors).length === 0) return null;
+  return {
+    factors,
+    sample_count: samples.length,
+    model: 'recency_weighted_ratio_v1'
+  };
+}
+/**
+ * Calibrated copy of the raw measurements; keys without a factor are kept as is
+ */ export function applyCalibration(rawMeasurements, calibration) {
+  const calibrated = {
+    ...rawMeasurements
+  };
+  for (const [key, { factor }] of Object.entries(calibration.factors)){
+    if (typeof rawMeasurements[key] === 'number') {
+      calibrated[key] = Math.round(rawMeasurements[key] * factor * 10) / 10;
+    }
+  }
+  return calibrated;
+}
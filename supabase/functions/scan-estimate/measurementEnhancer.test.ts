@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { EYE_HEIGHT_RATIO, enhanceMeasurements, measureStatureCm, rescaleLengths } from './measurementEnhancer.ts';
+
+const IMAGE_HEIGHT = 2000;
+const PIXEL_PER_CM = 10;
+
+/** Capture report of a user standing statureCm tall, landmarks in the report image space */
+function sheetReport(statureCm: number, overrides: Record<string, unknown> = {}) {
+  const eyeY = 0.1;
+  const heelY = eyeY + statureCm * PIXEL_PER_CM * EYE_HEIGHT_RATIO / IMAGE_HEIGHT;
+  return {
+    image: { width: 1500, height: IMAGE_HEIGHT },
+    scale: { pixel_per_cm_estimate: PIXEL_PER_CM, method: 'sheet-A4' },
+    content: {
+      skeleton_keypoints: [
+        { name: 'left_eye', x: 0.48, y: eyeY, visibility: 0.99 },
+        { name: 'right_eye', x: 0.52, y: eyeY, visibility: 0.99 },
+        { name: 'left_heel', x: 0.45, y: heelY, visibility: 0.9 },
+        { name: 'right_heel', x: 0.55, y: heelY, visibility: 0.9 },
+      ],
+    },
+    ...overrides,
+  };
+}
+
+function visionResult(measurements: Record<string, number>) {
+  return { measurements, pixel_per_cm: 4.2, scale_method: 'vision', processing_notes: [] as string[] };
+}
+
+const USER = { height_cm: 175, weight_kg: 70, gender: 'masculine' };
+
+describe('measureStatureCm', () => {
+  it('measures the stature from the eyes to the heels at the sheet scale', () => {
+    expect(measureStatureCm(sheetReport(180))).toBe(180);
+  });
+
+  it('needs an A4 scale and visible eyes and heels', () => {
+    expect(measureStatureCm(sheetReport(180, { scale: { pixel_per_cm_estimate: 3.5, method: 'face-heuristic' } }))).toBeNull();
+    expect(measureStatureCm(sheetReport(180, { content: { skeleton_keypoints: [] } }))).toBeNull();
+    const hidden = sheetReport(180);
+    hidden.content.skeleton_keypoints = hidden.content.skeleton_keypoints.map((point) =>
+      point.name.endsWith('heel') ? { ...point, visibility: 0.2 } : point
+    );
+    expect(measureStatureCm(hidden)).toBeNull();
+  });
+});
+
+describe('rescaleLengths', () => {
+  it('rescales lengths but not the declared height or non-lengths', () => {
+    expect(rescaleLengths({ waist_cm: 80, height_cm: 175, weight_kg: 70 }, 1.1)).toEqual({
+      waist_cm: 88,
+      height_cm: 175,
+      weight_kg: 70,
+    });
+  });
+});
+
+describe('enhanceMeasurements', () => {
+  it('keeps the measurements returned by the model', () => {
+    const measurements = enhanceMeasurements(visionResult({ waist_cm: 91, hips_cm: 104, chest_cm: 108 }), {
+      ...USER,
+      frontReport: null,
+      profileReport: null,
+    });
+
+    expect(measurements).toMatchObject({ waist_cm: 91, hips_cm: 104, chest_cm: 108, height_cm: 175, weight_kg: 70 });
+  });
+
+  it('fills only the missing measurements from the BMI estimates', () => {
+    const measurements = enhanceMeasurements(visionResult({ waist_cm: 91 }), { ...USER, frontReport: null, profileReport: null });
+
+    expect(measurements.waist_cm).toBe(91);
+    expect(measurements.hips_cm).toBeGreaterThan(0);
+    expect(measurements.chest_cm).toBeGreaterThan(0);
+  });
+
+  it('rescales by the measured stature over the declared height', () => {
+    const analysis = visionResult({ waist_cm: 80, hips_cm: 95, chest_cm: 100 });
+    const measurements = enhanceMeasurements(analysis, { ...USER, frontReport: sheetReport(189), profileReport: null });
+
+    expect(measurements).toMatchObject({ waist_cm: 86.4, hips_cm: 102.6, chest_cm: 108, height_cm: 175 });
+    expect(analysis.scale_method).toBe('sheet-A4');
+    expect(analysis.pixel_per_cm).toBe(PIXEL_PER_CM);
+  });
+
+  it('keeps the measurements when the calibration is implausible', () => {
+    const analysis = visionResult({ waist_cm: 80, hips_cm: 95, chest_cm: 100 });
+    const measurements = enhanceMeasurements(analysis, { ...USER, frontReport: null, profileReport: sheetReport(100) });
+
+    expect(measurements).toMatchObject({ waist_cm: 80, hips_cm: 95, chest_cm: 100 });
+    expect(analysis.processing_notes.some((note) => note.includes('out of bounds'))).toBe(true);
+  });
+});
@@ -1,14 +1,50 @@
 /**
  * Measurement Enhancer
- * Enhances and validates measurements from vision analysis
- */ export function enhanceMeasurements(visionAnalysis, userMetrics) {
+ * Enhances and validates measurements from vision analysis.
+ * The model's measurements are kept; BMI-based estimates only fill the ones it did not return.
+ */ /**
+ * Bounds on the calibrated/declared stature ratio: beyond them the sheet or the landmarks
+ * were misdetected, and rescaling would do more harm than good
+ */ const MIN_CALIBRATION_RATIO = 0.8;
+const MAX_CALIBRATION_RATIO = 1.25;
+/**
+ * Eye height as a fraction of stature, from the Drillis & Contini (1966) segment proportions
+ * (as tabulated in Winter, Biomechanics and Motor Control of Human Movement). Heels are taken
+ * at floor level.
+ */ export const EYE_HEIGHT_RATIO = 0.936;
+/** Landmarks less visible than this are not used to measure the stature */ const MIN_LANDMARK_VISIBILITY = 0.5;
+export function enhanceMeasurements(visionAnalysis, userMetrics) {
   const processingNotes = visionAnalysis.processing_notes || [];
   // Enhanced scale handling with fallbacks
   let finalPixelPerCm = visionAnalysis.pixel_per_cm;
   let scaleMethod = visionAnalysis.scale_method;
-  if (!finalPixelPerCm || !isFinite(finalPixelPerCm) || finalPixelPerCm <= 0) {
+  const calibration = resolveSheetCalibration(userMetrics.frontReport, userMetrics.profileReport);
+  if (calibration) {
+    // A4 sheet and body landmarks measured on the same client image: the model scales its
+    // lengths from the declared height, the sheet tells how tall the user really is in cm
+    if (visionAnalysis.measurements && userMetrics.height_cm > 0) {
+      const ratio = calibration.stature_cm / userMetrics.height_cm;
+      if (ratio >= MIN_CALIBRATION_RATIO && ratio <= MAX_CALIBRATION_RATIO) {
+        visionAnalysis.measurements = rescaleLengths(visionAnalysis.measurements, ratio);
+        processingNotes.push(`Measurements rescaled from A4 sheet calibration (x${ratio.toFixed(3)})`);
+      } else {
+        processingNotes.push(`A4 calibration ratio x${ratio.toFixed(3)} out of bounds, measurements kept`);
+      }
+    }
+    console.log('🔍 [measurementEnhancer] Applied A4 sheet calibration', {
+      calibratedScale: calibration.pixel_per_cm,
+      calibratedStatureCm: calibration.stature_cm,
+      declaredHeightCm: userMetrics.height_cm,
+      view: calibration.view,
+      philosophy: 'absolute_scale_reference'
+    });
+    // Scale in the pixel space of the capture report, not of the image seen by the model
+    finalPixelPerCm = calibration.pixel_per_cm;
+    scaleMethod = 'sheet-A4';
+  } else if (!isValidScale(finalPixelPerCm)) {
     // Fallback: estimate from user height and image dimensions
-    const estimatedBodyHeightPixels = 1000 * 0.8; // Assume body takes 80% of 1000px image height
+    const imageHeight = userMetrics.frontReport?.image?.height || userMetrics.profileReport?.image?.height || 1000;
+    const estimatedBodyHeightPixels = imageHeight * 0.8; // Assume body takes 80% of the image height
     finalPixelPerCm = estimatedBodyHeightPixels / userMetrics.height_cm;
     scaleMethod = 'user_height_fallback';
     processingNotes.push(`Scale fallback applied: ${finalPixelPerCm.toFixed(2)} px/cm`);
@@ -47,6 +83,76 @@
   visionAnalysis.processing_notes = processingNotes;
   return enhancedMeasurements;
 }
+function isValidScale(pixelPerCm) {
+  return typeof pixelPerCm === 'number' && isFinite(pixelPerCm) && pixelPerCm > 0;
+}
+function findLandmark(keypoints, name) {
+  const point = keypoints.find((keypoint)=>keypoint?.name === name);
+  return point && (point.visibility ?? 0) >= MIN_LANDMARK_VISIBILITY ? point : null;
+}
+function averageY(points) {
+  const found = points.filter(Boolean);
+  return found.length > 0 ? found.reduce((sum, point)=>sum + point.y, 0) / found.length : null;
+}
+/**
+ * Stature in cm from one capture report: eye-to-heel height of the pose landmarks, in the
+ * pixels of the image the sheet was measured on (normalized landmarks x report.image.height).
+ * Null without an A4 scale, image size or visible eyes and heels.
+ */ export function measureStatureCm(report) {
+  if (report?.scale?.method !== 'sheet-A4' || !isValidScale(report.scale.pixel_per_cm_estimate)) return null;
+  const imageHeight = report.image?.height;
+  const keypoints = report.content?.skeleton_keypoints;
+  if (!(imageHeight > 0) || !Array.isArray(keypoints)) return null;
+  const eyeY = averageY([
+    findLandmark(keypoints, 'left_eye'),
+    findLandmark(keypoints, 'right_eye')
+  ]);
+  const heelY = averageY([
+    findLandmark(keypoints, 'left_heel'),
+    findLandmark(keypoints, 'right_heel')
+  ]);
+  if (eyeY === null || heelY === null || heelY <= eyeY) return null;
+  const staturePixels = (heelY - eyeY) * imageHeight / EYE_HEIGHT_RATIO;
+  return Math.round(staturePixels / report.scale.pixel_per_cm_estimate * 10) / 10;
+}
+/**
+ * Client-measured A4 calibration from the capture reports, front photo first
+ */ export function resolveSheetCalibration(frontReport, profileReport) {
+  for (const [view, report] of [
+    [
+      'front',
+      frontReport
+    ],
+    [
+      'profile',
+      profileReport
+    ]
+  ]){
+    const statureCm = measureStatureCm(report);
+    if (statureCm !== null) {
+      return {
+        view,
+        pixel_per_cm: report.scale.pixel_per_cm_estimate,
+        stature_cm: statureCm
+      };
+    }
+  }
+  return null;
+}
+/**
+ * Convert length measurements (circumferences, widths) scaled from the declared height to the
+ * calibrated scale. Height is declared by the user and weight is not a length.
+ */ export function rescaleLengths(measurements, ratio) {
+  const rescaled = {
+    ...measurements
+  };
+  for (const [key, value] of Object.entries(measurements)){
+    if (key.endsWith('_cm') && key !== 'height_cm' && typeof value === 'number') {
+      rescaled[key] = Math.round(value * ratio * 10) / 10;
+    }
+  }
+  return rescaled;
+}
 /**
  * Calculate fallback measurements based on BMI and gender
  */ function calculateFallbackWaist(userMetrics) {
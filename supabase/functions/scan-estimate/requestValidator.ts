@@ -1,3 +1,4 @@
+import { ADDITIONAL_CAPTURE_VIEWS } from '../_shared/utils/captureViews.ts';
 /**
  * Request Validation
  * Validates incoming scan estimate requests
@@ -11,8 +12,11 @@
   if (!user_id || typeof user_id !== 'string') {
     return 'Valid user_id is required';
   }
-  if (!photos || !Array.isArray(photos) || photos.length !== 2) {
-    return 'At least 1 photo is required (maximum 2: front and profile)';
+  if (!photos || !Array.isArray(photos) || photos.length < 2 || photos.length > 2 + ADDITIONAL_CAPTURE_VIEWS.length) {
+    return 'Front and profile photos are required (plus optional back and threequarter)';
+  }
+  if (new Set(photos.map((photo)=>photo.view)).size !== photos.length) {
+    return 'Each photo view can only be sent once';
   }
   if (!user_declared_height_cm || typeof user_declared_height_cm !== 'number' || user_declared_height_cm < 120 || user_declared_height_cm > 230) {
     return 'Valid user_declared_height_cm is required (120-230cm)';
@@ -30,9 +34,10 @@
   for (const photo of photos){
     if (!photo.view || ![
       'front',
-      'profile'
+      'profile',
+      ...ADDITIONAL_CAPTURE_VIEWS
     ].includes(photo.view)) {
-      return 'Photo view must be either "front" or "profile"';
+      return 'Photo view must be "front", "profile", "back" or "threequarter"';
     }
     if (!photo.url) {
       return 'Photo URL is required';
@@ -1,21 +1,24 @@
+import { getVisionProvider, VisionProviderError } from '../_shared/vision/index.ts';
+import { describeAdditionalViews, viewLabel } from '../_shared/utils/captureViews.ts';
+import { describePrivacyMasking } from '../_shared/utils/photoPrivacy.ts';
 /**
  * Vision Analyzer
- * OpenAI Vision API integration for photo analysis
+ * Vision API integration for photo analysis (provider selected via VISION_PROVIDER)
  */ /**
- * Analyze photos using OpenAI Vision API
+ * Analyze photos using the configured vision provider
  */ export async function analyzePhotosWithVision(frontPhotoUrl, profilePhotoUrl, userMetrics) {
   const traceId = userMetrics.traceId || 'unknown';
-  const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-  if (!openaiApiKey) {
-    throw new Error('OpenAI API key not configured');
-  }
+  const provider = getVisionProvider();
+  // Optional back/three-quarter views, sent after front and profile
+  const additionalPhotos = userMetrics.additionalPhotos || [];
   // Check if we have at least one photo
   if (!frontPhotoUrl && !profilePhotoUrl) {
     throw new Error('At least one photo URL is required');
   }
   const bmi = userMetrics.weight_kg / Math.pow(userMetrics.height_cm / 100, 2);
-  console.log(`🔍 [visionAnalyzer] [${traceId}] Calling OpenAI Vision API with enhanced prompt`, {
-    model: 'gpt-4o',
+  console.log(`🔍 [visionAnalyzer] [${traceId}] Calling Vision API with enhanced prompt`, {
+    provider: provider.name,
+    model: provider.model,
     userMetrics: {
       height_cm: userMetrics.height_cm,
       weight_kg: userMetrics.weight_kg,
@@ -24,84 +27,55 @@
     },
     availablePhotos: {
       front: !!frontPhotoUrl,
-      profile: !!profilePhotoUrl
+      profile: !!profilePhotoUrl,
+      additional: additionalPhotos.map((photo)=>photo.view)
     },
     traceId
   });
   // Enhanced prompt focused on keypoints and measurements extraction
   const qualityContext = buildQualityContext(userMetrics);
-  const prompt = buildEnhancedAnalysisPrompt(userMetrics, bmi, qualityContext, !!frontPhotoUrl, !!profilePhotoUrl);
-  // Build content array with available photos only
-  const content = [
-    {
-      type: 'text',
-      text: prompt
-    }
-  ];
-  if (frontPhotoUrl) {
-    content.push({
-      type: 'image_url',
-      image_url: {
-        url: frontPhotoUrl
-      }
-    });
-  }
-  if (profilePhotoUrl) {
-    content.push({
-      type: 'image_url',
-      image_url: {
-        url: profilePhotoUrl
-      }
+  const prompt = buildEnhancedAnalysisPrompt(userMetrics, bmi, qualityContext, !!frontPhotoUrl, !!profilePhotoUrl, additionalPhotos.map((photo)=>photo.view));
+  // Send available photos only
+  const imageUrls = [
+    frontPhotoUrl,
+    profilePhotoUrl,
+    ...additionalPhotos.map((photo)=>photo.url)
+  ].filter(Boolean);
+  let result;
+  try {
+    result = await provider.complete({
+      task: 'scan-estimate',
+      prompt,
+      imageUrls,
+      jsonResponse: true,
+      maxTokens: 2000,
+      temperature: 0.05,
+      traceId,
+      usageContext: userMetrics.usageContext
     });
-  }
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${openaiApiKey}`,
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o',
-      response_format: {
-        type: "json_object"
-      },
-      messages: [
-        {
-          role: 'user',
-          content: content
+  } catch (error) {
+    if (error instanceof VisionProviderError) {
+      let errorMessage = createDetailedAPIError(error.status, error.body);
+      try {
+        const errorJson = JSON.parse(error.body);
+        if (errorJson.error?.message) {
+          errorMessage = createDetailedAPIError(error.status, errorJson.error.message);
         }
-      ],
-      max_tokens: 2000,
-      temperature: 0.05 // Lower temperature for more consistent results
-    })
-  });
-  if (!response.ok) {
-    const errorBody = await response.text();
-    console.error('❌ [visionAnalyzer] OpenAI API error:', {
-      status: response.status,
-      statusText: response.statusText,
-      body: errorBody
-    });
-    let errorMessage = createDetailedAPIError(response.status, errorBody);
-    try {
-      const errorJson = JSON.parse(errorBody);
-      if (errorJson.error?.message) {
-        errorMessage = createDetailedAPIError(response.status, errorJson.error.message);
+      } catch (parseError) {
+        errorMessage = createDetailedAPIError(error.status, error.body);
       }
-    } catch (parseError) {
-      errorMessage = createDetailedAPIError(response.status, errorBody);
+      throw new Error(errorMessage);
     }
-    throw new Error(errorMessage);
+    throw error;
   }
-  const result = await response.json();
-  const responseContent = result.choices[0]?.message?.content;
+  const responseContent = result.content;
   if (!responseContent) {
-    console.error('❌ [visionAnalyzer] OpenAI Vision response details:', {
-      choices: result.choices,
+    console.error('❌ [visionAnalyzer] Vision response details:', {
+      provider: result.provider,
       usage: result.usage,
-      finish_reason: result.choices[0]?.finish_reason
+      finish_reason: result.finishReason
     });
-    throw new Error('OpenAI Vision returned empty content');
+    throw new Error('Vision provider returned empty content');
   }
   try {
     const parsed = parseVisionResponse(responseContent);
@@ -117,17 +91,48 @@
     });
     return parsed;
   } catch (error) {
-    console.error(`❌ [visionAnalyzer] [${traceId}] Failed to parse OpenAI response:`, responseContent);
-    throw new Error('Failed to parse OpenAI Vision response');
+    console.error(`❌ [visionAnalyzer] [${traceId}] Failed to parse ${result.provider} response:`, responseContent);
+    throw new Error('Failed to parse Vision response');
   }
 }
 /**
  * Build enhanced analysis prompt for better extraction
- */ function buildEnhancedAnalysisPrompt(userMetrics, bmi, qualityContext, hasFront, hasProfile) {
-  const photoDescription = hasFront && hasProfile ? 'ces 2 photos (face/profil)' : hasFront ? 'cette photo de face' : 'cette photo de profil';
-  const analysisNote = hasFront && hasProfile ? '' : '\n\nNOTE: Une seule photo disponible - effectue une analyse simplifiée avec estimation des mesures manquantes basée sur les proportions anatomiques standards.';
+ */ function buildEnhancedAnalysisPrompt(userMetrics, bmi, qualityContext, hasFront, hasProfile, additionalViews = []) {
+  const views = [
+    ...hasFront ? [
+      'front'
+    ] : [],
+    ...hasProfile ? [
+      'profile'
+    ] : [],
+    ...additionalViews
+  ];
+  const photoDescription = views.length > 1 ? `ces ${views.length} photos (${views.map(viewLabel).join('/')}, dans cet ordre)` : hasFront ? 'cette photo de face' : 'cette photo de profil';
+  const analysisNote = views.length > 1 ? '' : '\n\nNOTE: Une seule photo disponible - effectue une analyse simplifiée avec estimation des mesures manquantes basée sur les proportions anatomiques standards.';
+  const additionalViewsNote = describeAdditionalViews(additionalViews, views.length - additionalViews.length + 1);
+  const additionalKeypoints = additionalViews.map((view)=>`,\n    "${view}": [[x,y,confidence], ...] (coordonnées normalisées 0-1, CORPS uniquement)`).join('');
+  const additionalMeasurements = additionalViews.length > 0 ? `,
+    "back_width_cm": number (largeur du dos d'une aisselle à l'autre${additionalViews.includes('back') ? ', mesurée sur la vue de dos' : ''}),
+    "glute_projection_cm": number (projection des fessiers en arrière de la ligne du dos)` : '';
+  const postureField = additionalViews.length > 0 ? `,
+  "posture": {
+    "shoulder_alignment": string ("level", "left_high", "right_high"),
+    "pelvic_tilt": string ("neutral", "anterior", "posterior"),
+    "notes": string (observation posturale courte)
+  }` : '';
+  const privacyNote = describePrivacyMasking([
+    {
+      view: 'front',
+      report: userMetrics.frontReport
+    },
+    {
+      view: 'profile',
+      report: userMetrics.profileReport
+    },
+    ...userMetrics.additionalPhotos || []
+  ]);
   return `Tu es un expert en analyse morphologique corporelle. Extrais UNIQUEMENT les keypoints anatomiques du CORPS et les mesures corporelles de ${photoDescription}.${analysisNote}
-
+${additionalViewsNote}${privacyNote}
 PROFIL UTILISATEUR:
 - Height: ${userMetrics.height_cm}cm
 - Weight: ${userMetrics.weight_kg}kg  
@@ -153,7 +158,7 @@ Retourne JSON avec:
 {
   "keypoints": {
     "front": [[x,y,confidence], ...] (coordonnées normalisées 0-1, CORPS uniquement),
-    "profile": [[x,y,confidence], ...] (coordonnées normalisées 0-1, CORPS uniquement)
+    "profile": [[x,y,confidence], ...] (coordonnées normalisées 0-1, CORPS uniquement)${additionalKeypoints}
   },
   "measurements": {
     "waist_cm": number (tour de taille),
@@ -162,7 +167,7 @@ Retourne JSON avec:
     "height_cm": number (taille estimée depuis la hauteur corporelle totale),
     "weight_kg": number (poids estimé par analyse visuelle),
     "estimated_body_fat_perc": number (pourcentage de masse grasse estimé),
-    "estimated_muscle_mass_kg": number (masse musculaire estimée en kg)
+    "estimated_muscle_mass_kg": number (masse musculaire estimée en kg)${additionalMeasurements}
   },
   "skin_tone": {
     "r": number (0-255, rouge),
@@ -180,7 +185,7 @@ Retourne JSON avec:
     "pose_quality": number (0-1, qualité de la pose pour l'analyse)
   },
   "scale_method": string ("body-proportion", "total-height", "reference-object"),
-  "pixel_per_cm": number (échelle pixels par centimètre)
+  "pixel_per_cm": number (échelle pixels par centimètre)${postureField}
 }
 
 FOCUS EXTRACTION CORPORELLE PURE:
@@ -214,6 +219,26 @@ Réponds en JSON compact uniquement.`;
   if (userMetrics.profileReport) {
     context += `- Profile photo: ${userMetrics.profileReport.quality.blur_score > 0.6 ? 'Sharp' : 'Slightly blurry'}, brightness ${(userMetrics.profileReport.quality.brightness * 100).toFixed(0)}%\n`;
   }
+  for (const photo of userMetrics.additionalPhotos || []){
+    if (photo.report?.quality) {
+      context += `- ${photo.view === 'back' ? 'Back' : 'Three-quarter'} photo: ${photo.report.quality.blur_score > 0.6 ? 'Sharp' : 'Slightly blurry'}, brightness ${(photo.report.quality.brightness * 100).toFixed(0)}%\n`;
+    }
+  }
+  for (const [view, report] of [
+    [
+      'front',
+      userMetrics.frontReport
+    ],
+    [
+      'profile',
+      userMetrics.profileReport
+    ]
+  ]){
+    if (report?.scale?.method === 'sheet-A4' && report.scale.pixel_per_cm_estimate) {
+      // The scale itself is applied server-side (measurementEnhancer): its pixels are not the model's
+      context += `- CALIBRATION SHEET (${view} photo): a white A4 sheet is in frame as a scale reference. Ignore it when describing the body and keep scaling measurements from the declared height.\n`;
+    }
+  }
   return `
 ${context}`;
 }
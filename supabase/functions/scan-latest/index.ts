@@ -1,16 +1,20 @@
 import { createClient } from 'npm:@supabase/supabase-js@2.54.0';
+import { withAuth } from '../_shared/utils/auth.ts';
+import { startRequestTrace } from '../_shared/utils/trace.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization, apikey, x-client-info, x-environment",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, apikey, x-client-info, x-environment, x-trace-id",
   "Access-Control-Allow-Origin": "*"
 };
 
-Deno.serve(async (req) => {
+Deno.serve(withAuth(async (req, auth) => {
   const startTime = performance.now();
+  const trace = startRequestTrace(req, 'scan-latest');
+  const traceId = trace.traceId;
 
   // 🔍 LOG 1: Function invocation
-  console.log('🔍 [scan-latest] Function invoked', {
+  console.log(`🔍 [scan-latest] [${traceId}] Function invoked`, {
     method: req.method,
     url: req.url,
     timestamp: new Date().toISOString(),
@@ -41,9 +45,8 @@ Deno.serve(async (req) => {
   try {
     // 🔍 LOG 2: URL parsing
     const url = new URL(req.url);
-    const user_id = url.searchParams.get('user_id') || 
-      (req.headers.get('authorization')?.match(/Bearer (.+)/)?.[1] ? 
-        extractUserIdFromJWT(req.headers.get('authorization')) : null);
+    // Verified by withAuth: the caller, or a client assigned to the calling coach
+    const user_id = auth.userId;
 
     console.log('🔍 [scan-latest] URL parsing completed', {
       fullUrl: req.url,
@@ -51,7 +54,8 @@ Deno.serve(async (req) => {
       user_id,
       userIdLength: user_id?.length,
       userIdValid: user_id && user_id.length >= 10,
-      extractedFromJWT: !url.searchParams.get('user_id')
+      callerRole: auth.caller.role,
+      readingAsCoach: user_id !== auth.caller.userId
     });
 
     if (!user_id) {
@@ -106,13 +110,13 @@ Deno.serve(async (req) => {
       query: 'body_scans table with user_id filter'
     });
 
-    const { data: latestScan, error: scanError } = await supabase
+    const { data: latestScan, error: scanError } = await trace.span('scan_query', () => supabase
       .from('body_scans')
       .select('*')
       .eq('user_id', user_id)
       .order('timestamp', { ascending: false })
       .limit(1)
-      .maybeSingle();
+      .maybeSingle());
 
     // 🔍 LOG 5: Body scan query result
     console.log('🔍 [scan-latest] Body scan query completed', {
@@ -144,7 +148,8 @@ Deno.serve(async (req) => {
       });
       return new Response(JSON.stringify({
         scan: null,
-        message: "No scans found for user"
+        message: "No scans found for user",
+        ...trace.toResponse()
       }), {
         headers: {
           ...corsHeaders,
@@ -159,11 +164,11 @@ Deno.serve(async (req) => {
       query: 'user_profile table with user_id filter'
     });
 
-    const { data: userProfile, error: profileError } = await supabase
+    const { data: userProfile, error: profileError } = await trace.span('profile_query', () => supabase
       .from('user_profile')
       .select('height_cm, weight_kg, sex, display_name')
       .eq('user_id', user_id)
-      .single();
+      .single());
 
     // 🔍 LOG 6: User profile query result
     console.log('🔍 [scan-latest] User profile query completed', {
@@ -295,7 +300,7 @@ Deno.serve(async (req) => {
 
     // 🔍 LOG 8: Final response validation
     const processingTime = performance.now() - startTime;
-    console.log('✅ [scan-latest] Response prepared successfully', {
+    console.log(`✅ [scan-latest] [${traceId}] Response prepared successfully`, {
       processingTimeMs: processingTime.toFixed(2),
       responseKeys: Object.keys(response),
       scanId: response.scan.id,
@@ -311,7 +316,10 @@ Deno.serve(async (req) => {
       responseSize: JSON.stringify(response).length
     });
 
-    return new Response(JSON.stringify(response), {
+    return new Response(JSON.stringify({
+      ...response,
+      ...trace.toResponse()
+    }), {
       headers: {
         ...corsHeaders,
         "Content-Type": "application/json"
@@ -320,7 +328,7 @@ Deno.serve(async (req) => {
 
   } catch (error) {
     const processingTime = performance.now() - startTime;
-    console.error('❌ [scan-latest] Function failed', {
+    console.error(`❌ [scan-latest] [${traceId}] Function failed`, {
       processingTimeMs: processingTime.toFixed(2),
       error: error instanceof Error ? error.message : 'Unknown error',
       stack: error instanceof Error ? error.stack : undefined,
@@ -332,7 +340,8 @@ Deno.serve(async (req) => {
     return new Response(JSON.stringify({
       error: "Internal server error",
       details: error instanceof Error ? error.message : "Unknown error",
-      processing_time_ms: processingTime.toFixed(2)
+      processing_time_ms: processingTime.toFixed(2),
+      ...trace.toResponse()
     }), {
       status: 500,
       headers: {
@@ -341,18 +350,8 @@ Deno.serve(async (req) => {
       }
     });
   }
-});
+}, {
+  corsHeaders,
+  access: 'read',
+}));
 
-/**
- * Extract user ID from JWT token
- */
-function extractUserIdFromJWT(authHeader) {
-  try {
-    const token = authHeader.replace('Bearer ', '');
-    const payload = JSON.parse(atob(token.split('.')[1]));
-    return payload.sub || null;
-  } catch (error) {
-    console.warn('🔍 [scan-latest] Failed to extract user_id from JWT:', error);
-    return null;
-  }
-}
\ No newline at end of file
@@ -1,14 +1,18 @@
 // supabase/functions/scan-match/db/archetypeSelector.ts
 import { normalizeMuscularityTerm } from './morphologyHelpers.ts';
+import { RANKING_STRATEGY_MORPH_DISTANCE, RANKING_STRATEGY_SEMANTIC, rankByMorphSpaceDistance, resolveFeatureWeights } from './morphSpaceRanker.ts';
 // FIXED: Enhanced BMI filtering constants with proper epsilon application
 const BMI_EPSILON = 0.5; // Increased epsilon for better tolerance
 const BMI_RELAXATION = 8.0; // MODIFIED: Increased relaxation for extreme BMI cases
 /**
  * FIXED: Enhanced archetype selection with robust filtering
- */ export async function selectClosestArchetypes(supabase, userProfile, limit = 5) {
+ * rankingOptions: { strategy: 'semantic_score' | 'morph_distance', featureWeights, rawMeasurements }
+ */ export async function selectClosestArchetypes(supabase, userProfile, limit = 5, rankingOptions = {}) {
+  const rankingStrategy = rankingOptions.strategy || RANKING_STRATEGY_SEMANTIC;
   console.log('🔍 [archetypeSelector] FIXED: Starting enhanced archetype selection', {
     userProfile,
     limit,
+    rankingStrategy,
     bmiEpsilon: BMI_EPSILON,
     bmiRelaxation: BMI_RELAXATION,
     philosophy: 'enhanced_strict_filtering_with_robust_epsilon'
@@ -169,21 +173,29 @@ const BMI_RELAXATION = 8.0; // MODIFIED: Increased relaxation for extreme BMI ca
     epsilonUsed: BMI_EPSILON,
     philosophy: 'enhanced_bmi_filtering_complete'
   });
-  // Step 4: Calculate distances and select top candidates
-  const candidatesWithDistances = candidates.map((archetype)=>{
-    const distance = calculateArchetypeDistance(archetype, userProfile);
-    // Add overall_score to archetype for sorting
-    const overall_score = calculateOverallScore(archetype, userProfile); // New function to calculate overall score
-    return {
-      ...archetype,
-      distance,
-      overall_score
-    };
-  });
-  // Sort by overall_score (descending) and take top candidates
-  candidatesWithDistances.sort((a, b)=>b.overall_score - a.overall_score);
-  const selectedArchetypes = candidatesWithDistances.slice(0, limit);
-  filteringStats.afterSemanticFilter = candidatesWithDistances.length;
+  // Step 4: Rank candidates and select top ones
+  let selectedArchetypes;
+  let featureWeights = null;
+  if (rankingStrategy === RANKING_STRATEGY_MORPH_DISTANCE) {
+    featureWeights = resolveFeatureWeights(rankingOptions.featureWeights);
+    selectedArchetypes = rankByMorphSpaceDistance(candidates, userProfile, rankingOptions.rawMeasurements, featureWeights, limit);
+    filteringStats.afterSemanticFilter = candidates.length;
+  } else {
+    const candidatesWithDistances = candidates.map((archetype)=>{
+      const distance = calculateArchetypeDistance(archetype, userProfile);
+      // Add overall_score to archetype for sorting
+      const overall_score = calculateOverallScore(archetype, userProfile); // New function to calculate overall score
+      return {
+        ...archetype,
+        distance,
+        overall_score
+      };
+    });
+    // Sort by overall_score (descending) and take top candidates
+    candidatesWithDistances.sort((a, b)=>b.overall_score - a.overall_score);
+    selectedArchetypes = candidatesWithDistances.slice(0, limit);
+    filteringStats.afterSemanticFilter = candidatesWithDistances.length;
+  }
   filteringStats.finalSelected = selectedArchetypes.length;
   // Calculate semantic coherence score
   const semanticCoherenceScore = calculateSemanticCoherence(selectedArchetypes, userProfile);
@@ -192,13 +204,17 @@ const BMI_RELAXATION = 8.0; // MODIFIED: Increased relaxation for extreme BMI ca
     semanticCoherenceScore: semanticCoherenceScore.toFixed(3),
     filteringStats,
     selectedArchetypeIds: selectedArchetypes.map((a)=>a.id),
+    rankingStrategy,
     philosophy: 'enhanced_selection_complete'
   });
+  const gatingStrategy = filteringStats.bmiRelaxationApplied ? 'bmi_relaxed_muscular_gated' : 'strict_bmi_muscular_gated';
   return {
     selectedArchetypes,
-    strategyUsed: filteringStats.bmiRelaxationApplied ? 'bmi_relaxed_muscular_gated' : 'strict_bmi_muscular_gated',
+    strategyUsed: rankingStrategy === RANKING_STRATEGY_MORPH_DISTANCE ? `${gatingStrategy}_morph_distance` : gatingStrategy,
     semanticCoherenceScore,
-    filteringStats
+    filteringStats,
+    rankingStrategy,
+    featureWeights
   };
 }
 /**
@@ -1,15 +1,19 @@
 import { corsHeaders, jsonResponse } from './response.ts';
 import { buildK5Envelope, validateEnvelopeIntegrity } from './envelopeBuilder.ts';
 import { selectClosestArchetypes } from './archetypeSelector.ts';
+import { RANKING_STRATEGY_MORPH_DISTANCE, resolveRankingStrategy } from './morphSpaceRanker.ts';
 import { getServiceClient, validateServiceClientEnv } from './supabaseClient.ts';
 import { getMorphologyMappingDirect } from './morphologyHelpers.ts';
+import { loadCheckpoint } from '../_shared/pipeline/checkpoints.ts';
+import { withAuth } from '../_shared/utils/auth.ts';
+import { startRequestTrace } from '../_shared/utils/trace.ts';
 
 /**
  * Scan Match Edge Function - RPC Integration v4.0
  * PHASE A.2/A.3: Enhanced with strict muscular gating and K=5 envelope building
  * FIXED: Completely self-sufficient for morphology mapping (no external Edge Function calls)
  */
-Deno.serve(async (req) => {
+Deno.serve(withAuth(async (req) => {
   const processingStartTime = performance.now();
 
   // Handle CORS preflight
@@ -20,6 +24,9 @@ Deno.serve(async (req) => {
     });
   }
 
+  const trace = startRequestTrace(req, 'scan-match');
+  const traceId = trace.traceId;
+
   // Validate environment variables
   const envValidation = validateServiceClientEnv();
   if (!envValidation.isValid) {
@@ -64,10 +71,16 @@ Deno.serve(async (req) => {
     const requestBody = await req.json();
     
     // Add debug log for incoming request
-    console.log('📩 scan-match received params:', {
-      ...requestBody
+    console.log(`📩 [scan-match] [${traceId}] Received params:`, {
+      ...requestBody,
+      tracePropagated: trace.propagated
     });
 
+    // Resume: prior-stage results omitted by the caller are read back from the pipeline checkpoints
+    if (requestBody.clientScanId && requestBody.user_id) {
+      await trace.span('checkpoint_hydration', () => hydrateFromCheckpoints(requestBody));
+    }
+
     // PHASE A.2: Extract and validate parameters for strict filtering
     const userProfile = {
       sex: requestBody.matching_config?.gender === 'masculine' ? 'male' : 'female',
@@ -83,10 +96,16 @@ Deno.serve(async (req) => {
     };
 
     const limit = requestBody.matching_config?.limit || 5;
+    const rankingOptions = {
+      strategy: resolveRankingStrategy(requestBody.matching_config?.ranking_strategy),
+      featureWeights: requestBody.matching_config?.feature_weights,
+      rawMeasurements: requestBody.extracted_data?.raw_measurements
+    };
 
     console.log('📥 [scan-match] PHASE A.2: Enhanced archetype selection parameters', {
       userProfile,
       limit,
+      rankingStrategy: rankingOptions.strategy,
       philosophy: 'strict_filtering_zero_muscular_mismatch'
     });
 
@@ -97,13 +116,14 @@ Deno.serve(async (req) => {
         typeof userProfile.estimated_bmi !== 'number') {
       return jsonResponse({
         error: "Missing required fields: sex, morph_index, muscle_index, estimated_bmi",
-        received: userProfile
+        received: userProfile,
+        ...trace.toResponse()
       }, 400);
     }
 
     // PHASE A.2: Use new strict archetype selector
-    console.log('🔍 [scan-match] PHASE A.2: Calling strict archetype selector');
-    const { selectedArchetypes, strategyUsed, semanticCoherenceScore, filteringStats } = await selectClosestArchetypes(supabase, userProfile, limit);
+    console.log(`🔍 [scan-match] [${traceId}] PHASE A.2: Calling strict archetype selector`);
+    const { selectedArchetypes, strategyUsed, semanticCoherenceScore, filteringStats, rankingStrategy, featureWeights } = await trace.span('archetype_selection', () => selectClosestArchetypes(supabase, userProfile, limit, rankingOptions));
 
     console.log('📊 [scan-match] PHASE A.2: COMPREHENSIVE FILTERING AUDIT', {
       filteringStats,
@@ -137,6 +157,7 @@ Deno.serve(async (req) => {
         muscularity: arch.muscularity,
         morphotype: arch.morphotype,
         distance: arch.distance?.toFixed(3),
+        blendWeight: arch.blend_weight?.toFixed(3),
         bmiCompatible: arch.semantic_compatibility?.bmi_in_range
       })),
       bmiFilteringAnalysis: {
@@ -150,7 +171,7 @@ Deno.serve(async (req) => {
     });
 
     if (!selectedArchetypes || selectedArchetypes.length === 0) {
-      console.error('❌ [scan-match] CRITICAL: No archetypes selected after all filtering steps', {
+      console.error(`❌ [scan-match] [${traceId}] CRITICAL: No archetypes selected after all filtering steps`, {
         userProfile: {
           userBMI: userProfile.estimated_bmi,
           obesity: userProfile.semantic_profile.obesity,
@@ -177,13 +198,14 @@ Deno.serve(async (req) => {
         debug: {
           userProfile,
           filteringStats
-        }
+        },
+        ...trace.toResponse()
       }, 422);
     }
 
     // FIXED: Get morphology mapping directly (self-sufficient approach)
     console.log('🔍 [scan-match] PHASE A.3: Getting morphology mapping directly from database');
-    const mappingResult = await getMorphologyMappingDirect(supabase);
+    const mappingResult = await trace.span('mapping_fetch', () => getMorphologyMappingDirect(supabase));
 
     if (!mappingResult.success) {
       console.error('❌ [scan-match] PHASE A.3: Failed to get morphology mapping', {
@@ -194,7 +216,8 @@ Deno.serve(async (req) => {
       return jsonResponse({
         error: "Failed to retrieve morphology mapping for envelope building",
         details: mappingResult.error,
-        fallback_attempted: mappingResult.fallback_used
+        fallback_attempted: mappingResult.fallback_used,
+        ...trace.toResponse()
       }, 500);
     }
 
@@ -223,11 +246,11 @@ Deno.serve(async (req) => {
     }
 
     const genderMapping = userProfile.sex === 'male' ? mappingResult.data.mapping_masculine : mappingResult.data.mapping_feminine;
-    const traceId = `envelope_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const k5Envelope = buildK5Envelope(selectedArchetypes, genderMapping, traceId);
-
-    // PHASE A.3: Validate envelope integrity
-    const envelopeValidation = validateEnvelopeIntegrity(k5Envelope, traceId);
+    const { k5Envelope, envelopeValidation } = await trace.span('envelope_build', () => {
+      const k5Envelope = buildK5Envelope(selectedArchetypes, genderMapping, traceId);
+      // PHASE A.3: Validate envelope integrity
+      return { k5Envelope, envelopeValidation: validateEnvelopeIntegrity(k5Envelope, traceId) };
+    });
     if (!envelopeValidation.isValid) {
       console.warn('⚠️ [scan-match] PHASE A.3: Envelope integrity issues detected', {
         issues: envelopeValidation.issues,
@@ -257,6 +280,10 @@ Deno.serve(async (req) => {
       // Enhanced strategy and coherence information
       strategy_used: strategyUsed,
       semantic_coherence_score: semanticCoherenceScore,
+
+      // Ranking applied after filtering (feature_weights only for morph_distance)
+      ranking_strategy: rankingStrategy,
+      feature_weights: featureWeights,
       
       // PHASE A.2: Enhanced filtering statistics
       filtering_stats: filteringStats,
@@ -318,7 +345,7 @@ Deno.serve(async (req) => {
             'level',
             'morphotype'
           ],
-          distance_function_used: 'weighted_morph_muscle_indices',
+          distance_function_used: rankingStrategy === RANKING_STRATEGY_MORPH_DISTANCE ? 'weighted_morph_space_euclidean' : 'weighted_morph_muscle_indices',
           client_blending_required: true,
           envelope_constraints_applied: true
         }
@@ -327,7 +354,7 @@ Deno.serve(async (req) => {
 
     const processingTime = performance.now() - processingStartTime;
 
-    console.log('🎉 [scan-match] PHASE A.2/A.3: Enhanced pipeline completed successfully', {
+    console.log(`🎉 [scan-match] [${traceId}] PHASE A.2/A.3: Enhanced pipeline completed successfully`, {
       processingTimeMs: processingTime.toFixed(2),
       primaryArchetypeId: selectedArchetypes[0]?.id,
       primaryArchetypeName: selectedArchetypes[0]?.name,
@@ -341,11 +368,14 @@ Deno.serve(async (req) => {
       philosophy: 'phase_a_complete_zero_muscular_mismatch'
     });
 
-    return jsonResponse(response);
+    return jsonResponse({
+      ...response,
+      ...trace.toResponse()
+    });
 
   } catch (error) {
     const processingTime = performance.now() - processingStartTime;
-    console.error('❌ [scan-match] PHASE A.2/A.3: Enhanced archetype selection failed:', {
+    console.error(`❌ [scan-match] [${traceId}] PHASE A.2/A.3: Enhanced archetype selection failed:`, {
       error: error instanceof Error ? error.message : 'Unknown error',
       stack: error instanceof Error ? error.stack : undefined,
       processingTime: processingTime.toFixed(2),
@@ -433,7 +463,52 @@ Deno.serve(async (req) => {
     return jsonResponse({
       ...fallbackResponse,
       error: "PHASE A.2/A.3: Internal server error - fallback response provided",
-      details: error instanceof Error ? error.message : "Unknown error"
+      details: error instanceof Error ? error.message : "Unknown error",
+      ...trace.toResponse()
     }, 500);
   }
-});
\ No newline at end of file
+}, {
+  corsHeaders,
+}));
+
+/**
+ * Fill missing extracted_data / semantic_profile / user_semantic_indices from the
+ * scan-estimate and scan-semantic checkpoints stored under the same clientScanId
+ */
+async function hydrateFromCheckpoints(requestBody) {
+  const key = { clientScanId: requestBody.clientScanId, userId: requestBody.user_id };
+  const hydrated = [];
+
+  if (!requestBody.extracted_data) {
+    const estimate = await loadCheckpoint({ ...key, stage: 'estimate' });
+    if (estimate?.extracted_data) {
+      requestBody.extracted_data = estimate.extracted_data;
+      hydrated.push('extracted_data');
+    }
+  }
+
+  if (!requestBody.semantic_profile || !requestBody.user_semantic_indices) {
+    const semantic = await loadCheckpoint({ ...key, stage: 'semantic' });
+    if (semantic?.semantic_profile) {
+      if (!requestBody.semantic_profile) {
+        requestBody.semantic_profile = semantic.semantic_profile;
+        hydrated.push('semantic_profile');
+      }
+      if (!requestBody.user_semantic_indices) {
+        requestBody.user_semantic_indices = {
+          morph_index: semantic.semantic_profile.morph_index || 0,
+          muscle_index: semantic.semantic_profile.muscle_index || 0
+        };
+        hydrated.push('user_semantic_indices');
+      }
+    }
+  }
+
+  if (hydrated.length > 0) {
+    console.log('✅ [scan-match] Request hydrated from pipeline checkpoints', {
+      clientScanId: requestBody.clientScanId,
+      hydrated,
+      philosophy: 'resume_from_checkpoint'
+    });
+  }
+}
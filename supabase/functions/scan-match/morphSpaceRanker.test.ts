@@ -0,0 +1,181 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  DEFAULT_FEATURE_WEIGHTS,
+  INVERSE_DISTANCE_EPSILON,
+  INVERSE_DISTANCE_POWER,
+  calculateMorphSpaceDistance,
+  extractArchetypeFeatures,
+  rankByMorphSpaceDistance,
+  resolveFeatureWeights,
+} from './morphSpaceRanker.ts';
+import {
+  INVERSE_DISTANCE_EPSILON as CLIENT_INVERSE_DISTANCE_EPSILON,
+  INVERSE_DISTANCE_POWER as CLIENT_INVERSE_DISTANCE_POWER,
+  blendArchetypeMorphs,
+} from '../../../src/lib/morph/blend';
+
+vi.mock('../../../src/lib/utils/logger', () => ({ default: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } }));
+
+const silentLogger = { log: vi.fn() };
+
+const NO_FEATURES = {
+  bmi: null,
+  morph_index: null,
+  muscle_index: null,
+  waist_hip_ratio: null,
+  waist_chest_ratio: null,
+  chest_hip_ratio: null,
+};
+
+function archetype(id: string, bmiCenter: number, morphotype = 'REC') {
+  return {
+    id,
+    name: id,
+    morphotype,
+    bmi_range: [bmiCenter - 1, bmiCenter + 1],
+    morph_index: 0,
+    muscle_index: 0,
+    morph_values: {},
+    limb_masses: {},
+  };
+}
+
+describe('calculateMorphSpaceDistance', () => {
+  it('is zero for identical features', () => {
+    const features = { ...NO_FEATURES, bmi: 24, morph_index: 0.2, muscle_index: 0.5 };
+    expect(calculateMorphSpaceDistance(features, features, DEFAULT_FEATURE_WEIGHTS).distance).toBe(0);
+  });
+
+  it('normalizes each gap by the feature scale', () => {
+    // One BMI scale unit (5.0) apart, BMI being the only known feature
+    const result = calculateMorphSpaceDistance(
+      { ...NO_FEATURES, bmi: 20 },
+      { ...NO_FEATURES, bmi: 25 },
+      DEFAULT_FEATURE_WEIGHTS
+    );
+    expect(result.distance).toBeCloseTo(1);
+    expect(result.components).toEqual({ bmi: 1 });
+  });
+
+  it('renormalizes weights over the features known on both sides', () => {
+    const result = calculateMorphSpaceDistance(
+      { ...NO_FEATURES, bmi: 20, morph_index: 0 },
+      { ...NO_FEATURES, bmi: 25, morph_index: null },
+      { ...DEFAULT_FEATURE_WEIGHTS, morph_index: 10 }
+    );
+    expect(result.distance).toBeCloseTo(1);
+    expect(Object.keys(result.components)).toEqual(['bmi']);
+  });
+
+  it('is infinite when no feature can be compared', () => {
+    expect(calculateMorphSpaceDistance(NO_FEATURES, NO_FEATURES, DEFAULT_FEATURE_WEIGHTS).distance)
+      .toBe(Number.POSITIVE_INFINITY);
+  });
+});
+
+describe('resolveFeatureWeights', () => {
+  it('ignores unknown keys and invalid values', () => {
+    const weights = resolveFeatureWeights({ bmi: 1, unknown: 5, morph_index: -1, muscle_index: Number.NaN });
+    expect(weights).toEqual({ ...DEFAULT_FEATURE_WEIGHTS, bmi: 1 });
+  });
+
+  it('falls back to the defaults when every weight is zero', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const zeroed = Object.fromEntries(Object.keys(DEFAULT_FEATURE_WEIGHTS).map((key) => [key, 0]));
+
+    expect(resolveFeatureWeights(zeroed)).toEqual(DEFAULT_FEATURE_WEIGHTS);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
+
+describe('extractArchetypeFeatures', () => {
+  it('derives consistent circumference ratios from the morphotype', () => {
+    for (const morphotype of ['REC', 'SAB', 'POI', 'POM', 'TRI', 'OVA']) {
+      const features = extractArchetypeFeatures(archetype(morphotype, 24, morphotype));
+      expect(features.waist_hip_ratio).toBeCloseTo(features.waist_chest_ratio! * features.chest_hip_ratio!);
+    }
+  });
+
+  it('orders the silhouettes as their shapes describe', () => {
+    const ratios = (morphotype: string) => extractArchetypeFeatures(archetype(morphotype, 24, morphotype));
+
+    expect(ratios('SAB').waist_hip_ratio).toBeLessThan(ratios('REC').waist_hip_ratio!);
+    expect(ratios('POI').chest_hip_ratio).toBeLessThan(1);
+    expect(ratios('TRI').chest_hip_ratio).toBeGreaterThan(1);
+    expect(ratios('POM').waist_hip_ratio).toBeGreaterThan(0.9);
+    expect(ratios('OVA').waist_chest_ratio).toBeGreaterThan(1);
+  });
+
+  it('has no ratios for an unknown morphotype', () => {
+    expect(extractArchetypeFeatures(archetype('x', 24, 'XYZ')).waist_hip_ratio).toBeNull();
+  });
+});
+
+describe('rankByMorphSpaceDistance', () => {
+  const userProfile = { estimated_bmi: 22, morph_index: 0, muscle_index: 0 };
+  const rawMeasurements = { waist_cm: 81, hips_cm: 90, chest_cm: 92 };
+
+  it('orders candidates by ascending distance and applies the limit', () => {
+    const ranked = rankByMorphSpaceDistance(
+      [archetype('far', 32), archetype('near', 23), archetype('mid', 27)],
+      userProfile,
+      rawMeasurements,
+      DEFAULT_FEATURE_WEIGHTS,
+      2,
+      silentLogger
+    );
+    expect(ranked.map((candidate: any) => candidate.id)).toEqual(['near', 'mid']);
+    expect(ranked[0].distance_metric).toBe('morph_space');
+  });
+
+  it('attaches inverse-distance blend weights that sum to one', () => {
+    const ranked = rankByMorphSpaceDistance(
+      [archetype('a', 22), archetype('b', 24), archetype('c', 30)],
+      userProfile,
+      rawMeasurements,
+      DEFAULT_FEATURE_WEIGHTS,
+      3,
+      silentLogger
+    );
+    const inverse = ranked.map((candidate: any) =>
+      1 / Math.pow(candidate.distance + INVERSE_DISTANCE_EPSILON, INVERSE_DISTANCE_POWER)
+    );
+    const total = inverse.reduce((sum: number, value: number) => sum + value, 0);
+
+    ranked.forEach((candidate: any, index: number) => {
+      expect(candidate.blend_weight).toBeCloseTo(inverse[index] / total);
+    });
+    expect(ranked.reduce((sum: number, candidate: any) => sum + candidate.blend_weight, 0)).toBeCloseTo(1);
+    expect(ranked[0].blend_weight).toBeGreaterThan(ranked[1].blend_weight);
+  });
+});
+
+describe('client blend agreement', () => {
+  it('shares the inverse-distance constants with src/lib/morph/blend.ts', () => {
+    expect(CLIENT_INVERSE_DISTANCE_EPSILON).toBe(INVERSE_DISTANCE_EPSILON);
+    expect(CLIENT_INVERSE_DISTANCE_POWER).toBe(INVERSE_DISTANCE_POWER);
+  });
+
+  it('blends with the weights computed by scan-match', () => {
+    const ranked = rankByMorphSpaceDistance(
+      [archetype('a', 22), archetype('b', 25), archetype('c', 29)],
+      { estimated_bmi: 23, morph_index: 0, muscle_index: 0 },
+      null,
+      DEFAULT_FEATURE_WEIGHTS,
+      3,
+      silentLogger
+    );
+    const emptyMapping = { morph_values: {}, limb_masses: {} };
+    const { blend_weights } = blendArchetypeMorphs(
+      ranked,
+      { mapping_masculine: emptyMapping, mapping_feminine: emptyMapping } as any,
+      'male'
+    );
+
+    blend_weights.forEach(([id, weight], index) => {
+      expect(id).toBe(ranked[index].id);
+      expect(weight).toBeCloseTo(ranked[index].blend_weight);
+    });
+  });
+});
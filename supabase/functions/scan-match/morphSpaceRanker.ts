@@ -0,0 +1,205 @@
+/**
+ * Morph-Space Distance Ranker
+ * Alternative to the semantic overall_score ranking: archetypes are ranked by a
+ * weighted distance over numeric features, so close candidates no longer tie on
+ * identical categorical matches.
+ */ export const RANKING_STRATEGY_SEMANTIC = 'semantic_score';
+export const RANKING_STRATEGY_MORPH_DISTANCE = 'morph_distance';
+/**
+ * Default per-feature weights (renormalized over the features available for a pair)
+ */ export const DEFAULT_FEATURE_WEIGHTS = {
+  bmi: 0.3,
+  morph_index: 0.25,
+  muscle_index: 0.2,
+  waist_hip_ratio: 0.1,
+  waist_chest_ratio: 0.1,
+  chest_hip_ratio: 0.05
+};
+/**
+ * Spread of each feature across the archetype catalogue: one unit of normalized
+ * distance is "one typical gap" for that feature
+ */ const FEATURE_SCALES = {
+  bmi: 5.0,
+  morph_index: 0.5,
+  muscle_index: 1.0,
+  waist_hip_ratio: 0.1,
+  waist_chest_ratio: 0.1,
+  chest_hip_ratio: 0.1
+};
+/**
+ * Reference girths (cm) per morphotype for a 100 cm hip; morph_archetypes has no
+ * measurement columns, so ratios are derived from these silhouettes. Each body sits
+ * inside the shape rules of FFIT (Simmons, Istook & Devarajan, 2004):
+ * - REC rectangle: bust and hips within 9 cm, waist less than 23 cm under the bust
+ * - SAB hourglass (sablier): bust and hips within 2.5 cm, waist 23 cm or more under both
+ * - POI pear (poire): hips 9 cm or more over the bust
+ * - TRI inverted triangle: bust 9 cm or more over the hips
+ * FFIT has no abdominal shapes: POM apple (pomme) and OVA oval carry their weight at
+ * the waist, above the WHO abdominal obesity waist-hip ratio (0.90 men, 0.85 women).
+ */ const MORPHOTYPE_REFERENCE_GIRTHS = {
+  REC: {
+    chest: 102,
+    waist: 90,
+    hips: 100
+  },
+  SAB: {
+    chest: 98,
+    waist: 72,
+    hips: 100
+  },
+  POI: {
+    chest: 88,
+    waist: 75,
+    hips: 100
+  },
+  POM: {
+    chest: 100,
+    waist: 98,
+    hips: 100
+  },
+  TRI: {
+    chest: 113,
+    waist: 85,
+    hips: 100
+  },
+  OVA: {
+    chest: 100,
+    waist: 102,
+    hips: 100
+  }
+};
+const MORPHOTYPE_RATIO_PROFILES = Object.fromEntries(Object.entries(MORPHOTYPE_REFERENCE_GIRTHS).map(([morphotype, { chest, waist, hips }])=>[
+    morphotype,
+    {
+      waist_hip_ratio: waist / hips,
+      waist_chest_ratio: waist / chest,
+      chest_hip_ratio: chest / hips
+    }
+  ]));
+// Keeps inverse-distance weights finite when an archetype sits exactly on the user.
+// The client blend (src/lib/morph/blend.ts) uses the same values; morphSpaceRanker.test.ts checks they agree.
+export const INVERSE_DISTANCE_EPSILON = 0.05;
+export const INVERSE_DISTANCE_POWER = 2;
+/**
+ * Resolve the ranking strategy from the request, falling back to SCAN_MATCH_RANKING_STRATEGY
+ */ export function resolveRankingStrategy(requested) {
+  const strategy = requested || Deno.env.get('SCAN_MATCH_RANKING_STRATEGY');
+  return strategy === RANKING_STRATEGY_MORPH_DISTANCE ? RANKING_STRATEGY_MORPH_DISTANCE : RANKING_STRATEGY_SEMANTIC;
+}
+/**
+ * Merge requested weights over the defaults; unknown keys and invalid values are ignored
+ */ export function resolveFeatureWeights(overrides) {
+  const weights = {
+    ...DEFAULT_FEATURE_WEIGHTS
+  };
+  if (overrides && typeof overrides === 'object') {
+    Object.entries(overrides).forEach(([feature, weight])=>{
+      if (feature in DEFAULT_FEATURE_WEIGHTS && typeof weight === 'number' && Number.isFinite(weight) && weight >= 0) {
+        weights[feature] = weight;
+      }
+    });
+  }
+  const total = Object.values(weights).reduce((sum, weight)=>sum + weight, 0);
+  if (total <= 0) {
+    console.warn('⚠️ [morphSpaceRanker] All feature weights are zero, using defaults', {
+      overrides,
+      philosophy: 'feature_weights_fallback'
+    });
+    return {
+      ...DEFAULT_FEATURE_WEIGHTS
+    };
+  }
+  return weights;
+}
+function positive(value) {
+  const numeric = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof numeric === 'number' && Number.isFinite(numeric) && numeric > 0 ? numeric : null;
+}
+/**
+ * Numeric features of the user from the estimate result and semantic indices
+ */ export function extractUserFeatures(userProfile, rawMeasurements) {
+  const waist = positive(rawMeasurements?.waist_cm);
+  const hips = positive(rawMeasurements?.hips_cm);
+  const chest = positive(rawMeasurements?.chest_cm);
+  return {
+    bmi: positive(userProfile.estimated_bmi),
+    morph_index: typeof userProfile.morph_index === 'number' ? userProfile.morph_index : null,
+    muscle_index: typeof userProfile.muscle_index === 'number' ? userProfile.muscle_index : null,
+    waist_hip_ratio: waist && hips ? waist / hips : null,
+    waist_chest_ratio: waist && chest ? waist / chest : null,
+    chest_hip_ratio: chest && hips ? chest / hips : null
+  };
+}
+/**
+ * Numeric features of an archetype: BMI range center, DB indices and morphotype ratios
+ */ export function extractArchetypeFeatures(archetype) {
+  const bmiRange = archetype.bmi_range;
+  let bmiCenter = null;
+  if (Array.isArray(bmiRange) && bmiRange.length === 2) {
+    const minBMI = parseFloat(bmiRange[0]);
+    const maxBMI = parseFloat(bmiRange[1]);
+    bmiCenter = Number.isFinite(minBMI) && Number.isFinite(maxBMI) ? (minBMI + maxBMI) / 2 : null;
+  }
+  const ratioProfile = MORPHOTYPE_RATIO_PROFILES[archetype.morphotype] || null;
+  return {
+    bmi: bmiCenter,
+    morph_index: typeof archetype.morph_index === 'number' ? archetype.morph_index : null,
+    muscle_index: typeof archetype.muscle_index === 'number' ? archetype.muscle_index : null,
+    waist_hip_ratio: ratioProfile?.waist_hip_ratio ?? null,
+    waist_chest_ratio: ratioProfile?.waist_chest_ratio ?? null,
+    chest_hip_ratio: ratioProfile?.chest_hip_ratio ?? null
+  };
+}
+/**
+ * Weighted Euclidean distance over the features known on both sides
+ */ export function calculateMorphSpaceDistance(userFeatures, archetypeFeatures, featureWeights) {
+  const components = {};
+  let weightedSquares = 0;
+  let usedWeight = 0;
+  Object.entries(featureWeights).forEach(([feature, weight])=>{
+    const userValue = userFeatures[feature];
+    const archetypeValue = archetypeFeatures[feature];
+    if (weight <= 0 || userValue === null || archetypeValue === null) return;
+    const normalizedDiff = (userValue - archetypeValue) / FEATURE_SCALES[feature];
+    components[feature] = Math.abs(normalizedDiff);
+    weightedSquares += weight * normalizedDiff * normalizedDiff;
+    usedWeight += weight;
+  });
+  return {
+    distance: usedWeight > 0 ? Math.sqrt(weightedSquares / usedWeight) : Number.POSITIVE_INFINITY,
+    components
+  };
+}
+/**
+ * Rank candidates by ascending morph-space distance and attach inverse-distance blend weights.
+ * The ranking summary goes to `logger` (the console by default).
+ */ export function rankByMorphSpaceDistance(candidates, userProfile, rawMeasurements, featureWeights, limit, logger = console) {
+  const userFeatures = extractUserFeatures(userProfile, rawMeasurements);
+  const ranked = candidates.map((archetype)=>{
+    const { distance, components } = calculateMorphSpaceDistance(userFeatures, extractArchetypeFeatures(archetype), featureWeights);
+    return {
+      ...archetype,
+      distance,
+      distance_metric: 'morph_space',
+      distance_components: components
+    };
+  }).filter((archetype)=>Number.isFinite(archetype.distance));
+  ranked.sort((a, b)=>a.distance - b.distance);
+  const selected = ranked.slice(0, limit);
+  const inverseDistances = selected.map((archetype)=>1 / Math.pow(archetype.distance + INVERSE_DISTANCE_EPSILON, INVERSE_DISTANCE_POWER));
+  const inverseTotal = inverseDistances.reduce((sum, value)=>sum + value, 0);
+  selected.forEach((archetype, index)=>{
+    archetype.blend_weight = inverseTotal > 0 ? inverseDistances[index] / inverseTotal : 1 / selected.length;
+  });
+  logger.log('✅ [morphSpaceRanker] Candidates ranked by morph-space distance', {
+    candidatesEvaluated: candidates.length,
+    selectedCount: selected.length,
+    selected: selected.map((archetype)=>({
+        id: archetype.id,
+        distance: archetype.distance.toFixed(3),
+        blendWeight: archetype.blend_weight.toFixed(3)
+      })),
+    philosophy: 'numeric_morph_space_ranking'
+  });
+  return selected;
+}
@@ -0,0 +1,83 @@
+import { jsonResponse, corsHeaders } from './response.ts';
+import { purgeExpiredScanPhotos } from './photoRetention.ts';
+import { withAuth } from '../_shared/utils/auth.ts';
+
+/**
+ * Scan Photo Retention Edge Function - Scheduled job
+ * Deletes scan photos past each user's retention period (see README for the daily schedule).
+ * Restricted to the service role (withAuth): the scheduler calls it with the service role key.
+ */
+Deno.serve(withAuth(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse(
+      {
+        error: "Method not allowed",
+      },
+      405
+    );
+  }
+
+  const traceId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error('❌ [scan-photo-retention] Missing Supabase configuration', {
+      hasUrl: !!supabaseUrl,
+      hasServiceKey: !!supabaseServiceKey,
+    });
+    return jsonResponse(
+      {
+        error: "Supabase configuration missing",
+      },
+      500
+    );
+  }
+
+  try {
+    const { createClient } = await import('npm:@supabase/supabase-js@2.54.0');
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    const summary = await purgeExpiredScanPhotos(supabase, traceId);
+
+    console.log(`✅ [scan-photo-retention] [${traceId}] Retention run completed`, {
+      ...summary,
+      durationMs: Date.now() - startTime,
+      philosophy: 'gdpr_photo_retention',
+    });
+
+    return jsonResponse({
+      ...summary,
+      trace_id: traceId,
+    });
+  } catch (error) {
+    console.error(`❌ [scan-photo-retention] [${traceId}] Retention run failed`, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      durationMs: Date.now() - startTime,
+    });
+    return jsonResponse(
+      {
+        error: error instanceof Error ? error.message : 'Retention run failed',
+        trace_id: traceId,
+      },
+      500
+    );
+  }
+}, {
+  corsHeaders,
+  roles: ['service'],
+}));
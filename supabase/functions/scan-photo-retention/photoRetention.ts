@@ -0,0 +1,66 @@
+/**
+ * Photo Retention
+ * Deletes scan photo files older than their owner's retention period. Only the files go:
+ * body_scans rows and their photos_metadata are kept, and flagged with photos_deleted_at.
+ */ const BUCKET = 'body-scans';
+/** Objects fetched per round; the Storage API removes them in one call */ const BATCH_SIZE = 500;
+/** Upper bound per invocation so a large backlog cannot exceed the function time limit */ const MAX_ROUNDS = 10;
+/**
+ * Run retention until nothing is due or MAX_ROUNDS is reached
+ */ export async function purgeExpiredScanPhotos(supabase, traceId) {
+  let deletedObjects = 0;
+  const scans = new Map();
+  for(let round = 0; round < MAX_ROUNDS; round++){
+    const { data: due, error } = await supabase.rpc('scan_photos_due_for_deletion', {
+      batch_size: BATCH_SIZE
+    });
+    if (error) {
+      throw new Error(`Failed to list expired scan photos: ${error.message}`);
+    }
+    if (!due || due.length === 0) break;
+    const { error: removeError } = await supabase.storage.from(BUCKET).remove(due.map((object)=>object.object_name));
+    if (removeError) {
+      throw new Error(`Failed to delete expired scan photos: ${removeError.message}`);
+    }
+    deletedObjects += due.length;
+    for (const object of due){
+      if (object.client_scan_id) scans.set(`${object.user_id}/${object.client_scan_id}`, object);
+    }
+    console.log(`🗑️ [scan-photo-retention] [${traceId}] Batch deleted`, {
+      round,
+      objects: due.length,
+      oldestUploadedAt: due[0]?.uploaded_at,
+      philosophy: 'gdpr_photo_retention'
+    });
+    if (due.length < BATCH_SIZE) break;
+  }
+  const flaggedScans = await flagScansWithDeletedPhotos(supabase, [
+    ...scans.values()
+  ], traceId);
+  return {
+    deleted_objects: deletedObjects,
+    scans_affected: scans.size,
+    scans_flagged: flaggedScans
+  };
+}
+/**
+ * Mark the committed scans whose photo folder was purged; failures are logged, the files are already gone
+ */ async function flagScansWithDeletedPhotos(supabase, scans, traceId) {
+  const deletedAt = new Date().toISOString();
+  let flagged = 0;
+  for (const scan of scans){
+    const { data, error } = await supabase.from('body_scans').update({
+      photos_deleted_at: deletedAt
+    }).eq('user_id', scan.user_id).eq('client_scan_id', scan.client_scan_id).is('photos_deleted_at', null).select('id');
+    if (error) {
+      console.warn(`⚠️ [scan-photo-retention] [${traceId}] Failed to flag scan`, {
+        clientScanId: scan.client_scan_id,
+        error: error.message,
+        philosophy: 'retention_flag_best_effort'
+      });
+      continue;
+    }
+    flagged += data?.length || 0;
+  }
+  return flagged;
+}
@@ -1,10 +1,11 @@
 // supabase/functions/scan-refine-morphs/openaiClient.ts
+import { recordAiUsage } from '../_shared/utils/aiUsage.ts';
 /**
  * OpenAI Client for AI-Driven Morphological Refinement
  * Handles OpenAI API calls with structured JSON output
  */ /**
  * Call OpenAI for AI-driven morphological refinement
- */ export async function callOpenAIForRefinement(prompt, photos, traceId) {
+ */ export async function callOpenAIForRefinement(prompt, photos, traceId, usageContext = {}) {
   console.log(`🔍 [openaiClient] [${traceId}] Calling OpenAI for AI-driven refinement`);
   const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
   if (!openaiApiKey) {
@@ -35,6 +36,14 @@
     promptLength: prompt.length,
     philosophy: 'ai_driven_structured_json_output'
   });
+  // Billed calls (answered, even with an error status) are recorded in ai_usage
+  const usageBase = {
+    ...usageContext,
+    functionName: 'scan-refine-morphs',
+    provider: 'openai',
+    traceId
+  };
+  const startedAt = performance.now();
   try {
     const response = await fetch('https://api.openai.com/v1/chat/completions', {
       method: 'POST',
@@ -61,9 +70,26 @@
         statusText: response.statusText,
         body: errorBody.substring(0, 500)
       });
+      await recordAiUsage({
+        ...usageBase,
+        model: 'gpt-4o',
+        promptTokens: null,
+        completionTokens: null,
+        latencyMs: performance.now() - startedAt,
+        success: false,
+        error: `OpenAI API error: ${response.status} - ${response.statusText}`
+      });
       throw new Error(`OpenAI API error: ${response.status} - ${response.statusText}`);
     }
     const result = await response.json();
+    await recordAiUsage({
+      ...usageBase,
+      model: result.model || 'gpt-4o',
+      promptTokens: result.usage?.prompt_tokens ?? null,
+      completionTokens: result.usage?.completion_tokens ?? null,
+      latencyMs: performance.now() - startedAt,
+      success: true
+    });
     const responseContent = result.choices[0]?.message?.content;
     if (!responseContent) {
       console.error(`❌ [openaiClient] [${traceId}] OpenAI returned empty content:`, {
@@ -1,3 +1,4 @@
+import { ADDITIONAL_CAPTURE_VIEWS } from '../_shared/utils/captureViews.ts';
 /**
  * Request Validation
  * Validates incoming AI refinement requests
@@ -55,9 +56,10 @@
   for (const photo of photos){
     if (!photo.view || ![
       'front',
-      'profile'
+      'profile',
+      ...ADDITIONAL_CAPTURE_VIEWS
     ].includes(photo.view)) {
-      return 'Photo view must be either "front" or "profile"';
+      return 'Photo view must be "front", "profile", "back" or "threequarter"';
     }
     if (!photo.url || typeof photo.url !== 'string') {
       return 'Photo URL is required and must be a string';
@@ -5,12 +5,17 @@ import { analyzePhotosForSemantics } from './semanticAnalyzer.ts';
 import { validateSemanticWithDB, getDefaultSemanticProfile } from './dbSemanticValidator.ts';
 import { createFallbackSemanticAnalysis } from './semanticFallback.ts';
 import { refetchMorphologyMapping } from '../_shared/utils/mappingRefetcher.ts'; // MODIFIED: Corrected import path
+import { hashStageInput, loadCheckpoint, saveCheckpoint } from '../_shared/pipeline/checkpoints.ts';
+import { pickAdditionalPhotos } from '../_shared/utils/captureViews.ts';
+import { withAuth } from '../_shared/utils/auth.ts';
+import { enforceQuota } from '../_shared/utils/quota.ts';
+import { startRequestTrace } from '../_shared/utils/trace.ts';
 
 /**
  * Scan Semantic Edge Function - DB-First Architecture
  * Generates semantic morphological profile and validates against DB classification rules
  */
-Deno.serve(async (req) => {
+Deno.serve(withAuth(async (req, auth) => {
   if (req.method === "OPTIONS") {
     return new Response(null, {
       status: 200,
@@ -24,21 +29,45 @@ Deno.serve(async (req) => {
     }, 405);
   }
 
+  const trace = startRequestTrace(req, 'scan-semantic');
+  const traceId = trace.traceId;
+
   try {
     // Parse and validate request
     const requestData = await req.json();
+
+    // Resume: callers may omit extracted_data and let us reuse the checkpointed scan-estimate result
+    if (!requestData?.extracted_data && requestData?.clientScanId && Array.isArray(requestData.photos)) {
+      const estimateCheckpoint = await trace.span('estimate_checkpoint_lookup', async () => loadCheckpoint({
+        clientScanId: requestData.clientScanId,
+        userId: requestData.user_id,
+        stage: 'estimate',
+        inputHash: await hashStageInput(requestData.photos)
+      }));
+      if (estimateCheckpoint?.extracted_data) {
+        requestData.extracted_data = estimateCheckpoint.extracted_data;
+        console.log(`✅ [scan-semantic] [${traceId}] extracted_data hydrated from estimate checkpoint`, {
+          clientScanId: requestData.clientScanId,
+          philosophy: 'resume_from_checkpoint'
+        });
+      }
+    }
+
     const validationError = validateSemanticRequest(requestData);
 
     if (validationError) {
-      console.error('❌ [scan-semantic] Request validation failed:', validationError);
+      console.error(`❌ [scan-semantic] [${traceId}] Request validation failed:`, validationError);
       return jsonResponse({
-        error: validationError
+        error: validationError,
+        ...trace.toResponse()
       }, 400);
     }
 
-    const { user_id, photos, extracted_data, user_declared_gender } = requestData;
+    const { user_id, photos, extracted_data, user_declared_gender, clientScanId, force_recompute } = requestData;
 
-    console.log('📥 [scan-semantic] Request received:', {
+    console.log(`📥 [scan-semantic] [${traceId}] Request received:`, {
+      traceId,
+      tracePropagated: trace.propagated,
       user_id,
       photosCount: photos?.length,
       extractedDataKeys: Object.keys(extracted_data || {}),
@@ -46,6 +75,42 @@ Deno.serve(async (req) => {
       estimatedBMI: extracted_data?.estimated_bmi
     });
 
+    const checkpointInputHash = await hashStageInput(photos);
+    if (clientScanId && !force_recompute) {
+      const checkpoint = await trace.span('checkpoint_lookup', () => loadCheckpoint({
+        clientScanId,
+        userId: user_id,
+        stage: 'semantic',
+        inputHash: checkpointInputHash
+      }));
+      if (checkpoint) {
+        console.log(`✅ [scan-semantic] [${traceId}] Returning checkpointed semantic analysis`, {
+          clientScanId,
+          philosophy: 'resume_from_checkpoint'
+        });
+        return jsonResponse({
+          ...checkpoint,
+          resumed_from_checkpoint: true,
+          ...trace.toResponse()
+        });
+      }
+    }
+
+    const frontPhoto = photos.find(p => p.view === 'front');
+    const profilePhoto = photos.find(p => p.view === 'profile');
+
+    // Rejected before the quota: an invalid request must not be charged
+    if (!frontPhoto || !profilePhoto) {
+      console.error(`❌ [scan-semantic] [${traceId}] Missing front or profile photo`);
+      return jsonResponse({
+        error: "Both front and profile photos required",
+        ...trace.toResponse()
+      }, 400);
+    }
+
+    // Paid OpenAI call ahead: counted against the user's plan (the stages of one scan share a use)
+    const quotaResponse = await trace.span('quota', () => enforceQuota(auth, 'scan', clientScanId, corsHeaders, { recompute: Boolean(force_recompute) }));
+    if (quotaResponse) return quotaResponse;
     // Initialize Supabase client for DB validation
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
@@ -75,19 +140,9 @@ Deno.serve(async (req) => {
       philosophy: 'rls_bypass_controlled_access'
     });
 
-    const frontPhoto = photos.find(p => p.view === 'front');
-    const profilePhoto = photos.find(p => p.view === 'profile');
-
-    if (!frontPhoto || !profilePhoto) {
-      console.error('❌ [scan-semantic] Missing front or profile photo');
-      return jsonResponse({
-        error: "Both front and profile photos required"
-      }, 400);
-    }
-
     // Étape 1.1 : Récupérer le mapping morphologique
     console.log('🔍 [scan-semantic] Fetching morphology mapping for clamping raw AI values');
-    const mappingData = await refetchMorphologyMapping('v1.0', user_declared_gender); // Utiliser une version de mapping ou la récupérer dynamiquement
+    const mappingData = await trace.span('mapping_fetch', () => refetchMorphologyMapping('v1.0', user_declared_gender)); // Utiliser une version de mapping ou la récupérer dynamiquement
 
     // CRITICAL FIX: Use fallback mapping if database fetch fails
     let finalMappingData = mappingData;
@@ -114,7 +169,7 @@ Deno.serve(async (req) => {
     let aiAnalysisSuccess = false;
 
     try {
-      rawSemanticProfile = await analyzePhotosForSemantics(
+      rawSemanticProfile = await trace.span('semantic_analysis', () => analyzePhotosForSemantics(
         frontPhoto.url,
         profilePhoto.url,
         {
@@ -123,9 +178,15 @@ Deno.serve(async (req) => {
           gender: user_declared_gender,
           estimated_bmi: extracted_data.estimated_bmi,
           frontReport: frontPhoto.report,
-          profileReport: profilePhoto.report
+          profileReport: profilePhoto.report,
+          additionalPhotos: pickAdditionalPhotos(photos),
+          traceId,
+          usageContext: {
+            userId: auth.userId,
+            clientScanId
+          }
         }
-      );
+      ));
       aiAnalysisSuccess = true;
 
       // Étape 1.2 : Appliquer le Clamping aux valeurs morphologiques brutes
@@ -156,7 +217,7 @@ Deno.serve(async (req) => {
       });
 
     } catch (semanticError) {
-      console.warn('⚠️ [scan-semantic] AI semantic analysis failed, using fallback:', semanticError);
+      console.warn(`⚠️ [scan-semantic] [${traceId}] AI semantic analysis failed, using fallback:`, semanticError);
       rawSemanticProfile = createFallbackSemanticAnalysis({
         height_cm: extracted_data.raw_measurements.height_cm,
         weight_kg: extracted_data.raw_measurements.weight_kg,
@@ -169,12 +230,12 @@ Deno.serve(async (req) => {
 
     // Step 2: DB-First Classification Validation
     console.log('🔍 [scan-semantic] Validating semantic profile against DB classification rules');
-    const { validatedProfile, validationFlags, adjustmentsMade } = await validateSemanticWithDB(
+    const { validatedProfile, validationFlags, adjustmentsMade } = await trace.span('db_validation', () => validateSemanticWithDB(
       supabase,
       rawSemanticProfile,
       extracted_data,
       user_declared_gender
-    );
+    ));
 
     console.log('✅ [scan-semantic] DB validation results:', {
       validatedProfile: {
@@ -211,7 +272,17 @@ Deno.serve(async (req) => {
       fallback_reason: aiAnalysisSuccess ? null : 'ai_semantic_analysis_failed'
     };
 
-    console.log('✅ [scan-semantic] Semantic analysis completed successfully', {
+    // A fallback profile is not checkpointed: a resumed pipeline must retry the AI analysis
+    if (clientScanId && aiAnalysisSuccess) {
+      await trace.span('checkpoint_save', () => saveCheckpoint({
+        clientScanId,
+        userId: user_id,
+        stage: 'semantic',
+        inputHash: checkpointInputHash
+      }, response));
+    }
+
+    console.log(`✅ [scan-semantic] [${traceId}] Semantic analysis completed successfully`, {
       validatedProfile: {
         obesity: validatedProfile.obesity,
         muscularity: validatedProfile.muscularity,
@@ -221,17 +292,24 @@ Deno.serve(async (req) => {
       finalConfidence: finalConfidence.toFixed(3),
       validationFlags: validationFlags.length,
       adjustmentsMade: adjustmentsMade.length,
-      aiSuccess: aiAnalysisSuccess
+      aiSuccess: aiAnalysisSuccess,
+      durationMs: trace.elapsedMs()
     });
 
-    return jsonResponse(response);
+    return jsonResponse({
+      ...response,
+      ...trace.toResponse()
+    });
 
   } catch (error) {
-    console.error('❌ [scan-semantic] Semantic analysis failed:', error);
+    console.error(`❌ [scan-semantic] [${traceId}] Semantic analysis failed:`, error);
     return jsonResponse({
       error: "Internal server error",
-      details: error instanceof Error ? error.message : "Unknown error"
+      details: error instanceof Error ? error.message : "Unknown error",
+      ...trace.toResponse()
     }, 500);
   }
-});
+}, {
+  corsHeaders,
+}));
 
@@ -1,3 +1,4 @@
+import { ADDITIONAL_CAPTURE_VIEWS } from '../_shared/utils/captureViews.ts';
 /**
  * Request Validation
  * Validates incoming semantic analysis requests
@@ -8,8 +9,15 @@
     return 'Request body is required';
   }
   const { photos, extracted_data, user_declared_gender } = request;
-  if (!photos || !Array.isArray(photos) || photos.length !== 2) {
-    return 'Exactly 2 photos (front and profile) are required';
+  if (!photos || !Array.isArray(photos) || photos.length < 2 || photos.length > 2 + ADDITIONAL_CAPTURE_VIEWS.length) {
+    return 'Front and profile photos are required (plus optional back and threequarter)';
+  }
+  if (photos.some((p)=>![
+      'front',
+      'profile',
+      ...ADDITIONAL_CAPTURE_VIEWS
+    ].includes(p.view))) {
+    return 'Photo view must be "front", "profile", "back" or "threequarter"';
   }
   if (!extracted_data || typeof extracted_data !== 'object') {
     return 'Valid extracted_data from scan-estimate is required';
@@ -1,18 +1,23 @@
+import { getVisionProvider, VisionProviderError } from '../_shared/vision/index.ts';
+import { describeAdditionalViews, viewLabel } from '../_shared/utils/captureViews.ts';
+import { describePrivacyMasking } from '../_shared/utils/photoPrivacy.ts';
 /**
  * Semantic Analyzer
- * OpenAI Vision API integration for semantic morphological analysis
+ * Vision API integration for semantic morphological analysis (provider selected via VISION_PROVIDER)
  */ /**
- * Analyze photos for semantic morphological descriptors using OpenAI Vision
+ * Analyze photos for semantic morphological descriptors using the configured vision provider
  */ export async function analyzePhotosForSemantics(frontPhotoUrl, profilePhotoUrl, userMetrics) {
-  const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-  if (!openaiApiKey) {
-    throw new Error('OpenAI API key not found');
-  }
+  const provider = getVisionProvider();
+  // Optional back/three-quarter views, sent after front and profile
+  const additionalPhotos = userMetrics.additionalPhotos || [];
   const bmi = userMetrics.weight_kg / Math.pow(userMetrics.height_cm / 100, 2);
   const prompt = buildSemanticPrompt(userMetrics, bmi);
-  console.log('🔍 [semanticAnalyzer] Starting OpenAI semantic analysis', {
+  console.log('🔍 [semanticAnalyzer] Starting semantic analysis', {
+    provider: provider.name,
+    model: provider.model,
     frontPhotoUrl: frontPhotoUrl.substring(0, 50) + '...',
     profilePhotoUrl: profilePhotoUrl.substring(0, 50) + '...',
+    additionalViews: additionalPhotos.map((photo)=>photo.view),
     userMetrics: {
       height_cm: userMetrics.height_cm,
       weight_kg: userMetrics.weight_kg,
@@ -23,58 +28,32 @@
     }
   });
   try {
-    const response = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${openaiApiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: 'gpt-4o',
-        response_format: {
-          type: "json_object"
-        },
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: prompt
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: frontPhotoUrl
-                }
-              },
-              {
-                type: 'image_url',
-                image_url: {
-                  url: profilePhotoUrl
-                }
-              }
-            ]
-          }
+    let result;
+    try {
+      result = await provider.complete({
+        task: 'scan-semantic',
+        prompt,
+        imageUrls: [
+          frontPhotoUrl,
+          profilePhotoUrl,
+          ...additionalPhotos.map((photo)=>photo.url)
         ],
-        max_tokens: 2000,
-        temperature: 0.1
-      })
-    });
-    if (!response.ok) {
-      const errorBody = await response.text();
-      console.error('❌ [semanticAnalyzer] OpenAI API error:', {
-        status: response.status,
-        statusText: response.statusText,
-        body: errorBody
+        jsonResponse: true,
+        maxTokens: 2000,
+        temperature: 0.1,
+        traceId: userMetrics.traceId,
+        usageContext: userMetrics.usageContext
       });
-      throw new Error(createDetailedSemanticAPIError(response.status, errorBody));
+    } catch (providerError) {
+      if (providerError instanceof VisionProviderError) {
+        throw new Error(createDetailedSemanticAPIError(providerError.status, providerError.body));
+      }
+      throw providerError;
     }
-    const result = await response.json();
-    const content = result.choices[0]?.message?.content;
+    const content = result.content;
     if (!content) {
-      console.warn('⚠️ [semanticAnalyzer] OpenAI returned empty content');
-      throw new Error('OpenAI returned empty content');
+      console.warn(`⚠️ [semanticAnalyzer] ${result.provider} returned empty content`);
+      throw new Error('Vision provider returned empty content');
     }
     const parsed = parseSemanticResponse(content);
     // Validate semantic response structure
@@ -94,7 +73,8 @@
     parsed.confidence.overall = (parsed.confidence.semantic + parsed.confidence.measurements) / 2;
     // Set overall confidence to semantic confidence only
     parsed.confidence.overall = parsed.confidence.semantic;
-    console.log('✅ [semanticAnalyzer] OpenAI semantic analysis successful', {
+    console.log('✅ [semanticAnalyzer] Semantic analysis successful', {
+      provider: result.provider,
       muscularity: parsed.muscularity_level,
       adiposity: parsed.adiposity_level,
       bodyShapePrimary: parsed.body_shape_primary,
@@ -110,7 +90,7 @@
     });
     return parsed;
   } catch (fetchError) {
-    console.error('❌ [semanticAnalyzer] OpenAI API request failed:', fetchError);
+    console.error('❌ [semanticAnalyzer] Vision API request failed:', fetchError);
     throw fetchError;
   }
 }
@@ -121,13 +101,31 @@
 QUALITÉ PHOTOS:
 - Face: ${userMetrics.frontReport.quality?.blur_score > 0.6 ? 'Nette' : 'Floue'}, luminosité ${Math.round((userMetrics.frontReport.quality?.brightness || 0.5) * 100)}%
 - Profil: ${userMetrics.profileReport.quality?.blur_score > 0.6 ? 'Nette' : 'Floue'}, luminosité ${Math.round((userMetrics.profileReport.quality?.brightness || 0.5) * 100)}%
-- BMI estimé: ${bmi.toFixed(1)}
+${(userMetrics.additionalPhotos || []).map((photo)=>`- Vue de ${viewLabel(photo.view)}: ${photo.report?.quality?.blur_score > 0.6 ? 'Nette' : 'Floue'}, luminosité ${Math.round((photo.report?.quality?.brightness || 0.5) * 100)}%\n`).join('')}- BMI estimé: ${bmi.toFixed(1)}
 `;
+  const additionalViews = (userMetrics.additionalPhotos || []).map((photo)=>photo.view);
+  const photoDescription = `ces ${2 + additionalViews.length} photos (${[
+    'front',
+    'profile',
+    ...additionalViews
+  ].map(viewLabel).join('/')}${additionalViews.length > 0 ? ', dans cet ordre' : ''})`;
+  const backWidthScore = additionalViews.length > 0 ? `,
+    "back_width": number (-1 à +1, largeur du dos vue de derrière)` : '';
   // Extraction des nouveaux scores de musculature
   const muscleDefinitionScore = userMetrics.estimated_muscle_definition_score !== undefined ? userMetrics.estimated_muscle_definition_score.toFixed(2) : 'N/A';
   const muscleVolumeScore = userMetrics.estimated_muscle_volume_score !== undefined ? userMetrics.estimated_muscle_volume_score.toFixed(2) : 'N/A';
-  return `Tu es un expert en analyse morphologique sémantique CORPORELLE. À partir de ces 2 photos (face/profil), extrais le profil sémantique morphologique BRUT du CORPS uniquement.
-
+  return `Tu es un expert en analyse morphologique sémantique CORPORELLE. À partir de ${photoDescription}, extrais le profil sémantique morphologique BRUT du CORPS uniquement.
+${describeAdditionalViews(additionalViews, 3)}${describePrivacyMasking([
+    {
+      view: 'front',
+      report: userMetrics.frontReport
+    },
+    {
+      view: 'profile',
+      report: userMetrics.profileReport
+    },
+    ...userMetrics.additionalPhotos || []
+  ])}
 PROFIL UTILISATEUR:
 - Taille: ${userMetrics.height_cm}cm
 - Poids: ${userMetrics.weight_kg}kg  
@@ -196,7 +194,7 @@ Retourne JSON avec :
     "chest_depth": number (-1 à +1, profondeur/projection de la poitrine),
     "waist_circ": number (-1 à +1, circonférence de la taille),
     "hips_width": number (-1 à +1, largeur des hanches),
-    "glutes_projection": number (-1 à +1, projection des fessiers)
+    "glutes_projection": number (-1 à +1, projection des fessiers)${backWidthScore}
   },
   "flags": {
     "clothes_baggy": boolean (vêtements amples qui masquent la forme),
@@ -237,7 +235,7 @@ IMPORTANT:
 Réponds en JSON compact uniquement.`;
 }
 /**
- * Parse semantic response from OpenAI
+ * Parse semantic response from the vision provider
  */ function parseSemanticResponse(content) {
   let jsonContent = content.trim();
   // Clean JSON extraction
@@ -334,5 +332,5 @@ function createFallbackMeasurements(userMetrics) {
   };
 }
 function createDetailedSemanticAPIError(status, errorBody) {
-  return `OpenAI API error: ${status} - ${errorBody}`;
+  return `Vision API error: ${status} - ${errorBody}`;
 }
@@ -0,0 +1,71 @@
+import { PHOTO_BUCKET, USER_DATA_TABLES, countUserRows, listUserPhotoPaths } from '../_shared/utils/userData.ts';
+/**
+ * Account Eraser
+ * Cascade deletion of a user's photos and rows, then a verification pass that
+ * re-reads every table and folder. The auth user is only deleted once nothing is left,
+ * so a partial failure can be retried with the same account.
+ */ /** Storage remove() accepts up to 1000 paths per call */ const REMOVE_BATCH_SIZE = 1000;
+async function deletePhotos(supabase, userId) {
+  const paths = await listUserPhotoPaths(supabase, userId);
+  for(let index = 0; index < paths.length; index += REMOVE_BATCH_SIZE){
+    const { error } = await supabase.storage.from(PHOTO_BUCKET).remove(paths.slice(index, index + REMOVE_BATCH_SIZE));
+    if (error) {
+      throw new Error(`Failed to delete photos: ${error.message}`);
+    }
+  }
+  return paths.length;
+}
+async function deleteRows(supabase, userId) {
+  const deleted = {};
+  for (const { table } of USER_DATA_TABLES){
+    const { data, error } = await supabase.from(table).delete().eq('user_id', userId).select('user_id');
+    if (error) {
+      throw new Error(`Failed to delete ${table}: ${error.message}`);
+    }
+    deleted[table] = data?.length || 0;
+  }
+  return deleted;
+}
+/**
+ * Delete everything stored for the user, verify, then delete the auth account
+ */ export async function eraseUserAccount(supabase, userId, traceId) {
+  const deletedPhotos = await deletePhotos(supabase, userId);
+  const deletedRows = await deleteRows(supabase, userId);
+  const remainingRows = await countUserRows(supabase, userId);
+  const remainingPhotos = (await listUserPhotoPaths(supabase, userId)).length;
+  const verified = remainingPhotos === 0 && Object.values(remainingRows).every((count)=>count === 0);
+  console.log(`🗑️ [user-data-delete] [${traceId}] Data deleted`, {
+    userId,
+    deletedPhotos,
+    deletedRows,
+    remainingRows,
+    remainingPhotos,
+    verified,
+    philosophy: 'gdpr_right_to_erasure'
+  });
+  const report = {
+    verified,
+    deleted: {
+      photos: deletedPhotos,
+      rows: deletedRows
+    },
+    remaining: {
+      photos: remainingPhotos,
+      rows: remainingRows
+    },
+    account_deleted: false
+  };
+  if (!verified) return report;
+  const { error } = await supabase.auth.admin.deleteUser(userId);
+  if (error) {
+    // Reported, not thrown: the caller must tell the user their data is already gone
+    return {
+      ...report,
+      account_error: error.message
+    };
+  }
+  return {
+    ...report,
+    account_deleted: true
+  };
+}
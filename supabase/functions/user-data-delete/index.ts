@@ -0,0 +1,126 @@
+import { jsonResponse, corsHeaders } from './response.ts';
+import { eraseUserAccount } from './accountEraser.ts';
+import { withAuth } from '../_shared/utils/auth.ts';
+
+/** Must be sent in the body: the client asks the user to type a confirmation first */
+const DELETE_CONFIRMATION = 'DELETE_MY_ACCOUNT';
+
+/**
+ * User Data Delete Edge Function - GDPR right to erasure
+ * Deletes every photo and row of the calling user, verifies nothing is left and then
+ * deletes the auth account. The user is taken from the verified JWT only (withAuth).
+ */
+Deno.serve(withAuth(async (req, auth) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse(
+      {
+        error: "Method not allowed",
+      },
+      405
+    );
+  }
+
+  const traceId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error('❌ [user-data-delete] Missing Supabase configuration', {
+      hasUrl: !!supabaseUrl,
+      hasServiceKey: !!supabaseServiceKey,
+    });
+    return jsonResponse(
+      {
+        error: "Supabase configuration missing",
+      },
+      500
+    );
+  }
+
+  try {
+    const { createClient } = await import('npm:@supabase/supabase-js@2.54.0');
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    const body = await req.json().catch(() => ({}));
+    if (body?.confirm !== DELETE_CONFIRMATION) {
+      return jsonResponse(
+        {
+          error: `Deletion must be confirmed with confirm: "${DELETE_CONFIRMATION}"`,
+        },
+        400
+      );
+    }
+
+    const report = await eraseUserAccount(supabase, auth.userId, traceId);
+
+    if (!report.verified) {
+      console.error(`❌ [user-data-delete] [${traceId}] Verification failed, account kept for retry`, {
+        userId: auth.userId,
+        remaining: report.remaining,
+      });
+      return jsonResponse(
+        {
+          error: "Deletion could not be verified",
+          ...report,
+          trace_id: traceId,
+        },
+        500
+      );
+    }
+
+    if (!report.account_deleted) {
+      console.error(`❌ [user-data-delete] [${traceId}] Data erased but account deletion failed`, {
+        userId: auth.userId,
+        error: report.account_error,
+      });
+      return jsonResponse(
+        {
+          error: "account_deletion_failed",
+          data_erased: true,
+          ...report,
+          trace_id: traceId,
+        },
+        500
+      );
+    }
+
+    console.log(`✅ [user-data-delete] [${traceId}] Account erased`, {
+      userId: auth.userId,
+      durationMs: Date.now() - startTime,
+      philosophy: 'gdpr_right_to_erasure',
+    });
+
+    return jsonResponse({
+      ...report,
+      trace_id: traceId,
+    });
+  } catch (error) {
+    console.error(`❌ [user-data-delete] [${traceId}] Deletion failed`, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      durationMs: Date.now() - startTime,
+    });
+    return jsonResponse(
+      {
+        error: error instanceof Error ? error.message : "Deletion failed",
+        trace_id: traceId,
+      },
+      500
+    );
+  }
+}, {
+  corsHeaders,
+}));
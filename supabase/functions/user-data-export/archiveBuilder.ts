@@ -0,0 +1,79 @@
+import { strToU8, zipSync } from 'npm:fflate@0.8.2';
+import { PHOTO_BUCKET, USER_DATA_TABLES, listUserPhotoPaths } from '../_shared/utils/userData.ts';
+/**
+ * Archive Builder
+ * Collects every table row and photo of a user into one ZIP: a JSON file per table,
+ * the avatar payload on its own, the photos under photos/ and a manifest.
+ */ /** Avatar fields of user_profile.preferences, exported as avatar.json for readability */ const AVATAR_PREFERENCE_KEYS = [
+  'avatar_version',
+  'final_shape_params',
+  'final_limb_masses',
+  'skin_tone',
+  'resolved_gender',
+  'gltf_model_id',
+  'material_config_version',
+  'mapping_version',
+  'face'
+];
+function toJsonFile(value) {
+  return strToU8(JSON.stringify(value, null, 2));
+}
+/**
+ * Build the export archive of one user
+ */ export async function buildUserArchive(supabase, userId, traceId) {
+  const files = {};
+  const tableCounts = {};
+  for (const { table, exportName } of USER_DATA_TABLES){
+    const { data, error } = await supabase.from(table).select('*').eq('user_id', userId);
+    if (error) {
+      throw new Error(`Failed to export ${table}: ${error.message}`);
+    }
+    files[exportName] = toJsonFile(data || []);
+    tableCounts[table] = data?.length || 0;
+    if (table === 'user_profile' && data?.[0]?.preferences) {
+      const preferences = data[0].preferences;
+      files['avatar.json'] = toJsonFile(Object.fromEntries(AVATAR_PREFERENCE_KEYS.filter((key)=>key in preferences).map((key)=>[
+          key,
+          preferences[key]
+        ])));
+    }
+  }
+  const photoPaths = await listUserPhotoPaths(supabase, userId);
+  const missingPhotos = [];
+  for (const path of photoPaths){
+    const { data, error } = await supabase.storage.from(PHOTO_BUCKET).download(path);
+    if (error || !data) {
+      // Removed by the retention job between listing and download: listed in the manifest instead
+      missingPhotos.push(path);
+      continue;
+    }
+    // Already JPEG: stored without recompression
+    files[`photos/${path}`] = [
+      new Uint8Array(await data.arrayBuffer()),
+      {
+        level: 0
+      }
+    ];
+  }
+  const manifest = {
+    user_id: userId,
+    exported_at: new Date().toISOString(),
+    trace_id: traceId,
+    tables: tableCounts,
+    photos: photoPaths.length - missingPhotos.length,
+    missing_photos: missingPhotos
+  };
+  files['manifest.json'] = toJsonFile(manifest);
+  console.log(`📦 [user-data-export] [${traceId}] Archive content collected`, {
+    tables: tableCounts,
+    photos: manifest.photos,
+    missingPhotos: missingPhotos.length,
+    philosophy: 'gdpr_data_portability'
+  });
+  return {
+    archive: zipSync(files, {
+      level: 6
+    }),
+    manifest
+  };
+}
@@ -0,0 +1,88 @@
+import { jsonResponse, corsHeaders } from './response.ts';
+import { buildUserArchive } from './archiveBuilder.ts';
+import { withAuth } from '../_shared/utils/auth.ts';
+
+/**
+ * User Data Export Edge Function - GDPR data portability
+ * Returns a ZIP of everything stored for the calling user: profile, scan metrics,
+ * avatar payloads, face profiles and photos. The user is taken from the verified JWT only (withAuth).
+ */
+Deno.serve(withAuth(async (req, auth) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse(
+      {
+        error: "Method not allowed",
+      },
+      405
+    );
+  }
+
+  const traceId = crypto.randomUUID();
+  const startTime = Date.now();
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    console.error('❌ [user-data-export] Missing Supabase configuration', {
+      hasUrl: !!supabaseUrl,
+      hasServiceKey: !!supabaseServiceKey,
+    });
+    return jsonResponse(
+      {
+        error: "Supabase configuration missing",
+      },
+      500
+    );
+  }
+
+  try {
+    const { createClient } = await import('npm:@supabase/supabase-js@2.54.0');
+    const supabase = createClient(supabaseUrl, supabaseServiceKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    });
+
+    const { archive, manifest } = await buildUserArchive(supabase, auth.userId, traceId);
+
+    console.log(`✅ [user-data-export] [${traceId}] Export ready`, {
+      userId: auth.userId,
+      sizeKB: Math.round(archive.byteLength / 1024),
+      durationMs: Date.now() - startTime,
+      philosophy: 'gdpr_data_portability',
+    });
+
+    // octet-stream: supabase-js invoke() hands binary bodies back as a Blob
+    return new Response(archive, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/octet-stream",
+        "Content-Disposition": `attachment; filename="export-${manifest.exported_at.slice(0, 10)}.zip"`,
+      },
+    });
+  } catch (error) {
+    console.error(`❌ [user-data-export] [${traceId}] Export failed`, {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      durationMs: Date.now() - startTime,
+    });
+    return jsonResponse(
+      {
+        error: "Export failed",
+        trace_id: traceId,
+      },
+      500
+    );
+  }
+}, {
+  corsHeaders,
+}));
@@ -0,0 +1,64 @@
+/*
+  # Scan Pipeline Checkpoints
+
+  1. New Tables
+    - `scan_pipeline_checkpoints` - Result of each completed vision stage (scan-estimate, scan-semantic),
+      keyed by the client scan id so a retried pipeline does not pay for the same analysis twice
+      - `client_scan_id` (text) - Client-generated scan id shared by every stage of one capture
+      - `user_id` (uuid) - Owner of the scan
+      - `stage` (text) - 'estimate' or 'semantic'
+      - `input_hash` (text) - SHA-256 of the stage inputs; a retake under the same scan id invalidates the checkpoint
+      - `result` (jsonb) - Full stage response as returned to the client
+
+  2. New Functions
+    - `purge_expired_scan_pipeline_checkpoints` - Deletes checkpoints past their 24 hour TTL (reads
+      already ignore them) and returns the count. Service role only: scheduled daily with pg_cron (see README)
+
+  3. Security
+    - RLS enabled; users can read their own checkpoints
+    - Writes are performed by Edge Functions with the service role only
+
+  4. Performance
+    - Primary key on (user_id, client_scan_id, stage): client scan ids are generated on the device,
+      so two users sending the same id never share a checkpoint
+    - Index on updated_at for expiry cleanup
+*/
+
+CREATE TABLE IF NOT EXISTS scan_pipeline_checkpoints (
+  client_scan_id text NOT NULL,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  stage text NOT NULL CHECK (stage IN ('estimate', 'semantic')),
+  input_hash text NOT NULL,
+  result jsonb NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, client_scan_id, stage)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scan_pipeline_checkpoints_updated_at
+  ON scan_pipeline_checkpoints (updated_at);
+
+ALTER TABLE scan_pipeline_checkpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own scan pipeline checkpoints"
+  ON scan_pipeline_checkpoints
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION purge_expired_scan_pipeline_checkpoints()
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH purged AS (
+    DELETE FROM scan_pipeline_checkpoints
+    WHERE updated_at < now() - interval '24 hours'
+    RETURNING 1
+  )
+  SELECT count(*)::integer FROM purged;
+$$;
+
+REVOKE ALL ON FUNCTION purge_expired_scan_pipeline_checkpoints() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION purge_expired_scan_pipeline_checkpoints() TO service_role;
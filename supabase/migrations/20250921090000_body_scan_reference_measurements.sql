@@ -0,0 +1,82 @@
+/*
+  # Body Scan Reference Measurements
+
+  1. New Tables
+    - `body_scan_reference_measurements` - Tape measurements entered by the user for one scan,
+      used to learn a per-user correction of the AI estimates
+      - `scan_id` (uuid) - Body scan the measurements were taken for (one row per scan)
+      - `user_id` (uuid) - Owner of the scan
+      - `waist_cm`, `hips_cm`, `chest_cm` (numeric) - Tape measurements, null when not measured
+      - `raw_estimates` (jsonb) - AI estimates of the scan when the tape values were entered,
+        so later pipeline changes do not rewrite the learning history
+      - `measured_at` (timestamptz) - When the tape measurements were taken
+
+  2. Security
+    - RLS enabled; users manage their own reference measurements, and may only attach
+      them to a body scan they own
+    - scan-estimate reads them with the service role to calibrate new scans
+
+  3. Performance
+    - Unique index on scan_id
+    - Index on (user_id, measured_at) for the most recent samples of a user
+*/
+
+CREATE TABLE IF NOT EXISTS body_scan_reference_measurements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  scan_id uuid NOT NULL REFERENCES body_scans(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  waist_cm numeric CHECK (waist_cm IS NULL OR waist_cm BETWEEN 30 AND 250),
+  hips_cm numeric CHECK (hips_cm IS NULL OR hips_cm BETWEEN 30 AND 250),
+  chest_cm numeric CHECK (chest_cm IS NULL OR chest_cm BETWEEN 30 AND 250),
+  raw_estimates jsonb NOT NULL DEFAULT '{}'::jsonb,
+  measured_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_body_scan_reference_measurements_scan_id
+  ON body_scan_reference_measurements (scan_id);
+
+CREATE INDEX IF NOT EXISTS idx_body_scan_reference_measurements_user_measured_at
+  ON body_scan_reference_measurements (user_id, measured_at DESC);
+
+ALTER TABLE body_scan_reference_measurements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own reference measurements"
+  ON body_scan_reference_measurements
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own reference measurements"
+  ON body_scan_reference_measurements
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM body_scans
+      WHERE body_scans.id = body_scan_reference_measurements.scan_id
+        AND body_scans.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update own reference measurements"
+  ON body_scan_reference_measurements
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM body_scans
+      WHERE body_scans.id = body_scan_reference_measurements.scan_id
+        AND body_scans.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own reference measurements"
+  ON body_scan_reference_measurements
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
@@ -0,0 +1,89 @@
+/*
+  # Private Scan Photos and Photo Retention
+
+  1. Storage
+    - `body-scans` bucket made private: scan photos are only reachable through short-lived signed URLs
+    - Users manage the objects under their own folder (`scans/<user_id>/...`, `face-scans/<user_id>/...`)
+
+  2. Changes
+    - `body_scans.client_scan_id` (text) - Client scan id of the capture, i.e. the photo folder name
+    - `body_scans.photos_deleted_at` (timestamptz) - When the retention job removed the photo files;
+      `metrics.photos_metadata` (capture reports) is kept
+
+  3. New Functions
+    - `scan_photos_due_for_deletion` - Photo objects older than their owner's retention period
+      (`user_profile.preferences.privacy.scan_photo_retention_days`, 30 days by default).
+      Service role only: called by the scheduled `scan-photo-retention` Edge Function
+
+  4. Performance
+    - Index on body_scans (user_id, client_scan_id) to flag scans once their photos are deleted
+*/
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('body-scans', 'body-scans', false)
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+CREATE POLICY "Users can read own scan photos"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (bucket_id = 'body-scans' AND (storage.foldername(name))[2] = auth.uid()::text);
+
+CREATE POLICY "Users can upload own scan photos"
+  ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'body-scans' AND (storage.foldername(name))[2] = auth.uid()::text);
+
+-- Retried pipelines re-upload (upsert) under the same client scan id
+CREATE POLICY "Users can replace own scan photos"
+  ON storage.objects
+  FOR UPDATE
+  TO authenticated
+  USING (bucket_id = 'body-scans' AND (storage.foldername(name))[2] = auth.uid()::text)
+  WITH CHECK (bucket_id = 'body-scans' AND (storage.foldername(name))[2] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own scan photos"
+  ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'body-scans' AND (storage.foldername(name))[2] = auth.uid()::text);
+
+ALTER TABLE body_scans ADD COLUMN IF NOT EXISTS client_scan_id text;
+ALTER TABLE body_scans ADD COLUMN IF NOT EXISTS photos_deleted_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_body_scans_user_client_scan_id
+  ON body_scans (user_id, client_scan_id);
+
+-- Oldest first, so a backlog is worked through across runs
+CREATE OR REPLACE FUNCTION scan_photos_due_for_deletion(batch_size integer DEFAULT 500)
+RETURNS TABLE (
+  object_name text,
+  user_id text,
+  client_scan_id text,
+  uploaded_at timestamptz
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, storage
+AS $$
+  SELECT
+    o.name,
+    (storage.foldername(o.name))[2],
+    (storage.foldername(o.name))[3],
+    o.created_at
+  FROM storage.objects o
+  LEFT JOIN user_profile p
+    ON p.user_id::text = (storage.foldername(o.name))[2]
+  WHERE o.bucket_id = 'body-scans'
+    AND (storage.foldername(o.name))[1] IN ('scans', 'face-scans')
+    AND o.created_at < now() - make_interval(
+      days => COALESCE((p.preferences -> 'privacy' ->> 'scan_photo_retention_days')::integer, 30)
+    )
+  ORDER BY o.created_at
+  LIMIT LEAST(GREATEST(batch_size, 1), 1000);
+$$;
+
+REVOKE ALL ON FUNCTION scan_photos_due_for_deletion(integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION scan_photos_due_for_deletion(integer) TO service_role;
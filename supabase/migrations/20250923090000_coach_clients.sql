@@ -0,0 +1,33 @@
+/*
+  # Coach Client Assignments
+
+  1. New Tables
+    - `coach_clients` - Clients a coach may read through the edge functions
+      - `coach_id` (uuid) - Coach account; the coach role itself is `auth.users.raw_app_meta_data.role = 'coach'`
+      - `client_id` (uuid) - Assigned client
+      - `created_at` (timestamptz) - When the assignment was made
+
+  2. Security
+    - RLS enabled; coaches and clients can see the assignments they are part of
+    - Assignments are written by the service role only (no insert/update/delete policy)
+    - Rows go away with either account (ON DELETE CASCADE), including through user-data-delete
+*/
+
+CREATE TABLE IF NOT EXISTS coach_clients (
+  coach_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  client_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (coach_id, client_id),
+  CHECK (coach_id <> client_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_coach_clients_client_id
+  ON coach_clients (client_id);
+
+ALTER TABLE coach_clients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Coaches and clients can read own assignments"
+  ON coach_clients
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = coach_id OR auth.uid() = client_id);
@@ -0,0 +1,170 @@
+/*
+  # AI Usage Quotas
+
+  1. New Tables
+    - `ai_quota_limits` - Daily and monthly limits of each AI feature per plan
+      - `plan` (text) - Plan name, read from `auth.users.raw_app_meta_data.plan` (`free` when unset)
+      - `feature` (text) - `scan` (scan-estimate, scan-semantic, scan-refine-morphs),
+        `face_scan` (face-refine-morphs) or `insights` (generate-morph-insights)
+      - `daily_limit`, `monthly_limit` (integer) - Allowed uses per UTC day and per UTC month
+    - `ai_quota_events` - One row per counted use of a feature
+      - `user_id` (uuid) - User charged
+      - `feature` (text) - Feature used
+      - `request_key` (text) - Client scan id when known: the stages and retries of one scan share the use
+      - `reuse_count` (integer) - Later calls served by this use without being counted
+      - `created_at` (timestamptz) - When the use was counted
+
+  2. New Functions
+    - `consume_ai_quota` - Checks the limits of the user's plan and counts the use if allowed.
+      Service role only: called by the AI-backed Edge Functions before their OpenAI calls.
+      The request key is client-supplied, so a counted use only covers calls with the same key
+      for 24 hours and 10 calls; past either bound, or on a forced recompute, the call counts again
+
+  3. Security
+    - RLS enabled on both tables; users can read the limits and their own usage
+    - Writes go through `consume_ai_quota` only
+
+  4. Performance
+    - Index on ai_quota_events (user_id, feature, created_at) for the period counts
+    - Index on ai_quota_events (user_id, feature, request_key, created_at) for the per-scan deduplication
+*/
+
+CREATE TABLE IF NOT EXISTS ai_quota_limits (
+  plan text NOT NULL,
+  feature text NOT NULL CHECK (feature IN ('scan', 'face_scan', 'insights')),
+  daily_limit integer NOT NULL CHECK (daily_limit >= 0),
+  monthly_limit integer NOT NULL CHECK (monthly_limit >= 0),
+  PRIMARY KEY (plan, feature)
+);
+
+INSERT INTO ai_quota_limits (plan, feature, daily_limit, monthly_limit) VALUES
+  ('free', 'scan', 3, 20),
+  ('free', 'face_scan', 3, 20),
+  ('free', 'insights', 10, 60),
+  ('premium', 'scan', 10, 120),
+  ('premium', 'face_scan', 10, 120),
+  ('premium', 'insights', 50, 600)
+ON CONFLICT (plan, feature) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS ai_quota_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  feature text NOT NULL,
+  request_key text,
+  reuse_count integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_quota_events_user_feature_created_at
+  ON ai_quota_events (user_id, feature, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_ai_quota_events_request_key
+  ON ai_quota_events (user_id, feature, request_key, created_at DESC)
+  WHERE request_key IS NOT NULL;
+
+ALTER TABLE ai_quota_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ai_quota_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read quota limits"
+  ON ai_quota_limits
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Users can read own quota usage"
+  ON ai_quota_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Returns { allowed, plan, feature, period, limit, used, reset_at }; period is the one that blocked,
+-- or the daily one when allowed
+CREATE OR REPLACE FUNCTION consume_ai_quota(
+  p_user_id uuid,
+  p_feature text,
+  p_plan text DEFAULT 'free',
+  p_request_key text DEFAULT NULL,
+  p_recompute boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_limits ai_quota_limits%ROWTYPE;
+  v_day_start timestamptz := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_month_start timestamptz := date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_daily_used integer;
+  v_monthly_used integer;
+  v_shared_event ai_quota_events%ROWTYPE;
+  -- Bounds of one counted use (the counted call plus 9 reuses): a pipeline runs its stages
+  -- within minutes and its retries within hours
+  c_reuse_window interval := interval '24 hours';
+  c_max_reuses integer := 9;
+BEGIN
+  SELECT * INTO v_limits FROM ai_quota_limits WHERE plan = p_plan AND feature = p_feature;
+  IF NOT FOUND THEN
+    SELECT * INTO v_limits FROM ai_quota_limits WHERE plan = 'free' AND feature = p_feature;
+  END IF;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No quota limits for feature %', p_feature;
+  END IF;
+
+  -- Serialize concurrent calls of one user so two requests cannot both take the last unit
+  PERFORM pg_advisory_xact_lock(hashtext(p_user_id::text || ':' || p_feature));
+
+  SELECT
+    count(*) FILTER (WHERE created_at >= v_day_start),
+    count(*)
+  INTO v_daily_used, v_monthly_used
+  FROM ai_quota_events
+  WHERE user_id = p_user_id
+    AND feature = p_feature
+    AND created_at >= v_month_start;
+
+  -- Later stage or retry of a use already counted, within its bounds
+  IF p_request_key IS NOT NULL AND NOT p_recompute THEN
+    SELECT * INTO v_shared_event FROM ai_quota_events
+    WHERE user_id = p_user_id AND feature = p_feature AND request_key = p_request_key
+    ORDER BY created_at DESC
+    LIMIT 1;
+  END IF;
+
+  IF v_shared_event.id IS NOT NULL
+    AND v_shared_event.created_at > now() - c_reuse_window
+    AND v_shared_event.reuse_count < c_max_reuses
+  THEN
+    UPDATE ai_quota_events SET reuse_count = reuse_count + 1 WHERE id = v_shared_event.id;
+    RETURN jsonb_build_object(
+      'allowed', true, 'plan', v_limits.plan, 'feature', p_feature, 'period', 'day',
+      'limit', v_limits.daily_limit, 'used', v_daily_used, 'reset_at', v_day_start + interval '1 day'
+    );
+  END IF;
+
+  IF v_monthly_used >= v_limits.monthly_limit THEN
+    RETURN jsonb_build_object(
+      'allowed', false, 'plan', v_limits.plan, 'feature', p_feature, 'period', 'month',
+      'limit', v_limits.monthly_limit, 'used', v_monthly_used, 'reset_at', v_month_start + interval '1 month'
+    );
+  END IF;
+
+  IF v_daily_used >= v_limits.daily_limit THEN
+    RETURN jsonb_build_object(
+      'allowed', false, 'plan', v_limits.plan, 'feature', p_feature, 'period', 'day',
+      'limit', v_limits.daily_limit, 'used', v_daily_used, 'reset_at', v_day_start + interval '1 day'
+    );
+  END IF;
+
+  INSERT INTO ai_quota_events (user_id, feature, request_key)
+  VALUES (p_user_id, p_feature, p_request_key);
+
+  RETURN jsonb_build_object(
+    'allowed', true, 'plan', v_limits.plan, 'feature', p_feature, 'period', 'day',
+    'limit', v_limits.daily_limit, 'used', v_daily_used + 1, 'reset_at', v_day_start + interval '1 day'
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION consume_ai_quota(uuid, text, text, text, boolean) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_ai_quota(uuid, text, text, text, boolean) TO service_role;
@@ -0,0 +1,92 @@
+/*
+  # AI Usage Accounting
+
+  1. New Tables
+    - `ai_usage` - One row per AI model call made by the Edge Functions
+      - `function_name` (text) - Calling function (scan-estimate, scan-semantic, scan-refine-morphs,
+        face-semantic, face-refine-morphs)
+      - `provider`, `model` (text) - Backend and model that answered
+      - `user_id` (uuid) - User the call was made for; set to null when the account is deleted,
+        so the cost history survives the erasure
+      - `client_scan_id` (text) - Client scan id of the pipeline run
+      - `server_scan_id` (uuid) - Stored scan, filled in by scan-commit / face-commit
+      - `prompt_tokens`, `completion_tokens`, `total_tokens` (integer) - Usage reported by the model
+      - `latency_ms` (integer) - Duration of the call
+      - `cost_usd` (numeric) - Computed from the model price list (null when the model has no known price)
+      - `success` (boolean), `error` (text) - Outcome of the call
+      - `trace_id` (text) - Function trace id, for log correlation
+
+  2. New Functions
+    - `ai_usage_daily_summary` - Calls, tokens and cost per UTC day and function over a date range.
+      Service role only: read by the `ai-usage-summary` Edge Function
+
+  3. Security
+    - RLS enabled with no policy: only the service role reads or writes AI usage
+
+  4. Performance
+    - Index on created_at for the summary, on (user_id, client_scan_id) for the scan backfill
+*/
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  function_name text NOT NULL,
+  provider text NOT NULL,
+  model text NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  client_scan_id text,
+  server_scan_id uuid,
+  prompt_tokens integer,
+  completion_tokens integer,
+  total_tokens integer,
+  latency_ms integer NOT NULL,
+  cost_usd numeric(12, 6),
+  success boolean NOT NULL,
+  error text,
+  trace_id text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_created_at
+  ON ai_usage (created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user_client_scan_id
+  ON ai_usage (user_id, client_scan_id);
+
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION ai_usage_daily_summary(p_from date, p_to date)
+RETURNS TABLE (
+  day date,
+  function_name text,
+  calls bigint,
+  failed_calls bigint,
+  prompt_tokens bigint,
+  completion_tokens bigint,
+  cost_usd numeric,
+  unpriced_calls bigint,
+  avg_latency_ms integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (u.created_at AT TIME ZONE 'UTC')::date,
+    u.function_name,
+    count(*),
+    count(*) FILTER (WHERE NOT u.success),
+    COALESCE(sum(u.prompt_tokens), 0),
+    COALESCE(sum(u.completion_tokens), 0),
+    COALESCE(sum(u.cost_usd), 0),
+    count(*) FILTER (WHERE u.success AND u.cost_usd IS NULL),
+    round(avg(u.latency_ms))::integer
+  FROM ai_usage u
+  WHERE u.created_at >= p_from::timestamp AT TIME ZONE 'UTC'
+    AND u.created_at < (p_to + 1)::timestamp AT TIME ZONE 'UTC'
+  GROUP BY 1, 2
+  ORDER BY 1, 2;
+$$;
+
+REVOKE ALL ON FUNCTION ai_usage_daily_summary(date, date) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION ai_usage_daily_summary(date, date) TO service_role;
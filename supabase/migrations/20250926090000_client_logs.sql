@@ -0,0 +1,67 @@
+/*
+  # Client Logs
+
+  1. New Tables
+    - `client_logs` - Log entries shipped by the app through the `log-ingest` Edge Function
+      - `user_id` (uuid) - Signed-in user who shipped the batch; rows go with the account
+      - `level` (text) - error, warn, info, debug or trace
+      - `message` (text) - Log message, scrubbed on the device
+      - `context` (jsonb) - Structured context, scrubbed on the device (no emails, photo URLs or measurements)
+      - `trace_id` (text) - Scan trace id, matches the `x-trace-id` logs of the Edge Functions
+      - `client_scan_id` (text) - Client scan id when the log belongs to a scan
+      - `client_timestamp` (timestamptz) - Time the entry was logged on the device
+      - `user_agent` (text) - Browser user agent of the batch
+
+  2. New Functions
+    - `purge_expired_client_logs` - Deletes client logs older than 30 days and returns the count.
+      Service role only: scheduled daily with pg_cron (see README)
+
+  3. Security
+    - RLS enabled with no policy: only the service role reads or writes client logs
+
+  4. Performance
+    - Index on created_at for retention and browsing, on trace_id for scan correlation
+    - Index on (user_id, created_at) for the per-user rate limit of log-ingest
+*/
+
+CREATE TABLE IF NOT EXISTS client_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  level text NOT NULL CHECK (level IN ('error', 'warn', 'info', 'debug', 'trace')),
+  message text NOT NULL,
+  context jsonb NOT NULL DEFAULT '{}'::jsonb,
+  trace_id text,
+  client_scan_id text,
+  client_timestamp timestamptz,
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_logs_created_at
+  ON client_logs (created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_client_logs_user_id_created_at
+  ON client_logs (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_client_logs_trace_id
+  ON client_logs (trace_id)
+  WHERE trace_id IS NOT NULL;
+
+ALTER TABLE client_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION purge_expired_client_logs()
+RETURNS integer
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH purged AS (
+    DELETE FROM client_logs
+    WHERE created_at < now() - interval '30 days'
+    RETURNING 1
+  )
+  SELECT count(*)::integer FROM purged;
+$$;
+
+REVOKE ALL ON FUNCTION purge_expired_client_logs() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION purge_expired_client_logs() TO service_role;
@@ -0,0 +1,35 @@
+/*
+  # Merge Body Scan Metrics
+
+  1. New Functions
+    - `merge_body_scan_metrics` - Merges a JSON patch into body_scans.metrics (top-level keys,
+      jsonb `||`) in a single statement. Lets the client add one key, e.g. mesh_measurements,
+      without rewriting the whole document from a possibly stale copy.
+
+  2. Security
+    - SECURITY INVOKER: runs under the caller's body_scans RLS, like a direct update
+*/
+
+CREATE OR REPLACE FUNCTION merge_body_scan_metrics(p_scan_id uuid, p_patch jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_patch IS NULL OR jsonb_typeof(p_patch) <> 'object' THEN
+    RAISE EXCEPTION 'p_patch must be a JSON object';
+  END IF;
+
+  UPDATE body_scans
+  SET metrics = COALESCE(metrics, '{}'::jsonb) || p_patch
+  WHERE id = p_scan_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Body scan % not found', p_scan_id;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION merge_body_scan_metrics(uuid, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION merge_body_scan_metrics(uuid, jsonb) TO authenticated;